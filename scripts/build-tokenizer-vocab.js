@@ -0,0 +1,263 @@
+#!/usr/bin/env node
+
+/**
+ * Trains the byte-level BPE vocabulary bundled at src/tokenizers/cortex-code-bpe.tiktoken.
+ *
+ * The corpus is third-party source and docs already on disk (the TypeScript,
+ * JavaScript, Python, Rust and Markdown files under node_modules), read in sorted
+ * order so a rebuild over the same tree produces the same vocabulary. This repo's
+ * own code is left out so its identifiers don't get tokens of their own, and lines
+ * over MAX_LINE_LENGTH (minified code, inline source maps, data tables) are dropped.
+ * Text is pre-split with the same pattern TokenCounter uses, then merges are
+ * learned greedily by pair frequency. Output is in tiktoken format:
+ * `<base64 token bytes> <rank>` per line, single bytes first.
+ *
+ * Usage: node scripts/build-tokenizer-vocab.js [--merges 24000] [--corpus-mb 12] [--out path]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Must match CODE_SPLIT_PATTERN in src/token-counter.ts
+const SPLIT_PATTERN = /'(?:[sdmtSDMT]|ll|ve|re|LL|VE|RE)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+const EXTENSION_SHARES = { '.ts': 0.35, '.js': 0.35, '.md': 0.2, '.py': 0.05, '.rs': 0.05 };
+const MAX_FILE_BYTES = 200 * 1024;
+const MAX_LINE_LENGTH = 400;
+const SKIPPED_DIRS = new Set(['.git', 'dist', '.cortex', 'test', 'tests', '__tests__', 'coverage']);
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const value = (flag, fallback) => {
+    const index = args.indexOf(flag);
+    return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+  };
+  const root = path.resolve(__dirname, '..');
+  return {
+    root,
+    merges: parseInt(value('--merges', '24000'), 10),
+    corpusBytes: parseFloat(value('--corpus-mb', '12')) * 1024 * 1024,
+    out: path.resolve(value('--out', path.join(root, 'src', 'tokenizers', 'cortex-code-bpe.tiktoken')))
+  };
+}
+
+function walk(dir, files) {
+  let entries;
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) walk(fullPath, files);
+    } else if (entry.isFile() && !entry.name.endsWith('.min.js') && !entry.name.endsWith('.map')) {
+      files.push(fullPath);
+    }
+  }
+}
+
+function collectCorpus(root, corpusBytes) {
+  const files = [];
+  walk(path.join(root, 'node_modules'), files);
+
+  const budget = {};
+  for (const [ext, share] of Object.entries(EXTENSION_SHARES)) budget[ext] = corpusBytes * share;
+
+  const texts = [];
+  for (const file of files) {
+    const ext = path.extname(file);
+    if (!(ext in budget) || budget[ext] <= 0) continue;
+    const size = fs.statSync(file).size;
+    if (size === 0 || size > MAX_FILE_BYTES) continue;
+    const text = fs.readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter(line => line.length <= MAX_LINE_LENGTH)
+      .join('\n');
+    texts.push(text);
+    budget[ext] -= text.length;
+  }
+  return texts;
+}
+
+/** Pre-split counts keyed by the piece's UTF-8 bytes as a latin1 string */
+function countPieces(texts) {
+  const counts = new Map();
+  for (const text of texts) {
+    for (const match of text.matchAll(SPLIT_PATTERN)) {
+      const key = Buffer.from(match[0], 'utf-8').toString('latin1');
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/** Max-heap of [count, key] with stale entries skipped on pop */
+class PairHeap {
+  constructor() { this.items = []; }
+  push(count, key) {
+    const items = this.items;
+    items.push([count, key]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.before(items[left], items[best])) best = left;
+        if (right < items.length && this.before(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+  get size() { return this.items.length; }
+  // Higher count first; ties go to the smaller key so training is deterministic
+  before(a, b) { return a[0] > b[0] || (a[0] === b[0] && a[1] < b[1]); }
+}
+
+const PAIR_BASE = 1 << 20;
+const pairKey = (a, b) => a * PAIR_BASE + b;
+
+function train(pieceCounts, mergeCount) {
+  const tokens = [];
+  const tokenIds = new Map();
+  for (let byte = 0; byte < 256; byte++) {
+    const token = String.fromCharCode(byte);
+    tokenIds.set(token, tokens.length);
+    tokens.push(token);
+  }
+
+  const words = [];
+  const freqs = [];
+  for (const [piece, count] of pieceCounts) {
+    if (piece.length < 2) continue;
+    words.push(Array.from(piece, char => char.charCodeAt(0)));
+    freqs.push(count);
+  }
+
+  const pairCounts = new Map();
+  const pairWords = new Map();
+  const addPairs = (index, sign) => {
+    const ids = words[index];
+    for (let i = 0; i < ids.length - 1; i++) {
+      const key = pairKey(ids[i], ids[i + 1]);
+      pairCounts.set(key, (pairCounts.get(key) || 0) + sign * freqs[index]);
+      if (sign > 0) {
+        let where = pairWords.get(key);
+        if (!where) pairWords.set(key, where = new Set());
+        where.add(index);
+      }
+    }
+  };
+  words.forEach((_, index) => addPairs(index, 1));
+
+  const heap = new PairHeap();
+  for (const [key, count] of pairCounts) heap.push(count, key);
+
+  const ranks = [];
+  while (ranks.length < mergeCount && heap.size > 0) {
+    const [count, key] = heap.pop();
+    if (pairCounts.get(key) !== count || count < 2) continue;
+
+    const a = Math.floor(key / PAIR_BASE);
+    const b = key % PAIR_BASE;
+    const merged = tokens[a] + tokens[b];
+    let id = tokenIds.get(merged);
+    if (id === undefined) {
+      id = tokens.length;
+      tokenIds.set(merged, id);
+      tokens.push(merged);
+      ranks.push(merged);
+    }
+
+    const touched = new Set();
+    for (const index of pairWords.get(key) || []) {
+      const ids = words[index];
+      let found = false;
+      for (let i = 0; i < ids.length - 1; i++) {
+        if (ids[i] === a && ids[i + 1] === b) { found = true; break; }
+      }
+      if (!found) continue;
+
+      for (let i = 0; i < ids.length - 1; i++) touched.add(pairKey(ids[i], ids[i + 1]));
+      addPairs(index, -1);
+      const next = [];
+      for (let i = 0; i < ids.length; i++) {
+        if (i < ids.length - 1 && ids[i] === a && ids[i + 1] === b) {
+          next.push(id);
+          i++;
+        } else {
+          next.push(ids[i]);
+        }
+      }
+      words[index] = next;
+      addPairs(index, 1);
+      for (let i = 0; i < next.length - 1; i++) touched.add(pairKey(next[i], next[i + 1]));
+    }
+    pairCounts.delete(key);
+    pairWords.delete(key);
+
+    for (const changed of touched) {
+      const current = pairCounts.get(changed);
+      if (current === undefined) continue;
+      if (current <= 0) {
+        pairCounts.delete(changed);
+        pairWords.delete(changed);
+      } else {
+        heap.push(current, changed);
+      }
+    }
+
+    if (ranks.length % 2000 === 0 && ranks.length > 0) {
+      console.log(`  ${ranks.length} merges (last: ${JSON.stringify(Buffer.from(merged, 'latin1').toString('utf-8'))}, count ${count})`);
+    }
+  }
+
+  return ranks;
+}
+
+function main() {
+  const options = parseArgs();
+  const startTime = Date.now();
+
+  const texts = collectCorpus(options.root, options.corpusBytes);
+  const corpusSize = texts.reduce((sum, text) => sum + text.length, 0);
+  console.log(`Corpus: ${texts.length} files, ${(corpusSize / 1024 / 1024).toFixed(1)}MB`);
+
+  const pieceCounts = countPieces(texts);
+  console.log(`Pre-split into ${pieceCounts.size} distinct pieces`);
+
+  const merges = train(pieceCounts, options.merges);
+
+  const lines = [];
+  for (let byte = 0; byte < 256; byte++) {
+    lines.push(`${Buffer.from([byte]).toString('base64')} ${byte}`);
+  }
+  merges.forEach((token, index) => {
+    lines.push(`${Buffer.from(token, 'latin1').toString('base64')} ${256 + index}`);
+  });
+
+  fs.mkdirSync(path.dirname(options.out), { recursive: true });
+  fs.writeFileSync(options.out, lines.join('\n') + '\n');
+  console.log(`Wrote ${lines.length} tokens to ${path.relative(options.root, options.out)} in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+}
+
+main();
@@ -111,6 +111,12 @@ class UnifiedStorageManager {
       console.log(`   Chunks: ${stats.embeddings.chunks}`);
       console.log(`   Files: ${stats.embeddings.files}`);
       console.log(`   Size: ${stats.embeddings.size}`);
+      if (stats.embeddings.compression) {
+        const { format, compressionRatio, recallLoss } = stats.embeddings.compression;
+        console.log(`   Compression: ${format} (${compressionRatio.toFixed(1)}x smaller, ${(recallLoss * 100).toFixed(1)}% recall@10 loss)`);
+      } else {
+        console.log('   Compression: none');
+      }
       
       console.log('\n🔗 Relationships:');
       console.log(`   Symbols: ${stats.relationships.symbols}`);
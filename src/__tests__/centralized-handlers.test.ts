@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CentralizedHandlers } from '../centralized-handlers';
+import { SemanticSearcher } from '../searcher';
+import { VectorStore } from '../vector-store';
+import { EmbeddingGenerator } from '../embedder';
+import { CodebaseIndexer } from '../indexer';
+import { ContextEnhancementLayer } from '../context-enhancement-layer';
+import { ProcessPoolEmbedder } from '../process-pool-embedder';
+import { CodeChunk } from '../types';
+
+const DIMENSION = 16;
+
+/** Deterministic vectors so a regression reproduces */
+function randomVectors(count: number, dimension: number, seed: number): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+async function handlersOver(count: number): Promise<{ handlers: CentralizedHandlers; searcher: SemanticSearcher }> {
+  const store = new VectorStore();
+  await store.upsertChunks(randomVectors(count, DIMENSION, 1).map((embedding, i) => ({
+    chunk_id: `src/module${i}.ts:1:handler${i}`,
+    file_path: `src/module${i}.ts`,
+    symbol_name: `handler${i}`,
+    chunk_type: 'function',
+    start_line: 1,
+    end_line: 3,
+    content: `function handler${i}(request) {\n  return route(request, ${i});\n}`,
+    content_hash: `handler${i}`,
+    embedding,
+    relationships: { calls: ['route'], called_by: [], imports: [], exports: [], data_flow: [] },
+    language_metadata: { language: 'typescript', complexity_score: 1, dependencies: [], exports: [] }
+  }) as unknown as CodeChunk));
+
+  const queryEmbedding = randomVectors(1, DIMENSION, 2)[0];
+  const embedder = { embed: async () => queryEmbedding } as unknown as EmbeddingGenerator;
+  const searcher = new SemanticSearcher(store, embedder);
+  const handlers = new CentralizedHandlers({
+    processPool: {} as unknown as ProcessPoolEmbedder,
+    contextEnhancer: {} as unknown as ContextEnhancementLayer,
+    indexer: {} as unknown as CodebaseIndexer,
+    searcher
+  });
+  return { handlers, searcher };
+}
+
+test('the first page of a paginated search matches the plain search', async () => {
+  const { handlers, searcher } = await handlersOver(40);
+  const plain = await searcher.search({ task: 'route the request', max_chunks: 5 });
+  const response = await handlers.handleSemanticSearch({ query: 'route the request', maxChunks: 5 });
+
+  assert.equal(response.success, true);
+  assert.deepEqual(response.data.chunks.map((chunk: CodeChunk) => chunk.chunk_id), plain.chunks!.map(chunk => chunk.chunk_id));
+  assert.ok(response.data.next_cursor);
+});
+
+test('a cursor continues past the first page without repeating it', async () => {
+  const { handlers } = await handlersOver(40);
+  const first = await handlers.handleSemanticSearch({ query: 'route the request', maxChunks: 5 });
+  const second = await handlers.handleSemanticSearch({ query: 'route the request', cursor: first.data.next_cursor });
+
+  const shown = new Set(first.data.chunks.map((chunk: CodeChunk) => chunk.chunk_id));
+  assert.equal(second.data.page, 2);
+  assert.equal(second.data.chunks.length, 5);
+  assert.ok(second.data.chunks.every((chunk: CodeChunk) => !shown.has(chunk.chunk_id)));
+  assert.ok(second.data.total_results > 5);
+});
+
+test('a first page with room to spare keeps no session', async () => {
+  const { handlers } = await handlersOver(3);
+  const response = await handlers.handleSemanticSearch({ query: 'route the request', maxChunks: 5 });
+
+  assert.equal(response.data.chunks.length, 3);
+  assert.equal(response.data.next_cursor, undefined);
+});
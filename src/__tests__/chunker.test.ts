@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SmartChunker } from '../chunker';
+
+function assertUniqueIds(ids: string[]): void {
+  assert.equal(new Set(ids).size, ids.length, `duplicate chunk ids: ${ids.join(', ')}`);
+}
+
+test('config keys on one line get distinct chunk ids', async () => {
+  const chunks = await new SmartChunker().chunkFile('response.json', '{"jsonrpc":"2.0","result":{"content":[]},"id":5}');
+
+  assert.deepEqual(chunks.map(chunk => chunk.symbol_name), ['jsonrpc', 'result', 'id']);
+  assertUniqueIds(chunks.map(chunk => chunk.chunk_id));
+});
+
+test('declarators and object methods sharing a line get distinct chunk ids', async () => {
+  const chunks = await new SmartChunker().chunkFile('api.ts', [
+    'export const a = 1, b = () => 2;',
+    'const api = { get() { return 1 }, put() { return 2 } };'
+  ].join('\n'));
+
+  assert.deepEqual(chunks.map(chunk => chunk.symbol_name), ['a', 'b', 'api.get', 'api.put']);
+  assertUniqueIds(chunks.map(chunk => chunk.chunk_id));
+});
+
+test('a long root-level JSON array is not chunked per item', async () => {
+  const items = Array.from({ length: 500 }, (_, index) => ({ id: index }));
+  const chunks = await new SmartChunker().chunkFile('fixtures.json', JSON.stringify(items, null, 2));
+
+  assert.ok(chunks.length < 50, `expected few chunks, got ${chunks.length}`);
+  assertUniqueIds(chunks.map(chunk => chunk.chunk_id));
+});
+
+test('a short root-level JSON array gets a chunk per item', async () => {
+  const chunks = await new SmartChunker().chunkFile('servers.json', JSON.stringify([{ name: 'a' }, { name: 'b' }], null, 2));
+
+  assert.deepEqual(chunks.map(chunk => chunk.symbol_name), ['[0]', '[1]']);
+});
+
+test('keys of a single-line JSON document hold only their own text', async () => {
+  const chunks = await new SmartChunker().chunkFile('response.json', '{"jsonrpc":"2.0","result":{"content":[]},"id":5}');
+
+  assert.deepEqual(chunks.map(chunk => chunk.content), ['"jsonrpc":"2.0"', '"result":{"content":[]}', '"id":5']);
+  assert.equal(new Set(chunks.map(chunk => chunk.content_hash)).size, chunks.length);
+});
+
+test('keys of a pretty-printed JSON document keep their lines', async () => {
+  const chunks = await new SmartChunker().chunkFile('package.json', '{\n  "name": "cortex",\n  "private": true\n}');
+
+  assert.deepEqual(chunks.map(chunk => chunk.content), ['"name": "cortex",', '"private": true']);
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HnswIndex } from '../hnsw-index';
+import { ProductQuantizer, ScalarQuantizer, measureCompression, unpackVector } from '../embedding-quantizer';
+
+/** Deterministic vectors so a regression reproduces */
+function randomVectors(count: number, dimension: number, seed: number): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+test('int8 scorer matches cosine against the decoded vector', () => {
+  const quantizer = new ScalarQuantizer();
+  const [query, ...vectors] = randomVectors(20, 64, 1);
+
+  const score = quantizer.scorer(query);
+  for (const vector of vectors) {
+    const packed = quantizer.pack(quantizer.encode(vector));
+    assert.ok(Math.abs(score(packed) - cosine(query, quantizer.decode(packed))) < 1e-6);
+    assert.ok(Math.abs(score(packed) - cosine(query, vector)) < 0.02);
+  }
+});
+
+test('PQ scorer matches cosine against the decoded vector', () => {
+  const vectors = randomVectors(600, 32, 2);
+  const quantizer = ProductQuantizer.train(vectors, 8);
+  const query = randomVectors(1, 32, 3)[0];
+
+  const score = quantizer.scorer(query);
+  for (const vector of vectors.slice(0, 50)) {
+    const packed = quantizer.pack(quantizer.encode(vector));
+    assert.ok(Math.abs(score(packed) - cosine(query, quantizer.decode(packed))) < 1e-9);
+  }
+  assert.equal(quantizer.scorer(query.slice(0, 16))(quantizer.pack(quantizer.encode(vectors[0]))), 0);
+});
+
+test('packed vectors persist unchanged', () => {
+  const vector = randomVectors(1, 48, 4)[0];
+  const scalar = new ScalarQuantizer();
+  const encoded = scalar.encode(vector);
+  assert.deepEqual(unpackVector(scalar.pack(encoded)), encoded);
+
+  const pq = ProductQuantizer.train(randomVectors(300, 48, 5), 12);
+  const pqEncoded = pq.encode(vector);
+  assert.deepEqual(unpackVector(pq.pack(pqEncoded)), pqEncoded);
+});
+
+test('HNSW over int8 codes finds the same neighbours as over the originals', () => {
+  const vectors = randomVectors(500, 32, 6);
+  const quantizer = new ScalarQuantizer();
+  const index = new HnswIndex({ m: 16, efConstruction: 200, efSearch: 64 });
+  vectors.forEach((vector, i) => index.add(`v${i}`, quantizer.pack(quantizer.encode(vector)).codes));
+
+  let found = 0;
+  for (const query of randomVectors(20, 32, 7)) {
+    const expected = new Set(vectors
+      .map((vector, i) => ({ id: `v${i}`, similarity: cosine(query, vector) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 10)
+      .map(match => match.id));
+    found += index.search(query, 10).filter(match => expected.has(match.id)).length;
+  }
+  assert.ok(found / 200 >= 0.85, `recall@10 ${found / 200}`);
+});
+
+test('measureCompression reports ratio and recall loss against the originals', () => {
+  const vectors = randomVectors(400, 32, 8);
+  const quantizer = new ScalarQuantizer();
+  const stats = measureCompression(quantizer, vectors, vectors.map(vector => quantizer.encode(vector)));
+
+  assert.equal(stats.format, 'int8');
+  assert.ok(stats.compressionRatio > 2);
+  assert.ok(stats.recallLoss >= 0 && stats.recallLoss < 0.2);
+});
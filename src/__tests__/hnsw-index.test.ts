@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HnswIndex } from '../hnsw-index';
+
+const CONFIG = { m: 16, efConstruction: 200, efSearch: 64 };
+
+/** Deterministic vectors so a recall regression reproduces */
+function randomVectors(count: number, dimension: number, seed: number): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+function exactTopK(vectors: number[][], query: number[], k: number): string[] {
+  return vectors
+    .map((vector, index) => ({ id: `v${index}`, similarity: cosine(query, vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(match => match.id);
+}
+
+function recallAt10(index: HnswIndex, vectors: number[][], queries: number[][]): number {
+  let found = 0;
+  for (const query of queries) {
+    const expected = new Set(exactTopK(vectors, query, 10));
+    found += index.search(query, 10).filter(match => expected.has(match.id)).length;
+  }
+  return found / (queries.length * 10);
+}
+
+test('recall@10 against exact search stays above 0.9', () => {
+  const vectors = randomVectors(2000, 32, 7);
+  const queries = randomVectors(50, 32, 11);
+  const index = new HnswIndex(CONFIG);
+  vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+  const recall = recallAt10(index, vectors, queries);
+  assert.ok(recall >= 0.9, `recall@10 was ${recall}`);
+});
+
+test('removed vectors are never returned', () => {
+  const vectors = randomVectors(300, 16, 3);
+  const index = new HnswIndex(CONFIG);
+  vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+  for (let i = 0; i < 100; i++) index.remove(`v${i}`);
+
+  assert.equal(index.size, 200);
+  for (const query of randomVectors(20, 16, 5)) {
+    assert.ok(index.search(query, 10).every(match => Number(match.id.slice(1)) >= 100));
+  }
+});
+
+test('a persisted graph restores with the same results', () => {
+  const vectors = randomVectors(500, 16, 13);
+  const index = new HnswIndex(CONFIG);
+  vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+  const byId = new Map(vectors.map((vector, i) => [`v${i}`, vector]));
+  const restored = HnswIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())), byId, CONFIG);
+
+  assert.ok(restored);
+  const query = randomVectors(1, 16, 17)[0];
+  assert.deepEqual(restored.search(query, 10), index.search(query, 10));
+});
+
+test('a persisted graph missing vectors is rejected', () => {
+  const vectors = randomVectors(50, 8, 19);
+  const index = new HnswIndex(CONFIG);
+  vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+  const byId = new Map(vectors.map((vector, i) => [`v${i}`, vector]));
+  byId.set('extra', vectors[0]);
+
+  assert.equal(HnswIndex.fromJSON(index.toJSON(), byId, CONFIG), null);
+});
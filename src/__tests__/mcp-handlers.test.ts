@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LightweightSemanticSearchHandler } from '../lightweight-handlers';
+import { EmbeddingClient } from '../embedding-client';
+import { ProjectManager } from '../project-manager';
+import { ChunkProvenance } from '../types';
+
+const PROVENANCE: ChunkProvenance = {
+  chunk_id: 'src/app.ts:1:start',
+  sources: ['vector'],
+  vector_similarity: 0.82,
+  vector_rank: 1,
+  boosts: []
+} as unknown as ChunkProvenance;
+
+/** Handler over a centralized server that answers with one explained chunk */
+function handlerWith(searches: Array<{ query: string; options: any }>): LightweightSemanticSearchHandler {
+  const client = {
+    semanticSearch: async (query: string, options: any) => {
+      searches.push({ query, options });
+      return {
+        success: true,
+        data: {
+          chunks: [{
+            chunk_id: 'src/app.ts:1:start',
+            file_path: 'src/app.ts',
+            start_line: 1,
+            end_line: 3,
+            content: 'function start() {}',
+            symbol_name: 'start',
+            ...(options.explain ? { why: 'vector #1 (0.82)' } : {})
+          }],
+          ...(options.explain ? { provenance: [PROVENANCE] } : {})
+        }
+      };
+    }
+  } as unknown as EmbeddingClient;
+  const server = {
+    getCachedResult: () => undefined,
+    setCachedResult: () => undefined,
+    isInFallbackMode: () => false
+  };
+  return new LightweightSemanticSearchHandler(client, {} as unknown as ProjectManager, server);
+}
+
+test('explain returns why and provenance through the lightweight handler', async () => {
+  const searches: Array<{ query: string; options: any }> = [];
+  const result = await handlerWith(searches).handle({ query: 'start the app', explain: true });
+
+  assert.equal(searches[0].options.explain, true);
+  assert.equal(result.chunks[0].why, 'vector #1 (0.82)');
+  assert.deepEqual(result.provenance, [PROVENANCE]);
+});
+
+test('without explain neither why nor provenance is returned', async () => {
+  const result = await handlerWith([]).handle({ query: 'start the app' });
+
+  assert.equal(result.chunks[0].why, undefined);
+  assert.equal(result.provenance, undefined);
+});
@@ -0,0 +1,82 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { PersistentVectorStore } from '../persistent-vector-store';
+import { cortexConfig } from '../env-config';
+import { CodeChunk } from '../types';
+
+const DIMENSION = 32;
+const saved = { ...cortexConfig };
+
+afterEach(() => {
+  Object.assign(cortexConfig, saved);
+});
+
+/** Deterministic vectors so a regression reproduces */
+function randomVectors(count: number, dimension: number, seed: number): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function chunks(vectors: number[][], prefix: string): CodeChunk[] {
+  return vectors.map((embedding, i) => ({
+    chunk_id: `src/${prefix}.ts:${i + 1}:${prefix}${i}`,
+    file_path: `src/${prefix}.ts`,
+    symbol_name: `${prefix}${i}`,
+    chunk_type: 'function',
+    start_line: i + 1,
+    end_line: i + 1,
+    content: '',
+    content_hash: `${prefix}${i}`,
+    embedding
+  }) as unknown as CodeChunk);
+}
+
+/** A store as loaded from a compressed index: chunks with empty embeddings, vectors held packed */
+async function compressedStore(vectors: number[][]): Promise<PersistentVectorStore> {
+  const original = new PersistentVectorStore('/tmp/cortex-test-repo');
+  await original.upsertChunks(chunks(vectors, 'packed'));
+  const compression = (original as any).compressEmbeddings();
+
+  const loaded = new PersistentVectorStore('/tmp/cortex-test-repo');
+  await loaded.upsertChunks(chunks(vectors, 'packed').map(chunk => ({ ...chunk, embedding: [] })));
+  (loaded as any).loadCompressedEmbeddings(compression);
+  return loaded;
+}
+
+test('ANN results carry the decoded embedding of packed chunks', async () => {
+  cortexConfig.embeddingCompression = 'int8';
+  cortexConfig.embeddingRepresentations = [];
+  cortexConfig.annEnabled = true;
+  cortexConfig.annMinChunks = 10;
+  const vectors = randomVectors(50, DIMENSION, 1);
+  const store = await compressedStore(vectors);
+
+  const results = await store.similaritySearch(vectors[7], 5);
+
+  assert.ok((store as any).annIndex, 'search should go through the ANN index');
+  assert.equal(results[0].chunk_id, 'src/packed.ts:8:packed7');
+  for (const result of results) {
+    assert.equal(result.embedding.length, DIMENSION);
+  }
+});
+
+test('switching to PQ after a compressed load trains on the packed vectors too', async () => {
+  cortexConfig.embeddingCompression = 'int8';
+  cortexConfig.embeddingRepresentations = [];
+  const store = await compressedStore(randomVectors(300, DIMENSION, 2));
+  await store.upsertChunks(chunks(randomVectors(3, DIMENSION, 3), 'fresh'));
+
+  cortexConfig.embeddingCompression = 'pq';
+  cortexConfig.pqSubvectors = 8;
+  const compression = (store as any).compressEmbeddings();
+
+  assert.equal(compression.format, 'pq');
+  assert.equal(compression.trainedOn, 303);
+  // Trained on the three fresh vectors alone, each subvector would get three centroids
+  assert.equal(compression.codebook.centroids[0].length, 256);
+  assert.equal(Object.keys(compression.vectors).length, 303);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reciprocalRankFusion } from '../rank-fusion';
+import { CodeChunk } from '../types';
+
+const K = 60;
+
+function chunks(...ids: string[]): CodeChunk[] {
+  return ids.map(id => ({ chunk_id: id }) as CodeChunk);
+}
+
+test('a chunk ranked first in every ranking scores 1', () => {
+  const fused = reciprocalRankFusion([
+    { chunks: chunks('a', 'b'), weight: 1 },
+    { chunks: chunks('a', 'c'), weight: 0.5 }
+  ], K);
+
+  assert.equal(fused[0].chunk_id, 'a');
+  assert.equal(fused[0].relevance_score, 1);
+});
+
+test('empty rankings do not lower the normalised scores', () => {
+  const vectorOnly = reciprocalRankFusion([{ chunks: chunks('a', 'b'), weight: 1 }], K);
+  const withEmpty = reciprocalRankFusion([
+    { chunks: chunks('a', 'b'), weight: 1 },
+    { chunks: [], weight: 0.5 },
+    { chunks: [], weight: 2 }
+  ], K);
+
+  assert.deepEqual(withEmpty.map(chunk => chunk.relevance_score), vectorOnly.map(chunk => chunk.relevance_score));
+  assert.equal(withEmpty[0].relevance_score, 1);
+});
+
+test('chunks found by more rankings rank higher', () => {
+  const fused = reciprocalRankFusion([
+    { chunks: chunks('a', 'b', 'c'), weight: 1 },
+    { chunks: chunks('c', 'd'), weight: 1 }
+  ], K);
+
+  assert.equal(fused[0].chunk_id, 'c');
+  assert.ok(fused[0].relevance_score! < 1);
+});
+
+test('rankings with no weight are ignored', () => {
+  const fused = reciprocalRankFusion([
+    { chunks: chunks('a'), weight: 1 },
+    { chunks: chunks('b'), weight: 0 }
+  ], K);
+
+  assert.deepEqual(fused.map(chunk => chunk.chunk_id), ['a']);
+  assert.equal(fused[0].relevance_score, 1);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileSearchFilter } from '../search-filter';
+import { CodeChunk } from '../types';
+
+function committedAt(commitDate: string, filePath: string = 'src/app.ts'): CodeChunk {
+  return {
+    chunk_id: `${filePath}:1`,
+    file_path: filePath,
+    chunk_type: 'function',
+    start_line: 1,
+    end_line: 2,
+    content: '',
+    content_hash: commitDate,
+    embedding: [],
+    git_metadata: { commit_date: commitDate }
+  } as unknown as CodeChunk;
+}
+
+test('a date-only modified_before includes the whole day', () => {
+  const accept = compileSearchFilter({ modified_before: '2024-01-31' })!;
+
+  assert.equal(accept(committedAt('2024-01-31T00:00:00Z')), true);
+  assert.equal(accept(committedAt('2024-01-31T23:59:59Z')), true);
+  assert.equal(accept(committedAt('2024-02-01T00:00:00Z')), false);
+});
+
+test('modified_before with a time is an exact bound', () => {
+  const accept = compileSearchFilter({ modified_before: '2024-01-31T12:00:00Z' })!;
+
+  assert.equal(accept(committedAt('2024-01-31T12:00:00Z')), true);
+  assert.equal(accept(committedAt('2024-01-31T12:00:01Z')), false);
+});
+
+test('a date-only modified_after starts at the beginning of the day', () => {
+  const accept = compileSearchFilter({ modified_after: '2024-01-31' })!;
+
+  assert.equal(accept(committedAt('2024-01-30T23:59:59Z')), false);
+  assert.equal(accept(committedAt('2024-01-31T00:00:00Z')), true);
+});
+
+test('the same day as both bounds matches commits on that day only', () => {
+  const accept = compileSearchFilter({ modified_after: '2024-01-31', modified_before: '2024-01-31' })!;
+
+  assert.equal(accept(committedAt('2024-01-31T08:30:00Z')), true);
+  assert.equal(accept(committedAt('2024-02-01T08:30:00Z')), false);
+});
+
+test('chunks without a commit date never match a date bound', () => {
+  const accept = compileSearchFilter({ modified_before: '2024-01-31' })!;
+
+  assert.equal(accept(committedAt('')), false);
+});
+
+test('an empty filter compiles to no predicate', () => {
+  assert.equal(compileSearchFilter({}), null);
+  assert.equal(compileSearchFilter(undefined), null);
+});
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { SemanticSearcher } from '../searcher';
+import { VectorStore } from '../vector-store';
+import { EmbeddingGenerator } from '../embedder';
+import { getTokenCounter } from '../token-counter';
+import { CodeChunk } from '../types';
+
+const PARENT_ID = 'src/big.ts:1:bigFunction';
+
+/** Three adjacent pieces of one split function, ten lines each */
+function pieces(): CodeChunk[] {
+  return [1, 2, 3].map(index => {
+    const startLine = (index - 1) * 10 + 1;
+    const content = Array.from({ length: 10 }, (_, offset) => `  step${startLine + offset}();`).join('\n');
+    return {
+      chunk_id: `${PARENT_ID}#${index}`,
+      file_path: 'src/big.ts',
+      symbol_name: 'bigFunction',
+      chunk_type: 'function',
+      start_line: startLine,
+      end_line: startLine + 9,
+      content,
+      content_hash: crypto.createHash('sha256').update(content).digest('hex'),
+      embedding: [],
+      relevance_score: 1 - index / 10,
+      sub_chunk: {
+        parent_chunk_id: PARENT_ID,
+        index,
+        total: 3,
+        previous_chunk_id: index > 1 ? `${PARENT_ID}#${index - 1}` : undefined,
+        next_chunk_id: index < 3 ? `${PARENT_ID}#${index + 1}` : undefined
+      }
+    } as unknown as CodeChunk;
+  });
+}
+
+async function searcherOver(chunks: CodeChunk[]): Promise<SemanticSearcher> {
+  const store = new VectorStore();
+  await store.upsertChunks(chunks);
+  const embedder = { embed: async () => [1, 0, 0] } as unknown as EmbeddingGenerator;
+  return new SemanticSearcher(store, embedder);
+}
+
+function stitch(searcher: SemanticSearcher, chunks: CodeChunk[], tokenBudget: number): Promise<CodeChunk[]> {
+  return (searcher as any).stitchSubChunks(chunks, tokenBudget);
+}
+
+test('a stitched run hashes its own content and takes the parent id when whole', async () => {
+  const all = pieces();
+  const searcher = await searcherOver(all);
+  const [stitched, ...rest] = await stitch(searcher, [all[0], all[2]], 10_000);
+
+  assert.equal(rest.length, 0);
+  assert.equal(stitched.chunk_id, PARENT_ID);
+  assert.equal(stitched.start_line, 1);
+  assert.equal(stitched.end_line, 30);
+  assert.equal(stitched.content_hash, crypto.createHash('sha256').update(stitched.content).digest('hex'));
+  assert.ok(!all.some(piece => piece.content_hash === stitched.content_hash));
+});
+
+test('a partial run is named by its piece range', async () => {
+  const all = pieces();
+  const searcher = await searcherOver(all);
+  const counter = getTokenCounter();
+  // Room for the selected pieces only, not the neighbour after them
+  const [stitched] = await stitch(searcher, [all[0], all[1]], counter.countChunk(all[0]) + counter.countChunk(all[1]));
+
+  assert.equal(stitched.chunk_id, `${PARENT_ID}#1-2`);
+  assert.equal(stitched.end_line, 20);
+  assert.equal(stitched.content_hash, crypto.createHash('sha256').update(stitched.content).digest('hex'));
+});
+
+test('a single selected piece is returned unchanged when the budget allows no neighbour', async () => {
+  const all = pieces();
+  const searcher = await searcherOver(all);
+  const [only] = await stitch(searcher, [all[1]], 1);
+
+  assert.equal(only.chunk_id, all[1].chunk_id);
+  assert.equal(only.content_hash, all[1].content_hash);
+});
+
+function summarizedFunction(): CodeChunk {
+  return {
+    chunk_id: 'src/store.ts:10:loadIndex',
+    file_path: 'src/store.ts',
+    symbol_name: 'loadIndex',
+    chunk_type: 'function',
+    start_line: 10,
+    end_line: 12,
+    content: 'function loadIndex(path) {\n  return readIndex(path);\n}',
+    content_hash: 'loadIndex',
+    summary: 'Function `loadIndex` takes path. It calls readIndex.',
+    embedding: [1, 0, 0],
+    relationships: { calls: ['readIndex'], called_by: [], imports: [], exports: [], data_flow: [] },
+    language_metadata: { language: 'typescript', complexity_score: 1, dependencies: [], exports: [] }
+  } as unknown as CodeChunk;
+}
+
+test('a bare identifier query returns bodies, not summaries', async () => {
+  const searcher = await searcherOver([summarizedFunction()]);
+  const response = await searcher.search({ task: 'loadIndex', max_chunks: 5 });
+
+  assert.equal(response.metadata.query_analysis?.intent, 'find_definition');
+  assert.equal(response.chunks![0].content, summarizedFunction().content);
+  assert.equal(response.chunks![0].content_summarized, undefined);
+});
+
+test('an explicit minimal context_mode returns summaries', async () => {
+  const searcher = await searcherOver([summarizedFunction()]);
+  const response = await searcher.search({ task: 'loadIndex', max_chunks: 5, context_mode: 'minimal' });
+
+  assert.equal(response.chunks![0].content, summarizedFunction().summary);
+  assert.equal(response.chunks![0].content_summarized, true);
+});
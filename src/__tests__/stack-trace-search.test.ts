@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StackTraceSearch } from '../stack-trace-search';
+import { VectorStore } from '../vector-store';
+import { CodeChunk, StackTraceSearchResponse } from '../types';
+
+function chunk(filePath: string, symbolName: string, startLine: number, endLine: number, calls: string[] = [], imports: string[] = []): CodeChunk {
+  return {
+    chunk_id: `${filePath}:${startLine}:${symbolName}`,
+    file_path: filePath,
+    symbol_name: symbolName,
+    chunk_type: 'function',
+    start_line: startLine,
+    end_line: endLine,
+    content: `function ${symbolName}() {}`,
+    content_hash: `${filePath}:${symbolName}`,
+    embedding: [0.1, 0.2, 0.3],
+    relationships: { calls, called_by: [], imports, exports: [], data_flow: [] }
+  } as unknown as CodeChunk;
+}
+
+const THROW_SITE = chunk('src/errors.ts', 'fail', 1, 5);
+const SAME_FILE = chunk('src/errors.ts', 'retry', 10, 20, ['fail']);
+const IMPORTER_HEADER = chunk('src/app.ts', 'imports', 1, 2, [], ['./errors']);
+const IMPORTER = chunk('src/app.ts', 'start', 5, 15, ['fail']);
+const UNRELATED = chunk('lib/other.ts', 'run', 1, 9, ['fail'], ['./fail-fast']);
+
+const TRACE = 'Error: boom\n    at fail (/home/dev/project/src/errors.ts:3:11)';
+
+async function search(): Promise<StackTraceSearchResponse> {
+  const store = new VectorStore();
+  await store.upsertChunks([THROW_SITE, SAME_FILE, IMPORTER_HEADER, IMPORTER, UNRELATED]);
+  return new StackTraceSearch(store).search({ stack_trace: TRACE, include_error_handling: false });
+}
+
+test('callers by name come from the throwing file or files importing it', async () => {
+  const result = await search();
+
+  assert.equal(result.chunks[0].chunk_id, THROW_SITE.chunk_id);
+  assert.deepEqual(
+    result.chunks.filter((_, index) => result.roles[index] === 'caller').map(caller => caller.chunk_id),
+    [SAME_FILE.chunk_id, IMPORTER.chunk_id]
+  );
+});
+
+test('returned chunks carry no embeddings', async () => {
+  const result = await search();
+
+  for (const returned of result.chunks) {
+    assert.deepEqual(returned.embedding, []);
+  }
+  for (const group of result.context_package.groups) {
+    for (const grouped of group.chunks) {
+      assert.deepEqual(grouped.embedding, []);
+    }
+  }
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VectorStore } from '../vector-store';
+import { CodeChunk } from '../types';
+
+function chunk(symbolName: string, startLine: number, endLine: number, extra: Partial<CodeChunk> = {}): CodeChunk {
+  return {
+    chunk_id: `src/persistent-vector-store.ts:${startLine}:${symbolName}`,
+    file_path: 'src/persistent-vector-store.ts',
+    symbol_name: symbolName,
+    chunk_type: 'method',
+    start_line: startLine,
+    end_line: endLine,
+    content: '',
+    content_hash: symbolName,
+    embedding: [],
+    ...extra
+  } as unknown as CodeChunk;
+}
+
+async function storeWith(chunks: CodeChunk[]): Promise<VectorStore> {
+  const store = new VectorStore();
+  await store.upsertChunks(chunks);
+  return store;
+}
+
+const METHOD = chunk('PersistentVectorStore.calculateFileDelta', 450, 520, { parent_symbol: 'PersistentVectorStore' });
+const CLASS = chunk('PersistentVectorStore', 60, 900, { chunk_type: 'class' });
+const OTHER = chunk('OtherStore.calculateFileDelta', 10, 40, { parent_symbol: 'OtherStore' });
+
+test('a bare method name finds the method', async () => {
+  const store = await storeWith([CLASS, METHOD]);
+  const results = await store.symbolSearch(['calculateFileDelta'], []);
+
+  assert.deepEqual(results.map(result => result.chunk_id), [METHOD.chunk_id]);
+  assert.equal(results[0].relevance_score, 1 / 1.5);
+});
+
+test('the qualified name ranks the exact method above same-named methods', async () => {
+  const store = await storeWith([OTHER, METHOD]);
+  const results = await store.symbolSearch(['PersistentVectorStore.calculateFileDelta'], []);
+
+  assert.deepEqual(results.map(result => result.chunk_id), [METHOD.chunk_id]);
+  assert.equal(results[0].relevance_score, 1);
+});
+
+test('an exact symbol outranks a bare-name match of the same query symbol', async () => {
+  const bare = chunk('calculateFileDelta', 5, 8, { chunk_type: 'function' });
+  const store = await storeWith([METHOD, bare]);
+  const results = await store.symbolSearch(['calculateFileDelta'], []);
+
+  assert.deepEqual(results.map(result => result.chunk_id), [bare.chunk_id, METHOD.chunk_id]);
+});
+
+test('the class name matches the class, not its methods', async () => {
+  const store = await storeWith([CLASS, METHOD]);
+  const results = await store.symbolSearch(['PersistentVectorStore'], []);
+
+  assert.deepEqual(results.map(result => result.chunk_id), [CLASS.chunk_id]);
+});
+
+test('stack frames rank innermost chunk first, ahead of named symbols', async () => {
+  const store = await storeWith([CLASS, METHOD, OTHER]);
+  const results = await store.symbolSearch(
+    ['OtherStore.calculateFileDelta'],
+    [{ file_path: '/home/dev/cortex/src/persistent-vector-store.ts', line: 470 }]
+  );
+
+  assert.deepEqual(results.map(result => result.chunk_id), [METHOD.chunk_id, CLASS.chunk_id, OTHER.chunk_id]);
+});
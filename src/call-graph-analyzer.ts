@@ -11,6 +11,8 @@ import {
   AnalysisError,
   RelationshipMetadata
 } from './relationship-types';
+import { LanguageModule } from './language-registry';
+import { languageRegistry } from './languages';
 
 export class CallGraphAnalyzer {
   private parser: Parser;
@@ -26,11 +28,17 @@ export class CallGraphAnalyzer {
   }
 
   async analyzeFile(filePath: string, content: string): Promise<FileAnalysisResult> {
-    const isTypeScript = filePath.endsWith('.ts') || filePath.endsWith('.tsx');
+    const languageModule = languageRegistry.getForFile(filePath);
+    if (languageModule) {
+      return this.analyzeWithLanguageModule(languageModule, filePath, content);
+    }
+
+    const isTypeScript = /\.(ts|tsx|mts|cts)$/.test(filePath);
     const parser = isTypeScript ? this.tsParser : this.parser;
     
     try {
-      const tree = parser.parse(content);
+      // The default 32KB buffer rejects larger files with "Invalid argument"
+      const tree = parser.parse(content, undefined, { bufferSize: Math.max(32 * 1024, content.length * 2) });
       const symbols: CodeSymbol[] = [];
       const relationships: CodeRelationship[] = [];
       const imports: ImportDeclaration[] = [];
@@ -62,6 +70,25 @@ export class CallGraphAnalyzer {
     }
   }
 
+  private analyzeWithLanguageModule(languageModule: LanguageModule, filePath: string, content: string): FileAnalysisResult {
+    try {
+      const tree = languageRegistry.parse(languageModule, content);
+      return languageModule.analyze(tree, content, filePath);
+    } catch (error) {
+      return {
+        symbols: [],
+        relationships: [],
+        imports: [],
+        exports: [],
+        errors: [{
+          type: 'parse_error',
+          message: `Failed to parse ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          severity: 'error'
+        }]
+      };
+    }
+  }
+
   private traverseNode(
     node: Parser.SyntaxNode,
     content: string,
@@ -111,6 +138,15 @@ export class CallGraphAnalyzer {
       case 'try_statement':
         this.processTryStatement(node, content, filePath, relationships);
         break;
+
+      case 'throw_statement':
+        this.processThrowStatement(node, content, filePath, relationships);
+        break;
+
+      case 'member_expression':
+      case 'subscript_expression':
+        this.processEnvironmentRead(node, content, filePath, relationships);
+        break;
     }
 
     // Recursively process child nodes
@@ -129,10 +165,9 @@ export class CallGraphAnalyzer {
     symbols: CodeSymbol[],
     relationships: CodeRelationship[]
   ): void {
-    const nameNode = this.findChildByType(node, 'identifier');
-    if (!nameNode) return;
+    const functionName = this.getFunctionName(node, content);
+    if (!functionName) return;
 
-    const functionName = this.getNodeText(nameNode, content);
     const startLine = node.startPosition.row + 1;
     const endLine = node.endPosition.row + 1;
 
@@ -201,13 +236,10 @@ export class CallGraphAnalyzer {
     const functionNode = node.child(0);
     if (!functionNode) return;
 
-    const callerContext = this.findContainingFunction(node);
+    const callerContext = this.findContainingFunction(node, content);
     if (!callerContext) return;
 
-    const callerNameNode = this.findChildByType(callerContext, 'identifier');
-    if (!callerNameNode) return;
-    
-    const callerName = this.getNodeText(callerNameNode, content);
+    const callerName = this.getFunctionName(callerContext, content)!;
     const callerLine = callerContext.startPosition.row + 1;
     const callerId = `${filePath}:${callerName}:${callerLine}`;
 
@@ -393,13 +425,10 @@ export class CallGraphAnalyzer {
     
     if (!tryBlock || !catchClause) return;
 
-    const containingFunction = this.findContainingFunction(node);
+    const containingFunction = this.findContainingFunction(node, content);
     if (!containingFunction) return;
 
-    const functionNameNode = this.findChildByType(containingFunction, 'identifier');
-    if (!functionNameNode) return;
-    
-    const functionName = this.getNodeText(functionNameNode, content);
+    const functionName = this.getFunctionName(containingFunction, content)!;
     const functionId = `${filePath}:${functionName}:${containingFunction.startPosition.row + 1}`;
 
     // Extract error type from catch parameter
@@ -425,7 +454,86 @@ export class CallGraphAnalyzer {
     relationships.push(relationship);
   }
 
+  /**
+   * `throw new X(...)` records X as the error type; rethrowing a caught value
+   * records the generic `Error`.
+   */
+  private processThrowStatement(
+    node: Parser.SyntaxNode,
+    content: string,
+    filePath: string,
+    relationships: CodeRelationship[]
+  ): void {
+    const containingFunction = this.findContainingFunction(node, content);
+    if (!containingFunction) return;
+
+    const functionName = this.getFunctionName(containingFunction, content)!;
+    const functionId = `${filePath}:${functionName}:${containingFunction.startPosition.row + 1}`;
+
+    const thrown = node.namedChildren.find(child => child.type !== 'comment');
+    const constructorNode = thrown?.type === 'new_expression' ? thrown.childForFieldName('constructor') : null;
+    const errorType = constructorNode ? this.getNodeText(constructorNode, content) : 'Error';
+
+    const relationship: CodeRelationship = {
+      id: `${functionId}:throws:${errorType}:${node.startPosition.row + 1}`,
+      fromSymbol: functionId,
+      toSymbol: `${filePath}:${errorType}:error`,
+      type: 'throws',
+      strength: 0.7,
+      confidence: constructorNode ? 0.9 : 0.6,
+      metadata: {
+        errorType,
+        sourceLocation: {
+          line: node.startPosition.row + 1,
+          column: node.startPosition.column
+        }
+      }
+    };
+
+    relationships.push(relationship);
+  }
+
   // Helper methods
+  /**
+   * `process.env.NAME` / `process.env['NAME']` reads. The `env:NAME:unknown` end is
+   * joined to the config keys that set NAME once the whole repository is analysed.
+   */
+  private processEnvironmentRead(
+    node: Parser.SyntaxNode,
+    content: string,
+    filePath: string,
+    relationships: CodeRelationship[]
+  ): void {
+    const object = node.childForFieldName('object');
+    if (!object || this.getNodeText(object, content) !== 'process.env') return;
+
+    const key = node.type === 'member_expression'
+      ? node.childForFieldName('property')
+      : node.childForFieldName('index');
+    const variableName = key ? this.getNodeText(key, content).replace(/^['"`]|['"`]$/g, '') : '';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(variableName)) return;
+
+    const readerContext = this.findContainingFunction(node, content);
+    const readerId = readerContext
+      ? `${filePath}:${this.getFunctionName(readerContext, content)}:${readerContext.startPosition.row + 1}`
+      : `${filePath}:module:1`;
+    const line = node.startPosition.row + 1;
+
+    relationships.push({
+      id: `env:${variableName}:configures:${readerId}:${line}`,
+      fromSymbol: `env:${variableName}:unknown`,
+      toSymbol: readerId,
+      type: 'configures',
+      strength: 0.8,
+      confidence: 0.9,
+      metadata: {
+        configType: 'environment',
+        configPath: [variableName],
+        sourceLocation: { line, column: node.startPosition.column }
+      }
+    });
+  }
+
   private findChildByType(node: Parser.SyntaxNode, type: string): Parser.SyntaxNode | null {
     for (let i = 0; i < node.childCount; i++) {
       const child = node.child(i);
@@ -447,10 +555,12 @@ export class CallGraphAnalyzer {
     return content.slice(node.startIndex, node.endIndex);
   }
 
-  private findContainingFunction(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  /** Nearest named function or method; anonymous callbacks attribute to their owner */
+  private findContainingFunction(node: Parser.SyntaxNode, content: string): Parser.SyntaxNode | null {
     let current = node.parent;
     while (current) {
-      if (['function_declaration', 'method_definition', 'arrow_function', 'function_expression'].includes(current.type)) {
+      if (['function_declaration', 'method_definition', 'arrow_function', 'function_expression'].includes(current.type)
+        && this.getFunctionName(current, content)) {
         return current;
       }
       current = current.parent;
@@ -458,6 +568,15 @@ export class CallGraphAnalyzer {
     return null;
   }
 
+  /** Declared name, method name, or the variable a function expression is assigned to */
+  private getFunctionName(node: Parser.SyntaxNode, content: string): string | null {
+    const nameNode = node.childForFieldName('name');
+    if (nameNode) return this.getNodeText(nameNode, content);
+
+    const declarator = node.parent?.type === 'variable_declarator' ? node.parent.childForFieldName('name') : null;
+    return declarator?.type === 'identifier' ? this.getNodeText(declarator, content) : null;
+  }
+
   private extractFunctionSignature(node: Parser.SyntaxNode, content: string): string {
     const params = this.findChildByType(node, 'formal_parameters');
     const returnType = this.findChildByType(node, 'type_annotation');
@@ -702,8 +821,32 @@ export class CallGraphAnalyzer {
     classId: string,
     relationships: CodeRelationship[]
   ): void {
-    // Implementation for inheritance analysis
-    // This would extract extends/implements relationships
+    // TypeScript wraps bases in extends_clause / implements_clause; JavaScript has the expression directly
+    const clauses = heritageClause.namedChildren.some(child => child.type === 'extends_clause' || child.type === 'implements_clause')
+      ? heritageClause.namedChildren
+      : [heritageClause];
+
+    for (const clause of clauses) {
+      const type = clause.type === 'implements_clause' ? 'implements' : 'extends';
+      for (const base of clause.namedChildren.filter(child => child.type !== 'type_arguments')) {
+        // `Base<T>` / `mixins.Audit` -> Base / Audit
+        const baseName = this.getNodeText(base, content).replace(/<[\s\S]*$/, '').split('.').pop()!.trim();
+        if (!/^[A-Za-z_$][\w$]*$/.test(baseName)) continue;
+
+        const line = base.startPosition.row + 1;
+        relationships.push({
+          id: `${classId}:${type}:${baseName}:${line}`,
+          fromSymbol: classId,
+          toSymbol: `${filePath}:${baseName}:unknown`,
+          type,
+          strength: 0.9,
+          confidence: 0.85,
+          metadata: {
+            sourceLocation: { line, column: base.startPosition.column }
+          }
+        });
+      }
+    }
   }
 
   private extractParameterRelationships(
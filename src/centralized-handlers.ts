@@ -1,10 +1,20 @@
-import { CodeChunk, QueryRequest, EmbedOptions } from './types';
+import { ChunkProvenance, CodeChunk, ContextMode, QueryRequest, EmbedOptions, RetrievalWeights, SavedQuery, SavedQueryResult, SavedQueryStatus, SearchFilter, StackTraceSearchResponse, SymbolNavigationRequest, ImpactAnalysisRequest, FindTestsRequest } from './types';
 import { log, warn, error } from './logging-utils';
 import { ContextEnhancementLayer } from './context-enhancement-layer';
 import { ProcessPoolEmbedder } from './process-pool-embedder';
 import { CodebaseIndexer } from './indexer';
 import { RelationshipTraversalEngine } from './relationship-traversal-engine';
 import { SemanticSearcher } from './searcher';
+import { buildSearchFilter } from './search-filter';
+import { ProvenanceTracker, formatProvenance } from './search-provenance';
+import { StackTraceSearch } from './stack-trace-search';
+import { SymbolNavigator } from './symbol-navigator';
+import { ImpactAnalyzer } from './impact-analyzer';
+import { TestFinder } from './test-finder';
+import { VectorStore } from './vector-store';
+import { ResultPage, ResultSessionStore } from './result-sessions';
+import { SavedQueryRunner, SavedQueryStore } from './saved-queries';
+import { cortexConfig } from './env-config';
 
 interface CentralizedHandlerOptions {
   processPool: ProcessPoolEmbedder;
@@ -16,10 +26,16 @@ interface CentralizedHandlerOptions {
 
 interface SemanticSearchRequest {
   query: string;
-  maxChunks?: number;
+  maxChunks?: number;        // Page size
+  cursor?: string;           // Continue a previous search's ranking; `query` and search options are ignored
   fileFilters?: string[];
   recencyWeight?: number;
   includeTests?: boolean;
+  filter?: SearchFilter;
+  retrievalWeights?: RetrievalWeights;
+  mmrPreset?: string;
+  contextMode?: ContextMode; // `minimal` returns AST summaries instead of bodies; picked from the query intent when unset
+  explain?: boolean;         // Attach per-chunk provenance and a one-line `why`
   projectPath?: string;
   clientId?: string;
 }
@@ -50,6 +66,54 @@ interface TraceExecutionRequest {
   clientId?: string;
 }
 
+interface SearchStackTraceRequest {
+  stackTrace: string;
+  maxCallers?: number;
+  includeErrorHandling?: boolean;
+  projectPath?: string;
+  clientId?: string;
+}
+
+interface SymbolNavigationHandlerRequest {
+  symbol?: string;           // Name or Class.method
+  filePath?: string;         // With line/column: the position to resolve
+  line?: number;
+  column?: number;
+  maxResults?: number;       // find_references only
+  projectPath?: string;
+  clientId?: string;
+}
+
+interface ImpactAnalysisHandlerRequest {
+  diff?: string;             // Unified diff
+  commitRange?: string;      // `a..b` or one commit
+  symbols?: string[];
+  maxDepth?: number;
+  maxResults?: number;
+  projectPath?: string;
+  clientId?: string;
+}
+
+interface FindTestsHandlerRequest {
+  symbol?: string;           // Name, Class.method or graph id
+  filePath?: string;         // Without symbol: every symbol in the file
+  maxDepth?: number;         // Above 1 also collects tests of callers
+  maxResults?: number;
+  projectPath?: string;
+  clientId?: string;
+}
+
+interface SavedQueriesRequest {
+  action: 'list' | 'save' | 'remove' | 'run' | 'changes';
+  query?: string;            // save
+  name?: string;             // save; remove also accepts it
+  id?: string;               // remove
+  maxChunks?: number;        // save
+  since?: string;            // changes: only diffs after this ISO time
+  projectPath?: string;
+  clientId?: string;
+}
+
 interface FindCodePatternsRequest {
   pattern: string;
   patternType: 'structural' | 'behavioral' | 'architectural';
@@ -57,6 +121,13 @@ interface FindCodePatternsRequest {
   clientId?: string;
 }
 
+interface FetchCodeChunkRequest {
+  chunkId: string;
+  direction?: 'current' | 'next';
+  projectPath?: string;
+  clientId?: string;
+}
+
 interface CentralizedResponse<T = any> {
   success: boolean;
   data?: T;
@@ -82,6 +153,7 @@ export class CentralizedHandlers {
   private indexer?: CodebaseIndexer;
   private searcher?: SemanticSearcher;
   private relationshipEngine?: RelationshipTraversalEngine;
+  private resultSessions: ResultSessionStore = new ResultSessionStore();
 
   constructor(options: CentralizedHandlerOptions) {
     this.processPool = options.processPool;
@@ -99,84 +171,27 @@ export class CentralizedHandlers {
     const { query, maxChunks = 5, projectPath, clientId } = request;
 
     try {
-      log(`[CentralizedHandlers] Semantic search: "${query}" for project: ${projectPath}`);
-
-      // Perform basic semantic search
-      let searchResults: CodeChunk[] = [];
-      
-      if (this.searcher && this.indexer) {
-        // Use existing searcher if available
-        const searchRequest: QueryRequest = {
-          task: query,
-          max_chunks: maxChunks,
-          file_filters: request.fileFilters,
-          recency_weight: request.recencyWeight,
-          include_tests: request.includeTests
-        };
-        
-        const results = await this.searcher.search(searchRequest);
-        searchResults = results.chunks || [];
-      } else {
-        // Load real index data and perform semantic search
-        try {
-          const { PersistentVectorStore } = await import('./persistent-vector-store');
-          const vectorStore = new PersistentVectorStore(process.cwd(), '.cortex');
-          
-          if (await vectorStore.loadPersistedIndex(false)) {
-            // Get query embedding using ProcessPool
-            const embeddingResult = await this.processPool.embedBatch([query]);
-            if (embeddingResult.embeddings.length > 0) {
-              searchResults = await vectorStore.similaritySearch(embeddingResult.embeddings[0], maxChunks);
-            }
-          } else {
-            log('[CentralizedHandlers] No persisted index found, returning empty results');
-          }
-        } catch (error) {
-          log(`[CentralizedHandlers] Error loading index: ${error}`);
-        }
+      if (request.cursor) {
+        const page = await this.resultSessions.next(request.cursor, request.maxChunks);
+        log(`[CentralizedHandlers] Semantic search page ${page.page} of "${page.query}" for project: ${projectPath}`);
+        return this.semanticSearchPageResponse(page, request, false, startTime);
       }
 
-      // Apply context enhancement if project path provided
-      let enhanced = false;
-      if (projectPath && searchResults.length > 0) {
-        const enhancedResult = await this.contextEnhancer.enhanceSemanticSearch(
-          query,
-          searchResults,
-          projectPath,
-          { maxTokens: 150 }
-        );
-        
-        // Convert enhanced results back to chunks format
-        // This is a simplified approach - in production, you'd parse the enhanced results
-        enhanced = enhancedResult.stats.enhanced;
-        
-        // Add enhancement metadata to chunks
-        searchResults = searchResults.map(chunk => ({
-          ...chunk,
-          enhanced: true,
-          contextAccuracy: enhancedResult.stats.contextAccuracy
-        }));
-      }
-
-      const processingTime = Date.now() - startTime;
+      log(`[CentralizedHandlers] Semantic search: "${query}" for project: ${projectPath}`);
 
-      return {
-        success: true,
-        data: {
-          chunks: searchResults,
-          query,
-          resultCount: searchResults.length,
-          enhanced
-        },
-        metadata: {
-          processingTime,
-          contextEnhanced: enhanced,
-          clientId,
-          projectPath,
-          timestamp: Date.now()
-        }
+      // The first page is the plain `maxChunks` search; follow-up pages rank deeper only
+      // once a cursor asks for them
+      const ranked = await this.rankChunks(request, maxChunks);
+      const { chunks: searchResults, enhanced } = await this.prepareSearchResults(request, ranked);
+      const rankDeeper = async () => {
+        const deeper = await this.rankChunks(request, Math.max(maxChunks, cortexConfig.resultSessionMaxResults));
+        const { chunks } = await this.prepareSearchResults(request, deeper);
+        return { chunks, provenance: request.explain ? deeper.provenance : undefined };
       };
 
+      const page = this.resultSessions.create(query, searchResults, request.explain ? ranked.provenance : undefined, ranked.indexVersion, maxChunks, rankDeeper);
+      return this.semanticSearchPageResponse(page, request, enhanced, startTime);
+
     } catch (err) {
       const processingTime = Date.now() - startTime;
       const errorMessage = err instanceof Error ? err.message : String(err);
@@ -196,6 +211,134 @@ export class CentralizedHandlers {
     }
   }
 
+  /** Context enhancement, and the rendered `why` when explaining */
+  private async prepareSearchResults(
+    request: SemanticSearchRequest,
+    ranked: { chunks: CodeChunk[]; provenance?: ChunkProvenance[] }
+  ): Promise<{ chunks: CodeChunk[]; enhanced: boolean }> {
+    const { query, projectPath } = request;
+    const { provenance } = ranked;
+    let searchResults = ranked.chunks;
+
+    // Apply context enhancement if project path provided
+    let enhanced = false;
+    if (projectPath && searchResults.length > 0) {
+      const enhancedResult = await this.contextEnhancer.enhanceSemanticSearch(
+        query,
+        searchResults,
+        projectPath,
+        { maxTokens: 150 }
+      );
+      
+      // Convert enhanced results back to chunks format
+      // This is a simplified approach - in production, you'd parse the enhanced results
+      enhanced = enhancedResult.stats.enhanced;
+      
+      // Add enhancement metadata to chunks
+      searchResults = searchResults.map(chunk => ({
+        ...chunk,
+        enhanced: true,
+        contextAccuracy: enhancedResult.stats.contextAccuracy
+      }));
+    }
+
+    // Provenance is parallel to chunks, so attach it before anything reorders them
+    if (request.explain && provenance) {
+      searchResults = searchResults.map((chunk, index) => ({
+        ...chunk,
+        why: provenance[index] ? formatProvenance(provenance[index]) : undefined
+      }));
+    }
+
+    return { chunks: searchResults, enhanced };
+  }
+
+  /** Search with the searcher when one is attached, else a vector search over the persisted index */
+  private async rankChunks(
+    request: SemanticSearchRequest,
+    limit: number
+  ): Promise<{ chunks: CodeChunk[]; provenance?: ChunkProvenance[]; indexVersion: string }> {
+    const { query } = request;
+
+    if (this.searcher && this.indexer) {
+      // Use existing searcher if available
+      const searchRequest: QueryRequest = {
+        task: query,
+        max_chunks: limit,
+        file_filters: request.fileFilters,
+        recency_weight: request.recencyWeight,
+        include_tests: request.includeTests,
+        filter: request.filter,
+        retrieval_weights: request.retrievalWeights,
+        mmr_preset: request.mmrPreset,
+        context_mode: request.contextMode
+      };
+
+      const indexVersion = this.searcher.getIndexVersion();
+      const results = await this.searcher.search(searchRequest);
+      return { chunks: results.chunks || [], provenance: results.provenance, indexVersion };
+    }
+
+    // Load real index data and perform semantic search
+    try {
+      const { PersistentVectorStore } = await import('./persistent-vector-store');
+      const vectorStore = new PersistentVectorStore(request.projectPath || process.cwd(), '.cortex');
+
+      if (await vectorStore.loadPersistedIndex(false)) {
+        const indexVersion = vectorStore.getIndexVersion();
+        // Get query embedding using ProcessPool
+        const embeddingResult = await this.processPool.embedBatch([query]);
+        if (embeddingResult.embeddings.length > 0) {
+          const chunks = await vectorStore.similaritySearch(embeddingResult.embeddings[0], limit, {
+            filter: buildSearchFilter({
+              task: query,
+              file_filters: request.fileFilters,
+              include_tests: request.includeTests,
+              filter: request.filter
+            }),
+            recencyWeight: request.recencyWeight
+          });
+          const tracker = new ProvenanceTracker(embeddingResult.embeddings[0], request.recencyWeight);
+          tracker.recordRanking('vector', chunks);
+          return { chunks, provenance: tracker.build(chunks), indexVersion };
+        }
+        return { chunks: [], indexVersion };
+      }
+      log('[CentralizedHandlers] No persisted index found, returning empty results');
+    } catch (error) {
+      log(`[CentralizedHandlers] Error loading index: ${error}`);
+    }
+    return { chunks: [], indexVersion: 'none' };
+  }
+
+  private semanticSearchPageResponse(page: ResultPage, request: SemanticSearchRequest, enhanced: boolean, startTime: number): CentralizedResponse {
+    // Pages are served from the session snapshot; flag when the live index has moved on since
+    const currentVersion = this.searcher?.getIndexVersion();
+
+    return {
+      success: true,
+      data: {
+        chunks: page.chunks,
+        query: page.query,
+        resultCount: page.chunks.length,
+        enhanced,
+        ...(page.provenance ? { provenance: page.provenance } : {}),
+        page: page.page,
+        total_results: page.total_results,
+        next_cursor: page.next_cursor,
+        index_version: page.index_version,
+        ...(currentVersion && currentVersion !== page.index_version ? { index_changed: true } : {})
+      },
+      metadata: {
+        processingTime: Date.now() - startTime,
+        contextEnhanced: enhanced,
+        clientId: request.clientId,
+        projectPath: request.projectPath,
+        timestamp: Date.now()
+      }
+    };
+  }
+
   /**
    * Code intelligence with enhanced project awareness
    */
@@ -409,6 +552,354 @@ export class CentralizedHandlers {
     }
   }
 
+  /**
+   * Map stack trace frames to indexed chunks, plus callers and throws/catches
+   */
+  async handleSearchStackTrace(request: SearchStackTraceRequest): Promise<CentralizedResponse> {
+    const startTime = Date.now();
+    const { stackTrace, maxCallers, includeErrorHandling, projectPath, clientId } = request;
+
+    try {
+      log(`[CentralizedHandlers] Stack trace search (${stackTrace.split('\n').length} lines) for project: ${projectPath}`);
+
+      let result: StackTraceSearchResponse;
+      const stackTraceRequest = { stack_trace: stackTrace, max_callers: maxCallers, include_error_handling: includeErrorHandling };
+      if (this.searcher) {
+        result = await this.searcher.searchStackTrace(stackTraceRequest);
+      } else {
+        // No relationship graph without a searcher; callers and handlers come from chunk data
+        const { PersistentVectorStore } = await import('./persistent-vector-store');
+        const vectorStore = new PersistentVectorStore(projectPath || process.cwd(), '.cortex');
+        if (!await vectorStore.loadPersistedIndex(false)) {
+          throw new Error('No persisted index found');
+        }
+        result = await new StackTraceSearch(vectorStore).search(stackTraceRequest);
+      }
+
+      return {
+        success: true,
+        data: result,
+        metadata: {
+          processingTime: Date.now() - startTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+
+    } catch (err) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      error(`[CentralizedHandlers] Stack trace search failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: {
+          processingTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+    }
+  }
+
+  /**
+   * Go to definition: a symbol name or file position to its definition sites
+   */
+  async handleFindDefinition(request: SymbolNavigationHandlerRequest): Promise<CentralizedResponse> {
+    return this.handleSymbolNavigation('definition', request);
+  }
+
+  /**
+   * Find all references: resolved and scope-matched usages of a symbol
+   */
+  async handleFindReferences(request: SymbolNavigationHandlerRequest): Promise<CentralizedResponse> {
+    return this.handleSymbolNavigation('references', request);
+  }
+
+  private async handleSymbolNavigation(mode: 'definition' | 'references', request: SymbolNavigationHandlerRequest): Promise<CentralizedResponse> {
+    const startTime = Date.now();
+    const { projectPath, clientId } = request;
+
+    try {
+      const target = request.symbol || `${request.filePath}:${request.line}${request.column !== undefined ? `:${request.column}` : ''}`;
+      log(`[CentralizedHandlers] Find ${mode} of ${target} for project: ${projectPath}`);
+
+      const navigationRequest: SymbolNavigationRequest = {
+        symbol: request.symbol,
+        file_path: request.filePath,
+        line: request.line,
+        column: request.column,
+        max_results: request.maxResults
+      };
+
+      let navigator: Pick<SymbolNavigator, 'findDefinition' | 'findReferences'>;
+      if (this.searcher) {
+        navigator = this.searcher;
+      } else {
+        // Without a persisted graph, definitions and calls come from chunk data
+        const { vectorStore, relationshipEngine } = await this.loadPersistedIndex(projectPath);
+        navigator = new SymbolNavigator(vectorStore, relationshipEngine);
+      }
+
+      const data = mode === 'definition'
+        ? await navigator.findDefinition(navigationRequest)
+        : await navigator.findReferences(navigationRequest);
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          processingTime: Date.now() - startTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+
+    } catch (err) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      error(`[CentralizedHandlers] Find ${mode} failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: {
+          processingTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+    }
+  }
+
+  /**
+   * Impact analysis: symbols and tests downstream of a diff, commit range or symbol list
+   */
+  async handleImpactAnalysis(request: ImpactAnalysisHandlerRequest): Promise<CentralizedResponse> {
+    const startTime = Date.now();
+    const { projectPath, clientId } = request;
+
+    try {
+      const target = request.commitRange || (request.diff ? 'diff' : (request.symbols || []).join(', '));
+      log(`[CentralizedHandlers] Impact analysis of ${target} for project: ${projectPath}`);
+
+      const impactRequest: ImpactAnalysisRequest = {
+        diff: request.diff,
+        commit_range: request.commitRange,
+        symbols: request.symbols,
+        max_depth: request.maxDepth,
+        max_results: request.maxResults
+      };
+
+      let data;
+      if (this.searcher) {
+        data = await this.searcher.analyzeImpact(impactRequest);
+      } else {
+        const { vectorStore, relationshipEngine } = await this.loadPersistedIndex(projectPath);
+        if (!relationshipEngine) {
+          throw new Error('No persisted relationship graph found');
+        }
+        data = await new ImpactAnalyzer(vectorStore, relationshipEngine, projectPath || process.cwd()).analyze(impactRequest);
+      }
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          processingTime: Date.now() - startTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+
+    } catch (err) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      error(`[CentralizedHandlers] Impact analysis failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: {
+          processingTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+    }
+  }
+
+  /**
+   * Find tests: test cases linked to a symbol or file through `tested_by` edges
+   */
+  async handleFindTests(request: FindTestsHandlerRequest): Promise<CentralizedResponse> {
+    const startTime = Date.now();
+    const { projectPath, clientId } = request;
+
+    try {
+      log(`[CentralizedHandlers] Find tests for ${request.symbol || request.filePath} for project: ${projectPath}`);
+
+      const findTestsRequest: FindTestsRequest = {
+        symbol: request.symbol,
+        file_path: request.filePath,
+        max_depth: request.maxDepth,
+        max_results: request.maxResults
+      };
+
+      let data;
+      if (this.searcher) {
+        data = await this.searcher.findTests(findTestsRequest);
+      } else {
+        const { vectorStore, relationshipEngine } = await this.loadPersistedIndex(projectPath);
+        if (!relationshipEngine) {
+          throw new Error('No persisted relationship graph found');
+        }
+        data = await new TestFinder(vectorStore, relationshipEngine).findTests(findTestsRequest);
+      }
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          processingTime: Date.now() - startTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+
+    } catch (err) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      error(`[CentralizedHandlers] Find tests failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: {
+          processingTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+    }
+  }
+
+  /** Persisted chunks, and the persisted relationship graph when there is one, for handlers without a searcher */
+  private async loadPersistedIndex(projectPath?: string): Promise<{ vectorStore: VectorStore; relationshipEngine?: RelationshipTraversalEngine }> {
+    const repositoryPath = projectPath || process.cwd();
+    const { PersistentVectorStore } = await import('./persistent-vector-store');
+    const vectorStore = new PersistentVectorStore(repositoryPath, '.cortex');
+    if (!await vectorStore.loadPersistedIndex(false)) {
+      throw new Error('No persisted index found');
+    }
+
+    const relationshipEngine = new RelationshipTraversalEngine(repositoryPath);
+    return { vectorStore, relationshipEngine: await relationshipEngine.loadPersistedGraph() ? relationshipEngine : undefined };
+  }
+
+  /**
+   * Saved queries of a project: manage them, re-run them and read what changed
+   */
+  async handleSavedQueries(request: SavedQueriesRequest): Promise<CentralizedResponse> {
+    const startTime = Date.now();
+    const { action, projectPath, clientId } = request;
+
+    try {
+      log(`[CentralizedHandlers] Saved queries: ${action} for project: ${projectPath}`);
+
+      const store = new SavedQueryStore(projectPath || process.cwd());
+      const runner: SavedQueryRunner = async (query, maxChunks) => (await this.rankChunks({ query, projectPath }, maxChunks)).chunks;
+      let data: any;
+
+      switch (action) {
+        case 'save': {
+          if (!request.query) throw new Error('query is required to save a query');
+          const saved = await store.save(request.query, { name: request.name, maxChunks: request.maxChunks });
+          // The first run is the baseline later runs are compared with
+          await store.runAll(runner, 'saved', [saved.id]);
+          const [withBaseline] = (await store.list()).filter(query => query.id === saved.id);
+          data = { saved: summarizeSavedQuery(withBaseline || saved) };
+          break;
+        }
+        case 'remove': {
+          const target = request.id || request.name;
+          if (!target) throw new Error('id or name is required to remove a query');
+          data = { removed: await store.remove(target) };
+          break;
+        }
+        case 'run':
+          data = { changes: await store.runAll(runner, 'manual run') };
+          break;
+        case 'changes':
+          data = { changes: await store.changes(request.since) };
+          break;
+        default:
+          data = { queries: (await store.list()).map(summarizeSavedQuery) };
+      }
+
+      return {
+        success: true,
+        data,
+        metadata: {
+          processingTime: Date.now() - startTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+
+    } catch (err) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      error(`[CentralizedHandlers] Saved queries ${action} failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: {
+          processingTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+    }
+  }
+
+  /** Latest saved-query changes per project, for the server's /status endpoint */
+  async getSavedQueryStatus(projectPaths: string[]): Promise<SavedQueryStatus[]> {
+    const status: SavedQueryStatus[] = [];
+    for (const project of new Set(projectPaths)) {
+      const queries = await new SavedQueryStore(project).list();
+      if (queries.length === 0) continue;
+      status.push({
+        project,
+        savedQueries: queries.length,
+        changes: queries.flatMap(query => query.last_diff ? [query.last_diff] : [])
+      });
+    }
+    return status;
+  }
+
   /**
    * Find code patterns analysis
    */
@@ -476,6 +967,70 @@ export class CentralizedHandlers {
     }
   }
 
+  /**
+   * Look up an indexed chunk by id; with direction 'next', the piece after it in a split chunk
+   */
+  async handleFetchCodeChunk(request: FetchCodeChunkRequest): Promise<CentralizedResponse> {
+    const startTime = Date.now();
+    const { chunkId, direction = 'current', projectPath, clientId } = request;
+
+    try {
+      log(`[CentralizedHandlers] Fetch code chunk: ${chunkId} (${direction}) for project: ${projectPath}`);
+
+      let getChunk: (id: string) => Promise<CodeChunk | undefined>;
+      if (this.searcher) {
+        const searcher = this.searcher;
+        getChunk = id => searcher.getChunk(id);
+      } else {
+        const { PersistentVectorStore } = await import('./persistent-vector-store');
+        const vectorStore = new PersistentVectorStore(projectPath || process.cwd(), '.cortex');
+        if (!await vectorStore.loadPersistedIndex(false)) {
+          throw new Error('No persisted index found');
+        }
+        getChunk = id => vectorStore.getChunk(id);
+      }
+
+      let chunk = await getChunk(chunkId);
+      if (!chunk) {
+        throw new Error(`Chunk ${chunkId} not found in index`);
+      }
+
+      if (direction === 'next') {
+        const nextId = chunk.sub_chunk?.next_chunk_id;
+        chunk = nextId ? await getChunk(nextId) : undefined;
+      }
+
+      return {
+        success: true,
+        data: { chunk: chunk || null },
+        metadata: {
+          processingTime: Date.now() - startTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+
+    } catch (err) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      error(`[CentralizedHandlers] Fetch code chunk failed: ${errorMessage}`);
+
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: {
+          processingTime,
+          contextEnhanced: false,
+          clientId,
+          projectPath,
+          timestamp: Date.now()
+        }
+      };
+    }
+  }
+
   /**
    * Batch embedding generation with caching
    */
@@ -673,6 +1228,23 @@ export class CentralizedHandlers {
 /**
  * Factory function to create centralized handlers
  */
+function summarizeSavedQuery(query: SavedQuery) {
+  return {
+    id: query.id,
+    name: query.name,
+    query: query.query,
+    max_chunks: query.max_chunks,
+    created_at: query.created_at,
+    last_run_at: query.last_run_at,
+    results: query.last_results?.map(describeResult) || [],
+    last_diff: query.last_diff
+  };
+}
+
+function describeResult(result: SavedQueryResult): string {
+  return `${result.file_path}:${result.start_line}-${result.end_line}${result.symbol_name ? ` ${result.symbol_name}` : ''}`;
+}
+
 export function createCentralizedHandlers(options: CentralizedHandlerOptions): CentralizedHandlers {
   return new CentralizedHandlers(options);
 }
\ No newline at end of file
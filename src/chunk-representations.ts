@@ -0,0 +1,122 @@
+import { CodeChunk, EmbeddingRepresentation, ExtraRepresentation } from './types';
+
+export const EXTRA_REPRESENTATIONS: ExtraRepresentation[] = ['signature', 'docstring', 'summary'];
+
+const DECLARATION_TYPES = new Set(['function', 'method', 'class', 'interface', 'type_alias', 'enum']);
+const MAX_SIGNATURE_LINES = 6;
+const MAX_SIGNATURE_CHARS = 400;
+const MIN_DOCSTRING_CHARS = 12;
+const MAX_DOCSTRING_CHARS = 1200;
+
+/**
+ * Texts for a chunk's extra embedding vectors. The body vector embeds the whole
+ * chunk; these let identifier-style queries match on the declaration and doc-style
+ * queries match on the leading comment or, for undocumented code, the AST summary,
+ * without the body diluting either.
+ */
+export function representationTexts(chunk: CodeChunk): Partial<Record<ExtraRepresentation, string>> {
+  const texts: Partial<Record<ExtraRepresentation, string>> = {};
+  const { docstring, rest } = splitLeadingDocstring(chunk.content);
+
+  if (chunk.symbol_name && DECLARATION_TYPES.has(chunk.chunk_type)) {
+    const declaration = extractDeclaration(rest);
+    const words = splitIdentifier(chunk.symbol_name);
+    texts.signature = [chunk.symbol_name, words !== chunk.symbol_name ? `(${words})` : '', `${chunk.chunk_type}:`, declaration]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  const doc = docstring || extractPythonDocstring(rest);
+  if (doc && doc.length >= MIN_DOCSTRING_CHARS) {
+    texts.docstring = doc.slice(0, MAX_DOCSTRING_CHARS);
+  }
+
+  if (chunk.summary) {
+    texts.summary = chunk.summary;
+  }
+
+  return texts;
+}
+
+/** Vector-index key of a representation; the body keeps the bare chunk id */
+export function representationKey(chunkId: string, representation: EmbeddingRepresentation): string {
+  return representation === 'body' ? chunkId : `${chunkId}#${representation}`;
+}
+
+export function parseRepresentationKey(key: string): { chunkId: string; representation: EmbeddingRepresentation } {
+  for (const representation of EXTRA_REPRESENTATIONS) {
+    const suffix = `#${representation}`;
+    if (key.endsWith(suffix)) return { chunkId: key.slice(0, -suffix.length), representation };
+  }
+  return { chunkId: key, representation: 'body' };
+}
+
+/** Every stored vector of a chunk, body first */
+export function representationVectors(chunk: CodeChunk): Array<{ representation: EmbeddingRepresentation; vector: number[] }> {
+  const vectors: Array<{ representation: EmbeddingRepresentation; vector: number[] }> = [];
+  if (chunk.embedding.length > 0) vectors.push({ representation: 'body', vector: chunk.embedding });
+  for (const representation of EXTRA_REPRESENTATIONS) {
+    const vector = chunk.representation_embeddings?.[representation];
+    if (vector && vector.length === chunk.embedding.length) vectors.push({ representation, vector });
+  }
+  return vectors;
+}
+
+/** Leading JSDoc, block or line comments, returned without comment markers */
+function splitLeadingDocstring(content: string): { docstring?: string; rest: string } {
+  const lines = content.split('\n');
+  let index = 0;
+  const comment: string[] = [];
+
+  const first = lines[0]?.trim() || '';
+  if (first.startsWith('/*')) {
+    for (; index < lines.length; index++) {
+      comment.push(lines[index]);
+      if (lines[index].includes('*/')) { index++; break; }
+    }
+  } else {
+    for (; index < lines.length; index++) {
+      const line = lines[index].trim();
+      if (!/^(\/\/|#(?![!\[]))/.test(line)) break;
+      comment.push(lines[index]);
+    }
+  }
+
+  if (comment.length === 0) return { rest: content };
+  const docstring = comment
+    .map(line => line.trim().replace(/^(\/\*\*?|\*\/|\*|\/\/\/?|#)\s?/, '').replace(/\*\/$/, '').trim())
+    .filter(Boolean)
+    .join(' ');
+  return { docstring: docstring || undefined, rest: lines.slice(index).join('\n') };
+}
+
+/** Declaration up to where the body starts: `{`, a Python `:` or an arrow */
+function extractDeclaration(content: string): string {
+  const lines = content.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('@'));
+  const declaration: string[] = [];
+  for (const line of lines.slice(0, MAX_SIGNATURE_LINES)) {
+    const brace = line.indexOf('{');
+    if (brace >= 0) {
+      declaration.push(line.slice(0, brace));
+      break;
+    }
+    declaration.push(line);
+    const pythonHeaderEnd = /:\s*$/.test(line) && /^(async\s+)?(def|class)\b/.test(declaration[0]);
+    if (pythonHeaderEnd || /=>\s*$/.test(line)) break;
+  }
+  return declaration.join(' ').replace(/\s+/g, ' ').trim().slice(0, MAX_SIGNATURE_CHARS);
+}
+
+function extractPythonDocstring(content: string): string | undefined {
+  const match = content.match(/^[^\n]*:\s*\n\s*(?:[rRuU]?)("""|''')([\s\S]*?)\1/);
+  return match ? match[2].replace(/\s+/g, ' ').trim() : undefined;
+}
+
+function splitIdentifier(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/[_.$]+/g, ' ')
+    .toLowerCase()
+    .trim();
+}
@@ -0,0 +1,267 @@
+import Parser from 'tree-sitter';
+import TypeScript from 'tree-sitter-typescript';
+import JavaScript from 'tree-sitter-javascript';
+import * as path from 'path';
+import { CallGraphAnalyzer } from './call-graph-analyzer';
+import { DataFlowAnalyzer, DataFlowNode } from './data-flow-analyzer';
+import { CodeRelationship, CodeSymbol } from './relationship-types';
+import { CodeChunk } from './types';
+import { languageRegistry } from './languages';
+import { representationTexts } from './chunk-representations';
+import { warn } from './logging-utils';
+
+const SUMMARIZED_TYPES = new Set(['function', 'method', 'class']);
+const MAX_LISTED = 8;
+
+// Calls so common they say nothing about what a function does
+const COMMON_CALLS = new Set([
+  'then', 'catch', 'finally', 'push', 'pop', 'map', 'filter', 'forEach', 'reduce', 'some', 'every', 'find',
+  'slice', 'splice', 'join', 'split', 'concat', 'includes', 'indexOf', 'keys', 'values', 'entries', 'trim',
+  'replace', 'toString', 'String', 'Number', 'Boolean', 'Array', 'Object', 'parseInt', 'parseFloat',
+  'len', 'str', 'int', 'float', 'bool', 'list', 'dict', 'set', 'tuple', 'range', 'isinstance', 'append',
+  'super', 'print', 'log', 'warn', 'error', 'debug'
+]);
+
+// Property roots that always mean process-wide state
+const GLOBAL_OBJECTS = new Set(['globalThis', 'window', 'document', 'global']);
+
+interface FileFacts {
+  symbols: CodeSymbol[];
+  relationships: CodeRelationship[];
+  dataFlowNodes: DataFlowNode[];
+  moduleNames: Set<string>;
+}
+
+/**
+ * Deterministic one-paragraph descriptions of function, method and class chunks:
+ * parameters, return type, called functions, thrown errors, environment variables
+ * and module-level state touched. Built from CallGraphAnalyzer and DataFlowAnalyzer
+ * output, so no model is involved and the same code always gets the same summary.
+ *
+ * Summaries are embedded as the `summary` representation and returned instead of
+ * bodies in `minimal` context_mode.
+ */
+export class ChunkSummarizer {
+  private callGraphAnalyzer = new CallGraphAnalyzer();
+  private dataFlowAnalyzer = new DataFlowAnalyzer();
+  private jsParser: Parser;
+  private tsParser: Parser;
+  private tsxParser: Parser;
+
+  constructor() {
+    this.jsParser = new Parser();
+    this.jsParser.setLanguage(JavaScript);
+
+    this.tsParser = new Parser();
+    this.tsParser.setLanguage(TypeScript.typescript);
+
+    this.tsxParser = new Parser();
+    this.tsxParser.setLanguage(TypeScript.tsx);
+  }
+
+  /** Sets `summary` on the function, method and class chunks of one file */
+  async summarizeFile(filePath: string, content: string, chunks: CodeChunk[]): Promise<void> {
+    if (!chunks.some(chunk => SUMMARIZED_TYPES.has(chunk.chunk_type))) return;
+
+    try {
+      const facts = await this.analyze(filePath, content);
+      for (const chunk of chunks) {
+        if (!SUMMARIZED_TYPES.has(chunk.chunk_type)) continue;
+        const summary = chunk.chunk_type === 'class' ? summarizeClass(chunk, facts) : summarizeFunction(chunk, facts);
+        if (summary) chunk.summary = summary;
+      }
+    } catch (err) {
+      warn(`[ChunkSummarizer] Failed to summarize ${filePath} error=${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  private async analyze(filePath: string, content: string): Promise<FileFacts> {
+    const { symbols, relationships } = await this.callGraphAnalyzer.analyzeFile(filePath, content);
+    const tree = this.parse(filePath, content);
+    const dataFlowNodes = tree ? this.dataFlowAnalyzer.analyzeDataFlow(tree, content, filePath).nodes : [];
+
+    // Module-level state: top-level variables, and for grammars without variable
+    // symbols, data-flow variables declared outside every function and class
+    const scopes = symbols.filter(symbol => symbol.type === 'function' || symbol.type === 'method' || symbol.type === 'class');
+    const moduleNames = new Set(symbols.filter(symbol => symbol.type === 'variable' && symbol.scope === 'global').map(symbol => symbol.name));
+    for (const node of dataFlowNodes) {
+      if (node.type === 'variable' && !scopes.some(scope => node.line >= scope.startLine && node.line <= scope.endLine)) {
+        moduleNames.add(node.name);
+      }
+    }
+
+    return { symbols, relationships, dataFlowNodes, moduleNames };
+  }
+
+  private parse(filePath: string, content: string): Parser.Tree | null {
+    const ext = path.extname(filePath).toLowerCase();
+    const options = { bufferSize: Math.max(32 * 1024, content.length * 2) };
+    if (['.ts', '.mts', '.cts'].includes(ext)) return this.tsParser.parse(content, undefined, options);
+    if (ext === '.tsx') return this.tsxParser.parse(content, undefined, options);
+    if (['.js', '.jsx', '.mjs', '.cjs'].includes(ext)) return this.jsParser.parse(content, undefined, options);
+
+    const languageModule = languageRegistry.getForFile(filePath);
+    return languageModule?.supportsDataFlow ? languageRegistry.parse(languageModule, content) : null;
+  }
+}
+
+/** Copy of a chunk whose content is its summary, for `minimal` context_mode */
+export function summarizedChunk(chunk: CodeChunk): CodeChunk {
+  return chunk.summary ? { ...chunk, content: chunk.summary, content_summarized: true } : chunk;
+}
+
+function summarizeFunction(chunk: CodeChunk, facts: FileFacts): string | undefined {
+  const name = chunk.symbol_name;
+  if (!name) return undefined;
+
+  const symbol = findSymbol(chunk, facts, ['function', 'method']);
+  const isAsync = /\basync\b/.test(representationTexts(chunk).signature || '');
+  const { parameters, returnType } = parseSignature(symbol?.signature);
+  const ownParameters = parameters.length > 0 || symbol?.signature
+    ? parameters
+    : dataFlowParameters(chunk, facts);
+
+  const kind = chunk.chunk_type === 'method' ? 'method' : 'function';
+  let opening = `${isAsync ? 'Async ' : ''}${isAsync ? kind : capitalize(kind)} \`${name}\``;
+  opening += ownParameters.length > 0 ? ` takes ${listOf(ownParameters)}` : ' takes no parameters';
+  if (returnType) {
+    opening += ` and returns ${returnType}`;
+  } else if (facts.dataFlowNodes.some(node => node.type === 'return' && inChunk(chunk, node.line))) {
+    opening += ' and returns a value';
+  }
+
+  return [`${opening}.`, ...describeBehaviour(chunk, facts)].join(' ');
+}
+
+function summarizeClass(chunk: CodeChunk, facts: FileFacts): string | undefined {
+  const name = chunk.symbol_name;
+  if (!name) return undefined;
+
+  const symbol = findSymbol(chunk, facts, ['class']);
+  const heritage = (type: 'extends' | 'implements') => facts.relationships
+    .filter(relationship => relationship.type === type && relationship.fromSymbol === symbol?.id)
+    .map(relationship => symbolName(relationship.toSymbol));
+  const bases = heritage('extends');
+  const interfaces = heritage('implements');
+  const methods = unique(facts.symbols
+    .filter(candidate => candidate.type === 'method' && candidate !== symbol && inChunk(chunk, candidate.startLine))
+    .map(candidate => candidate.name));
+
+  let opening = `Class \`${name}\``;
+  if (bases.length > 0) opening += ` extends ${listOf(bases)}`;
+  if (interfaces.length > 0) opening += `${bases.length > 0 ? ' and' : ''} implements ${listOf(interfaces)}`;
+  if (methods.length > 0) opening += `${bases.length + interfaces.length > 0 ? ',' : ''} with methods ${listOf(methods)}`;
+
+  // Methods carry their own calls; the class lists what its methods throw and read
+  return [`${opening}.`, ...describeBehaviour(chunk, facts, false)].join(' ');
+}
+
+/** Calls, thrown errors, environment reads and module state within the chunk's lines */
+function describeBehaviour(chunk: CodeChunk, facts: FileFacts, includeCalls: boolean = true): string[] {
+  const sentences: string[] = [];
+  const located = (type: CodeRelationship['type']) => facts.relationships
+    .filter(relationship => relationship.type === type && inChunk(chunk, relationship.metadata?.sourceLocation?.line))
+    .sort((a, b) => a.metadata!.sourceLocation!.line - b.metadata!.sourceLocation!.line);
+
+  // Python raises by calling the error class; those are reported as thrown, not called
+  const thrown = unique(located('throws').map(relationship => relationship.metadata?.errorType || 'Error'));
+  const ownName = chunk.symbol_name!.split('.').pop();
+  const calls = unique([
+    ...located('calls').map(relationship => symbolName(relationship.toSymbol)),
+    ...facts.dataFlowNodes
+      .filter(node => node.type === 'function_call' && inChunk(chunk, node.line))
+      .sort((a, b) => a.line - b.line)
+      .map(node => node.name)
+  ]).filter(call => call !== ownName && call !== 'anonymous' && call !== 'unknown' && !COMMON_CALLS.has(call) && !thrown.includes(call));
+  if (includeCalls && calls.length > 0) sentences.push(`It calls ${listOf(calls)}.`);
+  if (thrown.length > 0) sentences.push(`It throws ${listOf(thrown)}.`);
+
+  const variables = unique(located('configures')
+    .filter(relationship => relationship.fromSymbol.startsWith('env:'))
+    .map(relationship => relationship.metadata?.configPath?.[0] || ''));
+  if (variables.length > 0) {
+    sentences.push(`It reads the environment variable${variables.length > 1 ? 's' : ''} ${listOf(variables)}.`);
+  }
+
+  const declared = new Set(facts.symbols.filter(symbol => inChunk(chunk, symbol.startLine)).map(symbol => symbol.name));
+  const globals = unique(facts.dataFlowNodes
+    .filter(node => (node.type === 'property' || node.type === 'variable') && inChunk(chunk, node.line))
+    .map(node => node.name.split(/[.[]/)[0])
+    .filter(root => (facts.moduleNames.has(root) && !declared.has(root)) || GLOBAL_OBJECTS.has(root)));
+  if (globals.length > 0) sentences.push(`It touches shared state ${listOf(globals)}.`);
+
+  return sentences;
+}
+
+/** The analyzer symbol declaring the chunk: same name, starting inside the chunk */
+function findSymbol(chunk: CodeChunk, facts: FileFacts, types: Array<CodeSymbol['type']>): CodeSymbol | undefined {
+  const name = chunk.symbol_name!.split('.').pop();
+  return facts.symbols.find(symbol => symbol.name === name && types.includes(symbol.type) && inChunk(chunk, symbol.startLine));
+}
+
+/** `(a: string, b = 1): Promise<T>` (TypeScript) or `(self, a: int) -> str` (Python) */
+function parseSignature(signature?: string): { parameters: string[]; returnType?: string } {
+  if (!signature || !signature.startsWith('(')) return { parameters: [] };
+
+  let depth = 0;
+  let close = -1;
+  for (let i = 0; i < signature.length; i++) {
+    if (signature[i] === '(') depth++;
+    if (signature[i] === ')' && --depth === 0) { close = i; break; }
+  }
+  if (close < 0) return { parameters: [] };
+
+  const parameters = splitTopLevel(signature.slice(1, close))
+    .map(parameter => parameter.replace(/\s+/g, ' ').trim())
+    .filter(parameter => parameter && parameter !== 'self' && parameter !== 'cls');
+  const returnType = signature.slice(close + 1).replace(/^\s*(->|:)?[\s:]*/, '').trim();
+  return { parameters, returnType: returnType || undefined };
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('([{<'.includes(char)) depth++;
+    if (')]}'.includes(char) || (char === '>' && text[i - 1] !== '=')) depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function dataFlowParameters(chunk: CodeChunk, facts: FileFacts): string[] {
+  return unique(facts.dataFlowNodes
+    .filter(node => node.type === 'parameter' && inChunk(chunk, node.line) && node.name !== 'self' && node.name !== 'cls')
+    .map(node => node.dataType ? `${node.name}${node.dataType}` : node.name));
+}
+
+/** `file:name:line` / `file:name:unknown` ids to the bare name */
+function symbolName(id: string): string {
+  const parts = id.split(':');
+  return parts.length >= 3 ? parts[parts.length - 2] : id;
+}
+
+function inChunk(chunk: CodeChunk, line?: number): boolean {
+  return line !== undefined && line >= chunk.start_line && line <= chunk.end_line;
+}
+
+function unique(items: string[]): string[] {
+  return Array.from(new Set(items.filter(Boolean)));
+}
+
+function listOf(items: string[]): string {
+  const shown = items.slice(0, MAX_LISTED);
+  const rest = items.length - shown.length;
+  if (rest > 0) return `${shown.join(', ')} and ${rest} more`;
+  return shown.length > 1 ? `${shown.slice(0, -1).join(', ')} and ${shown[shown.length - 1]}` : shown[0];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
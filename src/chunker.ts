@@ -1,7 +1,47 @@
+import Parser from 'tree-sitter';
+import TypeScript from 'tree-sitter-typescript';
+import JavaScript from 'tree-sitter-javascript';
 import { CodeChunk, ChunkType } from './types';
 import { FileChange } from './git-scanner';
+import { LanguageChunkSpan } from './language-registry';
+import { languageRegistry } from './languages';
+import { cortexConfig } from './env-config';
+import { ChunkSummarizer } from './chunk-summarizer';
+
+export interface ChunkSizeConfig {
+  maxChunkTokens: number;       // Cap per chunk, in estimated embedding-model tokens
+  overlapTokens: number;        // Trailing context repeated at the start of the next piece
+}
 
 export class SmartChunker {
+  private jsParser: Parser;
+  private tsParser: Parser;
+  private tsxParser: Parser;
+  private sizeConfig: ChunkSizeConfig;
+  private summarizer?: ChunkSummarizer;
+
+  constructor(sizeConfig: Partial<ChunkSizeConfig> = {}) {
+    this.sizeConfig = {
+      maxChunkTokens: cortexConfig.maxChunkTokens,
+      overlapTokens: cortexConfig.chunkOverlapTokens,
+      ...sizeConfig
+    };
+
+    // Same grammars CallGraphAnalyzer uses, so chunk boundaries line up with its symbols
+    this.jsParser = new Parser();
+    this.jsParser.setLanguage(JavaScript);
+
+    this.tsParser = new Parser();
+    this.tsParser.setLanguage(TypeScript.typescript);
+
+    this.tsxParser = new Parser();
+    this.tsxParser.setLanguage(TypeScript.tsx);
+
+    if (cortexConfig.chunkSummaries) {
+      this.summarizer = new ChunkSummarizer();
+    }
+  }
+
   async chunkFile(
     filePath: string, 
     content: string, 
@@ -10,11 +50,166 @@ export class SmartChunker {
   ): Promise<CodeChunk[]> {
     const language = this.detectLanguage(filePath);
     
-    if (this.isCodeFile(filePath)) {
-      return await this.chunkCodeFile(filePath, content, language, fileChange, coChangeFiles);
-    } else {
-      return await this.chunkDocumentFile(filePath, content, fileChange, coChangeFiles);
+    const chunks = this.isCodeFile(filePath)
+      ? await this.chunkCodeFile(filePath, content, language, fileChange, coChangeFiles)
+      : await this.chunkDocumentFile(filePath, content, fileChange, coChangeFiles);
+
+    // Before splitting, so every piece of an oversized chunk carries the whole symbol's summary
+    if (this.summarizer && this.isCodeFile(filePath)) {
+      await this.summarizer.summarizeFile(filePath, content, chunks);
+    }
+
+    return this.splitOversizedChunks(filePath, content, chunks);
+  }
+
+  /**
+   * Split chunks over the token cap into overlapping pieces that end on statement
+   * boundaries where possible. Pieces link to their siblings through `sub_chunk`.
+   */
+  private splitOversizedChunks(filePath: string, content: string, chunks: CodeChunk[]): CodeChunk[] {
+    if (!chunks.some(chunk => this.estimateTokens(chunk.content) > this.sizeConfig.maxChunkTokens)) {
+      return chunks;
+    }
+
+    const lines = content.split('\n');
+    const boundaries = this.findStatementBoundaries(filePath, content, lines);
+
+    return chunks.flatMap(chunk => {
+      if (this.estimateTokens(chunk.content) <= this.sizeConfig.maxChunkTokens) {
+        return [chunk];
+      }
+      // Synthetic content (class outlines) doesn't map onto file lines and is already condensed
+      const fileSlice = lines.slice(chunk.start_line - 1, chunk.end_line).join('\n');
+      if (fileSlice.trim() !== chunk.content) {
+        return [chunk];
+      }
+      return this.splitChunk(chunk, lines, boundaries);
+    });
+  }
+
+  private splitChunk(chunk: CodeChunk, lines: string[], boundaries: Map<number, number>): CodeChunk[] {
+    const { maxChunkTokens, overlapTokens } = this.sizeConfig;
+    const pieces: Array<{ start: number; end: number }> = [];
+    let start = chunk.start_line;
+
+    while (start <= chunk.end_line) {
+      // Furthest line that still fits the budget (a single overlong line is kept whole)
+      let limit = start;
+      let tokens = 0;
+      for (let line = start; line <= chunk.end_line; line++) {
+        tokens += this.estimateTokens(lines[line - 1]) + 1;
+        if (tokens > maxChunkTokens && line > start) break;
+        limit = line;
+      }
+
+      // Cut after the shallowest statement in the back half of the window
+      let end = limit;
+      if (limit < chunk.end_line) {
+        let bestDepth = Infinity;
+        for (let line = limit; line >= start + Math.floor((limit - start) / 2); line--) {
+          const depth = boundaries.get(line);
+          if (depth !== undefined && depth < bestDepth) {
+            bestDepth = depth;
+            end = line;
+          }
+        }
+      }
+
+      pieces.push({ start, end });
+      if (end >= chunk.end_line) break;
+
+      // Repeat trailing lines of this piece at the start of the next one
+      let next = end + 1;
+      let overlap = 0;
+      while (next - 1 > start) {
+        overlap += this.estimateTokens(lines[next - 2]) + 1;
+        if (overlap > overlapTokens) break;
+        next--;
+      }
+      start = next;
+    }
+
+    // Pieces never reuse the parent's id, which only identifies the group
+    const ids = pieces.map((_, index) => `${chunk.chunk_id}#${index + 1}`);
+
+    return pieces.map((piece, index) => {
+      // Keep leading indentation so siblings can be stitched back together line by line
+      const pieceContent = lines.slice(piece.start - 1, piece.end).join('\n').trimEnd();
+      return {
+        ...chunk,
+        chunk_id: ids[index],
+        start_line: piece.start,
+        end_line: piece.end,
+        content: pieceContent,
+        content_hash: this.hashContent(pieceContent),
+        relationships: { ...chunk.relationships, calls: this.extractCalls(pieceContent) },
+        sub_chunk: {
+          parent_chunk_id: chunk.chunk_id,
+          index: index + 1,
+          total: pieces.length,
+          previous_chunk_id: ids[index - 1],
+          next_chunk_id: ids[index + 1]
+        }
+      };
+    });
+  }
+
+  /**
+   * Lines (1-based) after which a piece may end, mapped to nesting depth. Nodes that
+   * occupy whole lines are statements, members or entries; shallower ones are better cuts.
+   * Files without a grammar fall back to blank lines.
+   */
+  private findStatementBoundaries(filePath: string, content: string, lines: string[]): Map<number, number> {
+    const boundaries = new Map<number, number>();
+
+    let tree: Parser.Tree | null = null;
+    try {
+      const languageModule = languageRegistry.getForFile(filePath);
+      const language = this.detectLanguage(filePath);
+      if (languageModule) {
+        tree = languageRegistry.parse(languageModule, content);
+      } else if (language === 'javascript' || language === 'typescript') {
+        tree = this.getParser(filePath).parse(content, undefined, {
+          bufferSize: Math.max(32 * 1024, content.length * 2)
+        });
+      }
+    } catch (error) {
+      tree = null;
+    }
+
+    if (!tree) {
+      lines.forEach((line, index) => {
+        if (!line.trim()) boundaries.set(index + 1, 0);
+      });
+      return boundaries;
+    }
+
+    const visit = (node: Parser.SyntaxNode, depth: number) => {
+      for (const child of node.namedChildren) {
+        const startsLine = !lines[child.startPosition.row].slice(0, child.startPosition.column).trim();
+        const endsLine = !lines[child.endPosition.row].slice(child.endPosition.column).trim();
+        const line = child.endPosition.row + 1;
+        if (startsLine && endsLine && depth < (boundaries.get(line) ?? Infinity)) {
+          boundaries.set(line, depth);
+        }
+        visit(child, depth + 1);
+      }
+    };
+    visit(tree.rootNode, 0);
+
+    return boundaries;
+  }
+
+  /**
+   * Approximate WordPiece count: camelCase/snake_case parts and numbers are a token
+   * each (long parts more), every punctuation character is its own token.
+   */
+  private estimateTokens(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(/[A-Z]?[a-z]+|[A-Z]+(?![a-z])|\d+|[^\sA-Za-z\d]/g) || []) {
+      tokens += 1 + Math.floor(piece.length / 8);
     }
+    return tokens;
   }
 
   private async chunkCodeFile(
@@ -29,8 +224,8 @@ export class SmartChunker {
 
     if (language === 'javascript' || language === 'typescript') {
       return this.chunkJavaScriptTypeScript(filePath, content, lines, fileChange, coChangeFiles);
-    } else if (language === 'python') {
-      return this.chunkPython(filePath, content, lines, fileChange, coChangeFiles);
+    } else if (languageRegistry.getForFile(filePath)) {
+      return this.chunkWithLanguageModule(filePath, content, lines, fileChange, coChangeFiles);
     } else {
       // Generic chunking for other languages
       return this.chunkGeneric(filePath, content, lines, fileChange, coChangeFiles);
@@ -44,87 +239,19 @@ export class SmartChunker {
     fileChange?: FileChange,
     coChangeFiles: string[] = []
   ): CodeChunk[] {
-    const chunks: CodeChunk[] = [];
-    let currentChunk = '';
-    let chunkStartLine = 1;
-    let chunkType: ChunkType = 'function';
-    let symbolName = '';
-    let braceCount = 0;
-    let inFunction = false;
-    let inClass = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmedLine = line.trim();
-
-      // Detect function declarations
-      if (this.isFunctionDeclaration(trimmedLine)) {
-        // Save previous chunk if exists
-        if (currentChunk && inFunction) {
-          chunks.push(this.createChunk(
-            filePath, currentChunk, chunkStartLine, i, 
-            chunkType, symbolName, fileChange, coChangeFiles
-          ));
-        }
-        
-        // Start new function chunk
-        inFunction = true;
-        chunkType = 'function';
-        symbolName = this.extractFunctionName(trimmedLine);
-        chunkStartLine = i + 1;
-        currentChunk = line + '\n';
-        braceCount = (line.match(/{/g) || []).length - (line.match(/}/g) || []).length;
-      }
-      // Detect class declarations
-      else if (this.isClassDeclaration(trimmedLine)) {
-        // Save previous chunk if exists
-        if (currentChunk && (inFunction || inClass)) {
-          chunks.push(this.createChunk(
-            filePath, currentChunk, chunkStartLine, i, 
-            chunkType, symbolName, fileChange, coChangeFiles
-          ));
-        }
-        
-        // Start new class chunk
-        inClass = true;
-        chunkType = 'class';
-        symbolName = this.extractClassName(trimmedLine);
-        chunkStartLine = i + 1;
-        currentChunk = line + '\n';
-        braceCount = (line.match(/{/g) || []).length - (line.match(/}/g) || []).length;
-      }
-      else if (inFunction || inClass) {
-        currentChunk += line + '\n';
-        braceCount += (line.match(/{/g) || []).length - (line.match(/}/g) || []).length;
-        
-        // Check if function/class is complete
-        if (braceCount <= 0 && currentChunk.trim()) {
-          chunks.push(this.createChunk(
-            filePath, currentChunk, chunkStartLine, i + 1, 
-            chunkType, symbolName, fileChange, coChangeFiles
-          ));
-          
-          currentChunk = '';
-          inFunction = false;
-          inClass = false;
-          braceCount = 0;
-        }
-      }
-      // Handle top-level code (imports, exports, constants)
-      else if (this.isTopLevelStatement(trimmedLine)) {
-        chunks.push(this.createChunk(
-          filePath, line, i + 1, i + 1, 
-          'config', this.extractImportExport(trimmedLine), fileChange, coChangeFiles
-        ));
-      }
+    let tree: Parser.Tree;
+    try {
+      // Default parse buffer is 32KB; larger files need an explicit size
+      tree = this.getParser(filePath).parse(content, undefined, {
+        bufferSize: Math.max(32 * 1024, content.length * 2)
+      });
+    } catch (error) {
+      return this.chunkGeneric(filePath, content, lines, fileChange, coChangeFiles);
     }
 
-    // Handle any remaining chunk
-    if (currentChunk && (inFunction || inClass)) {
-      chunks.push(this.createChunk(
-        filePath, currentChunk, chunkStartLine, lines.length, 
-        chunkType, symbolName, fileChange, coChangeFiles
-      ));
+    const chunks: CodeChunk[] = [];
+    for (const node of tree.rootNode.namedChildren) {
+      this.collectAstChunks(node, node, filePath, lines, chunks, fileChange, coChangeFiles);
     }
 
     return chunks.length > 0 ? chunks : [this.createChunk(
@@ -132,102 +259,301 @@ export class SmartChunker {
     )];
   }
 
-  private chunkPython(
+  /**
+   * Emit chunks for a top-level statement. `span` is the outermost node the
+   * chunk should cover (e.g. the `export` statement wrapping a declaration).
+   */
+  private collectAstChunks(
+    node: Parser.SyntaxNode,
+    span: Parser.SyntaxNode,
     filePath: string,
-    content: string,
     lines: string[],
+    chunks: CodeChunk[],
     fileChange?: FileChange,
     coChangeFiles: string[] = []
-  ): CodeChunk[] {
-    const chunks: CodeChunk[] = [];
-    let currentChunk = '';
-    let chunkStartLine = 1;
-    let chunkType: ChunkType = 'function';
-    let symbolName = '';
-    let indentLevel = 0;
-    let inFunction = false;
-    let inClass = false;
+  ): void {
+    const emit = (target: Parser.SyntaxNode, chunkType: ChunkType, symbolName: string) => {
+      chunks.push(this.createAstChunk(target, chunkType, symbolName, filePath, lines, fileChange, coChangeFiles));
+    };
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmedLine = line.trim();
-      const currentIndent = line.length - line.trimStart().length;
-
-      // Detect function definitions
-      if (trimmedLine.startsWith('def ')) {
-        // Save previous chunk if exists
-        if (currentChunk && (inFunction || inClass)) {
-          chunks.push(this.createChunk(
-            filePath, currentChunk, chunkStartLine, i, 
-            chunkType, symbolName, fileChange, coChangeFiles
-          ));
+    switch (node.type) {
+      case 'export_statement': {
+        const declaration = node.childForFieldName('declaration');
+        const value = node.childForFieldName('value');
+        if (declaration) {
+          this.collectAstChunks(declaration, span, filePath, lines, chunks, fileChange, coChangeFiles);
+        } else if (value && this.isFunctionNode(value)) {
+          emit(span, 'function', this.getNodeName(value) || 'default');
+        } else if (value && value.type === 'class') {
+          emit(span, 'class', this.getNodeName(value) || 'default');
+        } else {
+          emit(span, 'config', this.extractImportExport(node.text));
         }
-        
-        inFunction = true;
-        chunkType = 'function';
-        symbolName = this.extractPythonFunctionName(trimmedLine);
-        chunkStartLine = i + 1;
-        currentChunk = line + '\n';
-        indentLevel = currentIndent;
+        break;
       }
-      // Detect class definitions
-      else if (trimmedLine.startsWith('class ')) {
-        // Save previous chunk if exists
-        if (currentChunk && (inFunction || inClass)) {
-          chunks.push(this.createChunk(
-            filePath, currentChunk, chunkStartLine, i, 
-            chunkType, symbolName, fileChange, coChangeFiles
-          ));
+
+      case 'function_declaration':
+      case 'generator_function_declaration':
+        emit(span, 'function', this.getNodeName(node) || 'default');
+        break;
+
+      case 'class_declaration':
+      case 'abstract_class_declaration':
+      case 'class':
+        this.collectClassChunks(node, span, this.getNodeName(node) || 'default', filePath, lines, chunks, fileChange, coChangeFiles);
+        break;
+
+      case 'interface_declaration':
+        emit(span, 'interface', this.getNodeName(node));
+        break;
+
+      case 'type_alias_declaration':
+        emit(span, 'type_alias', this.getNodeName(node));
+        break;
+
+      case 'enum_declaration':
+        emit(span, 'enum', this.getNodeName(node));
+        break;
+
+      case 'lexical_declaration':
+      case 'variable_declaration': {
+        const declarators = node.namedChildren.filter(child => child.type === 'variable_declarator');
+        for (const declarator of declarators) {
+          const target = declarators.length === 1 ? span : declarator;
+          const name = this.getNodeName(declarator);
+          const value = declarator.childForFieldName('value');
+          this.collectValueChunks(value, target, name, filePath, lines, chunks, fileChange, coChangeFiles);
         }
-        
-        inClass = true;
-        chunkType = 'class';
-        symbolName = this.extractPythonClassName(trimmedLine);
-        chunkStartLine = i + 1;
-        currentChunk = line + '\n';
-        indentLevel = currentIndent;
+        break;
       }
-      else if (inFunction || inClass) {
-        // Check if we're still in the same function/class based on indentation
-        if (trimmedLine && currentIndent <= indentLevel && !trimmedLine.startsWith('#')) {
-          // End of current function/class
-          chunks.push(this.createChunk(
-            filePath, currentChunk, chunkStartLine, i, 
-            chunkType, symbolName, fileChange, coChangeFiles
-          ));
-          
-          currentChunk = '';
-          inFunction = false;
-          inClass = false;
-          
-          // Check if this line starts a new function/class
-          if (trimmedLine.startsWith('def ') || trimmedLine.startsWith('class ')) {
-            i--; // Reprocess this line
-            continue;
+
+      case 'expression_statement': {
+        // CommonJS style: `module.exports.run = function () {}` / `exports.api = { ... }`
+        const expression = node.namedChildren[0];
+        if (expression?.type === 'assignment_expression') {
+          const left = expression.childForFieldName('left');
+          const right = expression.childForFieldName('right');
+          if (left && right && (this.isFunctionNode(right) || right.type === 'object' || right.type === 'class')) {
+            this.collectValueChunks(right, span, left.text, filePath, lines, chunks, fileChange, coChangeFiles);
           }
-        } else {
-          currentChunk += line + '\n';
         }
+        break;
       }
-      // Handle top-level imports and assignments
-      else if (this.isPythonTopLevel(trimmedLine)) {
-        chunks.push(this.createChunk(
-          filePath, line, i + 1, i + 1, 
-          'config', trimmedLine.split(' ')[0], fileChange, coChangeFiles
-        ));
+
+      case 'ambient_declaration':
+        // `declare function foo(): void;` and friends
+        for (const child of node.namedChildren) {
+          this.collectAstChunks(child, span, filePath, lines, chunks, fileChange, coChangeFiles);
+        }
+        break;
+
+      case 'internal_module':
+      case 'module': {
+        const body = node.childForFieldName('body');
+        for (const child of body?.namedChildren || []) {
+          this.collectAstChunks(child, child, filePath, lines, chunks, fileChange, coChangeFiles);
+        }
+        break;
       }
+
+      case 'import_statement':
+        emit(span, 'config', this.extractImportExport(node.text));
+        break;
     }
+  }
 
-    // Handle any remaining chunk
-    if (currentChunk && (inFunction || inClass)) {
-      chunks.push(this.createChunk(
-        filePath, currentChunk, chunkStartLine, lines.length, 
-        chunkType, symbolName, fileChange, coChangeFiles
-      ));
+  /**
+   * Chunk the value bound to a variable or assignment target: functions and
+   * classes by their binding name, object literals by their methods.
+   */
+  private collectValueChunks(
+    value: Parser.SyntaxNode | null,
+    span: Parser.SyntaxNode,
+    name: string,
+    filePath: string,
+    lines: string[],
+    chunks: CodeChunk[],
+    fileChange?: FileChange,
+    coChangeFiles: string[] = []
+  ): void {
+    if (value && this.isFunctionNode(value)) {
+      chunks.push(this.createAstChunk(span, 'function', name, filePath, lines, fileChange, coChangeFiles));
+      return;
+    }
+
+    if (value && value.type === 'class') {
+      chunks.push(this.createAstChunk(span, 'class', name, filePath, lines, fileChange, coChangeFiles));
+      return;
+    }
+
+    if (value && value.type === 'object') {
+      const methods = value.namedChildren.filter(member =>
+        member.type === 'method_definition' ||
+        (member.type === 'pair' && this.isFunctionNode(member.childForFieldName('value')))
+      );
+
+      if (methods.length > 0) {
+        for (const method of methods) {
+          const key = method.type === 'pair' ? method.childForFieldName('key') : method.childForFieldName('name');
+          const methodName = key ? key.text.replace(/^['"`]|['"`]$/g, '') : 'anonymous';
+          chunks.push(this.createAstChunk(
+            method, 'method', `${name}.${methodName}`, filePath, lines, fileChange, coChangeFiles
+          ));
+        }
+        return;
+      }
+    }
+
+    chunks.push(this.createAstChunk(span, 'config', name, filePath, lines, fileChange, coChangeFiles));
+  }
+
+  /**
+   * Split a class into a slim outline chunk (header, fields, method signatures)
+   * plus one `method` chunk per method pointing back at the class via parent_symbol.
+   * Classes without methods stay a single `class` chunk.
+   */
+  private collectClassChunks(
+    node: Parser.SyntaxNode,
+    span: Parser.SyntaxNode,
+    className: string,
+    filePath: string,
+    lines: string[],
+    chunks: CodeChunk[],
+    fileChange?: FileChange,
+    coChangeFiles: string[] = []
+  ): void {
+    const body = node.childForFieldName('body');
+    const members = body ? body.namedChildren.filter(member => member.type !== 'comment') : [];
+    const methods = members.filter(member => this.isClassMethod(member));
+
+    // Single-line classes would collide with their methods on chunk_id
+    if (!body || methods.length === 0 || span.startPosition.row === span.endPosition.row) {
+      chunks.push(this.createAstChunk(span, 'class', className, filePath, lines, fileChange, coChangeFiles));
+      return;
+    }
+
+    const header = span.text.slice(0, body.startIndex - span.startIndex + 1);
+    const outlineMembers = members.map(member => {
+      if (this.isClassMethod(member)) {
+        const methodBody = member.type === 'method_definition'
+          ? member.childForFieldName('body')
+          : member.childForFieldName('value')?.childForFieldName('body');
+        const signature = methodBody
+          ? member.text.slice(0, methodBody.startIndex - member.startIndex).trim()
+          : member.text;
+        return `${signature.replace(/\s*=>\s*$/, '').replace(/\s*=\s*$/, '')};`;
+      }
+      const [firstLine, ...rest] = member.text.split('\n');
+      if (rest.length > 0) return `${firstLine} ...`;
+      return firstLine.endsWith(';') ? firstLine : `${firstLine};`;
+    });
+
+    const startRow = this.getLeadingStartRow(span);
+    const leading = lines.slice(startRow, span.startPosition.row);
+    const outline = [...leading, header, ...outlineMembers.map(member => `  ${member}`), '}'].join('\n');
+
+    chunks.push(this.createChunk(
+      filePath, outline, startRow + 1, span.endPosition.row + 1,
+      'class', className, fileChange, coChangeFiles
+    ));
+
+    for (const method of methods) {
+      const methodName = this.getNodeName(method) || 'anonymous';
+      const methodChunk = this.createAstChunk(
+        method, 'method', `${className}.${methodName}`, filePath, lines, fileChange, coChangeFiles
+      );
+      methodChunk.parent_symbol = className;
+      chunks.push(methodChunk);
+    }
+  }
+
+  private isClassMethod(member: Parser.SyntaxNode): boolean {
+    if (member.type === 'method_definition') return true;
+    // Arrow-function class fields: `handle = async () => { ... }`
+    return (member.type === 'public_field_definition' || member.type === 'field_definition') &&
+      this.isFunctionNode(member.childForFieldName('value'));
+  }
+
+  private createAstChunk(
+    node: Parser.SyntaxNode,
+    chunkType: ChunkType,
+    symbolName: string,
+    filePath: string,
+    lines: string[],
+    fileChange?: FileChange,
+    coChangeFiles: string[] = []
+  ): CodeChunk {
+    const startRow = this.getLeadingStartRow(node);
+    const endRow = node.endPosition.row;
+
+    const chunkContent = lines.slice(startRow, endRow + 1).join('\n');
+    return this.createChunk(
+      filePath, chunkContent, startRow + 1, endRow + 1,
+      chunkType, symbolName, fileChange, coChangeFiles
+    );
+  }
+
+  /** Row of the first directly preceding comment (JSDoc etc.), or the node's own row */
+  private getLeadingStartRow(node: Parser.SyntaxNode): number {
+    let startRow = node.startPosition.row;
+    let previous = node.previousSibling;
+    while (previous && previous.type === 'comment' && previous.endPosition.row >= startRow - 1) {
+      startRow = previous.startPosition.row;
+      previous = previous.previousSibling;
     }
+    return startRow;
+  }
+
+  private getParser(filePath: string): Parser {
+    const ext = this.getFileExtension(filePath);
+    if (ext === '.tsx') return this.tsxParser;
+    if (['.ts', '.mts', '.cts'].includes(ext)) return this.tsParser;
+    return this.jsParser;
+  }
+
+  private isFunctionNode(node: Parser.SyntaxNode | null): boolean {
+    return !!node && (
+      node.type === 'arrow_function' ||
+      node.type === 'function_expression' ||
+      node.type === 'function' ||
+      node.type === 'generator_function'
+    );
+  }
+
+  private getNodeName(node: Parser.SyntaxNode): string {
+    return node.childForFieldName('name')?.text || '';
+  }
+
+  private chunkWithLanguageModule(
+    filePath: string,
+    content: string,
+    lines: string[],
+    fileChange?: FileChange,
+    coChangeFiles: string[] = []
+  ): CodeChunk[] {
+    const languageModule = languageRegistry.getForFile(filePath)!;
+    let spans: LanguageChunkSpan[];
+    try {
+      spans = languageModule.extractChunks(languageRegistry.parse(languageModule, content), content);
+    } catch (error) {
+      return this.chunkGeneric(filePath, content, lines, fileChange, coChangeFiles);
+    }
+
+    const chunks = spans.map(span => {
+      const chunk = this.createChunk(
+        filePath,
+        span.content ?? lines.slice(span.startLine - 1, span.endLine).join('\n'),
+        span.startLine, span.endLine,
+        span.chunkType, span.symbolName, fileChange, coChangeFiles
+      );
+      if (span.parentSymbol) {
+        chunk.parent_symbol = span.parentSymbol;
+      }
+      return chunk;
+    });
 
     return chunks.length > 0 ? chunks : [this.createChunk(
-      filePath, content, 1, lines.length, 'function', '', fileChange, coChangeFiles
+      filePath, content, 1, lines.length, this.detectChunkType(filePath), '', fileChange, coChangeFiles
     )];
   }
 
@@ -265,6 +591,9 @@ export class SmartChunker {
     
     if (filePath.endsWith('.md')) {
       return this.chunkMarkdown(filePath, content, fileChange, coChangeFiles);
+    } else if (languageRegistry.getForFile(filePath)) {
+      // JSON/YAML: one chunk per key path
+      return this.chunkWithLanguageModule(filePath, content, content.split('\n'), fileChange, coChangeFiles);
     } else {
       // Simple paragraph-based chunking for other docs
       const paragraphs = content.split('\n\n').filter(p => p.trim());
@@ -286,6 +615,11 @@ export class SmartChunker {
     return chunks;
   }
 
+  /**
+   * Split Markdown on ATX headings. Each section's symbol_name is its heading
+   * breadcrumb (`# A > ## B > ### C`); `#` lines inside fenced code blocks are
+   * not headings, so fences always stay within one section.
+   */
   private chunkMarkdown(
     filePath: string,
     content: string,
@@ -294,45 +628,90 @@ export class SmartChunker {
   ): CodeChunk[] {
     const chunks: CodeChunk[] = [];
     const lines = content.split('\n');
-    let currentChunk = '';
-    let chunkStartLine = 1;
-    let symbolName = '';
+    const headingStack: Array<{ level: number; text: string }> = [];
+    let sectionStart = 0;
+    let openFence: string | null = null;
+
+    const flushSection = (endIndex: number) => {
+      const sectionContent = lines.slice(sectionStart, endIndex).join('\n');
+      // Heading-only sections add nothing; their title lives on in the children's breadcrumbs
+      const body = headingStack.length > 0 ? lines.slice(sectionStart + 1, endIndex).join('\n') : sectionContent;
+      if (!body.trim()) return;
+
+      const breadcrumb = headingStack.map(heading => `${'#'.repeat(heading.level)} ${heading.text}`).join(' > ');
+      const chunk = this.createChunk(
+        filePath, sectionContent, sectionStart + 1, endIndex,
+        'documentation', breadcrumb, fileChange, coChangeFiles
+      );
+      chunk.relationships.mentions = this.extractDocumentMentions(sectionContent);
+      chunks.push(chunk);
+    };
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
-      
-      // Detect headers
-      if (line.startsWith('#')) {
-        // Save previous chunk if exists
-        if (currentChunk.trim()) {
-          chunks.push(this.createChunk(
-            filePath, currentChunk, chunkStartLine, i, 
-            'documentation', symbolName, fileChange, coChangeFiles
-          ));
+
+      const fence = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fence) {
+        if (!openFence) {
+          openFence = fence[1];
+        } else if (fence[1][0] === openFence[0] && fence[1].length >= openFence.length) {
+          openFence = null;
         }
-        
-        // Start new section
-        symbolName = line.replace(/^#+\s*/, '');
-        chunkStartLine = i + 1;
-        currentChunk = line + '\n';
-      } else {
-        currentChunk += line + '\n';
+        continue;
       }
-    }
+      if (openFence) continue;
 
-    // Handle final chunk
-    if (currentChunk.trim()) {
-      chunks.push(this.createChunk(
-        filePath, currentChunk, chunkStartLine, lines.length, 
-        'documentation', symbolName, fileChange, coChangeFiles
-      ));
+      const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+      if (heading) {
+        flushSection(i);
+
+        const level = heading[1].length;
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+          headingStack.pop();
+        }
+        headingStack.push({ level, text: heading[2] });
+        sectionStart = i;
+      }
     }
 
+    flushSection(lines.length);
+
     return chunks.length > 0 ? chunks : [this.createChunk(
       filePath, content, 1, lines.length, 'documentation', '', fileChange, coChangeFiles
     )];
   }
 
+  /**
+   * Symbols a doc section refers to: identifiers called, constructed or declared in
+   * its fenced code blocks plus identifier-like inline code spans. `Class.method`
+   * forms are kept so they match method chunk names.
+   */
+  private extractDocumentMentions(content: string): string[] {
+    const mentions = new Set<string>();
+    const keywords = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'typeof', 'def', 'fn', 'func', 'await', 'async', 'super', 'require', 'import', 'constructor']);
+
+    const fencedBlocks = content.match(/^\s{0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\s{0,3}\1/gm) || [];
+    for (const block of fencedBlocks) {
+      for (const match of block.matchAll(/\b([A-Z]\w*)\.(\w+)\s*\(/g)) {
+        mentions.add(match[1]);
+        mentions.add(`${match[1]}.${match[2]}`);
+      }
+      for (const match of block.matchAll(/\b(?:new|class|interface|extends|implements)\s+([A-Z]\w*)/g)) {
+        mentions.add(match[1]);
+      }
+      for (const match of block.matchAll(/(?<![.\w])([A-Za-z_]\w*)\s*\(/g)) {
+        if (!keywords.has(match[1])) mentions.add(match[1]);
+      }
+    }
+
+    const prose = fencedBlocks.reduce((text, block) => text.replace(block, ''), content);
+    for (const match of prose.matchAll(/`([A-Za-z_]\w*(?:\.\w+)?)(?:\(\))?`/g)) {
+      mentions.add(match[1]);
+    }
+
+    return Array.from(mentions);
+  }
+
   private createChunk(
     filePath: string,
     content: string,
@@ -344,7 +723,7 @@ export class SmartChunker {
     coChangeFiles: string[] = []
   ): CodeChunk {
     return {
-      chunk_id: this.generateChunkId(filePath, startLine),
+      chunk_id: this.generateChunkId(filePath, startLine, symbolName),
       file_path: filePath,
       symbol_name: symbolName || undefined,
       chunk_type: chunkType,
@@ -386,7 +765,7 @@ export class SmartChunker {
     if (filePath.endsWith('.md') || filePath.endsWith('.txt')) {
       return 'documentation';
     }
-    if (filePath.endsWith('.json') || filePath.endsWith('.yaml')) {
+    if (filePath.endsWith('.json') || filePath.endsWith('.yaml') || filePath.endsWith('.yml')) {
       return 'config';
     }
     return 'function'; // Default for code files
@@ -395,7 +774,7 @@ export class SmartChunker {
   // Helper methods for language detection and parsing
   private isCodeFile(filePath: string): boolean {
     const ext = this.getFileExtension(filePath);
-    const codeExtensions = ['.js', '.jsx', '.ts', '.tsx', '.py', '.go', '.rs', '.java', '.cpp', '.c', '.h'];
+    const codeExtensions = ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', '.py', '.go', '.rs', '.java', '.cpp', '.c', '.h'];
     return codeExtensions.includes(ext);
   }
 
@@ -403,49 +782,11 @@ export class SmartChunker {
     return filePath.substring(filePath.lastIndexOf('.')).toLowerCase();
   }
 
-  private isFunctionDeclaration(line: string): boolean {
-    return /^(function\s+\w+|const\s+\w+\s*=\s*(?:\([^)]*\)\s*)?=>|export\s+(?:function|const)\s+\w+|async\s+function\s+\w+)/.test(line) ||
-           /^\w+\s*\([^)]*\)\s*\{/.test(line) || // Method in class
-           line.includes(') {') && (line.includes('function') || line.includes('=>'));
-  }
-
-  private isClassDeclaration(line: string): boolean {
-    return /^(class\s+\w+|export\s+class\s+\w+)/.test(line);
-  }
-
-  private isTopLevelStatement(line: string): boolean {
-    return /^(import\s+|export\s+|const\s+\w+\s*=|let\s+\w+\s*=|var\s+\w+\s*=)/.test(line);
-  }
-
-  private extractFunctionName(line: string): string {
-    const matches = line.match(/(?:function\s+(\w+)|const\s+(\w+)|export\s+(?:function\s+)?(\w+)|(\w+)\s*\()/);
-    return matches ? (matches[1] || matches[2] || matches[3] || matches[4]) : '';
-  }
-
-  private extractClassName(line: string): string {
-    const matches = line.match(/class\s+(\w+)/);
-    return matches ? matches[1] : '';
-  }
-
   private extractImportExport(line: string): string {
     const matches = line.match(/(?:import|export).*?(\w+)/);
     return matches ? matches[1] : '';
   }
 
-  private extractPythonFunctionName(line: string): string {
-    const matches = line.match(/def\s+(\w+)/);
-    return matches ? matches[1] : '';
-  }
-
-  private extractPythonClassName(line: string): string {
-    const matches = line.match(/class\s+(\w+)/);
-    return matches ? matches[1] : '';
-  }
-
-  private isPythonTopLevel(line: string): boolean {
-    return /^(import\s+|from\s+\S+\s+import|^\w+\s*=)/.test(line);
-  }
-
   private extractCalls(content: string): string[] {
     // Simple function call extraction
     const callMatches = content.match(/(\w+)\s*\(/g);
@@ -527,8 +868,12 @@ export class SmartChunker {
     const langMap: Record<string, string> = {
       '.ts': 'typescript',
       '.tsx': 'typescript',
+      '.mts': 'typescript',
+      '.cts': 'typescript',
       '.js': 'javascript',
       '.jsx': 'javascript',
+      '.mjs': 'javascript',
+      '.cjs': 'javascript',
       '.py': 'python',
       '.go': 'go',
       '.rs': 'rust',
@@ -544,8 +889,9 @@ export class SmartChunker {
     return langMap[ext] || 'unknown';
   }
 
-  private generateChunkId(filePath: string, startLine: number): string {
-    return `${filePath}:${startLine}`;
+  /** Several chunks can start on one line (`a = 1, b = 2`, config keys), so the symbol is part of the id */
+  private generateChunkId(filePath: string, startLine: number, symbolName?: string): string {
+    return symbolName ? `${filePath}:${startLine}:${symbolName}` : `${filePath}:${startLine}`;
   }
 
   private hashContent(content: string): string {
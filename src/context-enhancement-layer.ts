@@ -4,6 +4,7 @@ import { CodeChunk, QueryRequest, MultiHopConfig } from './types';
 import { log, warn, error } from './logging-utils';
 import { ProjectManager } from './project-manager';
 import { CodebaseIndexer } from './indexer';
+import { countTokens } from './token-counter';
 
 interface ProjectContext {
   type: 'typescript' | 'javascript' | 'python' | 'react' | 'nextjs' | 'express' | 'fastapi' | 'unknown';
@@ -667,11 +668,10 @@ ${chunk.content.trim()}
   }
 
   /**
-   * Estimate token count for text (rough approximation)
+   * Token count for text, using the shared tokenizer
    */
   private estimateTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4);
+    return countTokens(text);
   }
 
   /**
@@ -1,5 +1,6 @@
 import { ProjectContextDetector, ProjectContext } from './project-context-detector';
 import { log, warn } from './logging-utils';
+import { countTokens } from './token-counter';
 
 interface ContextEnhancementOptions {
   maxTokens?: number;
@@ -198,11 +199,10 @@ export class ContextEnhancer {
   }
 
   /**
-   * Estimate token count for context header
-   * Simple approximation: ~4 characters per token
+   * Token count for context header, using the shared tokenizer
    */
   private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return countTokens(text);
   }
 
   /**
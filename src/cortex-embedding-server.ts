@@ -5,7 +5,7 @@ import fastq from 'fastq';
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
-import { CodeChunk, IEmbedder, EmbedOptions, EmbeddingResult, EmbeddingMetadata, PerformanceStats, ProviderHealth, ProviderMetrics } from './types';
+import { CodeChunk, IEmbedder, EmbedOptions, EmbeddingResult, EmbeddingMetadata, PerformanceStats, ProviderHealth, ProviderMetrics, SavedQueryStatus } from './types';
 import { log, warn, error } from './logging-utils';
 import { MemoryMappedCache } from './memory-mapped-cache';
 import { ContextEnhancementLayer } from './context-enhancement-layer';
@@ -53,6 +53,7 @@ interface ServerStatus {
     lastRequestTime: string;
     shutdownScheduled: boolean;
   };
+  savedQueries?: SavedQueryStatus[];
 }
 
 interface EmbeddingRequest {
@@ -280,14 +281,16 @@ export class CortexEmbeddingServer implements IEmbedder {
     // Enhanced semantic search with context enhancement
     this.app.post('/semantic-search-enhanced', async (req: Request, res: Response) => {
       try {
-        const { query, options = {}, projectPath, clientId } = req.body;
+        // EmbeddingClient sends search options top-level; older clients nest them in `options`
+        const { query, options = {}, projectPath, clientId, ...searchOptions } = req.body;
         
-        if (!query) {
-          return res.status(400).json({ error: 'Query is required' });
+        if (!query && !searchOptions.cursor && !options.cursor) {
+          return res.status(400).json({ error: 'Query or cursor is required' });
         }
 
         const result = await this.centralizedHandlers!.handleSemanticSearch({
           query,
+          ...searchOptions,
           ...options,
           projectPath,
           clientId
@@ -377,6 +380,168 @@ export class CortexEmbeddingServer implements IEmbedder {
       }
     });
 
+    // Stack trace search endpoint
+    this.app.post('/search-stack-trace', async (req: Request, res: Response) => {
+      try {
+        const { stackTrace, maxCallers, includeErrorHandling, projectPath, clientId } = req.body;
+
+        if (!stackTrace) {
+          return res.status(400).json({ error: 'Stack trace is required' });
+        }
+
+        const result = await this.centralizedHandlers!.handleSearchStackTrace({
+          stackTrace,
+          maxCallers,
+          includeErrorHandling,
+          projectPath,
+          clientId
+        });
+
+        res.json(result);
+
+      } catch (err) {
+        this.errors++;
+        error('Stack trace search failed', { error: err });
+        res.status(500).json({ error: 'Stack trace search failed' });
+      }
+    });
+
+    // Find definition endpoint (symbol name, or file plus line/column)
+    this.app.post('/find-definition', async (req: Request, res: Response) => {
+      try {
+        const { symbol, filePath, line, column, maxResults, projectPath, clientId } = req.body;
+
+        if (!symbol && !(filePath && line)) {
+          return res.status(400).json({ error: 'Symbol, or file path and line, is required' });
+        }
+
+        const result = await this.centralizedHandlers!.handleFindDefinition({
+          symbol,
+          filePath,
+          line,
+          column,
+          maxResults,
+          projectPath,
+          clientId
+        });
+
+        res.json(result);
+
+      } catch (err) {
+        this.errors++;
+        error('Find definition failed', { error: err });
+        res.status(500).json({ error: 'Find definition failed' });
+      }
+    });
+
+    // Find references endpoint (symbol name, or file plus line/column)
+    this.app.post('/find-references', async (req: Request, res: Response) => {
+      try {
+        const { symbol, filePath, line, column, maxResults, projectPath, clientId } = req.body;
+
+        if (!symbol && !(filePath && line)) {
+          return res.status(400).json({ error: 'Symbol, or file path and line, is required' });
+        }
+
+        const result = await this.centralizedHandlers!.handleFindReferences({
+          symbol,
+          filePath,
+          line,
+          column,
+          maxResults,
+          projectPath,
+          clientId
+        });
+
+        res.json(result);
+
+      } catch (err) {
+        this.errors++;
+        error('Find references failed', { error: err });
+        res.status(500).json({ error: 'Find references failed' });
+      }
+    });
+
+    // Impact analysis endpoint (diff, commit range or symbols)
+    this.app.post('/impact-analysis', async (req: Request, res: Response) => {
+      try {
+        const { diff, commitRange, symbols, maxDepth, maxResults, projectPath, clientId } = req.body;
+
+        if (!diff && !commitRange && !(Array.isArray(symbols) && symbols.length > 0)) {
+          return res.status(400).json({ error: 'Diff, commit range or symbols is required' });
+        }
+
+        const result = await this.centralizedHandlers!.handleImpactAnalysis({
+          diff,
+          commitRange,
+          symbols,
+          maxDepth,
+          maxResults,
+          projectPath,
+          clientId
+        });
+
+        res.json(result);
+
+      } catch (err) {
+        this.errors++;
+        error('Impact analysis failed', { error: err });
+        res.status(500).json({ error: 'Impact analysis failed' });
+      }
+    });
+
+    // Find tests endpoint (symbol or file)
+    this.app.post('/find-tests', async (req: Request, res: Response) => {
+      try {
+        const { symbol, filePath, maxDepth, maxResults, projectPath, clientId } = req.body;
+
+        if (!symbol && !filePath) {
+          return res.status(400).json({ error: 'Symbol or file path is required' });
+        }
+
+        const result = await this.centralizedHandlers!.handleFindTests({
+          symbol,
+          filePath,
+          maxDepth,
+          maxResults,
+          projectPath,
+          clientId
+        });
+
+        res.json(result);
+
+      } catch (err) {
+        this.errors++;
+        error('Find tests failed', { error: err });
+        res.status(500).json({ error: 'Find tests failed' });
+      }
+    });
+
+    // Saved queries endpoint (list/save/remove/run/changes)
+    this.app.post('/saved-queries', async (req: Request, res: Response) => {
+      try {
+        const { action = 'list', query, name, id, maxChunks, since, projectPath, clientId } = req.body;
+
+        const result = await this.centralizedHandlers!.handleSavedQueries({
+          action,
+          query,
+          name,
+          id,
+          maxChunks,
+          since,
+          projectPath,
+          clientId
+        });
+
+        res.json(result);
+
+      } catch (err) {
+        this.errors++;
+        error('Saved queries request failed', { error: err });
+        res.status(500).json({ error: 'Saved queries request failed' });
+      }
+    });
+
     // Find code patterns endpoint
     this.app.post('/find-code-patterns', async (req: Request, res: Response) => {
       try {
@@ -403,6 +568,31 @@ export class CortexEmbeddingServer implements IEmbedder {
       }
     });
 
+    // Indexed code chunk lookup (split chunks are walked with direction 'next')
+    this.app.post('/fetch-code-chunk', async (req: Request, res: Response) => {
+      try {
+        const { chunkId, direction = 'current', projectPath, clientId } = req.body;
+
+        if (!chunkId) {
+          return res.status(400).json({ error: 'Chunk id is required' });
+        }
+
+        const result = await this.centralizedHandlers!.handleFetchCodeChunk({
+          chunkId,
+          direction,
+          projectPath,
+          clientId
+        });
+
+        res.json(result);
+
+      } catch (err) {
+        this.errors++;
+        error('Fetch code chunk failed', { error: err });
+        res.status(500).json({ error: 'Fetch code chunk failed' });
+      }
+    });
+
     // Embedding health monitoring endpoint
     this.app.post('/embedding-health', (req: Request, res: Response) => {
       try {
@@ -416,8 +606,14 @@ export class CortexEmbeddingServer implements IEmbedder {
     });
 
     // Server status endpoint for monitoring
-    this.app.get('/status', (req: Request, res: Response) => {
+    this.app.get('/status', async (req: Request, res: Response) => {
       const status = this.getServerStatus();
+      const projects = status.activeClients.map(client => client.project).filter(project => project !== 'unknown');
+      try {
+        status.savedQueries = await this.centralizedHandlers?.getSavedQueryStatus(projects);
+      } catch (err) {
+        warn('Saved query status unavailable', { error: err });
+      }
       res.json(status);
     });
 
@@ -0,0 +1,232 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { InferenceSession } from 'onnxruntime-node';
+import type { Tokenizer } from '@anush008/tokenizers';
+import { CodeChunk } from './types';
+import { cortexConfig } from './env-config';
+import { log, warn } from './logging-utils';
+
+/**
+ * Second-stage reranker: a cross-encoder reads the query and each candidate together
+ * and scores their relevance, which is more precise than comparing two independent
+ * embeddings. Runs on CPU through the ONNX runtime and tokenizer that fastembed uses.
+ *
+ * The model loads in the background on first use. Until it is ready, and whenever
+ * scoring would exceed the latency budget, candidates keep their existing order.
+ */
+
+export interface RerankerConfig {
+  enabled: boolean;
+  model: string;          // Hugging Face repository with an ONNX export
+  topN: number;           // Candidates scored per query; the rest keep their order
+  latencyBudgetMs: number;
+  cacheSize: number;      // (query, content_hash) scores kept in memory
+  cacheDir: string;
+}
+
+export interface RerankMetrics {
+  applied: boolean;
+  reason?: 'disabled' | 'model_loading' | 'unavailable' | 'budget_exceeded' | 'error';
+  candidates: number;
+  cache_hits: number;
+  duration_ms: number;
+}
+
+export interface RerankResult {
+  chunks: CodeChunk[];
+  metrics: RerankMetrics;
+}
+
+const MODEL_FILES = {
+  model: 'onnx/model_quantized.onnx',
+  tokenizer: 'tokenizer.json'
+};
+
+const MAX_SEQUENCE_TOKENS = 512;
+const BATCH_SIZE = 8;
+
+export function loadRerankerConfig(): RerankerConfig {
+  return {
+    enabled: cortexConfig.rerankEnabled,
+    model: cortexConfig.rerankModel,
+    topN: cortexConfig.rerankTopN,
+    latencyBudgetMs: cortexConfig.rerankBudgetMs,
+    cacheSize: cortexConfig.rerankCacheSize,
+    cacheDir: './.fastembed_cache'
+  };
+}
+
+export class CrossEncoderReranker {
+  private session: InferenceSession | null = null;
+  private tokenizer: Tokenizer | null = null;
+  private loading: Promise<void> | null = null;
+  private loadFailed = false;
+  // Insertion-ordered, so the first key is the least recently used
+  private scoreCache: Map<string, number> = new Map();
+
+  constructor(private readonly config: RerankerConfig = loadRerankerConfig()) {}
+
+  /** Start loading the model ahead of the first query */
+  warmUp(): void {
+    if (this.config.enabled) this.ensureModelLoading();
+  }
+
+  /**
+   * Reorder the top `topN` candidates by cross-encoder score and set their
+   * `relevance_score` to it (0-1), so MMR selection works from reranked relevance.
+   */
+  async rerank(query: string, candidates: CodeChunk[]): Promise<RerankResult> {
+    const startTime = Date.now();
+    const fallback = (reason: RerankMetrics['reason'], cacheHits = 0): RerankResult => ({
+      chunks: candidates,
+      metrics: { applied: false, reason, candidates: 0, cache_hits: cacheHits, duration_ms: Date.now() - startTime }
+    });
+
+    if (!this.config.enabled) return fallback('disabled');
+    if (candidates.length < 2) return fallback(undefined);
+    if (this.loadFailed) return fallback('unavailable');
+    if (!this.session || !this.tokenizer) {
+      this.ensureModelLoading();
+      return fallback('model_loading');
+    }
+
+    const head = candidates.slice(0, this.config.topN);
+    const queryKey = crypto.createHash('sha1').update(query).digest('hex');
+    const scores = new Map<string, number>();
+    const uncached: CodeChunk[] = [];
+
+    for (const chunk of head) {
+      const cached = this.getCachedScore(`${queryKey}:${chunk.content_hash}`);
+      if (cached !== undefined) {
+        scores.set(chunk.chunk_id, cached);
+      } else {
+        uncached.push(chunk);
+      }
+    }
+    const cacheHits = scores.size;
+
+    try {
+      let batchMs = 0;
+      for (let i = 0; i < uncached.length; i += BATCH_SIZE) {
+        // Stop before a batch that would overrun the budget, not after it
+        if (Date.now() - startTime + batchMs > this.config.latencyBudgetMs) {
+          log(`[Reranker] Latency budget exceeded budget=${this.config.latencyBudgetMs}ms scored=${scores.size}/${head.length}, keeping original order`);
+          return fallback('budget_exceeded', cacheHits);
+        }
+
+        const batch = uncached.slice(i, i + BATCH_SIZE);
+        const batchStart = Date.now();
+        const logits = await this.score(query, batch.map(chunk => chunk.content));
+        batchMs = Date.now() - batchStart;
+        batch.forEach((chunk, index) => {
+          const score = 1 / (1 + Math.exp(-logits[index]));
+          scores.set(chunk.chunk_id, score);
+          this.setCachedScore(`${queryKey}:${chunk.content_hash}`, score);
+        });
+      }
+    } catch (error) {
+      warn(`[Reranker] Scoring failed, keeping original order error=${error instanceof Error ? error.message : error}`);
+      return fallback('error', cacheHits);
+    }
+
+    const reranked = head
+      .map(chunk => ({ ...chunk, relevance_score: scores.get(chunk.chunk_id)! }))
+      .sort((a, b) => b.relevance_score - a.relevance_score);
+
+    // Unscored candidates stay behind the reranked ones and never outscore them
+    const floor = reranked[reranked.length - 1]?.relevance_score ?? 0;
+    const tail = candidates.slice(this.config.topN).map(chunk => ({
+      ...chunk,
+      relevance_score: Math.min(chunk.relevance_score ?? floor, floor)
+    }));
+
+    return {
+      chunks: [...reranked, ...tail],
+      metrics: { applied: true, candidates: head.length, cache_hits: cacheHits, duration_ms: Date.now() - startTime }
+    };
+  }
+
+  private async score(query: string, documents: string[]): Promise<number[]> {
+    const ort = await import('onnxruntime-node');
+    const encodings = await Promise.all(documents.map(document => this.tokenizer!.encode(query, document)));
+
+    const length = Math.max(...encodings.map(encoding => encoding.getIds().length));
+    const pad = (values: number[]) => [...values, ...new Array(length - values.length).fill(0)].map(BigInt);
+    const tensor = (values: number[][]) => new ort.Tensor('int64', values.flatMap(pad), [documents.length, length]);
+
+    const inputs: Record<string, InstanceType<typeof ort.Tensor>> = {
+      input_ids: tensor(encodings.map(encoding => encoding.getIds())),
+      attention_mask: tensor(encodings.map(encoding => encoding.getAttentionMask()))
+    };
+    if (this.session!.inputNames.includes('token_type_ids')) {
+      inputs.token_type_ids = tensor(encodings.map(encoding => encoding.getTypeIds()));
+    }
+
+    const output = await this.session!.run(inputs);
+    const logits = output[this.session!.outputNames[0]].data as Float32Array;
+    // [batch, 1] for relevance models; take the last column otherwise
+    const columns = logits.length / documents.length;
+    return documents.map((_, index) => logits[index * columns + columns - 1]);
+  }
+
+  private ensureModelLoading(): void {
+    if (this.loading) return;
+
+    this.loading = this.loadModel().catch(error => {
+      this.loadFailed = true;
+      warn(`[Reranker] Cross-encoder unavailable, reranking disabled model=${this.config.model} error=${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  private async loadModel(): Promise<void> {
+    const startTime = Date.now();
+    const modelDir = path.join(this.config.cacheDir, this.config.model.replace(/[\\/]/g, '--'));
+    await fs.promises.mkdir(path.join(modelDir, 'onnx'), { recursive: true });
+
+    for (const file of Object.values(MODEL_FILES)) {
+      const target = path.join(modelDir, file);
+      if (!fs.existsSync(target)) {
+        await this.download(`https://huggingface.co/${this.config.model}/resolve/main/${file}`, target);
+      }
+    }
+
+    const [ort, { Tokenizer }] = await Promise.all([import('onnxruntime-node'), import('@anush008/tokenizers')]);
+    const tokenizer = Tokenizer.fromFile(path.join(modelDir, MODEL_FILES.tokenizer));
+    tokenizer.setTruncation(MAX_SEQUENCE_TOKENS);
+    tokenizer.disablePadding();
+
+    this.session = await ort.InferenceSession.create(path.join(modelDir, MODEL_FILES.model), {
+      executionProviders: ['cpu'],
+      graphOptimizationLevel: 'all'
+    });
+    this.tokenizer = tokenizer;
+    log(`[Reranker] Cross-encoder ready model=${this.config.model} duration=${Date.now() - startTime}ms`);
+  }
+
+  private async download(url: string, target: string): Promise<void> {
+    log(`[Reranker] Downloading ${url}`);
+    const response = await axios.get(url, { responseType: 'arraybuffer', timeout: 120000 });
+    // Write then rename so an interrupted download is never mistaken for a cached file
+    const partial = `${target}.partial`;
+    await fs.promises.writeFile(partial, Buffer.from(response.data));
+    await fs.promises.rename(partial, target);
+  }
+
+  private getCachedScore(key: string): number | undefined {
+    const score = this.scoreCache.get(key);
+    if (score !== undefined) {
+      this.scoreCache.delete(key);
+      this.scoreCache.set(key, score);
+    }
+    return score;
+  }
+
+  private setCachedScore(key: string, score: number): void {
+    this.scoreCache.set(key, score);
+    if (this.scoreCache.size > this.config.cacheSize) {
+      this.scoreCache.delete(this.scoreCache.keys().next().value!);
+    }
+  }
+}
@@ -105,6 +105,7 @@ export class DataFlowAnalyzer {
       case 'method_definition':
       case 'arrow_function':
       case 'function_expression':
+      case 'function_definition':     // Python
         this.analyzeFunctionDataFlow(node, content, filePath);
         break;
         
@@ -116,8 +117,13 @@ export class DataFlowAnalyzer {
       case 'assignment_expression':
         this.analyzeAssignment(node, content, filePath);
         break;
+
+      case 'assignment':              // Python: declaration and assignment are the same statement
+        this.analyzePythonAssignment(node, content, filePath);
+        break;
         
       case 'call_expression':
+      case 'call':                    // Python
         this.analyzeCallDataFlow(node, content, filePath);
         break;
         
@@ -126,10 +132,12 @@ export class DataFlowAnalyzer {
         break;
         
       case 'member_expression':
+      case 'attribute':               // Python
         this.analyzePropertyAccess(node, content, filePath);
         break;
         
       case 'subscript_expression':
+      case 'subscript':               // Python
         this.analyzeArrayAccess(node, content, filePath);
         break;
         
@@ -164,13 +172,13 @@ export class DataFlowAnalyzer {
     this.scopeStack.push(this.currentFunction);
 
     // Analyze parameters
-    const params = this.findChildByType(node, 'formal_parameters');
+    const params = this.findChildByType(node, 'formal_parameters') || this.findChildByType(node, 'parameters');
     if (params) {
       this.analyzeParameters(params, content, filePath, functionName);
     }
 
     // Analyze function body
-    const body = this.findChildByType(node, 'statement_block');
+    const body = this.findChildByType(node, 'statement_block') || this.findChildByType(node, 'block');
     if (body) {
       for (let i = 0; i < body.childCount; i++) {
         this.traverseForDataFlow(body.child(i)!, content, filePath);
@@ -194,10 +202,16 @@ export class DataFlowAnalyzer {
   ): void {
     for (let i = 0; i < paramsNode.childCount; i++) {
       const param = paramsNode.child(i)!;
+      // Python wraps annotated/defaulted parameters: `x: int`, `x=1`, `x: int = 1`
+      const nameNode = param.type === 'identifier'
+        ? param
+        : ['typed_parameter', 'default_parameter', 'typed_default_parameter'].includes(param.type)
+          ? this.findChildByType(param, 'identifier')
+          : null;
       
-      if (param.type === 'identifier') {
-        const paramName = this.getNodeText(param, content);
-        const line = param.startPosition.row + 1;
+      if (nameNode) {
+        const paramName = this.getNodeText(nameNode, content);
+        const line = nameNode.startPosition.row + 1;
         
         const paramNode: DataFlowNode = {
           id: `${filePath}:${paramName}:${line}:param`,
@@ -205,9 +219,9 @@ export class DataFlowAnalyzer {
           name: paramName,
           filePath,
           line,
-          column: param.startPosition.column,
+          column: nameNode.startPosition.column,
           scope: this.currentFunction || 'global',
-          dataType: this.inferParameterType(param, content)
+          dataType: this.inferParameterType(nameNode, content)
         };
         
         this.dataFlowNodes.set(paramNode.id, paramNode);
@@ -293,13 +307,95 @@ export class DataFlowAnalyzer {
     }
   }
 
+  /**
+   * Python assignments double as declarations: a plain name becomes a variable node,
+   * tuple targets (`a, b = pair`) are destructured and attribute/subscript targets
+   * are treated like JS assignments.
+   */
+  private analyzePythonAssignment(
+    node: Parser.SyntaxNode,
+    content: string,
+    filePath: string
+  ): void {
+    const leftNode = node.childForFieldName('left');
+    const rightNode = node.childForFieldName('right');
+    if (!leftNode || !rightNode) return;
+
+    if (leftNode.type === 'identifier') {
+      const varName = this.getNodeText(leftNode, content);
+      const line = leftNode.startPosition.row + 1;
+      const typeNode = node.childForFieldName('type'); // `x: int = 1`
+
+      const varNode: DataFlowNode = {
+        id: `${filePath}:${varName}:${line}:var`,
+        type: 'variable',
+        name: varName,
+        filePath,
+        line,
+        column: leftNode.startPosition.column,
+        scope: this.currentFunction || 'global',
+        dataType: typeNode ? this.getNodeText(typeNode, content) : undefined,
+        value: this.extractLiteralValue(rightNode, content)
+      };
+
+      // Read the right side before recording the new assignment so `x = x + 1` flows from the old x
+      const sourceVars = this.extractVariablesFromExpression(rightNode, content);
+      this.dataFlowNodes.set(varNode.id, varNode);
+      sourceVars.forEach(sourceVar => {
+        const sourceState = this.variableStates.get(sourceVar);
+        if (sourceState) {
+          const sourceNodeId = `${filePath}:${sourceVar}:${sourceState.assignments[sourceState.assignments.length - 1] || 1}:var`;
+          this.createDataFlowEdge(sourceNodeId, varNode.id, 'assignment', filePath);
+        }
+      });
+      this.trackVariableState(varName, varNode, false);
+      return;
+    }
+
+    if (leftNode.type === 'pattern_list' || leftNode.type === 'tuple_pattern' || leftNode.type === 'list_pattern') {
+      const sourceVars = this.extractVariablesFromExpression(rightNode, content);
+
+      leftNode.descendantsOfType('identifier').forEach(target => {
+        const varName = this.getNodeText(target, content);
+        const line = target.startPosition.row + 1;
+
+        const varNode: DataFlowNode = {
+          id: `${filePath}:${varName}:${line}:var`,
+          type: 'variable',
+          name: varName,
+          filePath,
+          line,
+          column: target.startPosition.column,
+          scope: this.currentFunction || 'global'
+        };
+
+        this.dataFlowNodes.set(varNode.id, varNode);
+        sourceVars.forEach(sourceVar => {
+          const sourceState = this.variableStates.get(sourceVar);
+          if (sourceState) {
+            this.createDataFlowEdge(
+              `${filePath}:${sourceVar}:${sourceState.assignments[sourceState.assignments.length - 1] || 1}:var`,
+              varNode.id,
+              'destructuring',
+              filePath
+            );
+          }
+        });
+        this.trackVariableState(varName, varNode, false);
+      });
+      return;
+    }
+
+    this.analyzeAssignment(node, content, filePath);
+  }
+
   private analyzeCallDataFlow(
     node: Parser.SyntaxNode,
     content: string,
     filePath: string
   ): void {
     const calleeNode = node.child(0);
-    const argsNode = this.findChildByType(node, 'arguments');
+    const argsNode = this.findChildByType(node, 'arguments') || this.findChildByType(node, 'argument_list');
     
     if (!calleeNode || !argsNode) return;
     
@@ -334,6 +430,17 @@ export class DataFlowAnalyzer {
           filePath
         );
       }
+    } else if (parent && parent.type === 'assignment') {
+      const left = parent.childForFieldName('left');
+      const varName = left?.type === 'identifier' ? this.getNodeText(left, content) : null;
+      if (varName) {
+        this.createDataFlowEdge(
+          callNode.id,
+          `${filePath}:${varName}:${left!.startPosition.row + 1}:var`,
+          'return_value',
+          filePath
+        );
+      }
     }
   }
 
@@ -670,7 +777,7 @@ export class DataFlowAnalyzer {
       return this.getNodeText(node, content);
     }
     
-    if (node.type === 'member_expression') {
+    if (node.type === 'member_expression' || node.type === 'attribute') {
       const object = node.child(0);
       const property = node.child(2);
       if (object && property) {
@@ -706,7 +813,7 @@ export class DataFlowAnalyzer {
       return this.getNodeText(node, content);
     }
     
-    if (node.type === 'member_expression') {
+    if (node.type === 'member_expression' || node.type === 'attribute') {
       const property = node.child(2);
       return property ? this.getNodeText(property, content) : 'unknown';
     }
@@ -10,6 +10,8 @@ import {
   RelationshipType
 } from './relationship-types';
 import { CallGraphAnalyzer } from './call-graph-analyzer';
+import { languageRegistry } from './languages';
+import { ModuleResolver, packageNameOf } from './module-resolver';
 
 export interface ModuleInfo {
   filePath: string;
@@ -61,15 +63,20 @@ export class DependencyMapper {
   private reverseDependencyGraph: Map<string, Set<string>> = new Map();
   private externalModules: Map<string, ModuleInfo> = new Map();
   private callGraphAnalyzer: CallGraphAnalyzer;
+  private moduleResolver: ModuleResolver;
   private repositoryPath: string;
 
   constructor(repositoryPath: string) {
     this.repositoryPath = repositoryPath;
     this.callGraphAnalyzer = new CallGraphAnalyzer();
+    this.moduleResolver = new ModuleResolver(repositoryPath);
   }
 
   async buildDependencyMap(files: Map<string, string>): Promise<void> {
     log(`[DependencyMapper] Building dependency map files=${files.size}`);
+
+    // Fresh caches, so edits to tsconfig.json, package.json and workspaces are picked up
+    this.moduleResolver = new ModuleResolver(this.repositoryPath);
     
     // Phase 1: Analyze all files and extract imports/exports
     for (const [filePath, content] of files) {
@@ -177,8 +184,10 @@ export class DependencyMapper {
         const resolvedPath = await this.resolveModulePath(source, filePath);
         importInfo.resolvedPath = resolvedPath;
 
-        // Handle external modules
-        if (this.isExternalModule(source)) {
+        // Handle external modules (npm packages; other languages resolve via their module).
+        // Aliases and workspace packages that resolved into the repository are internal
+        const external = !resolvedPath || resolvedPath.startsWith('node_modules/');
+        if (external && this.isExternalModule(source) && !languageRegistry.getForFile(filePath)) {
           await this.handleExternalModule(source, resolvedPath);
         }
       }
@@ -186,39 +195,15 @@ export class DependencyMapper {
   }
 
   private async resolveModulePath(source: string, fromFile: string): Promise<string | undefined> {
-    // Handle relative imports
-    if (source.startsWith('./') || source.startsWith('../')) {
-      const fromDir = path.dirname(fromFile);
-      const resolvedPath = path.resolve(fromDir, source);
-      
-      // Try different extensions
-      const extensions = ['.js', '.ts', '.jsx', '.tsx', '.json'];
-      for (const ext of extensions) {
-        const fullPath = resolvedPath + ext;
-        try {
-          await fs.access(fullPath);
-          return fullPath;
-        } catch {
-          // Try with index file
-          const indexPath = path.join(resolvedPath, 'index' + ext);
-          try {
-            await fs.access(indexPath);
-            return indexPath;
-          } catch {
-            continue;
-          }
-        }
-      }
-    }
-
-    // Handle absolute imports (node_modules, etc.)
-    if (!source.startsWith('.')) {
-      // For external modules, return the package name
-      const packageName = source.split('/')[0];
-      return `node_modules/${packageName}`;
+    const languageModule = languageRegistry.getForFile(fromFile);
+    if (languageModule) {
+      return languageModule.resolveImport
+        ? languageModule.resolveImport(source, fromFile, this.repositoryPath)
+        : undefined;
     }
 
-    return undefined;
+    // Relative imports, tsconfig paths/baseUrl, workspace packages; else node_modules/<package>
+    return this.moduleResolver.resolve(source, fromFile);
   }
 
   private isExternalModule(source: string): boolean {
@@ -226,7 +211,7 @@ export class DependencyMapper {
   }
 
   private async handleExternalModule(source: string, resolvedPath?: string): Promise<void> {
-    const packageName = source.split('/')[0];
+    const packageName = packageNameOf(source);
     
     if (!this.externalModules.has(packageName)) {
       const moduleInfo: ModuleInfo = {
@@ -1,5 +1,5 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { CodeChunk, EmbedOptions, EmbeddingResult, ProviderHealth, ProviderMetrics } from './types';
+import { CodeChunk, ContextMode, EmbedOptions, EmbeddingResult, ProviderHealth, ProviderMetrics, RetrievalWeights, SearchFilter } from './types';
 import { log, warn, error as logError } from './logging-utils';
 
 interface ClientConfig {
@@ -15,6 +15,12 @@ interface SemanticSearchOptions {
   fileFilters?: string[];
   recencyWeight?: number;
   includeTests?: boolean;
+  filter?: SearchFilter;
+  retrievalWeights?: RetrievalWeights;
+  mmrPreset?: string;
+  contextMode?: ContextMode;
+  explain?: boolean;
+  cursor?: string;
 }
 
 interface CodeIntelligenceOptions {
@@ -35,6 +41,42 @@ interface TraceExecutionOptions {
   includeAsync?: boolean;
 }
 
+interface SearchStackTraceOptions {
+  maxCallers?: number;
+  includeErrorHandling?: boolean;
+}
+
+interface SymbolNavigationOptions {
+  symbol?: string;
+  filePath?: string;
+  line?: number;
+  column?: number;
+  maxResults?: number;
+}
+
+interface ImpactAnalysisOptions {
+  diff?: string;
+  commitRange?: string;
+  symbols?: string[];
+  maxDepth?: number;
+  maxResults?: number;
+}
+
+interface FindTestsOptions {
+  symbol?: string;
+  filePath?: string;
+  maxDepth?: number;
+  maxResults?: number;
+}
+
+interface SavedQueriesOptions {
+  query?: string;
+  name?: string;
+  id?: string;
+  maxChunks?: number;
+  since?: string;
+}
+
 interface FindCodePatternsOptions {
   patternType: 'structural' | 'behavioral' | 'architectural';
 }
@@ -108,6 +150,12 @@ export class EmbeddingClient {
       fileFilters: options.fileFilters,
       recencyWeight: options.recencyWeight,
       includeTests: options.includeTests,
+      filter: options.filter,
+      retrievalWeights: options.retrievalWeights,
+      mmrPreset: options.mmrPreset,
+      contextMode: options.contextMode,
+      explain: options.explain,
+      cursor: options.cursor,
       projectPath: this.config.projectPath,
       clientId: this.config.clientId
     });
@@ -162,6 +210,81 @@ export class EmbeddingClient {
     });
   }
 
+  /**
+   * Map a pasted stack trace to indexed chunks, callers and error handling
+   */
+  async searchStackTrace(
+    stackTrace: string,
+    options: SearchStackTraceOptions = {}
+  ): Promise<CentralizedResponse> {
+    return this.makeRequest('/search-stack-trace', 'POST', {
+      stackTrace,
+      maxCallers: options.maxCallers,
+      includeErrorHandling: options.includeErrorHandling,
+      projectPath: this.config.projectPath,
+      clientId: this.config.clientId
+    });
+  }
+
+  /**
+   * Definition sites of a symbol name or file position
+   */
+  async findDefinition(options: SymbolNavigationOptions): Promise<CentralizedResponse> {
+    return this.makeRequest('/find-definition', 'POST', {
+      ...options,
+      projectPath: this.config.projectPath,
+      clientId: this.config.clientId
+    });
+  }
+
+  /**
+   * Usage sites of a symbol name or file position
+   */
+  async findReferences(options: SymbolNavigationOptions): Promise<CentralizedResponse> {
+    return this.makeRequest('/find-references', 'POST', {
+      ...options,
+      projectPath: this.config.projectPath,
+      clientId: this.config.clientId
+    });
+  }
+
+  /**
+   * Symbols and tests affected by a diff, commit range or symbol list
+   */
+  async impactAnalysis(options: ImpactAnalysisOptions): Promise<CentralizedResponse> {
+    return this.makeRequest('/impact-analysis', 'POST', {
+      ...options,
+      projectPath: this.config.projectPath,
+      clientId: this.config.clientId
+    });
+  }
+
+  /**
+   * Test cases exercising a symbol or file
+   */
+  async findTests(options: FindTestsOptions): Promise<CentralizedResponse> {
+    return this.makeRequest('/find-tests', 'POST', {
+      ...options,
+      projectPath: this.config.projectPath,
+      clientId: this.config.clientId
+    });
+  }
+
+  /**
+   * Manage saved queries and read their result changes
+   */
+  async savedQueries(
+    action: 'list' | 'save' | 'remove' | 'run' | 'changes',
+    options: SavedQueriesOptions = {}
+  ): Promise<CentralizedResponse> {
+    return this.makeRequest('/saved-queries', 'POST', {
+      action,
+      ...options,
+      projectPath: this.config.projectPath,
+      clientId: this.config.clientId
+    });
+  }
+
   /**
    * Find code patterns
    */
@@ -177,6 +300,18 @@ export class EmbeddingClient {
     });
   }
 
+  /**
+   * Fetch an indexed code chunk, or the piece after it when the chunk was split
+   */
+  async fetchCodeChunk(chunkId: string, direction: 'current' | 'next' = 'current'): Promise<CentralizedResponse> {
+    return this.makeRequest('/fetch-code-chunk', 'POST', {
+      chunkId,
+      direction,
+      projectPath: this.config.projectPath,
+      clientId: this.config.clientId
+    });
+  }
+
   /**
    * Generate embeddings
    */
@@ -0,0 +1,312 @@
+/**
+ * Embedding compression for persisted indexes and caches.
+ *
+ * - int8: per-vector symmetric scalar quantisation (4x smaller than float32)
+ * - pq:   product quantisation against a codebook trained on the stored vectors
+ *         (one byte per subvector, e.g. 48 bytes for a 384-dim embedding)
+ *
+ * Encoded vectors are base64 so they sit inside the existing JSON storage files.
+ * In memory they are kept packed, and queries are scored against the codes directly.
+ */
+
+export type EmbeddingCompression = 'none' | 'int8' | 'pq';
+
+export interface QuantizedVector {
+  codes: string;   // base64 int8 values or PQ centroid ids
+  scale?: number;  // int8 only: value of code 127
+}
+
+/** In-memory form of a QuantizedVector: raw int8 values or PQ centroid ids */
+export interface PackedVector {
+  codes: Int8Array | Uint8Array;
+  scale?: number;
+}
+
+export interface PqCodebook {
+  dimension: number;
+  subvectors: number;
+  centroids: number[][][]; // [subvector][centroid][component]
+}
+
+export interface EmbeddingQuantizer {
+  readonly format: Exclude<EmbeddingCompression, 'none'>;
+  encode(vector: number[]): QuantizedVector;
+  decode(quantized: QuantizedVector | PackedVector): number[];
+  pack(quantized: QuantizedVector): PackedVector;
+  /** Cosine similarity of `query` to encoded vectors, computed without decoding them */
+  scorer(query: number[]): (packed: PackedVector) => number;
+}
+
+export interface CompressionStats {
+  format: EmbeddingCompression;
+  compressionRatio: number; // JSON float bytes / encoded bytes
+  recallLoss: number;       // 1 - recall@10 of decoded vectors against the originals
+}
+
+// k-means settings for PQ training; a sample keeps first-save time bounded on large indexes
+const PQ_CENTROIDS = 256;
+const PQ_TRAINING_SAMPLE = 4096;
+const PQ_TRAINING_ITERATIONS = 10;
+
+// Recall-loss probe: queries drawn from the stored vectors, top-k compared within a sample
+const RECALL_QUERIES = 50;
+const RECALL_SAMPLE = 2000;
+const RECALL_K = 10;
+
+export class ScalarQuantizer implements EmbeddingQuantizer {
+  readonly format = 'int8' as const;
+
+  encode(vector: number[]): QuantizedVector {
+    const { codes, scale } = quantizeInt8(vector);
+    return { codes: Buffer.from(codes.buffer).toString('base64'), scale };
+  }
+
+  decode(quantized: QuantizedVector | PackedVector): number[] {
+    const packed = typeof quantized.codes === 'string' ? this.pack(quantized as QuantizedVector) : quantized as PackedVector;
+    return Array.from(dequantizeInt8(packed.codes as Int8Array, packed.scale ?? 1));
+  }
+
+  pack(quantized: QuantizedVector): PackedVector {
+    return { codes: new Int8Array(codeBytes(quantized.codes)), scale: quantized.scale ?? 1 };
+  }
+
+  /** The scale is shared by every component, so cosine against the raw codes is exact */
+  scorer(query: number[]): (packed: PackedVector) => number {
+    const queryNorm = Math.sqrt(query.reduce((sum, value) => sum + value * value, 0));
+    return ({ codes }) => {
+      if (codes.length !== query.length || queryNorm === 0) return 0;
+      let dot = 0;
+      let norm = 0;
+      for (let i = 0; i < codes.length; i++) {
+        dot += query[i] * codes[i];
+        norm += codes[i] * codes[i];
+      }
+      return norm > 0 ? dot / (queryNorm * Math.sqrt(norm)) : 0;
+    };
+  }
+}
+
+/** Symmetric int8 codes for binary stores; `scale` is the value of code 127 */
+export function quantizeInt8(vector: ArrayLike<number>): { codes: Int8Array; scale: number } {
+  let maxAbs = 0;
+  for (let i = 0; i < vector.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+  }
+
+  const scale = maxAbs / 127 || 1;
+  const codes = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    codes[i] = Math.max(-127, Math.min(127, Math.round(vector[i] / scale)));
+  }
+  return { codes, scale };
+}
+
+export function dequantizeInt8(codes: Int8Array, scale: number): Float32Array {
+  const vector = new Float32Array(codes.length);
+  for (let i = 0; i < codes.length; i++) {
+    vector[i] = codes[i] * scale;
+  }
+  return vector;
+}
+
+export class ProductQuantizer implements EmbeddingQuantizer {
+  readonly format = 'pq' as const;
+  private readonly subDimension: number;
+  // Squared norm of every centroid, [subvector][centroid]; the decoded norm is their sum
+  private readonly centroidNorms: Float64Array[];
+
+  constructor(readonly codebook: PqCodebook) {
+    this.subDimension = codebook.dimension / codebook.subvectors;
+    this.centroidNorms = codebook.centroids.map(centroids =>
+      Float64Array.from(centroids, centroid => centroid.reduce((sum, value) => sum + value * value, 0))
+    );
+  }
+
+  /**
+   * Train one k-means codebook per subvector. `subvectors` is lowered to the nearest
+   * divisor of the dimension.
+   */
+  static train(vectors: number[][], subvectors: number): ProductQuantizer {
+    if (vectors.length === 0) {
+      throw new Error('Cannot train a PQ codebook without vectors');
+    }
+
+    const dimension = vectors[0].length;
+    let count = Math.max(1, Math.min(subvectors, dimension));
+    while (dimension % count !== 0) count--;
+    const subDimension = dimension / count;
+
+    const sample = sampleEvenly(vectors, PQ_TRAINING_SAMPLE);
+    const centroids: number[][][] = [];
+    for (let s = 0; s < count; s++) {
+      const slices = sample.map(vector => vector.slice(s * subDimension, (s + 1) * subDimension));
+      centroids.push(kMeans(slices, Math.min(PQ_CENTROIDS, slices.length), PQ_TRAINING_ITERATIONS));
+    }
+
+    return new ProductQuantizer({ dimension, subvectors: count, centroids });
+  }
+
+  encode(vector: number[]): QuantizedVector {
+    const codes = new Uint8Array(this.codebook.subvectors);
+    for (let s = 0; s < this.codebook.subvectors; s++) {
+      codes[s] = nearestCentroid(vector, s * this.subDimension, this.codebook.centroids[s]);
+    }
+    return { codes: Buffer.from(codes).toString('base64') };
+  }
+
+  decode(quantized: QuantizedVector | PackedVector): number[] {
+    const codes = typeof quantized.codes === 'string' ? codeBytes(quantized.codes) : quantized.codes;
+    const vector: number[] = [];
+    for (let s = 0; s < this.codebook.subvectors; s++) {
+      vector.push(...this.codebook.centroids[s][codes[s]]);
+    }
+    return vector;
+  }
+
+  pack(quantized: QuantizedVector): PackedVector {
+    return { codes: new Uint8Array(codeBytes(quantized.codes)) };
+  }
+
+  /**
+   * Asymmetric distance: the query stays full precision and its dot product with
+   * every centroid is tabled once, so each vector costs one lookup per subvector.
+   */
+  scorer(query: number[]): (packed: PackedVector) => number {
+    const { centroids, subvectors, dimension } = this.codebook;
+    if (query.length !== dimension) return () => 0;
+
+    const queryNorm = Math.sqrt(query.reduce((sum, value) => sum + value * value, 0));
+    const dots = centroids.map((subCentroids, s) => Float64Array.from(subCentroids, centroid => {
+      let dot = 0;
+      for (let d = 0; d < centroid.length; d++) dot += query[s * this.subDimension + d] * centroid[d];
+      return dot;
+    }));
+
+    return ({ codes }) => {
+      let dot = 0;
+      let norm = 0;
+      for (let s = 0; s < subvectors; s++) {
+        dot += dots[s][codes[s]];
+        norm += this.centroidNorms[s][codes[s]];
+      }
+      return queryNorm > 0 && norm > 0 ? dot / (queryNorm * Math.sqrt(norm)) : 0;
+    };
+  }
+}
+
+/** Base64 form of packed codes, for persisting */
+export function unpackVector(packed: PackedVector): QuantizedVector {
+  const codes = Buffer.from(packed.codes.buffer, packed.codes.byteOffset, packed.codes.byteLength).toString('base64');
+  return packed.scale === undefined ? { codes } : { codes, scale: packed.scale };
+}
+
+function codeBytes(base64: string): Uint8Array {
+  const bytes = Buffer.from(base64, 'base64');
+  return new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+}
+
+/**
+ * Compression ratio against the JSON number arrays the vectors would otherwise be
+ * stored as, and recall@10 lost by searching decoded vectors instead of originals.
+ */
+export function measureCompression(
+  quantizer: EmbeddingQuantizer,
+  originals: number[][],
+  encoded: QuantizedVector[],
+  extraBytes: number = 0
+): CompressionStats {
+  const originalBytes = originals.reduce((total, vector) => total + JSON.stringify(vector).length, 0);
+  const encodedBytes = JSON.stringify(encoded).length + extraBytes;
+  return {
+    format: quantizer.format,
+    compressionRatio: encodedBytes > 0 ? originalBytes / encodedBytes : 1,
+    recallLoss: 1 - measureRecall(originals, index => quantizer.decode(encoded[index]))
+  };
+}
+
+function measureRecall(originals: number[][], decode: (index: number) => number[]): number {
+  const indices = sampleEvenly(originals.map((_, i) => i), RECALL_SAMPLE);
+  const queries = sampleEvenly(indices, RECALL_QUERIES);
+  if (queries.length === 0) return 1;
+
+  const decoded = new Map(indices.map(i => [i, decode(i)]));
+  const topK = (vectorAt: (index: number) => number[], query: number[]) => indices
+    .map(i => ({ i, similarity: cosine(query, vectorAt(i)) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, RECALL_K)
+    .map(result => result.i);
+
+  let found = 0;
+  let expected = 0;
+  for (const query of queries) {
+    const truth = topK(i => originals[i], originals[query]);
+    const approximate = new Set(topK(i => decoded.get(i)!, originals[query]));
+    expected += truth.length;
+    found += truth.filter(i => approximate.has(i)).length;
+  }
+  return expected > 0 ? found / expected : 1;
+}
+
+function kMeans(points: number[][], k: number, iterations: number): number[][] {
+  const centroids = sampleEvenly(points, k).map(point => [...point]);
+  const assignments = new Array<number>(points.length).fill(0);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    points.forEach((point, i) => {
+      assignments[i] = nearestCentroid(point, 0, centroids);
+    });
+
+    const sums = centroids.map(centroid => new Array<number>(centroid.length).fill(0));
+    const counts = new Array<number>(centroids.length).fill(0);
+    points.forEach((point, i) => {
+      const cluster = assignments[i];
+      counts[cluster]++;
+      for (let d = 0; d < point.length; d++) sums[cluster][d] += point[d];
+    });
+
+    // Empty clusters keep their previous centroid
+    centroids.forEach((centroid, c) => {
+      if (counts[c] > 0) {
+        for (let d = 0; d < centroid.length; d++) centroid[d] = sums[c][d] / counts[c];
+      }
+    });
+  }
+
+  return centroids;
+}
+
+function nearestCentroid(vector: number[], offset: number, centroids: number[][]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const centroid = centroids[c];
+    let distance = 0;
+    for (let d = 0; d < centroid.length; d++) {
+      const diff = vector[offset + d] - centroid[d];
+      distance += diff * diff;
+    }
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = c;
+    }
+  }
+  return best;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function sampleEvenly<T>(items: T[], limit: number): T[] {
+  if (items.length <= limit) return items;
+  const step = items.length / limit;
+  return Array.from({ length: limit }, (_, i) => items[Math.floor(i * step)]);
+}
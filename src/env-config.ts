@@ -8,6 +8,9 @@
  * - Default values
  */
 
+import { ExtraRepresentation } from './types';
+import { EXTRA_REPRESENTATIONS } from './chunk-representations';
+
 export interface CortexConfig {
   // Core Configuration
   port: number;
@@ -26,6 +29,18 @@ export interface CortexConfig {
   embeddingProcessCount?: number;
   embeddingTimeoutMs?: number;
   embedderType: 'local' | 'cloudflare';
+  embeddingCompression: 'none' | 'int8' | 'pq';
+  embeddingRepresentations: ExtraRepresentation[];
+  pqSubvectors: number;
+
+  // Chunking
+  maxChunkTokens: number;
+  chunkOverlapTokens: number;
+  chunkSummaries: boolean;
+
+  // Relationship analysis
+  preciseCalls: boolean;
+  preciseCallsTsconfig?: string;
 
   // MMR & Search
   mmrEnabled: boolean;
@@ -33,6 +48,36 @@ export interface CortexConfig {
   mmrTokenBudget?: number;
   mmrDiversityMetric?: string;
 
+  // Hybrid lexical + vector retrieval
+  hybridSearchEnabled: boolean;
+  hybridVectorWeight: number;
+  hybridLexicalWeight: number;
+  hybridSymbolWeight: number;
+  rrfK: number;
+
+  // Cross-encoder reranking
+  rerankEnabled: boolean;
+  rerankModel: string;
+  rerankTopN: number;
+  rerankBudgetMs: number;
+  rerankCacheSize: number;
+
+  // semantic_search result sessions
+  resultSessionMaxResults: number;
+  resultSessionTtlMs: number;
+  resultSessionMaxEntries: number;
+
+  // Token counting
+  tokenizerProfile: string;
+  tokenizerDir?: string;
+
+  // Approximate nearest neighbour index
+  annEnabled: boolean;
+  annMinChunks: number;
+  annM: number;
+  annEfConstruction: number;
+  annEfSearch: number;
+
   // Git & Telemetry
   includeUntracked: boolean;
   telemetryEnabled: boolean;
@@ -69,6 +114,13 @@ function getBooleanEnv(name: string, defaultValue: boolean = false): boolean {
 /**
  * Get number environment variable
  */
+function getListEnv(name: string, defaultValue: string): string[] {
+  return (getEnvVar(name, defaultValue) || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
 function getNumberEnv(name: string, defaultValue?: number): number | undefined {
   const value = getEnvVar(name);
   if (value === undefined) return defaultValue;
@@ -108,6 +160,21 @@ export function loadCortexConfig(): CortexConfig {
     embeddingProcessCount: getNumberEnv('EMBEDDING_PROCESS_COUNT'),
     embeddingTimeoutMs: getNumberEnv('EMBEDDING_TIMEOUT_MS'),
     embedderType: (getEnvVar('EMBEDDER_TYPE', 'local') as 'local' | 'cloudflare'),
+    // Stored vector format; caches fall back from pq to int8 since they have no codebook
+    embeddingCompression: (getEnvVar('EMBEDDING_COMPRESSION', 'none') as 'none' | 'int8' | 'pq'),
+    pqSubvectors: getNumberEnv('PQ_SUBVECTORS', 48)!,
+    // Vectors embedded per chunk besides the body; empty to embed bodies only
+    embeddingRepresentations: getListEnv('EMBEDDING_REPRESENTATIONS', 'signature,docstring,summary')
+      .filter((name): name is ExtraRepresentation => EXTRA_REPRESENTATIONS.includes(name as ExtraRepresentation)),
+
+    // Chunking (512-token embedding context, minus room for the symbol/import prefix)
+    maxChunkTokens: getNumberEnv('MAX_CHUNK_TOKENS', 448)!,
+    chunkOverlapTokens: getNumberEnv('CHUNK_OVERLAP_TOKENS', 48)!,
+    chunkSummaries: getBooleanEnv('CHUNK_SUMMARIES', true),
+
+    // Resolve TypeScript/JavaScript call targets with the type checker; needs typescript installed
+    preciseCalls: getBooleanEnv('PRECISE_CALLS', false),
+    preciseCallsTsconfig: getEnvVar('PRECISE_CALLS_TSCONFIG'),
 
     // MMR & Search (these already use CORTEX_ prefix)
     mmrEnabled: getBooleanEnv('MMR_ENABLED', true),
@@ -115,6 +182,38 @@ export function loadCortexConfig(): CortexConfig {
     mmrTokenBudget: getNumberEnv('MMR_TOKEN_BUDGET'),
     mmrDiversityMetric: getEnvVar('MMR_DIVERSITY_METRIC'),
 
+    // Hybrid retrieval: BM25, vector and exact symbol rankings merged with reciprocal-rank fusion.
+    // Weights are defaults; queries can override them
+    hybridSearchEnabled: getBooleanEnv('HYBRID_SEARCH', true),
+    hybridVectorWeight: getFloatEnv('HYBRID_VECTOR_WEIGHT', 1.0)!,
+    hybridLexicalWeight: getFloatEnv('HYBRID_LEXICAL_WEIGHT', 1.0)!,
+    hybridSymbolWeight: getFloatEnv('HYBRID_SYMBOL_WEIGHT', 1.0)!,
+    rrfK: getNumberEnv('RRF_K', 60)!,
+
+    // Cross-encoder reranking of the top candidates before MMR. Off by default: the
+    // model is downloaded on first use and adds CPU time to every query
+    rerankEnabled: getBooleanEnv('RERANK_ENABLED', false),
+    rerankModel: getEnvVar('RERANK_MODEL', 'Xenova/ms-marco-MiniLM-L-6-v2')!,
+    rerankTopN: getNumberEnv('RERANK_TOP_N', 30)!,
+    rerankBudgetMs: getNumberEnv('RERANK_BUDGET_MS', 300)!,
+    rerankCacheSize: getNumberEnv('RERANK_CACHE_SIZE', 5000)!,
+
+    // Ranked results kept per search for cursor pages after the first
+    resultSessionMaxResults: getNumberEnv('RESULT_SESSION_MAX_RESULTS', 100)!,
+    resultSessionTtlMs: getNumberEnv('RESULT_SESSION_TTL_MS', 600000)!,
+    resultSessionMaxEntries: getNumberEnv('RESULT_SESSION_MAX_ENTRIES', 200)!,
+
+    // Tokenizer behind token budgets; the gpt-4/gpt-4o vocabularies are read from TOKENIZER_DIR
+    tokenizerProfile: getEnvVar('TOKENIZER_PROFILE', 'claude')!,
+    tokenizerDir: getEnvVar('TOKENIZER_DIR'),
+
+    // ANN index (HNSW); smaller indexes are searched exhaustively. Raise ANN_EF_SEARCH for recall, lower it for latency
+    annEnabled: getBooleanEnv('ANN_ENABLED', true),
+    annMinChunks: getNumberEnv('ANN_MIN_CHUNKS', 5000)!,
+    annM: getNumberEnv('ANN_M', 16)!,
+    annEfConstruction: getNumberEnv('ANN_EF_CONSTRUCTION', 100)!,
+    annEfSearch: getNumberEnv('ANN_EF_SEARCH', 64)!,
+
     // Git & Telemetry (these already use CORTEX_ prefix)
     includeUntracked: getBooleanEnv('INCLUDE_UNTRACKED', false),
     telemetryEnabled: getBooleanEnv('TELEMETRY_ENABLED', true),
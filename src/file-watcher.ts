@@ -3,6 +3,11 @@ import { EventEmitter } from 'eventemitter3';
 import { log, warn, error } from './logging-utils';
 import { ContentAnalyzer, ContentAnalysis } from './content-analyzer';
 import { UsageEvidenceCollector } from './usage-evidence-collector';
+import { languageRegistry } from './languages';
+
+// Handled by the chunker itself; every other indexable language comes from the registry
+const BUILT_IN_EXTENSIONS = ['.ts', '.js', '.jsx', '.tsx', '.mts', '.cts', '.mjs', '.cjs', '.md'];
+const DOC_AND_CONFIG_EXTENSIONS = ['.md', '.json', '.yml', '.yaml'];
 
 interface FileWatcherConfig {
   repositoryPath: string;
@@ -228,8 +233,7 @@ export class FileWatcher extends EventEmitter {
 
   private isAnalyzableFile(filePath: string): boolean {
     const ext = require('path').extname(filePath).toLowerCase();
-    const analyzableExtensions = ['.ts', '.js', '.jsx', '.tsx', '.py', '.md', '.json', '.yml', '.yaml'];
-    return analyzableExtensions.includes(ext);
+    return BUILT_IN_EXTENSIONS.includes(ext) || !!languageRegistry.getForFile(filePath);
   }
 
   private async getContentAnalysis(filePath: string): Promise<ContentAnalysis> {
@@ -342,7 +346,7 @@ export class FileWatcher extends EventEmitter {
     }
     
     // High priority by extension
-    if (['.ts', '.tsx'].includes(ext)) {
+    if (['.ts', '.tsx', '.mts', '.cts'].includes(ext)) {
       return {
         shouldIndex: true,
         priority: 'high',
@@ -351,7 +355,7 @@ export class FileWatcher extends EventEmitter {
     }
     
     // Medium priority
-    if (['.js', '.jsx', '.py'].includes(ext)) {
+    if (['.js', '.jsx'].includes(ext) || (languageRegistry.getForFile(relativePath) && !DOC_AND_CONFIG_EXTENSIONS.includes(ext))) {
       return {
         shouldIndex: true,
         priority: 'medium',
@@ -360,7 +364,7 @@ export class FileWatcher extends EventEmitter {
     }
     
     // Low priority
-    if (['.md', '.json', '.yml', '.yaml'].includes(ext)) {
+    if (DOC_AND_CONFIG_EXTENSIONS.includes(ext)) {
       return {
         shouldIndex: true,
         priority: 'low',
@@ -178,7 +178,7 @@ export class GitScanner {
   private isRelevantFile(filePath: string): boolean {
     const ext = path.extname(filePath).toLowerCase();
     const relevantExtensions = [
-      '.js', '.jsx', '.ts', '.tsx',
+      '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts',
       '.py', '.go', '.rs', '.java',
       '.cpp', '.c', '.h', '.hpp',
       '.md', '.rst', '.txt',
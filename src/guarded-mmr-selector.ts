@@ -1,6 +1,8 @@
 import { CodeChunk, QueryRequest, ContextPackage } from './types';
 import { log, warn } from './logging-utils';
 import { performance } from 'perf_hooks';
+import { QueryAnalyzer } from './query-analyzer';
+import { getTokenCounter } from './token-counter';
 
 export interface MMRConfig {
   lambdaRelevance: number; // 0.7 = 70% relevance, 30% diversity
@@ -24,6 +26,7 @@ export interface MMRResult {
   diversityScore: number;
   selectionTime: number;
   budgetUtilization: number;
+  selectionSteps: MMRSelectionStep[]; // In selection order
 }
 
 export interface MMRSelectionStep {
@@ -33,6 +36,7 @@ export interface MMRSelectionStep {
   mmrScore: number;
   cumulativeTokens: number;
   isCritical: boolean;
+  selectedBy: 'critical_set' | 'mmr' | 'parent_outline';
 }
 
 export class GuardedMMRSelector {
@@ -54,6 +58,11 @@ export class GuardedMMRSelector {
     this.criticalSetExtractor = new CriticalSetExtractor();
   }
 
+  /** Tokens selection may use: the configured budget less the safety cushion */
+  getTokenBudget(): number {
+    return this.tokenBudgetManager.getRemainingBudget(0);
+  }
+
   async selectOptimalChunks(
     candidates: CodeChunk[],
     query: QueryRequest,
@@ -92,16 +101,19 @@ export class GuardedMMRSelector {
         totalTokens: this.tokenBudgetManager.calculateTokens(reducedCritical),
         diversityScore: 0,
         selectionTime: performance.now() - startTime,
-        budgetUtilization: 1.0
+        budgetUtilization: 1.0,
+        selectionSteps: this.criticalSteps(reducedCritical)
       };
     }
 
     // Phase 4: MMR selection from remaining candidates
+    const selectionSteps = this.criticalSteps(criticalChunks);
     const selectedNonCritical = await this.runMMRSelection(
       nonCriticalCandidates,
       availableTokens,
       criticalChunks,
-      maxChunks ? maxChunks - criticalChunks.length : undefined
+      maxChunks ? maxChunks - criticalChunks.length : undefined,
+      selectionSteps
     );
 
     // Phase 5: Combine and compute final metrics
@@ -116,7 +128,8 @@ export class GuardedMMRSelector {
       totalTokens,
       diversityScore,
       selectionTime,
-      budgetUtilization: totalTokens / this.config.maxTokenBudget
+      budgetUtilization: totalTokens / this.config.maxTokenBudget,
+      selectionSteps
     };
 
     log(`[MMR] Selection complete chunks=${result.selectedChunks.length} tokens=${result.totalTokens} critical_coverage=${(result.criticalSetCoverage * 100).toFixed(1)}% time=${selectionTime.toFixed(2)}ms`);
@@ -124,6 +137,24 @@ export class GuardedMMRSelector {
     return result;
   }
 
+  /** Critical chunks bypass MMR scoring; they are recorded with their relevance only */
+  private criticalSteps(criticalChunks: CodeChunk[]): MMRSelectionStep[] {
+    let cumulativeTokens = 0;
+    return criticalChunks.map(chunk => {
+      const relevanceScore = chunk.relevance_score || chunk.similarity_score || 0;
+      cumulativeTokens += this.tokenBudgetManager.estimateChunkTokens(chunk);
+      return {
+        chunkId: chunk.chunk_id,
+        relevanceScore,
+        diversityScore: 0,
+        mmrScore: relevanceScore,
+        cumulativeTokens,
+        isCritical: true,
+        selectedBy: 'critical_set' as const
+      };
+    });
+  }
+
   private identifyCriticalChunks(candidates: CodeChunk[], criticalSet: CriticalSet): CodeChunk[] {
     const critical: CodeChunk[] = [];
 
@@ -168,9 +199,11 @@ export class GuardedMMRSelector {
     candidates: CodeChunk[],
     availableTokens: number,
     selectedChunks: CodeChunk[],
-    maxChunks?: number
+    maxChunks?: number,
+    steps: MMRSelectionStep[] = []
   ): Promise<CodeChunk[]> {
     const result: CodeChunk[] = [];
+    const criticalTokens = steps.length > 0 ? steps[steps.length - 1].cumulativeTokens : 0;
     const remaining = [...candidates];
     let currentTokens = 0;
 
@@ -185,6 +218,8 @@ export class GuardedMMRSelector {
       let bestChunk: CodeChunk | null = null;
       let bestScore = -Infinity;
       let bestIndex = -1;
+      let bestRelevance = 0;
+      let bestDiversity = 0;
 
       // Find chunk with best MMR score
       for (let i = 0; i < remaining.length; i++) {
@@ -204,6 +239,8 @@ export class GuardedMMRSelector {
           bestScore = mmrScore;
           bestChunk = candidate;
           bestIndex = i;
+          bestRelevance = relevanceScore;
+          bestDiversity = diversityScore;
         }
       }
 
@@ -211,6 +248,36 @@ export class GuardedMMRSelector {
         result.push(bestChunk);
         remaining.splice(bestIndex, 1);
         currentTokens += this.tokenBudgetManager.estimateChunkTokens(bestChunk);
+        steps.push({
+          chunkId: bestChunk.chunk_id,
+          relevanceScore: bestRelevance,
+          diversityScore: bestDiversity,
+          mmrScore: bestScore,
+          cumulativeTokens: criticalTokens + currentTokens,
+          isCritical: false,
+          selectedBy: 'mmr'
+        });
+
+        // A method is hard to read without its class; bring the outline along when it fits
+        const outlineIndex = this.findParentOutlineIndex(bestChunk, remaining, [...selectedChunks, ...result]);
+        if (outlineIndex !== -1 && (!maxChunks || result.length < maxChunks)) {
+          const outline = remaining[outlineIndex];
+          const outlineTokens = this.tokenBudgetManager.estimateChunkTokens(outline);
+          if (currentTokens + outlineTokens <= availableTokens) {
+            result.push(outline);
+            remaining.splice(outlineIndex, 1);
+            currentTokens += outlineTokens;
+            steps.push({
+              chunkId: outline.chunk_id,
+              relevanceScore: outline.relevance_score || outline.similarity_score || 0,
+              diversityScore: 0,
+              mmrScore: 0,
+              cumulativeTokens: criticalTokens + currentTokens,
+              isCritical: false,
+              selectedBy: 'parent_outline'
+            });
+          }
+        }
       } else {
         // No more chunks fit in budget
         break;
@@ -220,6 +287,16 @@ export class GuardedMMRSelector {
     return result;
   }
 
+  private findParentOutlineIndex(chunk: CodeChunk, remaining: CodeChunk[], selected: CodeChunk[]): number {
+    if (!chunk.parent_symbol) return -1;
+
+    const isOutline = (c: CodeChunk) =>
+      c.file_path === chunk.file_path && c.chunk_type === 'class' && c.symbol_name === chunk.parent_symbol;
+
+    if (selected.some(isOutline)) return -1;
+    return remaining.findIndex(isOutline);
+  }
+
   private calculateDiversityFromSelected(candidate: CodeChunk, selected: CodeChunk[]): number {
     if (selected.length === 0) return 1.0;
 
@@ -400,29 +477,11 @@ class TokenBudgetManager {
       return this.tokenEstimationCache.get(cacheKey)!;
     }
 
-    // Improved token estimation considering code structure
-    const content = chunk.content;
-    let tokens = 0;
-
-    // Base content tokens (improved from 4-char rule)
-    tokens += Math.ceil(content.length / 3.5); // Empirical: code averages ~3.5 chars per token
-
-    // Add overhead for code structure tokens
-    const lines = content.split('\n').length;
-    const codeBlocks = (content.match(/```/g)?.length || 0) / 2;
-    const functionDefs = (content.match(/function|=>|{/g)?.length || 0);
-    
-    tokens += lines * 0.1; // Line break tokens
-    tokens += codeBlocks * 10; // Code block delimiters
-    tokens += functionDefs * 2; // Function definition overhead
-    
-    // Metadata tokens
-    tokens += 20; // File path, symbol names, etc.
-
-    const finalTokens = Math.ceil(tokens);
-    this.tokenEstimationCache.set(cacheKey, finalTokens);
+    // Content plus file path, lines and symbol name, counted with the shared tokenizer
+    const tokens = getTokenCounter().countChunk(chunk);
+    this.tokenEstimationCache.set(cacheKey, tokens);
     
-    return finalTokens;
+    return tokens;
   }
 
   getRemainingBudget(usedTokens: number): number {
@@ -436,22 +495,20 @@ class TokenBudgetManager {
 }
 
 class CriticalSetExtractor {
-  private filePathPattern = /[\/\\]?([a-zA-Z0-9._-]+\.[a-zA-Z]+)/g;
-  private functionPattern = /\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
-  private symbolPattern = /\b([A-Z][a-zA-Z0-9]*|[a-z][a-zA-Z0-9]*(?:[A-Z][a-zA-Z0-9]*)+)\b/g;
+  private queryAnalyzer = new QueryAnalyzer();
 
   async extractCriticalSet(query: QueryRequest): Promise<CriticalSet> {
-    const task = query.task.toLowerCase();
-    
-    // Extract file paths
-    const filePaths = this.extractFilePaths(task);
-    
-    // Extract function names
-    const functionNames = this.extractFunctionNames(task);
-    
-    // Extract symbol names (classes, interfaces, variables)
-    const symbolNames = this.extractSymbolNames(task);
-    
+    const analysis = query.analysis ?? this.queryAnalyzer.analyze(query.task);
+
+    const filePaths = analysis.file_paths.filter(path => this.isValidFilePath(path));
+
+    // Functions on a stack trace are the code that actually ran
+    const functionNames = [...new Set(analysis.stack_frames
+      .map(frame => frame.symbol)
+      .filter((symbol): symbol is string => !!symbol))];
+
+    const symbolNames = analysis.identifiers;
+
     // Calculate confidence based on extraction success
     const confidence = this.calculateExtractionConfidence(query.task, filePaths, functionNames, symbolNames);
 
@@ -463,83 +520,6 @@ class CriticalSetExtractor {
     };
   }
 
-  private extractFilePaths(text: string): string[] {
-    const paths: string[] = [];
-    let match;
-
-    while ((match = this.filePathPattern.exec(text)) !== null) {
-      const path = match[1];
-      if (this.isValidFilePath(path)) {
-        paths.push(path);
-      }
-    }
-
-    // Also look for explicit mentions
-    const explicitPaths = text.match(/(?:file|path|in)\s+([a-zA-Z0-9._/-]+\.[a-zA-Z]+)/gi);
-    if (explicitPaths) {
-      explicitPaths.forEach(match => {
-        const path = match.split(/\s+/).pop();
-        if (path && this.isValidFilePath(path)) {
-          paths.push(path);
-        }
-      });
-    }
-
-    return [...new Set(paths)]; // Remove duplicates
-  }
-
-  private extractFunctionNames(text: string): string[] {
-    const names: string[] = [];
-    
-    // Look for function mentions
-    const functionMentions = text.match(/(?:function|method|call(?:ing)?)\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi);
-    if (functionMentions) {
-      functionMentions.forEach(match => {
-        const name = match.split(/\s+/).pop();
-        if (name && this.isValidIdentifier(name)) {
-          names.push(name);
-        }
-      });
-    }
-
-    // Look for parentheses patterns (likely function calls)
-    let match;
-    while ((match = this.functionPattern.exec(text)) !== null) {
-      const name = match[1];
-      if (this.isValidIdentifier(name)) {
-        names.push(name);
-      }
-    }
-
-    return [...new Set(names)];
-  }
-
-  private extractSymbolNames(text: string): string[] {
-    const names: string[] = [];
-    
-    // Look for class/interface mentions
-    const classMentions = text.match(/(?:class|interface|type|component)\s+([A-Z][a-zA-Z0-9]*)/gi);
-    if (classMentions) {
-      classMentions.forEach(match => {
-        const name = match.split(/\s+/).pop();
-        if (name && this.isValidIdentifier(name)) {
-          names.push(name);
-        }
-      });
-    }
-
-    // Look for camelCase/PascalCase identifiers
-    let match;
-    while ((match = this.symbolPattern.exec(text)) !== null) {
-      const name = match[1];
-      if (this.isValidIdentifier(name) && name.length > 2) {
-        names.push(name);
-      }
-    }
-
-    return [...new Set(names)];
-  }
-
   private isValidFilePath(path: string): boolean {
     const validExtensions = ['.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.cpp', '.c', '.h'];
     return validExtensions.some(ext => path.toLowerCase().endsWith(ext)) && 
@@ -547,12 +527,6 @@ class CriticalSetExtractor {
            !path.includes('node_modules');
   }
 
-  private isValidIdentifier(name: string): boolean {
-    return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) && 
-           name.length >= 2 && 
-           !['and', 'or', 'not', 'the', 'for', 'with', 'from'].includes(name.toLowerCase());
-  }
-
   private calculateExtractionConfidence(
     originalQuery: string,
     filePaths: string[],
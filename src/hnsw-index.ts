@@ -0,0 +1,379 @@
+/**
+ * In-process HNSW (Hierarchical Navigable Small World) index for cosine similarity.
+ *
+ * Nodes keep a reference to the chunk's embedding rather than a copy. Removal is a
+ * tombstone: removed nodes still route searches but are never returned, and the graph
+ * is rebuilt from the live nodes once too many have piled up.
+ */
+
+export interface HnswConfig {
+  m: number;              // Neighbours per node on upper layers (2 * m on layer 0)
+  efConstruction: number; // Candidate list size while inserting
+  efSearch: number;       // Candidate list size while querying - the recall/latency knob
+}
+
+export interface HnswMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface PersistedHnswIndex {
+  version: number;
+  config: HnswConfig;
+  dimension: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<{ id: string; level: number; neighbours: number[][]; deleted?: boolean }>;
+}
+
+interface HnswNode {
+  id: string;
+  vector: ArrayLike<number>; // Any scale works, e.g. raw int8 codes - similarity is cosine
+  norm: number;
+  level: number;
+  neighbours: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+const PERSISTED_VERSION = 1;
+
+// Rebuild once this share of the graph is tombstones
+const MAX_DELETED_RATIO = 0.25;
+
+export class HnswIndex {
+  private nodes: HnswNode[] = [];
+  private nodeById: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private dimension = 0;
+  private readonly levelMultiplier: number;
+
+  constructor(private readonly config: HnswConfig) {
+    this.levelMultiplier = 1 / Math.log(Math.max(config.m, 2));
+  }
+
+  /** Number of live (searchable) vectors */
+  get size(): number {
+    return this.nodeById.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodeById.has(id);
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    if (vector.length === 0) return;
+    if (this.dimension === 0) {
+      this.dimension = vector.length;
+    } else if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dimension}`);
+    }
+
+    if (this.nodeById.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const index = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      vector,
+      norm: this.norm(vector),
+      level,
+      neighbours: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    };
+    this.nodes.push(node);
+    this.nodeById.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node's level
+    let entry: Candidate = { node: this.entryPoint, similarity: this.similarityTo(vector, node.norm, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(vector, node.norm, entry, layer);
+    }
+
+    let entries = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, node.norm, entries, this.config.efConstruction, layer);
+      const maxNeighbours = this.maxNeighbours(layer);
+      node.neighbours[layer] = this.selectNeighbours(candidates, maxNeighbours);
+
+      for (const neighbour of node.neighbours[layer]) {
+        const links = this.nodes[neighbour].neighbours[layer];
+        links.push(index);
+        if (links.length > maxNeighbours) {
+          const neighbourNode = this.nodes[neighbour];
+          const scored = links.map(link => ({
+            node: link,
+            similarity: this.similarityTo(neighbourNode.vector, neighbourNode.norm, link)
+          }));
+          neighbourNode.neighbours[layer] = this.selectNeighbours(scored, maxNeighbours);
+        }
+      }
+      entries = candidates;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+  }
+
+  remove(id: string): void {
+    const index = this.nodeById.get(id);
+    if (index === undefined) return;
+
+    this.nodes[index].deleted = true;
+    this.nodeById.delete(id);
+    this.deletedCount++;
+
+    if (this.nodeById.size === 0) {
+      this.reset();
+    } else if (this.deletedCount > this.nodes.length * MAX_DELETED_RATIO) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Top `limit` live vectors by cosine similarity. Nodes rejected by `accept` still
+   * route the search but are never returned, like tombstones.
+   */
+  search(
+    query: number[],
+    limit: number,
+    ef: number = this.config.efSearch,
+    accept?: (id: string) => boolean
+  ): HnswMatch[] {
+    if (this.entryPoint === -1 || query.length !== this.dimension) return [];
+
+    const queryNorm = this.norm(query);
+    let entry: Candidate = { node: this.entryPoint, similarity: this.similarityTo(query, queryNorm, this.entryPoint) };
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(query, queryNorm, entry, layer);
+    }
+
+    // Tombstones take up candidate slots, so widen the beam by the share of deleted nodes
+    const beam = Math.ceil(Math.max(ef, limit) * this.nodes.length / Math.max(this.nodeById.size, 1));
+    const isResult = (node: number) => !this.nodes[node].deleted && (!accept || accept(this.nodes[node].id));
+    return this.searchLayer(query, queryNorm, [entry], beam, 0, accept ? isResult : undefined)
+      .filter(candidate => isResult(candidate.node))
+      .slice(0, limit)
+      .map(candidate => ({ id: this.nodes[candidate.node].id, similarity: candidate.similarity }));
+  }
+
+  toJSON(): PersistedHnswIndex {
+    return {
+      version: PERSISTED_VERSION,
+      config: this.config,
+      dimension: this.dimension,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map(node => ({
+        id: node.id,
+        level: node.level,
+        neighbours: node.neighbours,
+        ...(node.deleted ? { deleted: true } : {})
+      }))
+    };
+  }
+
+  /**
+   * Restore a persisted graph, re-attaching vectors by id. Returns null when the graph
+   * no longer matches the vectors (missing ids, dimension change, different M) so the
+   * caller can rebuild instead.
+   */
+  static fromJSON(data: PersistedHnswIndex, vectors: Map<string, ArrayLike<number>>, config: HnswConfig): HnswIndex | null {
+    if (data.version !== PERSISTED_VERSION || data.config.m !== config.m) {
+      return null;
+    }
+
+    const index = new HnswIndex(config);
+    index.dimension = data.dimension;
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+
+    for (const persisted of data.nodes) {
+      const vector = vectors.get(persisted.id);
+      const deleted = !!persisted.deleted || !vector;
+      if (!deleted && vector!.length !== data.dimension) {
+        return null;
+      }
+
+      index.nodes.push({
+        id: persisted.id,
+        // Tombstones only route searches; an empty vector scores zero against everything
+        vector: deleted ? [] : vector!,
+        norm: deleted ? 0 : index.norm(vector!),
+        level: persisted.level,
+        neighbours: persisted.neighbours,
+        deleted
+      });
+      if (deleted) {
+        index.deletedCount++;
+      } else {
+        index.nodeById.set(persisted.id, index.nodes.length - 1);
+      }
+    }
+
+    // Every vector must be in the graph, otherwise search would silently miss it
+    if (index.nodeById.size !== vectors.size) {
+      return null;
+    }
+    return index;
+  }
+
+  private reset(): void {
+    this.nodes = [];
+    this.nodeById.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+  }
+
+  /** Rebuild the graph from live nodes, dropping tombstones */
+  private compact(): void {
+    const live = this.nodes.filter(node => !node.deleted);
+    this.reset();
+    for (const node of live) {
+      this.add(node.id, node.vector);
+    }
+  }
+
+  private maxNeighbours(layer: number): number {
+    return layer === 0 ? this.config.m * 2 : this.config.m;
+  }
+
+  private greedyClosest(query: ArrayLike<number>, queryNorm: number, entry: Candidate, layer: number): Candidate {
+    let best = entry;
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.nodes[best.node].neighbours[layer] || []) {
+        const similarity = this.similarityTo(query, queryNorm, neighbour);
+        if (similarity > best.similarity) {
+          best = { node: neighbour, similarity };
+          improved = true;
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Beam search on one layer; returns up to `ef` candidates, most similar first.
+   * With `isResult`, only matching nodes count towards `ef` - the rest are still
+   * expanded so filtered searches can cross regions of rejected nodes.
+   */
+  private searchLayer(
+    query: ArrayLike<number>,
+    queryNorm: number,
+    entries: Candidate[],
+    ef: number,
+    layer: number,
+    isResult?: (node: number) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entries.map(entry => entry.node));
+    const candidates = [...entries].sort((a, b) => b.similarity - a.similarity);
+    const results = candidates.filter(candidate => !isResult || isResult(candidate.node)).slice(0, ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.similarity < results[results.length - 1].similarity) {
+        break;
+      }
+
+      for (const neighbour of this.nodes[current.node].neighbours[layer] || []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+
+        const similarity = this.similarityTo(query, queryNorm, neighbour);
+        if (results.length < ef || similarity > results[results.length - 1].similarity) {
+          const candidate = { node: neighbour, similarity };
+          this.insertSorted(candidates, candidate);
+          if (!isResult || isResult(neighbour)) {
+            this.insertSorted(results, candidate);
+            if (results.length > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Neighbour selection heuristic: keep a candidate only if it is closer to the base
+   * node than to any neighbour already kept, which preserves links across clusters.
+   * Pruned candidates fill any remaining slots.
+   */
+  private selectNeighbours(candidates: Candidate[], maxNeighbours: number): number[] {
+    const sorted = [...candidates].sort((a, b) => b.similarity - a.similarity);
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= maxNeighbours) break;
+      const candidateNode = this.nodes[candidate.node];
+      const dominated = selected.some(kept =>
+        this.similarityTo(candidateNode.vector, candidateNode.norm, kept.node) > candidate.similarity
+      );
+      if (dominated) {
+        pruned.push(candidate);
+      } else {
+        selected.push(candidate);
+      }
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= maxNeighbours) break;
+      selected.push(candidate);
+    }
+
+    return selected.map(candidate => candidate.node);
+  }
+
+  private insertSorted(list: Candidate[], candidate: Candidate): void {
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (list[mid].similarity > candidate.similarity) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    list.splice(low, 0, candidate);
+  }
+
+  private similarityTo(vector: ArrayLike<number>, vectorNorm: number, node: number): number {
+    const target = this.nodes[node];
+    if (vectorNorm === 0 || target.norm === 0) return 0;
+
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) {
+      dot += vector[i] * target.vector[i];
+    }
+    return dot / (vectorNorm * target.norm);
+  }
+
+  private norm(vector: ArrayLike<number>): number {
+    let sum = 0;
+    for (let i = 0; i < vector.length; i++) {
+      sum += vector[i] * vector[i];
+    }
+    return Math.sqrt(sum);
+  }
+}
@@ -0,0 +1,442 @@
+import * as path from 'path';
+import { simpleGit } from 'simple-git';
+import {
+  AffectedSymbol,
+  ChangedSymbol,
+  ImpactAnalysisRequest,
+  ImpactAnalysisResponse,
+  ImpactEdgeKind
+} from './types';
+import { VectorStore } from './vector-store';
+import { RelationshipTraversalEngine } from './relationship-traversal-engine';
+import { CodeSymbol, RelationshipGraph } from './relationship-types';
+import { SymbolNavigator, samePath } from './symbol-navigator';
+import { TestFinder } from './test-finder';
+import { isTestFile } from './search-filter';
+import { log } from './logging-utils';
+
+const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_MAX_RESULTS = 50;
+
+// Stop expanding once this many symbols are affected; the ranking only needs the nearest
+const MAX_VISITED = 2000;
+
+// Importing a module is a weaker tie than calling into it
+const MODULE_DEPENDENCY_STRENGTH = 0.5;
+
+// Data flow node ids: `file:name:line:kind`
+const DATA_FLOW_NODE = /^(.*):[^:]*:(\d+):[a-z]+$/;
+
+interface FileChange {
+  filePath: string;
+  lines: Set<number>;   // New-side lines added or next to a removal
+  wholeFile: boolean;   // Added or deleted
+}
+
+interface ImpactNode {
+  symbol: CodeSymbol;
+  distance: number;
+  strength: number;
+  via?: ImpactEdgeKind;
+  path: string[];
+}
+
+interface DataFlowEdge {
+  fromLine: number;
+  toLine: number;
+  weight: number;
+}
+
+/**
+ * Change impact over the relationship graph. Changed lines from a diff or commit
+ * range map to the innermost enclosing symbol (top-level code to the file's module);
+ * named symbols resolve like find_definition. From there it walks dependents
+ * breadth-first: references into each symbol (calls, imports, extends, ...),
+ * functions reading top-level state through data flow, and files importing a
+ * changed module.
+ *
+ * A symbol counts as covered when a test case is linked to it (`tested_by`, see
+ * TestMapper) or a test file references it directly. Test code is not expanded
+ * further; it is reported as the test files to re-run, with the fewest test cases
+ * that still exercise every covered symbol as the minimal set.
+ */
+export class ImpactAnalyzer {
+  private navigator: SymbolNavigator;
+  private testFinder: TestFinder;
+  private dataFlowByFile?: Map<string, DataFlowEdge[]>;
+
+  constructor(
+    private vectorStore: VectorStore,
+    private relationshipEngine: RelationshipTraversalEngine,
+    private repositoryPath: string
+  ) {
+    this.navigator = new SymbolNavigator(vectorStore, relationshipEngine);
+    this.testFinder = new TestFinder(vectorStore, relationshipEngine);
+  }
+
+  async analyze(request: ImpactAnalysisRequest): Promise<ImpactAnalysisResponse> {
+    const startTime = Date.now();
+    const maxDepth = request.max_depth ?? DEFAULT_MAX_DEPTH;
+    const maxResults = request.max_results ?? DEFAULT_MAX_RESULTS;
+
+    if (!request.diff && !request.commit_range && !request.symbols?.length) {
+      throw new Error('diff, commit_range or symbols is required');
+    }
+
+    const graph = this.relationshipEngine.getGraph();
+    if (graph.symbols.size === 0) {
+      throw new Error('No relationship graph available; index the repository first');
+    }
+
+    const unmapped: string[] = [];
+    const seeds = new Map<string, { symbol: CodeSymbol; changedLines?: number }>();
+
+    const changes = parseUnifiedDiff([
+      request.diff || '',
+      request.commit_range ? await this.diffCommitRange(request.commit_range) : ''
+    ].join('\n'));
+    for (const change of changes) {
+      const filePath = this.graphFilePath(graph, change.filePath);
+      if (!filePath) {
+        unmapped.push(change.filePath);
+        continue;
+      }
+      for (const symbol of this.changedSymbols(graph, filePath, change)) {
+        const seed = seeds.get(symbol.symbol.id);
+        if (seed) seed.changedLines = (seed.changedLines || 0) + (symbol.changedLines || 0);
+        else seeds.set(symbol.symbol.id, symbol);
+      }
+    }
+
+    for (const name of request.symbols || []) {
+      const symbols = await this.resolveSymbol(graph, name);
+      if (symbols.length === 0) unmapped.push(name);
+      for (const symbol of symbols) {
+        if (!seeds.has(symbol.id)) seeds.set(symbol.id, { symbol });
+      }
+    }
+
+    const { reached, truncated: expansionTruncated } = this.walkDependents(graph, Array.from(seeds.values()).map(seed => seed.symbol), maxDepth);
+
+    const changed: ChangedSymbol[] = Array.from(seeds.values()).map(({ symbol, changedLines }) => {
+      const tests = this.testsOf(symbol);
+      return {
+        symbol_id: symbol.id,
+        name: symbol.name,
+        kind: symbol.type,
+        file_path: symbol.filePath,
+        line: symbol.startLine,
+        changed_lines: changedLines,
+        covered_by_tests: tests.length > 0,
+        tests: tests.length > 0 ? tests : undefined
+      };
+    });
+
+    const ranked = reached
+      .sort((a, b) => a.distance - b.distance || b.strength - a.strength || a.symbol.id.localeCompare(b.symbol.id));
+    const production = ranked.filter(node => !seeds.has(node.symbol.id) && !isTestFile(node.symbol.filePath));
+
+    // Test code the walk reached, and test cases linked to anything it reached
+    const affectedTests: string[] = [];
+    for (const node of ranked) {
+      const testFiles = isTestFile(node.symbol.filePath)
+        ? [node.symbol.filePath]
+        : this.testFinder.testsOf(node.symbol.id).map(({ test }) => test.filePath);
+      for (const testFile of testFiles) {
+        if (!affectedTests.includes(testFile)) affectedTests.push(testFile);
+      }
+    }
+
+    const affected = await Promise.all(production.slice(0, maxResults).map(node => this.toAffectedSymbol(node)));
+    const truncated = expansionTruncated || production.length > maxResults;
+    const minimalTestSet = this.testFinder.minimalTestSet([...seeds.keys(), ...production.map(node => node.symbol.id)]);
+
+    log(`[ImpactAnalyzer] Impact changed=${changed.length} affected=${production.length} tests=${affectedTests.length} unmapped=${unmapped.length}`);
+    return {
+      changed,
+      affected,
+      affected_tests: affectedTests,
+      minimal_test_set: minimalTestSet,
+      total_affected: production.length,
+      truncated,
+      unmapped,
+      summary: impactSummary(changed, production.length, affected, affectedTests, minimalTestSet.length),
+      query_time_ms: Date.now() - startTime
+    };
+  }
+
+  /** Breadth-first over dependents; each symbol keeps its nearest, then strongest, path */
+  private walkDependents(graph: RelationshipGraph, seeds: CodeSymbol[], maxDepth: number): { reached: ImpactNode[]; truncated: boolean } {
+    const best = new Map<string, ImpactNode>();
+    let frontier: ImpactNode[] = seeds.map(symbol => ({ symbol, distance: 0, strength: 1, path: [displayName(symbol)] }));
+    frontier.forEach(node => best.set(node.symbol.id, node));
+    let truncated = false;
+
+    for (let distance = 1; distance <= maxDepth && frontier.length > 0; distance++) {
+      const next = new Map<string, ImpactNode>();
+      for (const node of frontier) {
+        // Nothing in the index depends on test code
+        if (node.distance > 0 && isTestFile(node.symbol.filePath)) continue;
+
+        for (const { symbol, via, weight } of this.dependentsOf(graph, node.symbol)) {
+          if (symbol.id === node.symbol.id) continue;
+          const strength = node.strength * weight;
+          const known = best.get(symbol.id);
+          if (known && (known.distance < distance || known.strength >= strength)) continue;
+          if (!known && best.size >= MAX_VISITED) {
+            truncated = true;
+            continue;
+          }
+          const candidate = { symbol, distance, strength, via, path: [...node.path, displayName(symbol)] };
+          best.set(symbol.id, candidate);
+          next.set(symbol.id, candidate);
+        }
+      }
+      frontier = Array.from(next.values());
+    }
+
+    return { reached: Array.from(best.values()), truncated };
+  }
+
+  /** Symbols one hop downstream: references, readers of top-level state, importing modules */
+  private dependentsOf(graph: RelationshipGraph, symbol: CodeSymbol): Array<{ symbol: CodeSymbol; via: ImpactEdgeKind; weight: number }> {
+    const dependents: Array<{ symbol: CodeSymbol; via: ImpactEdgeKind; weight: number }> = [];
+
+    if (symbol.type !== 'module') {
+      for (const reference of this.navigator.referencesTo(symbol)) {
+        const from = graph.symbols.get(reference.relationship.fromSymbol) || moduleSymbol(graph, reference.filePath);
+        dependents.push({
+          symbol: from,
+          via: reference.relationship.type as ImpactEdgeKind,
+          weight: reference.relationship.strength * reference.confidence
+        });
+      }
+    }
+
+    // Top-level state read by functions of the file. Flow out of a function body is
+    // skipped: the analyzer links variables by name, so it would tie unrelated locals
+    const topLevel = symbol.type === 'module' || (symbol.type === 'variable' && symbol.scope !== 'local');
+    for (const edge of topLevel ? this.getDataFlow(graph).get(symbol.filePath) || [] : []) {
+      const source = enclosingSymbol(graph, symbol.filePath, edge.fromLine);
+      if (source.id !== symbol.id) continue;
+      dependents.push({ symbol: enclosingSymbol(graph, symbol.filePath, edge.toLine), via: 'data_flow', weight: edge.weight });
+    }
+
+    if (symbol.type === 'module') {
+      for (const dependent of this.relationshipEngine.getModuleDependents(symbol.filePath)) {
+        dependents.push({ symbol: moduleSymbol(graph, dependent), via: 'depends_on', weight: MODULE_DEPENDENCY_STRENGTH });
+      }
+    }
+
+    return dependents;
+  }
+
+  /** data_flow edges per file, by line; both ends are always in the same file */
+  private getDataFlow(graph: RelationshipGraph): Map<string, DataFlowEdge[]> {
+    if (this.dataFlowByFile) return this.dataFlowByFile;
+
+    this.dataFlowByFile = new Map();
+    for (const relationshipId of graph.relationshipsByType.get('data_flow') || []) {
+      const relationship = graph.relationships.get(relationshipId);
+      const from = relationship?.fromSymbol.match(DATA_FLOW_NODE);
+      const to = relationship?.toSymbol.match(DATA_FLOW_NODE);
+      if (!relationship || !from || !to || from[1] !== to[1]) continue;
+
+      if (!this.dataFlowByFile.has(from[1])) this.dataFlowByFile.set(from[1], []);
+      this.dataFlowByFile.get(from[1])!.push({
+        fromLine: parseInt(from[2], 10),
+        toLine: parseInt(to[2], 10),
+        weight: relationship.strength * relationship.confidence
+      });
+    }
+    return this.dataFlowByFile;
+  }
+
+  /** Innermost symbols around the changed lines; a whole-file change is every top-level symbol */
+  private changedSymbols(graph: RelationshipGraph, filePath: string, change: FileChange): Array<{ symbol: CodeSymbol; changedLines?: number }> {
+    const changed = new Map<string, { symbol: CodeSymbol; changedLines?: number }>();
+
+    if (change.wholeFile) {
+      for (const symbol of symbolsInFile(graph, filePath)) {
+        if (symbol.scope !== 'local' && !enclosedByOther(graph, symbol)) changed.set(symbol.id, { symbol });
+      }
+      const module = moduleSymbol(graph, filePath);
+      changed.set(module.id, { symbol: module });
+      return Array.from(changed.values());
+    }
+
+    for (const line of change.lines) {
+      const symbol = enclosingSymbol(graph, filePath, line);
+      const entry = changed.get(symbol.id) || { symbol, changedLines: 0 };
+      entry.changedLines = (entry.changedLines || 0) + 1;
+      changed.set(symbol.id, entry);
+    }
+    return Array.from(changed.values());
+  }
+
+  /** Graph ids as given; names and `Class.method` through find_definition */
+  private async resolveSymbol(graph: RelationshipGraph, name: string): Promise<CodeSymbol[]> {
+    const filePath = name.match(/^(.*):module:1$/)?.[1];
+    if (filePath) {
+      const graphPath = this.graphFilePath(graph, filePath);
+      return graphPath ? [moduleSymbol(graph, graphPath)] : [];
+    }
+
+    return this.navigator.resolveSymbols(name);
+  }
+
+  /** Files of the test cases linked to the symbol, and test files among its direct references */
+  private testsOf(symbol: CodeSymbol): string[] {
+    if (symbol.type === 'module') return [];
+    const tests = new Set(this.testFinder.testsOf(symbol.id).map(({ test }) => test.filePath));
+    for (const reference of this.navigator.referencesTo(symbol)) {
+      if (isTestFile(reference.filePath)) tests.add(reference.filePath);
+    }
+    return Array.from(tests).sort();
+  }
+
+  private async toAffectedSymbol(node: ImpactNode): Promise<AffectedSymbol> {
+    const { symbol } = node;
+    const tests = this.testsOf(symbol);
+    const chunkId = symbol.chunkId || (symbol.type !== 'module'
+      ? (await this.vectorStore.findByLocation(symbol.filePath, symbol.startLine))[0]?.chunk_id
+      : undefined);
+    return {
+      symbol_id: symbol.id,
+      name: symbol.name,
+      kind: symbol.type,
+      file_path: symbol.filePath,
+      line: symbol.startLine,
+      chunk_id: chunkId,
+      distance: node.distance,
+      strength: Math.round(node.strength * 1000) / 1000,
+      via: node.via!,
+      path: node.path,
+      covered_by_tests: tests.length > 0,
+      tests: tests.length > 0 ? tests : undefined
+    };
+  }
+
+  /** The graph's spelling of a diff path, or undefined when the file is not in the graph */
+  private graphFilePath(graph: RelationshipGraph, filePath: string): string | undefined {
+    if (graph.symbolsByFile.has(filePath) || graph.outgoingRelationships.has(`${filePath}:module:1`)) return filePath;
+    for (const known of graph.symbolsByFile.keys()) {
+      if (samePath(known, filePath)) return known;
+    }
+    return undefined;
+  }
+
+  private async diffCommitRange(range: string): Promise<string> {
+    const revision = range.includes('..') ? range : `${range}^!`;
+    return simpleGit(this.repositoryPath).diff(['--unified=0', '--no-color', revision]);
+  }
+}
+
+/**
+ * Files and new-side lines touched by a unified diff. A removal marks the new-side
+ * line it sits before; added and deleted files are whole-file changes.
+ */
+function parseUnifiedDiff(diff: string): FileChange[] {
+  const changes = new Map<string, FileChange>();
+  let current: FileChange | undefined;
+  let oldPath: string | undefined;
+  let newLine = 0;
+  // Lines left in the current hunk; inside one, `--- x` is a removed `-- x`
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of diff.split('\n')) {
+    if (current && (oldRemaining > 0 || newRemaining > 0)) {
+      if (line.startsWith('+')) {
+        current.lines.add(newLine++);
+        newRemaining--;
+      } else if (line.startsWith('-')) {
+        current.lines.add(Math.max(newLine, 1));
+        oldRemaining--;
+      } else if (line.startsWith(' ') || line === '') {
+        newLine++;
+        oldRemaining--;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      oldPath = diffPath(line.slice(4));
+      continue;
+    }
+    if (line.startsWith('+++ ')) {
+      const newPath = diffPath(line.slice(4));
+      const filePath = newPath || oldPath;
+      current = undefined;
+      if (!filePath) continue;
+      current = changes.get(filePath) || { filePath, lines: new Set(), wholeFile: false };
+      current.wholeFile = current.wholeFile || !newPath || !oldPath;
+      changes.set(filePath, current);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk) {
+      oldRemaining = hunk[1] !== undefined ? parseInt(hunk[1], 10) : 1;
+      newLine = parseInt(hunk[2], 10);
+      newRemaining = hunk[3] !== undefined ? parseInt(hunk[3], 10) : 1;
+      // A pure removal's hunk names the line before it
+      if (newRemaining === 0) newLine++;
+    }
+  }
+
+  return Array.from(changes.values()).filter(change => change.wholeFile || change.lines.size > 0);
+}
+
+// `a/src/x.ts` -> `src/x.ts`; `/dev/null` -> undefined
+function diffPath(header: string): string | undefined {
+  const filePath = header.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+  if (filePath === '/dev/null') return undefined;
+  return filePath.replace(/^[ab]\//, '');
+}
+
+function symbolsInFile(graph: RelationshipGraph, filePath: string): CodeSymbol[] {
+  return Array.from(graph.symbolsByFile.get(filePath) || []).map(id => graph.symbols.get(id)!).filter(Boolean);
+}
+
+/** Smallest non-local symbol spanning the line, else the file's module */
+function enclosingSymbol(graph: RelationshipGraph, filePath: string, line: number): CodeSymbol {
+  const enclosing = symbolsInFile(graph, filePath)
+    .filter(symbol => symbol.scope !== 'local' && symbol.type !== 'module' && symbol.startLine <= line && symbol.endLine >= line)
+    .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine));
+  return enclosing[0] || moduleSymbol(graph, filePath);
+}
+
+function enclosedByOther(graph: RelationshipGraph, symbol: CodeSymbol): boolean {
+  return symbolsInFile(graph, symbol.filePath).some(other =>
+    other.id !== symbol.id && other.type !== 'module' && other.startLine <= symbol.startLine && other.endLine >= symbol.endLine &&
+    (other.startLine < symbol.startLine || other.endLine > symbol.endLine));
+}
+
+// Top-level code has no symbol of its own; edges from it use the module id
+function moduleSymbol(graph: RelationshipGraph, filePath: string): CodeSymbol {
+  const id = `${filePath}:module:1`;
+  return graph.symbols.get(id) || {
+    id,
+    name: path.basename(filePath),
+    type: 'module',
+    filePath,
+    startLine: 1,
+    endLine: 1,
+    scope: 'module'
+  };
+}
+
+function displayName(symbol: CodeSymbol): string {
+  return symbol.type === 'module' ? symbol.filePath : symbol.name;
+}
+
+function impactSummary(changed: ChangedSymbol[], total: number, affected: AffectedSymbol[], tests: string[], minimalTests: number): string {
+  if (changed.length === 0) return 'No changed symbols found in the relationship graph';
+  const uncovered = affected.filter(symbol => !symbol.covered_by_tests).length;
+  const coverage = affected.length > 0 ? `, ${uncovered} of the top ${affected.length} without direct tests` : '';
+  return `${changed.length} changed symbol${changed.length === 1 ? ' affects' : 's affect'} ${total} symbol${total === 1 ? '' : 's'}` +
+    `${coverage}; ${tests.length} test file${tests.length === 1 ? '' : 's'} to re-run` +
+    (minimalTests > 0 ? `, ${minimalTests} test case${minimalTests === 1 ? '' : 's'} in the minimal set` : '');
+}
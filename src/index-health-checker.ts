@@ -127,12 +127,13 @@ export class IndexHealthChecker {
       // Check embedding dimension consistency
       const chunks = await this.vectorStore.getAllChunks();
       if (chunks.length > 0) {
-        const expectedDimension = chunks[0].embedding?.length || 384;
-        const invalidEmbeddings = chunks.filter(chunk => 
-          !chunk.embedding || 
-          chunk.embedding.length !== expectedDimension ||
-          chunk.embedding.some(val => isNaN(val) || !isFinite(val))
-        );
+        const expectedDimension = this.vectorStore.embeddingOf(chunks[0])?.length || 384;
+        const invalidEmbeddings = chunks.filter(chunk => {
+          const embedding = this.vectorStore.embeddingOf(chunk);
+          return !embedding ||
+            embedding.length !== expectedDimension ||
+            embedding.some(val => isNaN(val) || !isFinite(val));
+        });
 
         if (invalidEmbeddings.length > 0) {
           const percentage = (invalidEmbeddings.length / chunks.length) * 100;
@@ -364,7 +365,7 @@ export class IndexHealthChecker {
       }
 
       // Check for missing embeddings
-      const chunksWithoutEmbeddings = chunks.filter(c => !c.embedding || c.embedding.length === 0);
+      const chunksWithoutEmbeddings = chunks.filter(c => !this.vectorStore.embeddingOf(c)?.length);
       if (chunksWithoutEmbeddings.length > 0) {
         const percentage = (chunksWithoutEmbeddings.length / chunks.length) * 100;
         issues.push({
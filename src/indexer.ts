@@ -20,6 +20,8 @@ import { EmbeddingBackupUtility } from './embedding-backup-utility';
 import { MMRConfigManager, createMMRConfigFromEnvironment } from './mmr-config-manager';
 import { SemanticWatcher } from './semantic-watcher';
 import { ContextInvalidator } from './context-invalidator';
+import { representationTexts } from './chunk-representations';
+import { cortexConfig } from './env-config';
 import * as os from 'os';
 
 export class CodebaseIndexer {
@@ -427,6 +429,47 @@ export class CodebaseIndexer {
   }
 
   private async generateEmbeddings(chunks: CodeChunk[]): Promise<CodeChunk[]> {
+    return this.addRepresentationEmbeddings(await this.generateBodyEmbeddings(chunks));
+  }
+
+  /**
+   * Signature and docstring vectors for chunks that have a body vector. They are
+   * embedded with the same model as queries, so the searcher can score each one.
+   */
+  private async addRepresentationEmbeddings(chunks: CodeChunk[]): Promise<CodeChunk[]> {
+    const wanted = cortexConfig.embeddingRepresentations;
+    if (wanted.length === 0) return chunks;
+
+    const targets: Array<{ chunk: CodeChunk; representation: typeof wanted[number]; text: string }> = [];
+    for (const chunk of chunks) {
+      if (chunk.embedding.length === 0) continue;
+      const texts = representationTexts(chunk);
+      for (const representation of wanted) {
+        const text = texts[representation];
+        if (text) targets.push({ chunk, representation, text });
+      }
+    }
+    if (targets.length === 0) return chunks;
+
+    const startTime = Date.now();
+    const batchSize = 64;
+    try {
+      for (let i = 0; i < targets.length; i += batchSize) {
+        const batch = targets.slice(i, i + batchSize);
+        const embeddings = await this.embedder.embedBatch(batch.map(target => target.text));
+        batch.forEach(({ chunk, representation }, index) => {
+          chunk.representation_embeddings = { ...chunk.representation_embeddings, [representation]: embeddings[index] };
+        });
+      }
+      log(`[Indexer] Embedded representations vectors=${targets.length} chunks=${chunks.length} duration=${Date.now() - startTime}ms`);
+    } catch (err) {
+      // Bodies alone still search correctly; the extra vectors only sharpen matching
+      warn(`[Indexer] Representation embeddings failed, keeping body vectors only error=${err instanceof Error ? err.message : err}`);
+    }
+    return chunks;
+  }
+
+  private async generateBodyEmbeddings(chunks: CodeChunk[]): Promise<CodeChunk[]> {
     // Use embedding strategy manager for intelligent strategy selection
     const embedderType = process.env.EMBEDDER_TYPE || 'local';
     
@@ -627,6 +670,7 @@ export class CodebaseIndexer {
         
         try {
           const result = await this.strategyManager.generateEmbeddings(chunks, config);
+          await this.addRepresentationEmbeddings(result.chunks);
           
           // Store the updated chunks with embeddings
           await this.vectorStore.upsertChunks(result.chunks);
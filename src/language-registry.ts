@@ -0,0 +1,74 @@
+import Parser from 'tree-sitter';
+import * as path from 'path';
+import { ChunkType } from './types';
+import { FileAnalysisResult } from './relationship-types';
+
+/**
+ * A declaration the chunker should emit as its own chunk.
+ * Lines are 1-based and inclusive.
+ */
+export interface LanguageChunkSpan {
+  symbolName: string;
+  chunkType: ChunkType;
+  startLine: number;
+  endLine: number;
+  parentSymbol?: string;
+  content?: string;             // Synthetic content (e.g. class outline) instead of the line range
+}
+
+/**
+ * Everything Cortex needs to understand one language: a tree-sitter grammar,
+ * chunk boundaries for SmartChunker and symbols/relationships for CallGraphAnalyzer.
+ */
+export interface LanguageModule {
+  readonly language: string;    // Same identifier SmartChunker.detectLanguage returns
+  readonly extensions: string[];
+  readonly grammar: any;
+  readonly supportsDataFlow?: boolean; // DataFlowAnalyzer understands this grammar's node types
+
+  extractChunks(tree: Parser.Tree, content: string): LanguageChunkSpan[];
+  analyze(tree: Parser.Tree, content: string, filePath: string): FileAnalysisResult;
+
+  /** Resolve an import source to a repository-relative file, if it lives in the repository */
+  resolveImport?(source: string, fromFile: string, repositoryPath: string): Promise<string | undefined>;
+}
+
+export class LanguageRegistry {
+  private modules: Map<string, LanguageModule> = new Map();
+  private modulesByExtension: Map<string, LanguageModule> = new Map();
+  private parsers: Map<string, Parser> = new Map();
+
+  register(module: LanguageModule): void {
+    this.modules.set(module.language, module);
+    for (const ext of module.extensions) {
+      this.modulesByExtension.set(ext.toLowerCase(), module);
+    }
+  }
+
+  getForFile(filePath: string): LanguageModule | undefined {
+    return this.modulesByExtension.get(path.extname(filePath).toLowerCase());
+  }
+
+  getForLanguage(language: string): LanguageModule | undefined {
+    return this.modules.get(language);
+  }
+
+  getSupportedExtensions(): string[] {
+    return Array.from(this.modulesByExtension.keys());
+  }
+
+  /** Parse with a per-language parser created on first use */
+  parse(module: LanguageModule, content: string): Parser.Tree {
+    let parser = this.parsers.get(module.language);
+    if (!parser) {
+      parser = new Parser();
+      parser.setLanguage(module.grammar);
+      this.parsers.set(module.language, parser);
+    }
+
+    // Default parse buffer is 32KB; larger files need an explicit size
+    return parser.parse(content, undefined, {
+      bufferSize: Math.max(32 * 1024, content.length * 2)
+    });
+  }
+}
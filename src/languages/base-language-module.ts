@@ -0,0 +1,370 @@
+import Parser from 'tree-sitter';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { LanguageChunkSpan, LanguageModule } from '../language-registry';
+import {
+  CodeSymbol,
+  CodeRelationship,
+  FileAnalysisResult,
+  ImportDeclaration,
+  ExportDeclaration,
+  AnalysisError
+} from '../relationship-types';
+import { ChunkType } from '../types';
+
+export interface AnalysisContext {
+  filePath: string;
+  content: string;
+  symbols: CodeSymbol[];
+  relationships: CodeRelationship[];
+  imports: ImportDeclaration[];
+  exports: ExportDeclaration[];
+  errors: AnalysisError[];
+  aliases: Map<string, string>;   // Local name bound by an import alias -> imported name
+}
+
+/**
+ * Shared plumbing for tree-sitter backed language modules. Subclasses describe
+ * their grammar's node types; ids and relationship shapes match CallGraphAnalyzer
+ * so every language lands in the same graph.
+ */
+export abstract class BaseLanguageModule implements LanguageModule {
+  abstract readonly language: string;
+  abstract readonly extensions: string[];
+  abstract readonly grammar: any;
+
+  /** Node types whose bodies calls are attributed to */
+  protected abstract readonly functionNodeTypes: string[];
+
+  abstract extractChunks(tree: Parser.Tree, content: string): LanguageChunkSpan[];
+
+  /** Language-specific handling for a single node; called for every named node */
+  protected abstract visitNode(node: Parser.SyntaxNode, context: AnalysisContext): void;
+
+  analyze(tree: Parser.Tree, content: string, filePath: string): FileAnalysisResult {
+    const context: AnalysisContext = {
+      filePath,
+      content,
+      symbols: [],
+      relationships: [],
+      imports: [],
+      exports: [],
+      errors: [],
+      aliases: new Map()
+    };
+
+    if (tree.rootNode.hasError) {
+      context.errors.push({
+        type: 'parse_error',
+        message: `Syntax errors in ${filePath} - analysis may be incomplete`,
+        severity: 'warning'
+      });
+    }
+
+    const visit = (node: Parser.SyntaxNode) => {
+      this.visitNode(node, context);
+      for (const child of node.namedChildren) {
+        visit(child);
+      }
+    };
+    visit(tree.rootNode);
+    this.resolveLocalTargets(context);
+
+    return {
+      symbols: context.symbols,
+      relationships: context.relationships,
+      imports: context.imports,
+      exports: context.exports,
+      errors: context.errors
+    };
+  }
+
+  protected addSymbol(
+    context: AnalysisContext,
+    node: Parser.SyntaxNode,
+    name: string,
+    type: CodeSymbol['type'],
+    scope: CodeSymbol['scope'],
+    signature?: string
+  ): CodeSymbol {
+    const symbol: CodeSymbol = {
+      id: this.symbolId(context.filePath, name, node),
+      name,
+      type,
+      filePath: context.filePath,
+      startLine: node.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+      signature,
+      scope
+    };
+
+    context.symbols.push(symbol);
+    return symbol;
+  }
+
+  /** Record a call from the enclosing function; identifier calls are more certain than member calls */
+  protected addCall(context: AnalysisContext, callNode: Parser.SyntaxNode, calleeName: string, isMemberCall: boolean): void {
+    const caller = this.findEnclosingFunction(callNode);
+    if (!caller) return;
+
+    const callerName = this.getName(caller);
+    if (!callerName) return;
+
+    const callerId = this.symbolId(context.filePath, callerName, caller);
+    const line = callNode.startPosition.row + 1;
+
+    context.relationships.push({
+      id: `${callerId}:calls:${calleeName}:${line}`,
+      fromSymbol: callerId,
+      toSymbol: `${context.filePath}:${calleeName}:unknown`,
+      type: 'calls',
+      strength: isMemberCall ? 0.7 : 0.9,
+      confidence: isMemberCall ? 0.8 : 0.9,
+      metadata: {
+        callType: isMemberCall ? 'indirect' : 'direct',
+        sourceLocation: { line, column: callNode.startPosition.column }
+      }
+    });
+  }
+
+  protected addImport(
+    context: AnalysisContext,
+    node: Parser.SyntaxNode,
+    source: string,
+    importedSymbols: string[],
+    importType: ImportDeclaration['importType']
+  ): void {
+    const line = node.startPosition.row + 1;
+
+    context.imports.push({ source, importedSymbols, importType, line });
+
+    for (const symbolName of importedSymbols) {
+      context.relationships.push({
+        id: `${context.filePath}:imports:${source}:${symbolName}:${line}`,
+        fromSymbol: `${context.filePath}:module:1`,
+        toSymbol: `${source}:${symbolName}:unknown`,
+        type: 'imports',
+        strength: 1.0,
+        confidence: 0.9,
+        metadata: {
+          importType,
+          importedSymbols: [symbolName],
+          sourceLocation: { line, column: node.startPosition.column }
+        }
+      });
+    }
+  }
+
+  /**
+   * Record an extends/implements edge from a type to a base type name. `fromId` may
+   * be an `:unknown` id when the type is declared elsewhere (e.g. Rust impl blocks).
+   */
+  protected addHeritage(
+    context: AnalysisContext,
+    fromId: string,
+    baseName: string,
+    type: 'extends' | 'implements',
+    node: Parser.SyntaxNode
+  ): void {
+    const line = node.startPosition.row + 1;
+
+    context.relationships.push({
+      id: `${fromId}:${type}:${baseName}:${line}`,
+      fromSymbol: fromId,
+      toSymbol: `${context.filePath}:${baseName}:unknown`,
+      type,
+      strength: 0.9,
+      confidence: 0.85,
+      metadata: {
+        sourceLocation: { line, column: node.startPosition.column }
+      }
+    });
+  }
+
+  /**
+   * Record an environment variable read. The `env:NAME:unknown` end is joined to the
+   * config keys that set NAME once the whole repository has been analysed.
+   */
+  protected addEnvironmentRead(context: AnalysisContext, node: Parser.SyntaxNode, variableName: string): void {
+    const reader = this.findEnclosingFunction(node);
+    const readerId = reader
+      ? this.symbolId(context.filePath, this.getName(reader), reader)
+      : `${context.filePath}:module:1`;
+    const line = node.startPosition.row + 1;
+
+    context.relationships.push({
+      id: `env:${variableName}:configures:${readerId}:${line}`,
+      fromSymbol: `env:${variableName}:unknown`,
+      toSymbol: readerId,
+      type: 'configures',
+      strength: 0.8,
+      confidence: 0.9,
+      metadata: {
+        configType: 'environment',
+        configPath: [variableName],
+        sourceLocation: { line, column: node.startPosition.column }
+      }
+    });
+  }
+
+  /** Record an error raised in the enclosing function; `confident` when the error type is named */
+  protected addThrow(context: AnalysisContext, node: Parser.SyntaxNode, errorType: string, confident: boolean): void {
+    const thrower = this.findEnclosingFunction(node);
+    if (!thrower) return;
+
+    const throwerId = this.symbolId(context.filePath, this.getName(thrower), thrower);
+    const line = node.startPosition.row + 1;
+
+    context.relationships.push({
+      id: `${throwerId}:throws:${errorType}:${line}`,
+      fromSymbol: throwerId,
+      toSymbol: `${context.filePath}:${errorType}:error`,
+      type: 'throws',
+      strength: 0.7,
+      confidence: confident ? 0.9 : 0.6,
+      metadata: {
+        errorType,
+        sourceLocation: { line, column: node.startPosition.column }
+      }
+    });
+  }
+
+  protected addExport(context: AnalysisContext, name: string, node: Parser.SyntaxNode): void {
+    context.exports.push({
+      exportedSymbol: name,
+      exportType: 'named',
+      line: node.startPosition.row + 1
+    });
+  }
+
+  protected symbolId(filePath: string, name: string, node: Parser.SyntaxNode): string {
+    return `${filePath}:${name}:${node.startPosition.row + 1}`;
+  }
+
+  protected getName(node: Parser.SyntaxNode): string {
+    return node.childForFieldName('name')?.text || '';
+  }
+
+  /** Nearest named function or method; anonymous closures attribute to their owner */
+  protected findEnclosingFunction(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+    let current = node.parent;
+    while (current) {
+      if (this.functionNodeTypes.includes(current.type) && this.getName(current)) return current;
+      current = current.parent;
+    }
+    return null;
+  }
+
+  /**
+   * Point `${filePath}:name:unknown` ends at symbols declared in the same file; a name
+   * bound by an import alias is first replaced by the name it imports
+   */
+  private resolveLocalTargets(context: AnalysisContext): void {
+    const localIds = new Map<string, string>();
+    for (const symbol of context.symbols) {
+      if (!localIds.has(symbol.name)) {
+        localIds.set(symbol.name, symbol.id);
+      }
+    }
+
+    const prefix = `${context.filePath}:`;
+    const resolve = (id: string): string => {
+      if (!id.startsWith(prefix) || !id.endsWith(':unknown')) return id;
+      const local = id.slice(prefix.length, -':unknown'.length);
+      const name = context.aliases.get(local) || local;
+      return localIds.get(name) || (name === local ? id : `${prefix}${name}:unknown`);
+    };
+
+    for (const relationship of context.relationships) {
+      // `obj.method()` / `Type::new()` may target another type's member of the same name
+      if (relationship.type === 'calls' && relationship.metadata?.callType === 'indirect') continue;
+      relationship.fromSymbol = resolve(relationship.fromSymbol);
+      relationship.toSymbol = resolve(relationship.toSymbol);
+    }
+  }
+
+  protected findEnclosing(node: Parser.SyntaxNode, types: string[]): Parser.SyntaxNode | null {
+    let current = node.parent;
+    while (current) {
+      if (types.includes(current.type)) return current;
+      current = current.parent;
+    }
+    return null;
+  }
+
+  /** Chunk span for a node, pulling in directly preceding comments and attributes */
+  protected createSpan(
+    node: Parser.SyntaxNode,
+    chunkType: ChunkType,
+    symbolName: string,
+    parentSymbol?: string
+  ): LanguageChunkSpan {
+    return {
+      symbolName,
+      chunkType,
+      startLine: this.getLeadingStartRow(node) + 1,
+      endLine: node.endPosition.row + 1,
+      parentSymbol
+    };
+  }
+
+  /**
+   * Slim outline of a type: header up to the body, then one line per member.
+   * Methods are reduced to their signature.
+   */
+  protected createOutlineSpan(
+    node: Parser.SyntaxNode,
+    body: Parser.SyntaxNode,
+    symbolName: string,
+    content: string,
+    isMethod: (member: Parser.SyntaxNode) => boolean
+  ): LanguageChunkSpan {
+    const startRow = this.getLeadingStartRow(node);
+    const lines = content.split('\n');
+    const leading = lines.slice(startRow, node.startPosition.row);
+    const header = node.text.slice(0, body.startIndex - node.startIndex + 1);
+
+    const members = body.namedChildren
+      .filter(member => !this.isLeadingTrivia(member))
+      .map(member => {
+        const memberBody = isMethod(member) ? member.childForFieldName('body') : null;
+        if (memberBody) {
+          return `${member.text.slice(0, memberBody.startIndex - member.startIndex).trim()};`;
+        }
+        const [firstLine, ...rest] = member.text.split('\n');
+        return rest.length > 0 ? `${firstLine} ...` : firstLine;
+      });
+
+    return {
+      symbolName,
+      chunkType: 'class',
+      startLine: startRow + 1,
+      endLine: node.endPosition.row + 1,
+      content: [...leading, header, ...members.map(member => `  ${member}`), '}'].join('\n')
+    };
+  }
+
+  protected getLeadingStartRow(node: Parser.SyntaxNode): number {
+    let startRow = node.startPosition.row;
+    let previous = node.previousNamedSibling;
+    while (previous && this.isLeadingTrivia(previous) && previous.endPosition.row >= startRow - 1) {
+      startRow = previous.startPosition.row;
+      previous = previous.previousNamedSibling;
+    }
+    return startRow;
+  }
+
+  /** Comments, and attribute-like nodes that belong to the following declaration */
+  protected isLeadingTrivia(node: Parser.SyntaxNode): boolean {
+    return node.type.endsWith('comment');
+  }
+
+  protected async fileExists(repositoryPath: string, relativePath: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(repositoryPath, relativePath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
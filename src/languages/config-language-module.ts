@@ -0,0 +1,194 @@
+import Parser from 'tree-sitter';
+import { LanguageChunkSpan } from '../language-registry';
+import { FileAnalysisResult } from '../relationship-types';
+import { BaseLanguageModule, AnalysisContext } from './base-language-module';
+
+export interface ConfigEntry {
+  key: string;
+  node: Parser.SyntaxNode;          // The whole key/value pair
+  value: Parser.SyntaxNode | null;
+}
+
+// Nested mappings longer than this are split into their own keys
+const MAX_CONFIG_CHUNK_LINES = 40;
+
+// Root arrays up to this length get a chunk per item; longer ones stay whole and are split by size
+const MAX_ROOT_ARRAY_ITEMS = 50;
+
+// Keys whose children are environment variable names (docker-compose, CI, MCP server configs)
+const ENV_KEYS = ['env', 'environment'];
+
+// `CORTEX_PORT=8766 node server.js`, `- DEBUG=true`
+const ENV_ASSIGNMENT = /(?:^|[\s;&|(])([A-Z][A-Z0-9_]*)=/g;
+
+/**
+ * Key-path chunking and analysis shared by JSON and YAML. Top-level keys holding
+ * a mapping are split one level down (`scripts.start`, `compilerOptions.paths`);
+ * deeper mappings only when they are large. Dependency maps stay whole.
+ */
+export abstract class ConfigLanguageModule extends BaseLanguageModule {
+  protected readonly functionNodeTypes: string[] = [];
+
+  /** Root value of every document in the file */
+  protected abstract getRootValues(tree: Parser.Tree): Parser.SyntaxNode[];
+
+  /** Key/value pairs of a mapping value, or null if the value is not a mapping */
+  protected abstract getEntries(value: Parser.SyntaxNode): ConfigEntry[] | null;
+
+  /** Items of a sequence value, or null if the value is not a sequence */
+  protected abstract getItems(value: Parser.SyntaxNode): Parser.SyntaxNode[] | null;
+
+  /** Unquoted text of a scalar value, or null for mappings and sequences */
+  protected abstract getScalar(value: Parser.SyntaxNode): string | null;
+
+  extractChunks(tree: Parser.Tree, content: string): LanguageChunkSpan[] {
+    const keyPaths = this.collectKeyPaths(tree);
+    const chunksPerRow = new Map<number, number>();
+    for (const { node } of keyPaths) {
+      for (const row of new Set([node.startPosition.row, node.endPosition.row])) {
+        chunksPerRow.set(row, (chunksPerRow.get(row) || 0) + 1);
+      }
+    }
+
+    return keyPaths.map(({ keyPath, node }) => {
+      const span = this.createSpan(node, 'config', keyPath.join('.'));
+      // Minified or single-line documents: a key sharing its line gets its own text, not the whole line
+      const sharesLine = chunksPerRow.get(node.startPosition.row)! > 1 || chunksPerRow.get(node.endPosition.row)! > 1;
+      return sharesLine ? { ...span, content: node.text } : span;
+    });
+  }
+
+  /** One symbol per chunked key path, plus `configures` edges for the environment variables it sets */
+  analyze(tree: Parser.Tree, content: string, filePath: string): FileAnalysisResult {
+    const context: AnalysisContext = {
+      filePath,
+      content,
+      symbols: [],
+      relationships: [],
+      imports: [],
+      exports: [],
+      errors: [],
+      aliases: new Map()
+    };
+
+    if (tree.rootNode.hasError) {
+      context.errors.push({
+        type: 'parse_error',
+        message: `Syntax errors in ${filePath} - analysis may be incomplete`,
+        severity: 'warning'
+      });
+    }
+
+    for (const { keyPath, node, value } of this.collectKeyPaths(tree)) {
+      const symbol = this.addSymbol(context, node, keyPath.join('.'), 'variable', 'module');
+
+      for (const variable of this.collectEnvironmentVariables(value, keyPath[keyPath.length - 1])) {
+        const line = variable.node.startPosition.row + 1;
+        context.relationships.push({
+          id: `${symbol.id}:configures:${variable.name}:${line}`,
+          fromSymbol: symbol.id,
+          toSymbol: `env:${variable.name}:unknown`,
+          type: 'configures',
+          strength: 0.8,
+          confidence: 0.9,
+          metadata: {
+            configType: 'environment',
+            configPath: keyPath,
+            sourceLocation: { line, column: variable.node.startPosition.column }
+          }
+        });
+      }
+    }
+
+    return {
+      symbols: context.symbols,
+      relationships: context.relationships,
+      imports: context.imports,
+      exports: context.exports,
+      errors: context.errors
+    };
+  }
+
+  protected visitNode(node: Parser.SyntaxNode, context: AnalysisContext): void {
+    // Config files are analysed by key path in analyze()
+  }
+
+  private collectKeyPaths(tree: Parser.Tree): Array<{ keyPath: string[]; node: Parser.SyntaxNode; value: Parser.SyntaxNode | null }> {
+    const results: Array<{ keyPath: string[]; node: Parser.SyntaxNode; value: Parser.SyntaxNode | null }> = [];
+
+    const visitEntry = (entry: ConfigEntry, keyPath: string[]) => {
+      const children = entry.value ? this.getEntries(entry.value) : null;
+      const lineCount = entry.node.endPosition.row - entry.node.startPosition.row + 1;
+      const split = !!children && children.length > 0 && lineCount > 1 &&
+        !/dependencies$/i.test(entry.key) &&
+        (keyPath.length === 1 || lineCount > MAX_CONFIG_CHUNK_LINES);
+
+      if (split) {
+        children!.forEach(child => visitEntry(child, [...keyPath, child.key]));
+      } else {
+        results.push({ keyPath, node: entry.node, value: entry.value });
+      }
+    };
+
+    for (const root of this.getRootValues(tree)) {
+      const entries = this.getEntries(root);
+      if (entries) {
+        entries.forEach(entry => visitEntry(entry, [entry.key]));
+      } else {
+        const items = this.getItems(root) || [];
+        if (items.length > MAX_ROOT_ARRAY_ITEMS) {
+          results.push({ keyPath: [`[0..${items.length - 1}]`], node: root, value: root });
+        } else {
+          items.forEach((item, index) => {
+            results.push({ keyPath: [`[${index}]`], node: item, value: item });
+          });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private collectEnvironmentVariables(
+    value: Parser.SyntaxNode | null,
+    key: string
+  ): Array<{ name: string; node: Parser.SyntaxNode }> {
+    const variables = new Map<string, Parser.SyntaxNode>();
+
+    const visit = (node: Parser.SyntaxNode, parentKey: string) => {
+      const isEnvBlock = ENV_KEYS.includes(parentKey.toLowerCase());
+
+      const entries = this.getEntries(node);
+      if (entries) {
+        for (const entry of entries) {
+          if (isEnvBlock && /^[A-Za-z_][A-Za-z0-9_]*$/.test(entry.key) && !variables.has(entry.key)) {
+            variables.set(entry.key, entry.node);
+          }
+          if (entry.value) visit(entry.value, entry.key);
+        }
+        return;
+      }
+
+      const items = this.getItems(node);
+      if (items) {
+        for (const item of items) {
+          const scalar = this.getScalar(item);
+          // `environment: [DEBUG]` passes a variable through without a value
+          if (isEnvBlock && scalar && /^[A-Za-z_][A-Za-z0-9_]*$/.test(scalar) && !variables.has(scalar)) {
+            variables.set(scalar, item);
+          }
+          visit(item, parentKey);
+        }
+        return;
+      }
+
+      const scalar = this.getScalar(node);
+      for (const match of (scalar || '').matchAll(ENV_ASSIGNMENT)) {
+        if (!variables.has(match[1])) variables.set(match[1], node);
+      }
+    };
+
+    if (value) visit(value, key);
+    return Array.from(variables, ([name, node]) => ({ name, node }));
+  }
+}
@@ -0,0 +1,192 @@
+import Parser from 'tree-sitter';
+import Go from 'tree-sitter-go';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { LanguageChunkSpan } from '../language-registry';
+import { BaseLanguageModule, AnalysisContext } from './base-language-module';
+
+export class GoLanguageModule extends BaseLanguageModule {
+  readonly language = 'go';
+  readonly extensions = ['.go'];
+  readonly grammar = Go;
+
+  protected readonly functionNodeTypes = ['function_declaration', 'method_declaration', 'func_literal'];
+
+  // go.mod module path per repository, read once
+  private modulePaths: Map<string, string | null> = new Map();
+
+  extractChunks(tree: Parser.Tree, content: string): LanguageChunkSpan[] {
+    const spans: LanguageChunkSpan[] = [];
+
+    for (const node of tree.rootNode.namedChildren) {
+      switch (node.type) {
+        case 'function_declaration':
+          spans.push(this.createSpan(node, 'function', this.getName(node)));
+          break;
+
+        case 'method_declaration': {
+          const receiver = this.getReceiverType(node);
+          const name = this.getName(node);
+          spans.push(receiver
+            ? this.createSpan(node, 'method', `${receiver}.${name}`, receiver)
+            : this.createSpan(node, 'function', name));
+          break;
+        }
+
+        case 'type_declaration': {
+          const specs = node.namedChildren.filter(child => child.type === 'type_spec' || child.type === 'type_alias');
+          for (const spec of specs) {
+            const target = specs.length === 1 ? node : spec;
+            spans.push(this.createSpan(target, this.getTypeChunkType(spec), this.getName(spec)));
+          }
+          break;
+        }
+
+        case 'import_declaration': {
+          const firstSpec = node.descendantsOfType('import_spec')[0];
+          spans.push(this.createSpan(node, 'config', firstSpec ? this.getImportPath(firstSpec) : 'imports'));
+          break;
+        }
+
+        case 'const_declaration':
+        case 'var_declaration': {
+          const firstSpec = node.namedChildren.find(child => child.type === 'const_spec' || child.type === 'var_spec');
+          spans.push(this.createSpan(node, 'config', firstSpec ? this.getName(firstSpec) : node.type));
+          break;
+        }
+      }
+    }
+
+    return spans;
+  }
+
+  protected visitNode(node: Parser.SyntaxNode, context: AnalysisContext): void {
+    switch (node.type) {
+      case 'function_declaration': {
+        const name = this.getName(node);
+        if (!name) return;
+        this.addSymbol(context, node, name, 'function', 'global', this.getSignature(node));
+        if (this.isExported(name)) this.addExport(context, name, node);
+        break;
+      }
+
+      case 'method_declaration': {
+        const name = this.getName(node);
+        if (!name) return;
+        this.addSymbol(context, node, name, 'method', 'class', this.getSignature(node));
+        if (this.isExported(name)) this.addExport(context, name, node);
+        break;
+      }
+
+      case 'type_spec': {
+        const name = this.getName(node);
+        const type = node.childForFieldName('type');
+        if (!name || !type) return;
+
+        const symbol = this.addSymbol(context, node, name, 'class', 'global');
+        if (this.isExported(name)) this.addExport(context, name, node);
+
+        // Struct embedding and interface embedding are Go's inheritance
+        if (type.type === 'struct_type') {
+          for (const field of type.descendantsOfType('field_declaration')) {
+            const fieldType = field.childForFieldName('type');
+            if (!field.childForFieldName('name') && fieldType) {
+              this.addHeritage(context, symbol.id, this.getBaseTypeName(fieldType), 'extends', field);
+            }
+          }
+        } else if (type.type === 'interface_type') {
+          for (const element of type.namedChildren.filter(child => child.type === 'type_elem')) {
+            this.addHeritage(context, symbol.id, this.getBaseTypeName(element), 'extends', element);
+          }
+        }
+        break;
+      }
+
+      case 'import_spec': {
+        const source = this.getImportPath(node);
+        const alias = node.childForFieldName('name')?.text;
+        this.addImport(context, node, source, [alias || source.split('/').pop() || source], 'namespace');
+        break;
+      }
+
+      case 'call_expression': {
+        const callee = node.childForFieldName('function');
+        if (callee?.type === 'identifier') {
+          this.addCall(context, node, callee.text, false);
+        } else if (callee?.type === 'selector_expression') {
+          const field = callee.childForFieldName('field');
+          if (field) this.addCall(context, node, field.text, true);
+        }
+        break;
+      }
+    }
+  }
+
+  /** Map `<module>/pkg/sub` imports onto the first non-test file of that package directory */
+  async resolveImport(source: string, fromFile: string, repositoryPath: string): Promise<string | undefined> {
+    const modulePath = await this.getModulePath(repositoryPath);
+    if (!modulePath || (source !== modulePath && !source.startsWith(modulePath + '/'))) {
+      return undefined;
+    }
+
+    const packageDir = source.slice(modulePath.length).replace(/^\//, '');
+    try {
+      const entries = await fs.readdir(path.join(repositoryPath, packageDir));
+      const goFile = entries
+        .filter(entry => entry.endsWith('.go') && !entry.endsWith('_test.go'))
+        .sort()[0];
+      return goFile ? path.join(packageDir, goFile) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async getModulePath(repositoryPath: string): Promise<string | null> {
+    if (!this.modulePaths.has(repositoryPath)) {
+      let modulePath: string | null = null;
+      try {
+        const goMod = await fs.readFile(path.join(repositoryPath, 'go.mod'), 'utf-8');
+        modulePath = goMod.match(/^module\s+(\S+)/m)?.[1] || null;
+      } catch {
+        // Not a Go module
+      }
+      this.modulePaths.set(repositoryPath, modulePath);
+    }
+    return this.modulePaths.get(repositoryPath)!;
+  }
+
+  private getReceiverType(node: Parser.SyntaxNode): string {
+    const receiver = node.childForFieldName('receiver');
+    const parameter = receiver?.namedChildren.find(child => child.type === 'parameter_declaration');
+    const type = parameter?.childForFieldName('type');
+    return type ? this.getBaseTypeName(type) : '';
+  }
+
+  /** `*pkg.Type[T]` -> `Type` */
+  private getBaseTypeName(node: Parser.SyntaxNode): string {
+    const identifiers = node.type === 'type_identifier' ? [node] : node.descendantsOfType('type_identifier');
+    return identifiers[0]?.text || node.text;
+  }
+
+  private getTypeChunkType(spec: Parser.SyntaxNode): LanguageChunkSpan['chunkType'] {
+    if (spec.type === 'type_alias') return 'type_alias';
+    const type = spec.childForFieldName('type');
+    if (type?.type === 'struct_type') return 'class';
+    if (type?.type === 'interface_type') return 'interface';
+    return 'type_alias';
+  }
+
+  private getImportPath(spec: Parser.SyntaxNode): string {
+    return (spec.childForFieldName('path')?.text || '').replace(/^["`]|["`]$/g, '');
+  }
+
+  private getSignature(node: Parser.SyntaxNode): string {
+    const parameters = node.childForFieldName('parameters')?.text || '()';
+    const result = node.childForFieldName('result')?.text;
+    return result ? `${parameters} ${result}` : parameters;
+  }
+
+  private isExported(name: string): boolean {
+    return /^[A-Z]/.test(name);
+  }
+}
@@ -0,0 +1,20 @@
+import { LanguageRegistry } from '../language-registry';
+import { GoLanguageModule } from './go-language';
+import { RustLanguageModule } from './rust-language';
+import { JavaLanguageModule } from './java-language';
+import { PythonLanguageModule } from './python-language';
+import { JsonLanguageModule } from './json-language';
+import { YamlLanguageModule } from './yaml-language';
+
+/**
+ * Registry of tree-sitter language modules beyond the built-in TS/JS analysis.
+ * Register new languages here; the chunker and analyzers pick them up by extension.
+ */
+export const languageRegistry = new LanguageRegistry();
+
+languageRegistry.register(new GoLanguageModule());
+languageRegistry.register(new RustLanguageModule());
+languageRegistry.register(new JavaLanguageModule());
+languageRegistry.register(new PythonLanguageModule());
+languageRegistry.register(new JsonLanguageModule());
+languageRegistry.register(new YamlLanguageModule());
@@ -0,0 +1,189 @@
+import Parser from 'tree-sitter';
+import Java from 'tree-sitter-java';
+import * as path from 'path';
+import { LanguageChunkSpan } from '../language-registry';
+import { BaseLanguageModule, AnalysisContext } from './base-language-module';
+
+const TYPE_DECLARATIONS = [
+  'class_declaration',
+  'interface_declaration',
+  'enum_declaration',
+  'record_declaration',
+  'annotation_type_declaration'
+];
+
+const METHOD_DECLARATIONS = ['method_declaration', 'constructor_declaration', 'compact_constructor_declaration'];
+
+// Conventional source roots tried when resolving `com.acme.Foo` to a file
+const SOURCE_ROOTS = ['src/main/java', 'src/test/java', 'src', ''];
+
+export class JavaLanguageModule extends BaseLanguageModule {
+  readonly language = 'java';
+  readonly extensions = ['.java'];
+  readonly grammar = Java;
+
+  protected readonly functionNodeTypes = [...METHOD_DECLARATIONS, 'lambda_expression'];
+
+  extractChunks(tree: Parser.Tree, content: string): LanguageChunkSpan[] {
+    const spans: LanguageChunkSpan[] = [];
+
+    for (const node of tree.rootNode.namedChildren) {
+      if (node.type === 'import_declaration' || node.type === 'package_declaration') {
+        const name = node.namedChildren.find(child => child.type === 'scoped_identifier' || child.type === 'identifier');
+        spans.push(this.createSpan(node, 'config', name?.text || node.type));
+      } else if (TYPE_DECLARATIONS.includes(node.type)) {
+        this.collectTypeSpans(node, content, spans);
+      }
+    }
+
+    return spans;
+  }
+
+  /**
+   * Same shape as the TS chunker: interfaces/enums stay whole, classes with
+   * methods become an outline plus one chunk per method. Nested types recurse.
+   */
+  private collectTypeSpans(node: Parser.SyntaxNode, content: string, spans: LanguageChunkSpan[]): void {
+    const name = this.getName(node);
+    const body = node.childForFieldName('body');
+
+    if (node.type === 'interface_declaration' || node.type === 'annotation_type_declaration') {
+      spans.push(this.createSpan(node, 'interface', name));
+      return;
+    }
+    if (node.type === 'enum_declaration') {
+      spans.push(this.createSpan(node, 'enum', name));
+      return;
+    }
+
+    const members = body?.namedChildren || [];
+    const methods = members.filter(member => METHOD_DECLARATIONS.includes(member.type));
+    if (!body || methods.length === 0 || node.startPosition.row === node.endPosition.row) {
+      spans.push(this.createSpan(node, 'class', name));
+      return;
+    }
+
+    spans.push(this.createOutlineSpan(node, body, name, content, member => METHOD_DECLARATIONS.includes(member.type)));
+    for (const method of methods) {
+      spans.push(this.createSpan(method, 'method', `${name}.${this.getName(method)}`, name));
+    }
+    for (const nested of members.filter(member => TYPE_DECLARATIONS.includes(member.type))) {
+      this.collectTypeSpans(nested, content, spans);
+    }
+  }
+
+  protected visitNode(node: Parser.SyntaxNode, context: AnalysisContext): void {
+    if (TYPE_DECLARATIONS.includes(node.type)) {
+      this.processTypeDeclaration(node, context);
+      return;
+    }
+
+    switch (node.type) {
+      case 'method_declaration':
+      case 'constructor_declaration':
+      case 'compact_constructor_declaration': {
+        const name = this.getName(node);
+        if (!name) return;
+        this.addSymbol(context, node, name, 'method', 'class', this.getSignature(node));
+        if (this.isPublic(node)) this.addExport(context, name, node);
+        break;
+      }
+
+      case 'import_declaration': {
+        const imported = node.namedChildren.find(child => child.type === 'scoped_identifier' || child.type === 'identifier');
+        if (!imported) return;
+        const qualifiedName = imported.text;
+        const isWildcard = node.namedChildren.some(child => child.type === 'asterisk');
+        const isStatic = node.children.some(child => child.type === 'static');
+
+        if (isWildcard) {
+          this.addImport(context, node, qualifiedName, ['*'], 'namespace');
+        } else if (isStatic) {
+          // `import static a.B.member` imports a member of class a.B
+          const separator = qualifiedName.lastIndexOf('.');
+          this.addImport(context, node, qualifiedName.slice(0, separator), [qualifiedName.slice(separator + 1)], 'named');
+        } else {
+          this.addImport(context, node, qualifiedName, [qualifiedName.split('.').pop()!], 'named');
+        }
+        break;
+      }
+
+      case 'method_invocation': {
+        const name = node.childForFieldName('name');
+        if (name) this.addCall(context, node, name.text, !!node.childForFieldName('object'));
+        break;
+      }
+    }
+  }
+
+  private processTypeDeclaration(node: Parser.SyntaxNode, context: AnalysisContext): void {
+    const name = this.getName(node);
+    if (!name) return;
+
+    const scope = this.findEnclosing(node, TYPE_DECLARATIONS) ? 'class' : 'global';
+    const symbol = this.addSymbol(context, node, name, 'class', scope);
+    if (this.isPublic(node)) this.addExport(context, name, node);
+
+    const superclass = node.childForFieldName('superclass');
+    if (superclass) {
+      for (const type of superclass.namedChildren) {
+        this.addHeritage(context, symbol.id, this.getBaseTypeName(type), 'extends', superclass);
+      }
+    }
+
+    const interfaces = node.childForFieldName('interfaces');
+    for (const type of interfaces?.descendantsOfType('type_list')[0]?.namedChildren || []) {
+      this.addHeritage(context, symbol.id, this.getBaseTypeName(type), 'implements', interfaces!);
+    }
+
+    // Interfaces extend other interfaces
+    const extendsInterfaces = node.namedChildren.find(child => child.type === 'extends_interfaces');
+    for (const type of extendsInterfaces?.descendantsOfType('type_list')[0]?.namedChildren || []) {
+      this.addHeritage(context, symbol.id, this.getBaseTypeName(type), 'extends', extendsInterfaces!);
+    }
+  }
+
+  /** Map `com.acme.db.Repo` (or `com.acme.db` for wildcards) onto a file under a known source root */
+  async resolveImport(source: string, fromFile: string, repositoryPath: string): Promise<string | undefined> {
+    const relativePath = source.split('.').join('/');
+    const roots = [...SOURCE_ROOTS];
+
+    // Prefer the root the importing file lives under, e.g. `service/src/main/java/`
+    const topPackage = `/${source.split('.')[0]}/`;
+    const rootIndex = `/${fromFile}`.indexOf(topPackage);
+    if (rootIndex > 0) {
+      roots.unshift(fromFile.slice(0, rootIndex - 1));
+    }
+
+    for (const root of roots) {
+      const candidate = path.join(root, `${relativePath}.java`);
+      if (await this.fileExists(repositoryPath, candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /** `List<String>` / `java.util.List` -> `List` */
+  private getBaseTypeName(node: Parser.SyntaxNode): string {
+    if (node.type === 'generic_type') {
+      const inner = node.namedChildren[0];
+      return inner ? this.getBaseTypeName(inner) : node.text;
+    }
+    if (node.type === 'scoped_type_identifier') {
+      return node.text.split('.').pop() || node.text;
+    }
+    return node.text;
+  }
+
+  private getSignature(node: Parser.SyntaxNode): string {
+    const parameters = node.childForFieldName('parameters')?.text || '()';
+    const returnType = node.childForFieldName('type')?.text;
+    return returnType ? `${parameters}: ${returnType}` : parameters;
+  }
+
+  private isPublic(node: Parser.SyntaxNode): boolean {
+    const modifiers = node.namedChildren.find(child => child.type === 'modifiers');
+    return !!modifiers && /\bpublic\b/.test(modifiers.text);
+  }
+}
@@ -0,0 +1,43 @@
+import Parser from 'tree-sitter';
+import Json from 'tree-sitter-json';
+import { ConfigLanguageModule, ConfigEntry } from './config-language-module';
+
+export class JsonLanguageModule extends ConfigLanguageModule {
+  readonly language = 'json';
+  readonly extensions = ['.json'];
+  readonly grammar = Json;
+
+  protected getRootValues(tree: Parser.Tree): Parser.SyntaxNode[] {
+    return tree.rootNode.namedChildren.filter(child => !this.isLeadingTrivia(child));
+  }
+
+  protected getEntries(value: Parser.SyntaxNode): ConfigEntry[] | null {
+    if (value.type !== 'object') return null;
+
+    return value.namedChildren
+      .filter(child => child.type === 'pair')
+      .map(pair => {
+        const key = pair.childForFieldName('key');
+        return {
+          key: key ? this.getScalar(key) ?? key.text : '',
+          node: pair,
+          value: pair.childForFieldName('value')
+        };
+      });
+  }
+
+  protected getItems(value: Parser.SyntaxNode): Parser.SyntaxNode[] | null {
+    return value.type === 'array' ? value.namedChildren.filter(child => !this.isLeadingTrivia(child)) : null;
+  }
+
+  protected getScalar(value: Parser.SyntaxNode): string | null {
+    if (value.type === 'string') {
+      try {
+        return JSON.parse(value.text);
+      } catch {
+        return value.text.slice(1, -1);
+      }
+    }
+    return ['number', 'true', 'false', 'null'].includes(value.type) ? value.text : null;
+  }
+}
@@ -0,0 +1,323 @@
+import Parser from 'tree-sitter';
+import Python from 'tree-sitter-python';
+import * as path from 'path';
+import { LanguageChunkSpan } from '../language-registry';
+import { BaseLanguageModule, AnalysisContext } from './base-language-module';
+
+export class PythonLanguageModule extends BaseLanguageModule {
+  readonly language = 'python';
+  readonly extensions = ['.py'];
+  readonly grammar = Python;
+  readonly supportsDataFlow = true;
+
+  protected readonly functionNodeTypes = ['function_definition', 'lambda'];
+
+  extractChunks(tree: Parser.Tree, content: string): LanguageChunkSpan[] {
+    const spans: LanguageChunkSpan[] = [];
+
+    for (const node of tree.rootNode.namedChildren) {
+      const definition = this.unwrapDecorated(node);
+
+      switch (definition.type) {
+        case 'function_definition':
+          spans.push(this.createSpan(node, 'function', this.getName(definition)));
+          break;
+
+        case 'class_definition':
+          this.collectClassSpans(node, definition, content, spans);
+          break;
+
+        case 'import_statement':
+        case 'import_from_statement': {
+          const moduleName = definition.childForFieldName('module_name') || definition.childForFieldName('name');
+          spans.push(this.createSpan(node, 'config', moduleName?.text || 'import'));
+          break;
+        }
+
+        case 'expression_statement': {
+          const assignment = definition.namedChildren[0];
+          if (assignment?.type === 'assignment') {
+            spans.push(this.createSpan(node, 'config', assignment.childForFieldName('left')?.text || 'assignment'));
+          }
+          break;
+        }
+
+        case 'if_statement':
+          // `if __name__ == "__main__":` entry blocks
+          if (definition.childForFieldName('condition')?.text.includes('__name__')) {
+            spans.push(this.createSpan(node, 'function', '__main__'));
+          }
+          break;
+      }
+    }
+
+    return spans;
+  }
+
+  /** Outline (bases, docstring line, attributes, method signatures) plus one chunk per method */
+  private collectClassSpans(
+    node: Parser.SyntaxNode,
+    definition: Parser.SyntaxNode,
+    content: string,
+    spans: LanguageChunkSpan[]
+  ): void {
+    const className = this.getName(definition);
+    const body = definition.childForFieldName('body');
+    const members = body?.namedChildren || [];
+    const methods = members.filter(member => this.unwrapDecorated(member).type === 'function_definition');
+
+    if (!body || methods.length === 0) {
+      spans.push(this.createSpan(node, 'class', className));
+      return;
+    }
+
+    const startRow = this.getLeadingStartRow(node);
+    const leading = content.split('\n').slice(startRow, node.startPosition.row);
+    const decorators = node.type === 'decorated_definition'
+      ? node.namedChildren.filter(child => child.type === 'decorator').map(decorator => decorator.text)
+      : [];
+    const header = definition.text.slice(0, body.startIndex - definition.startIndex).trim();
+
+    const outlineMembers = members
+      .filter(member => member.type !== 'comment')
+      .map(member => {
+        const memberDefinition = this.unwrapDecorated(member);
+        if (memberDefinition.type === 'function_definition') {
+          const memberBody = memberDefinition.childForFieldName('body')!;
+          const memberDecorators = member.namedChildren.filter(child => child.type === 'decorator').map(decorator => decorator.text);
+          const signature = memberDefinition.text.slice(0, memberBody.startIndex - memberDefinition.startIndex).trim();
+          return [...memberDecorators, `${signature} ...`].join('\n    ');
+        }
+        const [firstLine, ...rest] = member.text.split('\n');
+        return rest.length > 0 ? `${firstLine} ...` : firstLine;
+      });
+
+    spans.push({
+      symbolName: className,
+      chunkType: 'class',
+      startLine: startRow + 1,
+      endLine: node.endPosition.row + 1,
+      content: [...leading, ...decorators, header, ...outlineMembers.map(member => `    ${member}`)].join('\n')
+    });
+
+    for (const method of methods) {
+      const methodName = this.getName(this.unwrapDecorated(method));
+      spans.push(this.createSpan(method, 'method', `${className}.${methodName}`, className));
+    }
+  }
+
+  protected visitNode(node: Parser.SyntaxNode, context: AnalysisContext): void {
+    switch (node.type) {
+      case 'function_definition': {
+        const name = this.getName(node);
+        if (!name) return;
+
+        const owner = this.findEnclosing(node, ['class_definition', 'function_definition']);
+        const isMethod = owner?.type === 'class_definition';
+        const scope = isMethod ? 'class' : owner ? 'local' : 'global';
+        this.addSymbol(context, node, name, isMethod ? 'method' : 'function', scope, this.getSignature(node));
+        if (!owner && !name.startsWith('_')) this.addExport(context, name, node);
+        break;
+      }
+
+      case 'class_definition': {
+        const name = this.getName(node);
+        if (!name) return;
+
+        const owner = this.findEnclosing(node, ['class_definition', 'function_definition']);
+        const symbol = this.addSymbol(context, node, name, 'class', owner ? 'class' : 'global');
+        if (!owner && !name.startsWith('_')) this.addExport(context, name, node);
+
+        // `class Service(Base, mixins.Audit, metaclass=Meta)` - keyword arguments aren't bases
+        const superclasses = node.childForFieldName('superclasses');
+        for (const base of superclasses?.namedChildren || []) {
+          if (base.type === 'identifier' || base.type === 'attribute') {
+            this.addHeritage(context, symbol.id, this.getLastSegment(base.text), 'extends', base);
+          }
+        }
+        break;
+      }
+
+      case 'decorated_definition': {
+        const definition = node.childForFieldName('definition');
+        const definitionName = definition ? this.getName(definition) : '';
+        if (!definition || !definitionName) return;
+
+        const decoratedId = this.symbolId(context.filePath, definitionName, definition);
+        for (const decorator of node.namedChildren.filter(child => child.type === 'decorator')) {
+          const decoratorName = this.getDecoratorName(decorator);
+          if (!decoratorName) continue;
+
+          const line = decorator.startPosition.row + 1;
+          context.relationships.push({
+            id: `${decoratedId}:decorated_by:${decoratorName}:${line}`,
+            fromSymbol: decoratedId,
+            toSymbol: `${context.filePath}:${this.getLastSegment(decoratorName)}:unknown`,
+            type: 'decorated_by',
+            strength: 0.8,
+            confidence: 0.9,
+            metadata: {
+              conditions: [decorator.text],
+              sourceLocation: { line, column: decorator.startPosition.column }
+            }
+          });
+        }
+        break;
+      }
+
+      case 'import_statement':
+        // `import a.b.c` binds `a`; `import a.b as c` binds `c`
+        for (const name of node.namedChildren) {
+          if (name.type === 'dotted_name') {
+            this.addImport(context, node, name.text, [name.text.split('.')[0]], 'namespace');
+          } else if (name.type === 'aliased_import') {
+            const original = name.childForFieldName('name');
+            const alias = name.childForFieldName('alias');
+            if (original && alias) this.addImport(context, node, original.text, [alias.text], 'namespace');
+          }
+        }
+        break;
+
+      case 'import_from_statement': {
+        const moduleName = node.childForFieldName('module_name');
+        if (!moduleName) return;
+
+        if (node.namedChildren.some(child => child.type === 'wildcard_import')) {
+          this.addImport(context, node, moduleName.text, ['*'], 'namespace');
+          return;
+        }
+
+        // `from m import x as y`: calls to `y` resolve as calls to `x`
+        const importedSymbols: string[] = [];
+        for (const child of node.namedChildren) {
+          if (child === moduleName) continue;
+          if (child.type === 'aliased_import') {
+            const original = child.childForFieldName('name');
+            const alias = child.childForFieldName('alias');
+            if (!original) continue;
+            importedSymbols.push(original.text);
+            if (alias) context.aliases.set(alias.text, original.text);
+          } else {
+            importedSymbols.push(child.text);
+          }
+        }
+        this.addImport(context, node, moduleName.text, importedSymbols, 'named');
+
+        // `from . import mod` may name a submodule rather than something __init__.py defines
+        if (/^\.+$/.test(moduleName.text)) {
+          for (const name of importedSymbols) {
+            const source = `${moduleName.text}${name}`;
+            if (context.imports.some(existing => existing.source === source)) continue;
+            context.imports.push({ source, importedSymbols: [name], importType: 'namespace', line: node.startPosition.row + 1 });
+          }
+        }
+        break;
+      }
+
+      case 'subscript': {
+        // os.environ["NAME"]
+        const value = node.childForFieldName('value');
+        const name = this.getStringArgument(node.childForFieldName('subscript'));
+        if (value && /^(os\.)?environ$/.test(value.text) && name) this.addEnvironmentRead(context, node, name);
+        break;
+      }
+
+      case 'raise_statement': {
+        // raise NotFound("...") / raise NotFound / raise errors.NotFound() from exc; a bare raise re-raises
+        const raised = node.namedChildren[0];
+        const errorClass = raised?.type === 'call' ? raised.childForFieldName('function') : raised;
+        const named = !!errorClass && (errorClass.type === 'identifier' || errorClass.type === 'attribute');
+        this.addThrow(context, node, named ? this.getLastSegment(errorClass!.text) : 'Exception', named);
+        break;
+      }
+
+      case 'call': {
+        const callee = node.childForFieldName('function');
+        // os.getenv("NAME") / os.environ.get("NAME")
+        if (callee && /^((os\.)?getenv|(os\.)?environ\.get)$/.test(callee.text)) {
+          const name = this.getStringArgument(node.childForFieldName('arguments')?.namedChildren[0] || null);
+          if (name) this.addEnvironmentRead(context, node, name);
+        }
+        if (callee?.type === 'identifier') {
+          this.addCall(context, node, callee.text, false);
+        } else if (callee?.type === 'attribute') {
+          const attribute = callee.childForFieldName('attribute');
+          if (attribute) this.addCall(context, node, attribute.text, true);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Resolve `.mod`, `..pkg.mod` and absolute `pkg.mod` imports to `mod.py` or
+   * `mod/__init__.py`. Absolute imports are tried from the repository root, `src/`
+   * and the directory containing the importing file's top-level package.
+   */
+  async resolveImport(source: string, fromFile: string, repositoryPath: string): Promise<string | undefined> {
+    const candidatesFor = (baseDir: string, modulePath: string): string[] => {
+      if (!modulePath) return [path.join(baseDir, '__init__.py')];
+      const target = path.join(baseDir, ...modulePath.split('.'));
+      return [`${target}.py`, path.join(target, '__init__.py')];
+    };
+
+    let candidates: string[];
+    if (source.startsWith('.')) {
+      const dots = source.match(/^\.+/)![0].length;
+      let baseDir = path.dirname(fromFile);
+      for (let i = 1; i < dots; i++) {
+        baseDir = path.dirname(baseDir);
+      }
+      candidates = candidatesFor(baseDir, source.slice(dots));
+    } else {
+      const roots = ['', 'src', await this.findPackageRoot(fromFile, repositoryPath)];
+      candidates = [...new Set(roots)].flatMap(root => candidatesFor(root, source));
+    }
+
+    for (const candidate of candidates) {
+      if (await this.fileExists(repositoryPath, candidate)) {
+        return path.normalize(candidate);
+      }
+    }
+    return undefined;
+  }
+
+  /** Parent of the outermost directory above `fromFile` that is still a package (has `__init__.py`) */
+  private async findPackageRoot(fromFile: string, repositoryPath: string): Promise<string> {
+    let dir = path.dirname(fromFile);
+    while (dir !== '.' && dir !== path.dirname(dir) &&
+           await this.fileExists(repositoryPath, path.join(dir, '__init__.py'))) {
+      dir = path.dirname(dir);
+    }
+    return dir === '.' ? '' : dir;
+  }
+
+  private unwrapDecorated(node: Parser.SyntaxNode): Parser.SyntaxNode {
+    return node.type === 'decorated_definition' ? node.childForFieldName('definition') || node : node;
+  }
+
+  /** `@app.route("/x")` -> `app.route`, `@dataclass` -> `dataclass` */
+  private getDecoratorName(decorator: Parser.SyntaxNode): string {
+    let expression = decorator.namedChildren[0];
+    if (expression?.type === 'call') {
+      expression = expression.childForFieldName('function')!;
+    }
+    return expression && (expression.type === 'identifier' || expression.type === 'attribute') ? expression.text : '';
+  }
+
+  private getStringArgument(node: Parser.SyntaxNode | null): string | null {
+    if (node?.type !== 'string') return null;
+    const text = node.namedChildren.find(child => child.type === 'string_content')?.text;
+    return text && /^[A-Za-z_][A-Za-z0-9_]*$/.test(text) ? text : null;
+  }
+
+  private getLastSegment(dottedName: string): string {
+    return dottedName.split('.').pop() || dottedName;
+  }
+
+  private getSignature(node: Parser.SyntaxNode): string {
+    const parameters = node.childForFieldName('parameters')?.text || '()';
+    const returnType = node.childForFieldName('return_type')?.text;
+    return returnType ? `${parameters} -> ${returnType}` : parameters;
+  }
+}
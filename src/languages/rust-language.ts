@@ -0,0 +1,244 @@
+import Parser from 'tree-sitter';
+import Rust from 'tree-sitter-rust';
+import * as path from 'path';
+import { LanguageChunkSpan } from '../language-registry';
+import { BaseLanguageModule, AnalysisContext } from './base-language-module';
+
+export class RustLanguageModule extends BaseLanguageModule {
+  readonly language = 'rust';
+  readonly extensions = ['.rs'];
+  readonly grammar = Rust;
+
+  protected readonly functionNodeTypes = ['function_item', 'closure_expression'];
+
+  extractChunks(tree: Parser.Tree, content: string): LanguageChunkSpan[] {
+    const spans: LanguageChunkSpan[] = [];
+    this.collectItemSpans(tree.rootNode, spans);
+    return spans;
+  }
+
+  private collectItemSpans(container: Parser.SyntaxNode, spans: LanguageChunkSpan[]): void {
+    for (const node of container.namedChildren) {
+      switch (node.type) {
+        case 'function_item':
+        case 'macro_definition':
+          spans.push(this.createSpan(node, 'function', this.getName(node)));
+          break;
+
+        case 'struct_item':
+        case 'union_item':
+          spans.push(this.createSpan(node, 'class', this.getName(node)));
+          break;
+
+        case 'enum_item':
+          spans.push(this.createSpan(node, 'enum', this.getName(node)));
+          break;
+
+        case 'trait_item':
+          spans.push(this.createSpan(node, 'interface', this.getName(node)));
+          break;
+
+        case 'type_item':
+          spans.push(this.createSpan(node, 'type_alias', this.getName(node)));
+          break;
+
+        case 'impl_item': {
+          // Methods point back at the struct/enum chunk of the implementing type
+          const typeName = this.getImplTypeName(node);
+          const body = node.childForFieldName('body');
+          for (const item of body?.namedChildren || []) {
+            if (item.type === 'function_item') {
+              spans.push(this.createSpan(item, 'method', `${typeName}.${this.getName(item)}`, typeName));
+            }
+          }
+          break;
+        }
+
+        case 'mod_item': {
+          const body = node.childForFieldName('body');
+          if (body) this.collectItemSpans(body, spans);
+          break;
+        }
+
+        case 'use_declaration': {
+          const [firstPath] = this.expandUsePaths(node.childForFieldName('argument'), '');
+          spans.push(this.createSpan(node, 'config', firstPath || 'use'));
+          break;
+        }
+
+        case 'const_item':
+        case 'static_item':
+          spans.push(this.createSpan(node, 'config', this.getName(node)));
+          break;
+      }
+    }
+  }
+
+  protected visitNode(node: Parser.SyntaxNode, context: AnalysisContext): void {
+    switch (node.type) {
+      case 'function_item': {
+        const name = this.getName(node);
+        if (!name) return;
+        const inImpl = !!this.findEnclosing(node, ['impl_item', 'trait_item']);
+        this.addSymbol(context, node, name, inImpl ? 'method' : 'function', inImpl ? 'class' : 'global', this.getSignature(node));
+        if (!inImpl && this.isPublic(node)) this.addExport(context, name, node);
+        break;
+      }
+
+      case 'struct_item':
+      case 'enum_item':
+      case 'union_item': {
+        const name = this.getName(node);
+        if (!name) return;
+        this.addSymbol(context, node, name, 'class', 'global');
+        if (this.isPublic(node)) this.addExport(context, name, node);
+        break;
+      }
+
+      case 'trait_item': {
+        const name = this.getName(node);
+        if (!name) return;
+        const symbol = this.addSymbol(context, node, name, 'class', 'global');
+        if (this.isPublic(node)) this.addExport(context, name, node);
+
+        // Supertraits: `trait Handler: Send + Sync`
+        const bounds = node.childForFieldName('bounds');
+        for (const bound of bounds?.namedChildren || []) {
+          if (bound.type === 'type_identifier' || bound.type === 'scoped_type_identifier' || bound.type === 'generic_type') {
+            this.addHeritage(context, symbol.id, this.getBaseTypeName(bound), 'extends', bound);
+          }
+        }
+        break;
+      }
+
+      case 'impl_item': {
+        const trait = node.childForFieldName('trait');
+        if (trait) {
+          const typeName = this.getImplTypeName(node);
+          this.addHeritage(context, `${context.filePath}:${typeName}:unknown`, this.getBaseTypeName(trait), 'implements', node);
+        }
+        break;
+      }
+
+      case 'use_declaration': {
+        // Group `use a::b::{C, D}` into one import per module path
+        const bySource = new Map<string, string[]>();
+        for (const usePath of this.expandUsePaths(node.childForFieldName('argument'), '')) {
+          const separator = usePath.lastIndexOf('::');
+          const source = separator === -1 ? usePath : usePath.slice(0, separator);
+          const symbol = separator === -1 ? usePath : usePath.slice(separator + 2);
+          if (!bySource.has(source)) bySource.set(source, []);
+          bySource.get(source)!.push(symbol);
+        }
+        for (const [source, symbols] of bySource) {
+          this.addImport(context, node, source, symbols, symbols.includes('*') ? 'namespace' : 'named');
+        }
+        break;
+      }
+
+      case 'call_expression': {
+        let callee = node.childForFieldName('function');
+        if (callee?.type === 'generic_function') {
+          callee = callee.childForFieldName('function');
+        }
+        if (callee?.type === 'identifier') {
+          this.addCall(context, node, callee.text, false);
+        } else if (callee?.type === 'scoped_identifier') {
+          const name = callee.childForFieldName('name');
+          if (name) this.addCall(context, node, name.text, true);
+        } else if (callee?.type === 'field_expression') {
+          const field = callee.childForFieldName('field');
+          if (field) this.addCall(context, node, field.text, true);
+        }
+        break;
+      }
+    }
+  }
+
+  /** Map `crate::a::b` / `self::` / `super::` module paths onto `a/b.rs` or `a/b/mod.rs` */
+  async resolveImport(source: string, fromFile: string, repositoryPath: string): Promise<string | undefined> {
+    const segments = source.split('::');
+    let baseDir: string;
+
+    if (segments[0] === 'crate') {
+      const srcIndex = fromFile.split(path.sep).lastIndexOf('src');
+      baseDir = srcIndex === -1 ? 'src' : fromFile.split(path.sep).slice(0, srcIndex + 1).join(path.sep);
+      segments.shift();
+    } else if (segments[0] === 'self' || segments[0] === 'super') {
+      const fileName = path.basename(fromFile, '.rs');
+      baseDir = ['mod', 'lib', 'main'].includes(fileName)
+        ? path.dirname(fromFile)
+        : path.join(path.dirname(fromFile), fileName);
+      while (segments[0] === 'self' || segments[0] === 'super') {
+        if (segments.shift() === 'super') baseDir = path.dirname(baseDir);
+      }
+    } else {
+      return undefined; // External crate
+    }
+
+    const modulePath = path.join(baseDir, ...segments);
+    for (const candidate of [`${modulePath}.rs`, path.join(modulePath, 'mod.rs')]) {
+      if (await this.fileExists(repositoryPath, candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /** Flatten a use tree into full paths: `std::{fs, io::Read}` -> [`std::fs`, `std::io::Read`] */
+  private expandUsePaths(node: Parser.SyntaxNode | null, prefix: string): string[] {
+    if (!node) return [];
+    const join = (value: string) => (prefix ? `${prefix}::${value}` : value);
+
+    switch (node.type) {
+      case 'scoped_use_list': {
+        const basePath = node.childForFieldName('path');
+        const list = node.childForFieldName('list');
+        return this.expandUsePaths(list, basePath ? join(basePath.text) : prefix);
+      }
+      case 'use_list':
+        return node.namedChildren.flatMap(child => this.expandUsePaths(child, prefix));
+      case 'use_as_clause': {
+        const original = node.childForFieldName('path');
+        return original ? [join(original.text)] : [];
+      }
+      case 'use_wildcard': {
+        const scope = node.namedChildren[0];
+        return [scope ? `${join(scope.text)}::*` : join('*')];
+      }
+      default:
+        return [join(node.text)];
+    }
+  }
+
+  private getImplTypeName(node: Parser.SyntaxNode): string {
+    const type = node.childForFieldName('type');
+    return type ? this.getBaseTypeName(type) : 'impl';
+  }
+
+  /** `Box<dyn a::Handler<T>>`-style types reduced to the leading type name */
+  private getBaseTypeName(node: Parser.SyntaxNode): string {
+    if (node.type === 'generic_type') {
+      const inner = node.childForFieldName('type');
+      return inner ? this.getBaseTypeName(inner) : node.text;
+    }
+    if (node.type === 'scoped_type_identifier') {
+      return node.childForFieldName('name')?.text || node.text;
+    }
+    return node.text;
+  }
+
+  private getSignature(node: Parser.SyntaxNode): string {
+    const parameters = node.childForFieldName('parameters')?.text || '()';
+    const returnType = node.childForFieldName('return_type')?.text;
+    return returnType ? `${parameters} -> ${returnType}` : parameters;
+  }
+
+  private isPublic(node: Parser.SyntaxNode): boolean {
+    return node.namedChildren.some(child => child.type === 'visibility_modifier');
+  }
+
+  protected isLeadingTrivia(node: Parser.SyntaxNode): boolean {
+    return super.isLeadingTrivia(node) || node.type === 'attribute_item';
+  }
+}
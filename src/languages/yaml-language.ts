@@ -0,0 +1,65 @@
+import Parser from 'tree-sitter';
+import Yaml from '@tree-sitter-grammars/tree-sitter-yaml';
+import { ConfigLanguageModule, ConfigEntry } from './config-language-module';
+
+export class YamlLanguageModule extends ConfigLanguageModule {
+  readonly language = 'yaml';
+  readonly extensions = ['.yaml', '.yml'];
+  readonly grammar = Yaml;
+
+  protected getRootValues(tree: Parser.Tree): Parser.SyntaxNode[] {
+    return tree.rootNode.descendantsOfType('document')
+      .map(document => document.namedChildren.find(child => child.type === 'block_node' || child.type === 'flow_node'))
+      .filter((value): value is Parser.SyntaxNode => !!value);
+  }
+
+  protected getEntries(value: Parser.SyntaxNode): ConfigEntry[] | null {
+    const inner = this.unwrap(value);
+    if (inner.type !== 'block_mapping' && inner.type !== 'flow_mapping') return null;
+
+    return inner.namedChildren
+      .filter(child => child.type === 'block_mapping_pair' || child.type === 'flow_pair')
+      .map(pair => {
+        const key = pair.childForFieldName('key');
+        return {
+          key: key ? this.getScalar(key) ?? key.text : '',
+          node: pair,
+          value: pair.childForFieldName('value')
+        };
+      });
+  }
+
+  protected getItems(value: Parser.SyntaxNode): Parser.SyntaxNode[] | null {
+    const inner = this.unwrap(value);
+    if (inner.type === 'block_sequence') {
+      return inner.namedChildren
+        .filter(child => child.type === 'block_sequence_item')
+        .map(item => item.namedChildren[0])
+        .filter((item): item is Parser.SyntaxNode => !!item);
+    }
+    return inner.type === 'flow_sequence' ? inner.namedChildren : null;
+  }
+
+  protected getScalar(value: Parser.SyntaxNode): string | null {
+    const inner = this.unwrap(value);
+    switch (inner.type) {
+      case 'plain_scalar':
+        return inner.text;
+      case 'double_quote_scalar':
+      case 'single_quote_scalar':
+        return inner.text.slice(1, -1);
+      case 'block_scalar':
+        // Drop the `|` / `>` indicator line
+        return inner.text.split('\n').slice(1).map(line => line.trim()).join('\n');
+      default:
+        return null;
+    }
+  }
+
+  /** Step through block_node/flow_node wrappers, anchors and tags to the actual value */
+  private unwrap(node: Parser.SyntaxNode): Parser.SyntaxNode {
+    if (node.type !== 'block_node' && node.type !== 'flow_node') return node;
+    const inner = node.namedChildren.find(child => child.type !== 'anchor' && child.type !== 'tag');
+    return inner ? this.unwrap(inner) : node;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * BM25 inverted index over chunk content with code-aware tokenisation.
+ *
+ * Identifiers are indexed whole and as their camelCase / snake_case parts, so
+ * `calculateFileDelta` matches both the exact identifier (a rare, high-IDF term)
+ * and queries like "calculate file delta".
+ */
+
+import { CodeChunk } from './types';
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+}
+
+export interface PersistedLexicalIndex {
+  version: number;
+  // chunk_id -> content hash and term frequencies; postings are rebuilt on load
+  documents: Record<string, { hash: string; length: number; terms: Record<string, number> }>;
+}
+
+interface LexicalDocument {
+  hash: string;
+  length: number;
+  terms: Map<string, number>;
+}
+
+const PERSISTED_VERSION = 1;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][A-Za-z0-9_$]*|\d+/g;
+
+/**
+ * `parseHTTPResponse_v2` -> parsehttpresponse_v2, parse, http, response, v2.
+ * Single characters are dropped; they match nearly every chunk.
+ */
+export function tokenizeCode(text: string): string[] {
+  const tokens: string[] = [];
+  for (const identifier of text.match(IDENTIFIER_PATTERN) || []) {
+    const whole = identifier.toLowerCase();
+    if (whole.length > 1) tokens.push(whole);
+
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1);
+    if (parts.length > 1 || (parts.length === 1 && parts[0] !== whole)) {
+      tokens.push(...parts);
+    }
+  }
+  return tokens;
+}
+
+export class LexicalIndex {
+  private documents: Map<string, LexicalDocument> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> chunk_id -> tf
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(chunk: CodeChunk): void {
+    const existing = this.documents.get(chunk.chunk_id);
+    if (existing?.hash === chunk.content_hash && chunk.content_hash) return;
+    if (existing) this.remove(chunk.chunk_id);
+
+    const tokens = tokenizeCode([chunk.symbol_name || '', chunk.file_path, chunk.content].join('\n'));
+    const terms = new Map<string, number>();
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) || 0) + 1);
+    }
+    this.insert(chunk.chunk_id, { hash: chunk.content_hash, length: tokens.length, terms });
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of document.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+  }
+
+  /** Top `limit` chunks by BM25 score; `accept` drops chunks before they are ranked */
+  search(query: string, limit: number, accept?: (id: string) => boolean): LexicalMatch[] {
+    const documentCount = this.documents.size;
+    if (documentCount === 0) return [];
+
+    const averageLength = this.totalLength / documentCount;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenizeCode(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        if (accept && !accept(id)) continue;
+        const length = this.documents.get(id)!.length;
+        const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  toJSON(): PersistedLexicalIndex {
+    const documents: PersistedLexicalIndex['documents'] = {};
+    for (const [id, document] of this.documents) {
+      documents[id] = { hash: document.hash, length: document.length, terms: Object.fromEntries(document.terms) };
+    }
+    return { version: PERSISTED_VERSION, documents };
+  }
+
+  /**
+   * Restore a persisted index, keeping only documents whose content hash still matches
+   * a chunk. Chunks that are new or changed since the save are re-tokenised.
+   */
+  static fromJSON(data: PersistedLexicalIndex, chunks: Iterable<CodeChunk>): LexicalIndex {
+    const index = new LexicalIndex();
+    const persisted = data.version === PERSISTED_VERSION ? data.documents : {};
+
+    for (const chunk of chunks) {
+      const document = persisted[chunk.chunk_id];
+      if (document && chunk.content_hash && document.hash === chunk.content_hash) {
+        index.insert(chunk.chunk_id, {
+          hash: document.hash,
+          length: document.length,
+          terms: new Map(Object.entries(document.terms))
+        });
+      } else {
+        index.add(chunk);
+      }
+    }
+    return index;
+  }
+
+  private insert(id: string, document: LexicalDocument): void {
+    this.documents.set(id, document);
+    this.totalLength += document.length;
+    for (const [term, tf] of document.terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, tf);
+    }
+  }
+}
@@ -6,6 +6,9 @@ import { BaseHandler } from './mcp-handlers';
 import { EmbeddingClient } from './embedding-client';
 import { ProjectManager } from './project-manager';
 import { warn } from './logging-utils';
+import { searchFilterFromToolParams, retrievalWeightsFromToolParams } from './search-filter';
+import { SavedQueryStore } from './saved-queries';
+import { countTokens } from './token-counter';
 
 /**
  * Base class for lightweight handlers with HTTP client, caching, and fallback
@@ -73,15 +76,25 @@ export abstract class LightweightBaseHandler extends BaseHandler {
 
 export class LightweightSemanticSearchHandler extends LightweightBaseHandler {
   async handle(params: any): Promise<any> {
+    const filter = searchFilterFromToolParams(params);
     return this.makeRequestWithCache(
       'semanticSearch',
       {
         query: params.query,
-        maxChunks: params.max_chunks || 5,
-        fileFilters: params.file_filters,
-        includeTests: params.include_tests
+        // Spread positionally into semanticSearch(query, options)
+        options: {
+          maxChunks: params.max_chunks || 5,
+          fileFilters: params.file_filters,
+          includeTests: params.include_tests,
+          filter,
+          retrievalWeights: retrievalWeightsFromToolParams(params),
+          mmrPreset: params.mmr_preset,
+          contextMode: params.context_mode,
+          explain: params.explain,
+          cursor: params.cursor
+        }
       },
-      `semantic_search_${params.query}`,
+      `semantic_search_${params.cursor || params.query}_${JSON.stringify([params.max_chunks, params.file_filters, params.include_tests, filter, params.lexical_weight, params.vector_weight, params.symbol_weight, params.mmr_preset, params.context_mode, params.explain])}`,
       // Fallback: Basic text search if centralized server unavailable
       async () => {
         return {
@@ -111,7 +124,7 @@ export class LightweightContextualReadHandler extends LightweightBaseHandler {
           file_path: params.file_path,
           content: content,
           semantic_context: params.semantic_context || 'Basic file read (fallback mode)',
-          token_estimate: Math.floor(content.length / 4), // rough estimate
+          token_estimate: countTokens(content),
           fallback_mode: true
         };
       } catch (error: any) {
@@ -210,6 +223,172 @@ export class LightweightTraceExecutionPathHandler extends LightweightBaseHandler
   }
 }
 
+export class LightweightSearchStackTraceHandler extends LightweightBaseHandler {
+  async handle(params: any): Promise<any> {
+    return this.makeRequestWithCache(
+      'searchStackTrace',
+      {
+        stackTrace: params.stack_trace,
+        // Spread positionally into searchStackTrace(stackTrace, options)
+        options: {
+          maxCallers: params.max_callers,
+          includeErrorHandling: params.include_error_handling
+        }
+      },
+      `search_stack_trace_${JSON.stringify([params.max_callers, params.include_error_handling])}_${params.stack_trace}`,
+      // Fallback: frames can only be mapped against the centralized index
+      async () => {
+        return {
+          frames: [],
+          error_relationships: [],
+          fallback_mode: true,
+          chunks: [],
+          summary: 'Stack trace search requires centralized server - unavailable in fallback mode'
+        };
+      }
+    );
+  }
+}
+
+export class LightweightFindDefinitionHandler extends LightweightBaseHandler {
+  async handle(params: any): Promise<any> {
+    return this.makeRequestWithCache(
+      'findDefinition',
+      { options: symbolNavigationFromToolParams(params) },
+      `find_definition_${JSON.stringify([params.symbol, params.file_path, params.line, params.column])}`,
+      // Fallback: definitions can only be resolved against the centralized index
+      async () => {
+        return {
+          definitions: [],
+          fallback_mode: true,
+          chunks: [],
+          summary: 'Find definition requires centralized server - unavailable in fallback mode'
+        };
+      }
+    );
+  }
+}
+
+export class LightweightFindReferencesHandler extends LightweightBaseHandler {
+  async handle(params: any): Promise<any> {
+    return this.makeRequestWithCache(
+      'findReferences',
+      { options: { ...symbolNavigationFromToolParams(params), maxResults: params.max_results } },
+      `find_references_${JSON.stringify([params.symbol, params.file_path, params.line, params.column, params.max_results])}`,
+      async () => {
+        return {
+          definitions: [],
+          references: [],
+          fallback_mode: true,
+          chunks: [],
+          summary: 'Find references requires centralized server - unavailable in fallback mode'
+        };
+      }
+    );
+  }
+}
+
+export class LightweightImpactAnalysisHandler extends LightweightBaseHandler {
+  async handle(params: any): Promise<any> {
+    return this.makeRequestWithCache(
+      'impactAnalysis',
+      {
+        options: {
+          diff: params.diff,
+          commitRange: params.commit_range,
+          symbols: params.symbols,
+          maxDepth: params.max_depth,
+          maxResults: params.max_results
+        }
+      },
+      `impact_analysis_${JSON.stringify([params.diff, params.commit_range, params.symbols, params.max_depth, params.max_results])}`,
+      // Fallback: the relationship graph only lives with the centralized index
+      async () => {
+        return {
+          changed: [],
+          affected: [],
+          affected_tests: [],
+          fallback_mode: true,
+          chunks: [],
+          summary: 'Impact analysis requires centralized server - unavailable in fallback mode'
+        };
+      }
+    );
+  }
+}
+
+export class LightweightFindTestsHandler extends LightweightBaseHandler {
+  async handle(params: any): Promise<any> {
+    return this.makeRequestWithCache(
+      'findTests',
+      {
+        options: {
+          symbol: params.symbol,
+          filePath: params.file_path,
+          maxDepth: params.max_depth,
+          maxResults: params.max_results
+        }
+      },
+      `find_tests_${JSON.stringify([params.symbol, params.file_path, params.max_depth, params.max_results])}`,
+      async () => {
+        return {
+          tests: [],
+          untested: [],
+          fallback_mode: true,
+          chunks: [],
+          summary: 'Find tests requires centralized server - unavailable in fallback mode'
+        };
+      }
+    );
+  }
+}
+
+function symbolNavigationFromToolParams(params: any) {
+  return {
+    symbol: params.symbol,
+    filePath: params.file_path,
+    line: params.line,
+    column: params.column
+  };
+}
+
+export class LightweightSavedQueriesHandler extends LightweightBaseHandler {
+  async handle(params: any): Promise<any> {
+    const action = params.action || 'list';
+
+    // Not cached: saving, removing and running change what list/changes return
+    try {
+      const response = await this.embeddingClient.savedQueries(action, {
+        query: params.query,
+        name: params.name,
+        id: params.id,
+        maxChunks: params.max_chunks,
+        since: params.since
+      });
+      if (response.success && response.data) {
+        return { action, ...response.data };
+      }
+      throw new Error(response.error || 'Server returned unsuccessful response');
+    } catch (error: any) {
+      warn(`[savedQueries] Centralized server request failed: ${error.message}`);
+
+      // Fallback: the saved queries file can still be read, but running needs the index
+      if (action === 'list' || action === 'changes') {
+        const projectPath = this.projectManager.getCurrentProject()?.path || process.cwd();
+        const store = new SavedQueryStore(projectPath);
+        return action === 'list'
+          ? { action, queries: await store.list(), fallback_mode: true }
+          : { action, changes: await store.changes(params.since), fallback_mode: true };
+      }
+      return {
+        error: `Service temporarily unavailable: ${error.message}`,
+        fallback_available: false,
+        suggested_action: 'Check centralized server status'
+      };
+    }
+  }
+}
+
 export class LightweightFindCodePatternsHandler extends LightweightBaseHandler {
   async handle(params: any): Promise<any> {
     return this.makeRequestWithCache(
@@ -4,6 +4,7 @@ import { ActivityDetector } from './activity-detector';
 import { ChangeProcessor } from './change-processor';
 import { log, warn, error } from './logging-utils';
 import { StartupStageTracker } from './startup-stages';
+import { SavedQueryStore } from './saved-queries';
 
 interface LiveIndexingConfig {
   enableContentAnalysis: boolean;
@@ -30,9 +31,11 @@ export class LiveCodebaseIndexer extends CodebaseIndexer {
   private config: LiveIndexingConfig;
   private isLiveModeEnabled: boolean = false;
   private stats: LiveIndexingStats;
+  private savedQueries: SavedQueryStore;
 
   constructor(repositoryPath: string, stageTracker?: StartupStageTracker) {
     super(repositoryPath, stageTracker);
+    this.savedQueries = new SavedQueryStore(repositoryPath);
     
     this.config = {
       enableContentAnalysis: true,
@@ -209,11 +212,29 @@ export class LiveCodebaseIndexer extends CodebaseIndexer {
 
       log(`[LiveIndexer] Batch processed in ${processingTime}ms`);
 
+      await this.rerunSavedQueries(batch.events.length);
+
     } catch (err) {
       error('[LiveIndexer] Error processing batch:', err);
     }
   }
 
+  // Saved queries are compared against their previous results once the batch is indexed
+  private async rerunSavedQueries(fileCount: number): Promise<void> {
+    try {
+      await this.savedQueries.runAll(async (query, maxChunks) => {
+        const response = await this.search({ task: query, max_chunks: maxChunks });
+        return response.context_package.groups.flatMap(group => group.chunks);
+      }, `live-indexer: ${fileCount} files`);
+    } catch (err) {
+      warn('[LiveIndexer] Failed to re-run saved queries:', err);
+    }
+  }
+
+  getSavedQueries(): SavedQueryStore {
+    return this.savedQueries;
+  }
+
   private async batchProcessFiles(events: FileChangeEvent[]): Promise<void> {
     // Process files in parallel batches for efficiency
     const batchSize = this.config.maxConcurrentFiles;
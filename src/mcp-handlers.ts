@@ -1,10 +1,12 @@
-import { QueryRequest, QueryResponse } from './types';
+import { QueryRequest, QueryResponse, CodeChunk, ChunkProvenance } from './types';
 import { SemanticSearcher } from './searcher';
 import { CodebaseIndexer } from './indexer';
 import { cacheText, getCachedChunk, getNextChunk } from './utils/chunk-cache';
 import { ProjectManager, ProjectInfo } from './project-manager';
 import { EmbeddingClient } from './embedding-client';
 import { warn, error } from './logging-utils';
+import { searchFilterFromToolParams, retrievalWeightsFromToolParams } from './search-filter';
+import { formatProvenance } from './search-provenance';
 
 export abstract class BaseHandler {
   abstract handle(params: any): Promise<any>;
@@ -12,24 +14,40 @@ export abstract class BaseHandler {
   // Shared MCP optimization for all handlers - MINIMAL data only
   protected optimizeForMCP(result: any, params: any): any {
     const CHUNK_SIZE = typeof params.chunk_size === 'number' ? params.chunk_size : 20000;
+    // Lightweight handlers pass the tool arguments on as { query, options }
+    const explain = params.explain ?? params.options?.explain;
+    const provenance: ChunkProvenance[] | undefined = explain ? result.provenance : undefined;
     
     // Create ultra-lean MCP response - only what Claude Code actually needs
     const mcpOptimizedResult: any = {
       // Essential chunks data only
-      chunks: result.chunks?.map((chunk: any) => ({
+      chunks: result.chunks?.map((chunk: any, index: number) => ({
         file_path: chunk.file_path,
         start_line: chunk.start_line,
         end_line: chunk.end_line,
         content: chunk.content,
         // Only include symbol name if it exists and is meaningful
-        ...(chunk.symbol_name && chunk.symbol_name !== 'section_0' ? { symbol_name: chunk.symbol_name } : {})
+        ...(chunk.symbol_name && chunk.symbol_name !== 'section_0' ? { symbol_name: chunk.symbol_name } : {}),
+        // Pieces of a split chunk can be continued with next_chunk / fetch_chunk by chunk_id
+        ...(chunk.sub_chunk ? { chunk_id: chunk.chunk_id, sub_chunk: chunk.sub_chunk } : {}),
+        // Set when the signature, docstring or summary vector matched rather than the body
+        ...(chunk.matched_representation && chunk.matched_representation !== 'body' ? { matched_representation: chunk.matched_representation } : {}),
+        // minimal context_mode: content is the AST summary; read the lines for the body
+        ...(chunk.content_summarized ? { summarized: true } : {}),
+        // Provenance is parallel to chunks; only rendered on request. The centralized server
+        // sends `why` already rendered
+        ...(explain && (chunk.why || provenance?.[index]) ? { why: chunk.why || formatProvenance(provenance![index]) } : {}),
+        // search_stack_trace: where the chunk sits in the trace package
+        ...(result.roles?.[index] ? { role: result.roles[index] } : {})
       })) || [],
       
       // Minimal summary only
-      summary: result.context_package?.summary || `Found ${result.chunks?.length || 0} relevant code chunks`,
+      summary: result.context_package?.summary || result.summary || `Found ${result.chunks?.length || 0} relevant code chunks`,
       
       // Essential file list for reference
       files: [...new Set(result.chunks?.map((chunk: any) => chunk.file_path) || [])],
+
+      ...(provenance ? { provenance } : {}),
       
       // Preserve tool-specific fields that are actually useful
       ...(result.analysis_type ? { analysis_type: result.analysis_type } : {}),
@@ -39,6 +57,36 @@ export abstract class BaseHandler {
       ...(result.patterns_found ? { patterns_found: result.patterns_found } : {}),
       ...(result.execution_path ? { execution_path: result.execution_path } : {}),
       ...(result.relationships_found ? { relationships_found: result.relationships_found } : {}),
+      ...(result.error_messages?.length ? { error_messages: result.error_messages } : {}),
+      ...(result.frames ? { frames: result.frames } : {}),
+      ...(result.error_relationships?.length ? { error_relationships: result.error_relationships } : {}),
+      // find_definition / find_references
+      ...(result.definitions ? { symbol: result.symbol, definitions: result.definitions, ambiguous: result.ambiguous } : {}),
+      ...(result.references ? { references: result.references, total_references: result.total_references, truncated: result.truncated } : {}),
+      // impact_analysis
+      ...(result.affected ? {
+        changed: result.changed,
+        affected: result.affected,
+        affected_tests: result.affected_tests,
+        minimal_test_set: result.minimal_test_set,
+        total_affected: result.total_affected,
+        truncated: result.truncated,
+        ...(result.unmapped?.length ? { unmapped: result.unmapped } : {})
+      } : {}),
+      // find_tests
+      ...(result.tests ? {
+        target: result.target,
+        symbols: result.symbols,
+        tests: result.tests,
+        total_tests: result.total_tests,
+        truncated: result.truncated,
+        untested: result.untested
+      } : {}),
+      // semantic_search result sessions: pass `next_cursor` back as `cursor` for the next ranked page
+      ...(result.page ? { page: result.page, total_results: result.total_results } : {}),
+      ...(result.next_cursor ? { next_cursor: result.next_cursor } : {}),
+      ...(result.index_version ? { index_version: result.index_version } : {}),
+      ...(result.index_changed ? { index_changed: true } : {}),
       ...(result.visualization ? { visualization: result.visualization } : {})
     };
 
@@ -73,9 +121,12 @@ export class SemanticSearchHandler extends BaseHandler {
       task: params.query,
       max_chunks: params.max_chunks || 20,
       file_filters: params.file_filters,
-      include_tests: params.include_tests || false,
+      include_tests: params.include_tests,
+      filter: searchFilterFromToolParams(params),
+      retrieval_weights: retrievalWeightsFromToolParams(params),
+      mmr_preset: params.mmr_preset,
       multi_hop: params.multi_hop || { enabled: true, max_hops: 2, relationship_types: ['calls'], hop_decay: 0.8 },
-      context_mode: params.context_mode || 'structured'
+      context_mode: params.context_mode // Picked from the query intent when unset
     };
 
     const result = await activeSearcher.search(query);
@@ -418,16 +469,52 @@ export class RealTimeStatusHandler extends BaseHandler {
   }
 }
 
+/**
+ * Render an indexed code chunk for fetch_chunk / next_chunk, pointing at the next piece of a split chunk
+ */
+async function fetchCodeChunk(
+  embeddingClient: EmbeddingClient | undefined,
+  chunkId: string,
+  direction: 'current' | 'next'
+): Promise<string> {
+  if (!embeddingClient) {
+    return 'Error: chunk_id lookups need the centralized embedding server';
+  }
+
+  const response = await embeddingClient.fetchCodeChunk(chunkId, direction);
+  if (!response.success) {
+    return `Error: ${response.error || `could not fetch chunk ${chunkId}`}`;
+  }
+
+  const chunk: CodeChunk | null = response.data?.chunk;
+  if (!chunk) {
+    return `No further pieces after chunk ${chunkId}. You have reached the end of the split chunk.`;
+  }
+
+  const piece = chunk.sub_chunk
+    ? ` (piece ${chunk.sub_chunk.index}/${chunk.sub_chunk.total} of ${chunk.sub_chunk.parent_chunk_id})`
+    : '';
+  const next = chunk.sub_chunk?.next_chunk_id
+    ? `\nnext: call next_chunk with chunk_id ${chunk.chunk_id}`
+    : '';
+
+  return `chunk_id: ${chunk.chunk_id}${piece}\nfile: ${chunk.file_path}:${chunk.start_line}-${chunk.end_line}${next}\n\n${chunk.content}`;
+}
+
 export class FetchChunkHandler extends BaseHandler {
-  constructor() {
+  constructor(private embeddingClient?: EmbeddingClient) {
     super();
   }
 
   async handle(params: any): Promise<string> {
-    const { cacheKey, chunkIndex } = params;
+    const { cacheKey, chunkIndex, chunk_id } = params;
+
+    if (typeof chunk_id === 'string' && chunk_id) {
+      return fetchCodeChunk(this.embeddingClient, chunk_id, 'current');
+    }
     
     if (!cacheKey || typeof cacheKey !== 'string') {
-      return 'Error: cacheKey is required and must be a string';
+      return 'Error: cacheKey or chunk_id is required and must be a string';
     }
     
     if (!chunkIndex || typeof chunkIndex !== 'number' || chunkIndex < 1) {
@@ -444,15 +531,19 @@ export class FetchChunkHandler extends BaseHandler {
 }
 
 export class NextChunkHandler extends BaseHandler {
-  constructor() {
+  constructor(private embeddingClient?: EmbeddingClient) {
     super();
   }
 
   async handle(params: any): Promise<string> {
-    const { cacheKey } = params;
+    const { cacheKey, chunk_id } = params;
+
+    if (typeof chunk_id === 'string' && chunk_id) {
+      return fetchCodeChunk(this.embeddingClient, chunk_id, 'next');
+    }
     
     if (!cacheKey || typeof cacheKey !== 'string') {
-      return 'Error: cacheKey is required and must be a string';
+      return 'Error: cacheKey or chunk_id is required and must be a string';
     }
     
     const next = getNextChunk(cacheKey);
@@ -3,26 +3,107 @@
 export const CORTEX_TOOLS = {
   semantic_search: {
     name: 'semantic_search',
-    description: 'BEST FOR: Quick code discovery, finding specific functions/patterns, debugging. WHEN TO USE: First choice for most code search needs - fast, efficient, and comprehensive. Uses advanced semantic search with MMR optimization to find the most relevant code chunks while ensuring diversity. Automatically includes related dependencies for complete context. RESPONSE: Optimized for Claude Code with ~80-90% token reduction. Large responses automatically chunked.',
+    description: 'BEST FOR: Quick code discovery, finding specific functions/patterns, debugging. WHEN TO USE: First choice for most code search needs - fast, efficient, and comprehensive. Uses advanced semantic search with MMR optimization to find the most relevant code chunks while ensuring diversity. Automatically includes related dependencies for complete context. RESPONSE: Optimized for Claude Code with ~80-90% token reduction. Returns the top results plus a next_cursor; pass it back as cursor to get the next ranked results.',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Natural language description of what you\'re looking for'
+          description: 'Natural language description of what you\'re looking for (ignored when cursor is set)'
         },
         max_chunks: {
           type: 'number',
-          description: 'Maximum number of code chunks to return',
+          description: 'Maximum number of code chunks to return per page',
           default: 20,
           minimum: 1,
           maximum: 100
         },
+        cursor: {
+          type: 'string',
+          description: 'next_cursor from a previous semantic_search response. Returns the next ranked chunks of that search, from the same index snapshot, without searching again. Other search options are ignored; max_chunks sets the page size'
+        },
         file_filters: {
           type: 'array',
           description: 'Glob patterns to filter files (e.g., ["*.js", "src/**"])',
           items: { type: 'string' }
         },
+        exclude_paths: {
+          type: 'array',
+          description: 'Glob patterns of files to leave out (e.g., ["dist/**", "*.d.ts"])',
+          items: { type: 'string' }
+        },
+        include_tests: {
+          type: 'boolean',
+          description: 'Include test files (*.test.*, *.spec.*, tests/ directories)',
+          default: true
+        },
+        languages: {
+          type: 'array',
+          description: 'Only search these languages (e.g., ["typescript", "python"])',
+          items: { type: 'string' }
+        },
+        chunk_types: {
+          type: 'array',
+          description: 'Only return these chunk types',
+          items: {
+            type: 'string',
+            enum: ['function', 'class', 'method', 'interface', 'type_alias', 'enum', 'documentation', 'config']
+          }
+        },
+        symbol_kinds: {
+          type: 'array',
+          description: 'Only return chunks defining these kinds of symbol',
+          items: {
+            type: 'string',
+            enum: ['function', 'method', 'class', 'interface', 'type', 'enum', 'variable']
+          }
+        },
+        authors: {
+          type: 'array',
+          description: 'Only return code last committed by these authors (case-insensitive substring match)',
+          items: { type: 'string' }
+        },
+        modified_after: {
+          type: 'string',
+          description: 'Only return code last committed on or after this ISO date (e.g., "2024-01-31")'
+        },
+        modified_before: {
+          type: 'string',
+          description: 'Only return code last committed on or before this ISO date; a date without a time includes that whole day'
+        },
+        lexical_weight: {
+          type: 'number',
+          description: 'Weight of exact keyword/identifier matches (BM25) when fusing with semantic matches; raise for identifier lookups, 0 for purely semantic search',
+          minimum: 0,
+          maximum: 1
+        },
+        vector_weight: {
+          type: 'number',
+          description: 'Weight of semantic (embedding) matches when fusing with keyword matches; 0 for purely lexical search',
+          minimum: 0,
+          maximum: 1
+        },
+        symbol_weight: {
+          type: 'number',
+          description: 'Weight of exact lookups for symbols and stack-trace locations found in the query; 0 to turn them off',
+          minimum: 0,
+          maximum: 1
+        },
+        mmr_preset: {
+          type: 'string',
+          enum: ['balanced', 'high-relevance', 'high-diversity', 'memory-conservative', 'enterprise'],
+          description: 'Relevance/diversity trade-off for result selection; by default picked from the query intent (definition lookups and debugging favour relevance, explanations and usages favour diversity)'
+        },
+        context_mode: {
+          type: 'string',
+          enum: ['minimal', 'structured', 'adaptive'],
+          description: 'minimal returns a one-paragraph summary of each function, method and class (parameters, return type, calls, thrown errors, env vars, module state) instead of its body, flagged summarized: true. Only applies when set; by default the mode is picked from the query intent'
+        },
+        explain: {
+          type: 'boolean',
+          description: 'Add a one-line "why" to each result: retriever ranks and raw similarity, relationship hops, boosts, reranking, MMR selection and final score',
+          default: false
+        },
         include_related: {
           type: 'boolean',
           description: 'Include semantically related code chunks',
@@ -38,7 +119,7 @@ export const CORTEX_TOOLS = {
               type: 'array',
               items: { 
                 type: 'string', 
-                enum: ['calls', 'imports', 'exports', 'data_flow', 'co_change', 'extends', 'implements', 'throws', 'catches', 'depends_on'] 
+                enum: ['calls', 'imports', 'exports', 'data_flow', 'co_change', 'extends', 'implements', 'decorated_by', 'throws', 'catches', 'depends_on', 'tests', 'tested_by'] 
               },
               default: ['calls', 'imports']
             },
@@ -70,7 +151,7 @@ export const CORTEX_TOOLS = {
         },
         chunk_size: {
           type: 'number',
-          description: 'Size of chunks for large responses (default: 20000 characters)',
+          description: 'Character limit for a single page before it is split for fetch_chunk/next_chunk (default: 20000 characters); prefer a smaller max_chunks and cursor paging',
           default: 20000,
           minimum: 5000,
           maximum: 100000
@@ -174,7 +255,7 @@ export const CORTEX_TOOLS = {
           description: 'Types of relationships to include in analysis',
           items: { 
             type: 'string', 
-            enum: ['calls', 'imports', 'exports', 'data_flow', 'extends', 'implements', 'throws', 'catches', 'depends_on'] 
+            enum: ['calls', 'imports', 'exports', 'data_flow', 'extends', 'implements', 'decorated_by', 'throws', 'catches', 'depends_on', 'tests', 'tested_by'] 
           },
           default: ['calls', 'imports', 'data_flow']
         },
@@ -250,6 +331,205 @@ export const CORTEX_TOOLS = {
     }
   },
 
+  search_stack_trace: {
+    name: 'search_stack_trace',
+    description: 'BEST FOR: Debugging a crash or exception from a pasted stack trace. WHEN TO USE: When you have a Node/TypeScript, Python, Java or Go stack trace. Maps each project frame (file:line) to the indexed function enclosing it, adds other callers of the throwing function from the call graph and the throws/catches relationships that show where the error is raised and handled. RESPONSE: One ordered package - throw site, stack frames, callers, error handling - with a role per chunk and the resolved frames.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        stack_trace: {
+          type: 'string',
+          description: 'The stack trace as printed, ideally including the error message line'
+        },
+        max_callers: {
+          type: 'number',
+          default: 5,
+          minimum: 0,
+          maximum: 20,
+          description: 'Call-graph callers of the throwing function to include beyond the trace itself'
+        },
+        include_error_handling: {
+          type: 'boolean',
+          default: true,
+          description: 'Include throws/catches relationships and other functions that throw or catch the same error type'
+        }
+      },
+      required: ['stack_trace']
+    }
+  },
+
+  find_definition: {
+    name: 'find_definition',
+    description: 'BEST FOR: Go-to-definition. WHEN TO USE: When you know a symbol name or have a file and line/column and need where it is defined. Resolves the identifier through call-graph edges first, then by name, telling same-named symbols apart by file, enclosing class and imports. RESPONSE: Definition sites (best first) with kind, enclosing class, chunk_id and the source line; ambiguous=true when several fit equally.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Symbol name, or Class.method to pick among same-named symbols'
+        },
+        file_path: {
+          type: 'string',
+          description: 'File of the position to resolve (with line), or the file to look in (without)'
+        },
+        line: {
+          type: 'number',
+          minimum: 1,
+          description: '1-based line of the position to resolve'
+        },
+        column: {
+          type: 'number',
+          minimum: 1,
+          description: '1-based column; picks the identifier under the cursor'
+        }
+      }
+    }
+  },
+
+  find_references: {
+    name: 'find_references',
+    description: 'BEST FOR: Find-all-references. WHEN TO USE: Before changing a function, class or method, to see every call, import, extends and implements site. Takes the same symbol or file position as find_definition and collects usages of that definition only, not of unrelated symbols with the same name. RESPONSE: The definition and its references by file and line, each with the enclosing function, chunk_id and the source line.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Symbol name, or Class.method to pick among same-named symbols'
+        },
+        file_path: {
+          type: 'string',
+          description: 'File of the position to resolve (with line), or the file to look in (without)'
+        },
+        line: {
+          type: 'number',
+          minimum: 1,
+          description: '1-based line of the position to resolve'
+        },
+        column: {
+          type: 'number',
+          minimum: 1,
+          description: '1-based column; picks the identifier under the cursor'
+        },
+        max_results: {
+          type: 'number',
+          default: 50,
+          minimum: 1,
+          maximum: 500,
+          description: 'Maximum references to return'
+        }
+      }
+    }
+  },
+
+  impact_analysis: {
+    name: 'impact_analysis',
+    description: 'BEST FOR: "What could this change break?" WHEN TO USE: Before committing or reviewing a change. Pass a git diff, a commit range, or the symbols you plan to change. Changed lines are mapped to their enclosing functions, methods and classes, then callers, importers, subclasses and data flow consumers are followed outwards. RESPONSE: Changed symbols, affected symbols ranked by distance and dependency strength with the path that reaches them, whether each one is covered by a test, the test files to re-run, and the minimal set of test cases that exercises every covered symbol.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        diff: {
+          type: 'string',
+          description: 'Unified diff, e.g. `git diff` output'
+        },
+        commit_range: {
+          type: 'string',
+          description: 'Commit range such as "main..HEAD", or a single commit'
+        },
+        symbols: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Symbols to analyze instead of (or as well as) a diff: name, Class.method, or graph id'
+        },
+        max_depth: {
+          type: 'number',
+          default: 3,
+          minimum: 1,
+          maximum: 6,
+          description: 'Dependency hops to follow from the changed symbols'
+        },
+        max_results: {
+          type: 'number',
+          default: 50,
+          minimum: 1,
+          maximum: 500,
+          description: 'Maximum affected symbols to return'
+        }
+      }
+    }
+  },
+
+  find_tests: {
+    name: 'find_tests',
+    description: 'BEST FOR: "Which tests exercise this?" WHEN TO USE: Before changing a function or file, to know what to run, or to spot untested code. Test cases from jest, vitest, mocha and pytest files are linked at index time to the functions, methods and classes they call. RESPONSE: Test cases (describe > it title or test function, file and line, framework) with the symbols each covers, plus the symbols no test reaches.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Symbol name, Class.method, or graph id'
+        },
+        file_path: {
+          type: 'string',
+          description: 'File whose functions, methods and classes to find tests for (when symbol is not given)'
+        },
+        max_depth: {
+          type: 'number',
+          default: 1,
+          minimum: 1,
+          maximum: 4,
+          description: '1 returns tests that call the symbol; higher also returns tests of its callers'
+        },
+        max_results: {
+          type: 'number',
+          default: 50,
+          minimum: 1,
+          maximum: 500,
+          description: 'Maximum test cases to return'
+        }
+      }
+    }
+  },
+
+  saved_queries: {
+    name: 'saved_queries',
+    description: 'BEST FOR: Watching questions you ask repeatedly, e.g. "where is auth enforced". WHEN TO USE: Save a query once; the live indexer re-runs every saved query after each batch of file changes and records which chunks entered, left or changed in its results. Use action "changes" to see what moved since you last looked. RESPONSE: Saved queries with their current results, or per-query diffs of added, removed and modified chunks.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'save', 'remove', 'run', 'changes'],
+          default: 'list',
+          description: 'list saved queries, save a new one (records its baseline), remove one, run all now, or show the latest changes'
+        },
+        query: {
+          type: 'string',
+          description: 'Search query to save (action "save")'
+        },
+        name: {
+          type: 'string',
+          description: 'Optional short name for a saved query; "remove" accepts it instead of the id'
+        },
+        id: {
+          type: 'string',
+          description: 'Id of the saved query to remove'
+        },
+        max_chunks: {
+          type: 'number',
+          default: 10,
+          minimum: 1,
+          maximum: 50,
+          description: 'Results tracked per saved query'
+        },
+        since: {
+          type: 'string',
+          description: 'ISO timestamp; "changes" only returns diffs recorded after it'
+        }
+      },
+      required: ['action']
+    }
+  },
+
   find_code_patterns: {
     name: 'find_code_patterns',
     description: 'BEST FOR: Identifying design patterns, code smells, architectural patterns, anti-patterns. WHEN TO USE: During code reviews, refactoring planning, or architectural analysis. Finds complex code patterns and architectural relationships with confidence scoring. RESPONSE: MCP-optimized with pattern examples and automatic chunking.',
@@ -319,9 +599,13 @@ export const CORTEX_TOOLS = {
           type: 'number',
           description: 'Which chunk to retrieve (1-based index). For example, if response says "chunk: 1/5", you can request chunks 1, 2, 3, 4, or 5',
           minimum: 1
+        },
+        chunk_id: {
+          type: 'string',
+          description: 'Id of an indexed code chunk (the chunk_id field on search results) to retrieve instead of a cached response chunk. Use it to read a whole piece of a split function or class.'
         }
       },
-      required: ['cacheKey', 'chunkIndex']
+      required: []
     }
   },
 
@@ -334,9 +618,13 @@ export const CORTEX_TOOLS = {
         cacheKey: {
           type: 'string',
           description: 'The cache key from the "Response too large" message from any Cortex tool. This tool automatically tracks which chunk to return next.'
+        },
+        chunk_id: {
+          type: 'string',
+          description: 'Id of a piece of a split code chunk (search results carry sub_chunk info). Returns the piece that follows it, so an oversized function or class can be read in order.'
         }
       },
-      required: ['cacheKey']
+      required: []
     }
   },
 
@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { log, warn, error } from './logging-utils';
+import { EmbeddingCompression, quantizeInt8, dequantizeInt8 } from './embedding-quantizer';
+import { cortexConfig } from './env-config';
 
 interface CacheEntry {
   contentHash: string;
@@ -17,6 +19,7 @@ interface CacheHeader {
   embeddingDimensions: number;
   nextEmbeddingOffset: number;
   headerSize: number;
+  compressed: number;  // 1 when embedding slots hold int8 codes + float32 scale
 }
 
 /**
@@ -49,20 +52,31 @@ export class MemoryMappedCache {
   private readonly maxEntries: number;
   private readonly embeddingDim: number;
   private readonly maxFileSize: number;
+  private readonly compressed: boolean;
+  private readonly slotUnits: number; // 4-byte units per embedding slot
   
   // Constants for memory layout
-  private static readonly HEADER_SIZE = 6 * 4; // 6 int32 values
+  private static readonly HEADER_SIZE = 7 * 4; // 7 int32 values
   private static readonly ENTRY_SIZE = 5 * 8;  // 5 float64 values per entry
   private static readonly HASH_SIZE = 65;      // 65 bytes per hash (1 byte length + 64 bytes hash data)
   private static readonly EMBEDDING_SIZE = 384 * 4; // 384 float32 values
   
-  private constructor(cacheDir: string, maxEntries: number = 10000, embeddingDim: number = 384) {
+  private constructor(
+    cacheDir: string,
+    maxEntries: number = 10000,
+    embeddingDim: number = 384,
+    compression: EmbeddingCompression = cortexConfig.embeddingCompression
+  ) {
     this.maxEntries = maxEntries;
     this.embeddingDim = embeddingDim;
     this.cacheDir = cacheDir;
     
+    // PQ needs a trained codebook, so the cache stores int8 for any compressed format
+    this.compressed = compression !== 'none';
+    this.slotUnits = this.compressed ? Math.ceil((embeddingDim + 4) / 4) : embeddingDim;
+    
     // Calculate file sizes
-    this.maxFileSize = maxEntries * this.embeddingDim * 4; // 4 bytes per float32
+    this.maxFileSize = maxEntries * this.slotUnits * 4; // 4 bytes per float32 (or per 4 int8 codes)
     
     // File paths
     this.headerFilePath = path.join(cacheDir, 'cache-header.bin');
@@ -77,12 +91,18 @@ export class MemoryMappedCache {
   /**
    * Get singleton instance
    */
-  static getInstance(cacheDir?: string, maxEntries?: number, embeddingDim?: number): MemoryMappedCache {
+  static getInstance(
+    cacheDir?: string,
+    maxEntries?: number,
+    embeddingDim?: number,
+    compression?: EmbeddingCompression
+  ): MemoryMappedCache {
     if (!MemoryMappedCache.instance) {
       MemoryMappedCache.instance = new MemoryMappedCache(
         cacheDir || './.cortex/mmap-cache',
         maxEntries,
-        embeddingDim
+        embeddingDim,
+        compression
       );
     }
     return MemoryMappedCache.instance;
@@ -95,7 +115,20 @@ export class MemoryMappedCache {
     try {
       await this.initializeFiles();
       await this.mapFiles();
-      log(`[MemoryMappedCache] Initialized with ${this.getCurrentEntries()} cached embeddings`);
+      
+      // A cache written with another layout can't be read slot by slot - start over
+      if (this.headerBuffer!.readInt32LE(12) !== this.embeddingDim ||
+          this.headerBuffer!.readInt32LE(24) !== (this.compressed ? 1 : 0)) {
+        warn(`[MemoryMappedCache] Cache layout changed (compressed=${this.compressed}), clearing cached embeddings`);
+        await this.close();
+        for (const filePath of [this.headerFilePath, this.entriesFilePath, this.embeddingsFilePath, this.hashFilePath]) {
+          fs.rmSync(filePath, { force: true });
+        }
+        await this.initializeFiles();
+        await this.mapFiles();
+      }
+      
+      log(`[MemoryMappedCache] Initialized with ${this.getCurrentEntries()} cached embeddings compressed=${this.compressed}`);
     } catch (err) {
       error(`[MemoryMappedCache] Failed to initialize: ${err}`);
       throw err;
@@ -115,7 +148,8 @@ export class MemoryMappedCache {
         currentEntries: 0,
         embeddingDimensions: this.embeddingDim,
         nextEmbeddingOffset: 0,
-        headerSize: MemoryMappedCache.HEADER_SIZE
+        headerSize: MemoryMappedCache.HEADER_SIZE,
+        compressed: this.compressed ? 1 : 0
       };
       
       headerBuffer.writeInt32LE(header.version, 0);
@@ -124,6 +158,7 @@ export class MemoryMappedCache {
       headerBuffer.writeInt32LE(header.embeddingDimensions, 12);
       headerBuffer.writeInt32LE(header.nextEmbeddingOffset, 16);
       headerBuffer.writeInt32LE(header.headerSize, 20);
+      headerBuffer.writeInt32LE(header.compressed, 24);
       
       fs.writeFileSync(this.headerFilePath, headerBuffer);
     }
@@ -201,9 +236,17 @@ export class MemoryMappedCache {
     const embeddingOffset = this.entriesBuffer.readDoubleLE(entryOffset + 8); // embeddingOffset at offset 8
     const embeddingStart = Math.floor(embeddingOffset) * 4; // Convert float offset to byte offset
     
-    // Create Float32Array view of embedding data (zero-copy)
-    const embeddingBytes = this.embeddingsBuffer.subarray(embeddingStart, embeddingStart + (this.embeddingDim * 4));
-    const embedding = new Float32Array(embeddingBytes.buffer, embeddingBytes.byteOffset, this.embeddingDim);
+    let embedding: Float32Array;
+    if (this.compressed) {
+      // int8 codes followed by their float32 scale
+      const codes = new Int8Array(this.embeddingsBuffer.buffer, this.embeddingsBuffer.byteOffset + embeddingStart, this.embeddingDim);
+      const scale = this.embeddingsBuffer.readFloatLE(embeddingStart + this.embeddingDim);
+      embedding = dequantizeInt8(codes, scale);
+    } else {
+      // Create Float32Array view of embedding data (zero-copy)
+      const embeddingBytes = this.embeddingsBuffer.subarray(embeddingStart, embeddingStart + (this.embeddingDim * 4));
+      embedding = new Float32Array(embeddingBytes.buffer, embeddingBytes.byteOffset, this.embeddingDim);
+    }
     
     // Sync changes to disk
     this.syncEntries();
@@ -231,13 +274,19 @@ export class MemoryMappedCache {
     const embeddingByteOffset = nextEmbeddingOffset * 4; // Convert to byte offset
     
     // Check if we have space
-    if (embeddingByteOffset + (this.embeddingDim * 4) > this.embeddingsBuffer.length) {
+    if (embeddingByteOffset + (this.slotUnits * 4) > this.embeddingsBuffer.length) {
       return false; // Out of space
     }
     
     // Store embedding data
-    const embeddingBytes = Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength);
-    embeddingBytes.copy(this.embeddingsBuffer, embeddingByteOffset);
+    if (this.compressed) {
+      const { codes, scale } = quantizeInt8(embedding);
+      Buffer.from(codes.buffer, codes.byteOffset, codes.byteLength).copy(this.embeddingsBuffer, embeddingByteOffset);
+      this.embeddingsBuffer.writeFloatLE(scale, embeddingByteOffset + this.embeddingDim);
+    } else {
+      const embeddingBytes = Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength);
+      embeddingBytes.copy(this.embeddingsBuffer, embeddingByteOffset);
+    }
     
     // Store entry metadata
     const entryIndex = currentEntries;
@@ -254,7 +303,7 @@ export class MemoryMappedCache {
     
     // Update header
     this.headerBuffer.writeInt32LE(currentEntries + 1, 8);                  // currentEntries
-    this.headerBuffer.writeInt32LE(nextEmbeddingOffset + this.embeddingDim, 16); // nextEmbeddingOffset
+    this.headerBuffer.writeInt32LE(nextEmbeddingOffset + this.slotUnits, 16); // nextEmbeddingOffset
     
     // Sync to disk
     this.syncAll();
@@ -427,7 +476,8 @@ export class MemoryMappedCache {
       memoryMapped: true,
       zeroOverhead: true,
       fileSize: `${(this.maxFileSize / (1024 * 1024)).toFixed(1)}MB`,
-      embeddingDimensions: this.embeddingDim
+      embeddingDimensions: this.embeddingDim,
+      compression: this.compressed ? 'int8' : 'none'
     };
   }
   
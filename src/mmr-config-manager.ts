@@ -139,6 +139,10 @@ export class MMRConfigManager {
     return this.currentConfig;
   }
 
+  static getPresetConfig(presetName: string): MMRConfig | undefined {
+    return MMRConfigManager.DEFAULT_PRESETS.find(p => p.name === presetName)?.config;
+  }
+
   getAvailablePresets(): string[] {
     return MMRConfigManager.DEFAULT_PRESETS.map(p => p.name);
   }
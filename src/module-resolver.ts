@@ -0,0 +1,440 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { warn } from './logging-utils';
+
+// Tried in order when an import names no file extension
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+// ESM-style TypeScript imports name the emitted file: `./util.js` is `./util.ts` on disk
+const EMITTED_TO_SOURCE: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+// package.json `exports` conditions, source-like first so edges land on indexed code
+const EXPORT_CONDITIONS = ['source', 'types', 'import', 'require', 'node', 'default'];
+
+// Build output directories mapped back to `src/` when the built file isn't in the tree
+const OUTPUT_DIRS = ['dist', 'lib', 'build', 'out'];
+
+const MAX_WORKSPACE_DEPTH = 4;
+
+interface CompilerPaths {
+  baseUrl?: string;                 // Repository-relative
+  pathsBase: string;                // Directory `paths` targets are relative to
+  paths: Array<{ pattern: string; targets: string[] }>;
+}
+
+interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  source?: string;
+  exports?: unknown;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * Resolves JavaScript/TypeScript import specifiers to repository-relative files the
+ * way the compiler and bundlers do: relative imports (including `.js` specifiers
+ * for `.ts` sources and `.mts`/`.cts`), `compilerOptions.paths` and `baseUrl` from
+ * the nearest tsconfig.json/jsconfig.json (following `extends`), npm/yarn/pnpm
+ * workspace packages, and package.json `exports`/`main`/`types`. Anything else is an
+ * external package, returned as `node_modules/<package name>`.
+ *
+ * Configs, manifests and file checks are cached for the resolver's lifetime, so
+ * create one per dependency-map build.
+ */
+export class ModuleResolver {
+  private exists: Map<string, Promise<boolean>> = new Map();
+  private jsonFiles: Map<string, Promise<any>> = new Map();
+  private compilerPaths: Map<string, Promise<CompilerPaths | undefined>> = new Map();
+  private workspaces?: Promise<Map<string, string>>;
+
+  constructor(private repositoryPath: string) {}
+
+  async resolve(source: string, fromFile: string): Promise<string | undefined> {
+    const fromDir = path.dirname(fromFile);
+
+    if (source.startsWith('./') || source.startsWith('../') || source === '.' || source === '..') {
+      return this.resolveFile(path.join(fromDir, source));
+    }
+
+    const compilerPaths = await this.findCompilerPaths(fromDir);
+    if (compilerPaths) {
+      const aliased = await this.resolveCompilerPaths(source, compilerPaths);
+      if (aliased) return aliased;
+    }
+
+    const packageName = packageNameOf(source);
+    const subpath = source.slice(packageName.length);
+
+    const workspaceDir = (await this.getWorkspaces()).get(packageName);
+    if (workspaceDir !== undefined) {
+      const resolved = await this.resolvePackage(workspaceDir, subpath);
+      if (resolved) return resolved;
+    }
+
+    return `node_modules/${packageName}`;
+  }
+
+  /** A file, the file with a source extension, or a directory's package entry or index */
+  private async resolveFile(target: string): Promise<string | undefined> {
+    target = path.normalize(target);
+    const ext = path.extname(target);
+
+    for (const sourceExt of EMITTED_TO_SOURCE[ext] || []) {
+      const candidate = target.slice(0, -ext.length) + sourceExt;
+      if (await this.isFile(candidate)) return candidate;
+    }
+    if (ext && await this.isFile(target)) return target;
+
+    for (const candidateExt of SOURCE_EXTENSIONS) {
+      if (await this.isFile(target + candidateExt)) return target + candidateExt;
+    }
+
+    const manifest = await this.readJson(path.join(target, 'package.json')) as PackageManifest | undefined;
+    if (manifest) {
+      const entry = await this.resolvePackageEntry(target, manifest, '');
+      if (entry) return entry;
+    }
+
+    for (const candidateExt of SOURCE_EXTENSIONS) {
+      const index = path.join(target, `index${candidateExt}`);
+      if (await this.isFile(index)) return index;
+    }
+    return undefined;
+  }
+
+  private async resolvePackage(packageDir: string, subpath: string): Promise<string | undefined> {
+    const manifest = await this.readJson(path.join(packageDir, 'package.json')) as PackageManifest | undefined;
+    if (manifest) {
+      const entry = await this.resolvePackageEntry(packageDir, manifest, subpath);
+      if (entry) return entry;
+    }
+    return subpath ? this.resolveFile(path.join(packageDir, subpath)) : undefined;
+  }
+
+  /** `exports` when present (it seals the package), else `source`/`types`/`module`/`main` */
+  private async resolvePackageEntry(packageDir: string, manifest: PackageManifest, subpath: string): Promise<string | undefined> {
+    if (manifest.exports !== undefined) {
+      for (const target of exportTargets(manifest.exports, `.${subpath}`)) {
+        const resolved = await this.resolveBuiltFile(path.join(packageDir, target));
+        if (resolved) return resolved;
+      }
+      return undefined;
+    }
+
+    if (subpath) return undefined;
+    for (const entry of [manifest.source, manifest.types, manifest.typings, manifest.module, manifest.main]) {
+      if (typeof entry !== 'string') continue;
+      const resolved = await this.resolveBuiltFile(path.join(packageDir, entry));
+      if (resolved) return resolved;
+    }
+    return undefined;
+  }
+
+  /**
+   * Package entries usually name build output (`dist/index.js`), which is ignored
+   * and not indexed; fall back to the same path under `src/`.
+   */
+  private async resolveBuiltFile(target: string): Promise<string | undefined> {
+    const resolved = await this.resolveFile(target.replace(/\.d\.(m|c)?ts$/, ''));
+    if (resolved) return resolved;
+
+    const segments = path.normalize(target).split(path.sep);
+    const outputIndex = segments.findIndex(segment => OUTPUT_DIRS.includes(segment));
+    if (outputIndex < 0) return undefined;
+
+    const sourcePath = [...segments.slice(0, outputIndex), 'src', ...segments.slice(outputIndex + 1)].join(path.sep);
+    return this.resolveFile(sourcePath.replace(/(\.d)?\.(m|c)?[jt]sx?$/, ''));
+  }
+
+  private async resolveCompilerPaths(source: string, config: CompilerPaths): Promise<string | undefined> {
+    // Exact patterns first, then the longest prefix before `*`, as in the compiler
+    const prefixLength = (pattern: string) => pattern.includes('*') ? pattern.indexOf('*') : Infinity;
+    const matches = config.paths
+      .map(entry => ({ entry, wildcard: matchPattern(entry.pattern, source) }))
+      .filter((match): match is { entry: { pattern: string; targets: string[] }; wildcard: string } => match.wildcard !== undefined)
+      .sort((a, b) => prefixLength(b.entry.pattern) - prefixLength(a.entry.pattern));
+
+    for (const { entry, wildcard } of matches) {
+      for (const target of entry.targets) {
+        const resolved = await this.resolveFile(path.join(config.pathsBase, target.replace('*', wildcard)));
+        if (resolved) return resolved;
+      }
+    }
+
+    if (config.baseUrl !== undefined) {
+      return this.resolveFile(path.join(config.baseUrl, source));
+    }
+    return undefined;
+  }
+
+  /** `paths`/`baseUrl` of the nearest tsconfig.json or jsconfig.json at or above `dir` */
+  private findCompilerPaths(dir: string): Promise<CompilerPaths | undefined> {
+    let cached = this.compilerPaths.get(dir);
+    if (!cached) {
+      cached = (async () => {
+        for (const name of ['tsconfig.json', 'jsconfig.json']) {
+          const configPath = path.join(dir, name);
+          if (await this.isFile(configPath)) return this.loadCompilerPaths(configPath);
+        }
+        const parent = path.dirname(dir);
+        return parent === dir ? undefined : this.findCompilerPaths(parent);
+      })();
+      this.compilerPaths.set(dir, cached);
+    }
+    return cached;
+  }
+
+  /** Merge `extends` chains; `baseUrl` and `paths` are relative to the config that sets them */
+  private async loadCompilerPaths(configPath: string, seen: Set<string> = new Set()): Promise<CompilerPaths | undefined> {
+    if (seen.has(configPath)) return undefined;
+    seen.add(configPath);
+
+    const config = await this.readJson(configPath);
+    if (!config) return undefined;
+    const configDir = path.dirname(configPath);
+
+    let inherited: CompilerPaths | undefined;
+    for (const base of [config.extends].flat().filter((entry: unknown): entry is string => typeof entry === 'string')) {
+      const basePath = await this.resolveExtends(base, configDir);
+      if (basePath) inherited = await this.loadCompilerPaths(basePath, seen) || inherited;
+    }
+
+    const options = config.compilerOptions || {};
+    const baseUrl = typeof options.baseUrl === 'string' ? path.join(configDir, options.baseUrl) : inherited?.baseUrl;
+    const ownPaths = options.paths && typeof options.paths === 'object'
+      ? Object.entries(options.paths as Record<string, unknown>)
+          .filter((entry): entry is [string, string[]] => Array.isArray(entry[1]))
+          .map(([pattern, targets]) => ({ pattern, targets }))
+      : undefined;
+
+    if (!ownPaths && baseUrl === undefined && !inherited) return undefined;
+    return {
+      baseUrl,
+      pathsBase: ownPaths ? (typeof options.baseUrl === 'string' ? baseUrl! : configDir) : inherited?.pathsBase ?? configDir,
+      paths: ownPaths || inherited?.paths || []
+    };
+  }
+
+  private async resolveExtends(base: string, configDir: string): Promise<string | undefined> {
+    const withJson = base.endsWith('.json') ? base : `${base}.json`;
+    if (base.startsWith('.')) {
+      const candidate = path.join(configDir, withJson);
+      return await this.isFile(candidate) ? candidate : undefined;
+    }
+    // Shared configs from packages, e.g. `@tsconfig/node20/tsconfig.json`
+    for (let dir = configDir; ; dir = path.dirname(dir)) {
+      for (const candidate of [path.join(dir, 'node_modules', withJson), path.join(dir, 'node_modules', base, 'tsconfig.json')]) {
+        if (await this.isFile(candidate)) return candidate;
+      }
+      if (dir === '.' || dir === path.dirname(dir)) return undefined;
+    }
+  }
+
+  /** Workspace package name -> repository-relative directory */
+  private getWorkspaces(): Promise<Map<string, string>> {
+    if (!this.workspaces) {
+      this.workspaces = this.loadWorkspaces().catch(err => {
+        warn(`[ModuleResolver] Failed to read workspaces error=${err instanceof Error ? err.message : err}`);
+        return new Map<string, string>();
+      });
+    }
+    return this.workspaces;
+  }
+
+  private async loadWorkspaces(): Promise<Map<string, string>> {
+    const manifest = await this.readJson('package.json') as PackageManifest | undefined;
+    const patterns = [
+      ...(Array.isArray(manifest?.workspaces) ? manifest!.workspaces : manifest?.workspaces?.packages || []),
+      ...await this.readPnpmWorkspacePatterns()
+    ];
+
+    const packages = new Map<string, string>();
+    const excluded = new Set<string>();
+    for (const pattern of patterns.filter(pattern => pattern.startsWith('!'))) {
+      for (const dir of await this.expandPattern(pattern.slice(1))) excluded.add(dir);
+    }
+    for (const pattern of patterns.filter(pattern => !pattern.startsWith('!'))) {
+      for (const dir of await this.expandPattern(pattern)) {
+        if (excluded.has(dir)) continue;
+        const workspaceManifest = await this.readJson(path.join(dir, 'package.json')) as PackageManifest | undefined;
+        if (workspaceManifest?.name && !packages.has(workspaceManifest.name)) {
+          packages.set(workspaceManifest.name, dir);
+        }
+      }
+    }
+    return packages;
+  }
+
+  /** `packages:` entries of pnpm-workspace.yaml */
+  private async readPnpmWorkspacePatterns(): Promise<string[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.repositoryPath, 'pnpm-workspace.yaml'), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split('\n')) {
+      if (/^packages\s*:/.test(line)) {
+        inPackages = true;
+      } else if (inPackages && /^\s+-\s*/.test(line)) {
+        patterns.push(line.replace(/^\s+-\s*/, '').replace(/\s+#.*$/, '').replace(/^['"]|['"]$/g, '').trim());
+      } else if (inPackages && /^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+    return patterns.filter(Boolean);
+  }
+
+  /** Directories matching a workspace pattern; supports `*` and `**` segments */
+  private async expandPattern(pattern: string): Promise<string[]> {
+    let dirs = ['.'];
+    for (const segment of pattern.replace(/\/+$/, '').split('/').filter(segment => segment && segment !== '.')) {
+      const next: string[] = [];
+      for (const dir of dirs) {
+        if (segment === '**') {
+          next.push(dir, ...await this.listDirsRecursive(dir, MAX_WORKSPACE_DEPTH));
+        } else if (segment.includes('*')) {
+          const matcher = new RegExp(`^${segment.split('*').map(escapeRegExp).join('[^/]*')}$`);
+          next.push(...(await this.listDirs(dir)).filter(child => matcher.test(path.basename(child))));
+        } else {
+          next.push(path.join(dir, segment));
+        }
+      }
+      dirs = next;
+    }
+    return [...new Set(dirs.map(dir => path.normalize(dir)))];
+  }
+
+  private async listDirs(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(path.join(this.repositoryPath, dir), { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+        .map(entry => path.join(dir, entry.name));
+    } catch {
+      return [];
+    }
+  }
+
+  private async listDirsRecursive(dir: string, depth: number): Promise<string[]> {
+    if (depth <= 0) return [];
+    const children = await this.listDirs(dir);
+    const nested = await Promise.all(children.map(child => this.listDirsRecursive(child, depth - 1)));
+    return [...children, ...nested.flat()];
+  }
+
+  private isFile(relativePath: string): Promise<boolean> {
+    let cached = this.exists.get(relativePath);
+    if (!cached) {
+      cached = fs.stat(path.join(this.repositoryPath, relativePath))
+        .then(stats => stats.isFile())
+        .catch(() => false);
+      this.exists.set(relativePath, cached);
+    }
+    return cached;
+  }
+
+  /** JSON with comments and trailing commas (tsconfig style); undefined when missing or invalid */
+  private readJson(relativePath: string): Promise<any> {
+    let cached = this.jsonFiles.get(relativePath);
+    if (!cached) {
+      cached = fs.readFile(path.join(this.repositoryPath, relativePath), 'utf-8')
+        .then(content => JSON.parse(stripJsonComments(content)))
+        .catch(() => undefined);
+      this.jsonFiles.set(relativePath, cached);
+    }
+    return cached;
+  }
+}
+
+/** `@scope/pkg/sub/path` -> `@scope/pkg`, `pkg/sub` -> `pkg` */
+export function packageNameOf(source: string): string {
+  const segments = source.split('/');
+  return source.startsWith('@') && segments.length > 1 ? `${segments[0]}/${segments[1]}` : segments[0];
+}
+
+/** Targets of an `exports` entry for a subpath (`.`, `./utils`), conditions in preference order */
+function exportTargets(exports: unknown, subpath: string): string[] {
+  // Sugar: a string, an array or a conditions object all mean the `.` entry
+  const isSubpathMap = !!exports && typeof exports === 'object' && !Array.isArray(exports)
+    && Object.keys(exports as object).some(key => key.startsWith('.'));
+  const map: Record<string, unknown> = isSubpathMap ? exports as Record<string, unknown> : { '.': exports };
+
+  if (subpath in map) return conditionTargets(map[subpath]);
+
+  // Subpath patterns: `./features/*` -> `./src/features/*.ts`
+  for (const [key, value] of Object.entries(map)) {
+    const wildcard = matchPattern(key, subpath);
+    if (wildcard !== undefined && key.includes('*')) {
+      return conditionTargets(value).map(target => target.replace(/\*/g, wildcard));
+    }
+  }
+  return [];
+}
+
+function conditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(conditionTargets);
+  if (!value || typeof value !== 'object') return [];
+
+  const conditions = value as Record<string, unknown>;
+  const ordered = [
+    ...EXPORT_CONDITIONS.filter(condition => condition in conditions),
+    ...Object.keys(conditions).filter(condition => !EXPORT_CONDITIONS.includes(condition))
+  ];
+  return ordered.flatMap(condition => conditionTargets(conditions[condition]));
+}
+
+/** The text `*` stands for when `pattern` matches `source`, '' for an exact match */
+function matchPattern(pattern: string, source: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star < 0) return pattern === source ? '' : undefined;
+
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (source.length < prefix.length + suffix.length || !source.startsWith(prefix) || !source.endsWith(suffix)) {
+    return undefined;
+  }
+  return source.slice(prefix.length, source.length - suffix.length);
+}
+
+function stripJsonComments(content: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') result += content[++i] ?? '';
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && content[i + 1] === '*') {
+      i = content.indexOf('*/', i + 2);
+      if (i < 0) break;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
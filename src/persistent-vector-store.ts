@@ -1,8 +1,24 @@
-import { CodeChunk, CORTEX_PROGRAM_VERSION, CORTEX_SCHEMA_VERSION, ModelInfo } from './types';
-import { VectorStore } from './vector-store';
+import { CodeChunk, CORTEX_PROGRAM_VERSION, CORTEX_SCHEMA_VERSION, EmbeddingRepresentation, ModelInfo } from './types';
+import { VectorStore, SimilaritySearchOptions, blendRecency } from './vector-store';
+import { compileSearchFilter } from './search-filter';
 import { SchemaValidator } from './schema-validator';
 import { log } from './logging-utils';
 import { StoragePaths, CompressionUtils } from './storage-constants';
+import { HnswIndex, HnswConfig, PersistedHnswIndex } from './hnsw-index';
+import { LexicalIndex, PersistedLexicalIndex } from './lexical-index';
+import {
+  CompressionStats,
+  EmbeddingQuantizer,
+  PackedVector,
+  PqCodebook,
+  ProductQuantizer,
+  QuantizedVector,
+  ScalarQuantizer,
+  measureCompression,
+  unpackVector
+} from './embedding-quantizer';
+import { cortexConfig } from './env-config';
+import { EXTRA_REPRESENTATIONS, parseRepresentationKey, representationKey, representationVectors } from './chunk-representations';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { execSync } from 'child_process';
@@ -22,8 +38,29 @@ interface PersistedIndex {
     gitCommitHash?: string; // Current repository commit when embeddings were generated
     gitBranchName?: string; // Current branch when embeddings were generated
   };
+  embeddingCompression?: PersistedCompression; // Chunks are stored with empty embeddings when set
 }
 
+interface PersistedCompression {
+  format: 'int8' | 'pq';
+  codebook?: PqCodebook;
+  trainedOn?: number; // PQ only: vectors in the index when the codebook was trained
+  vectors: Record<string, QuantizedVector>; // representation key (chunk_id, chunk_id#signature, ...) -> encoded embedding
+  stats?: CompressionStats;
+}
+
+// Filters matching less than this share of chunks are scanned exhaustively instead of
+// walking an HNSW graph that would mostly consist of rejected nodes
+const SELECTIVE_FILTER_RATIO = 0.1;
+const RECENCY_OVERSAMPLE = 3;
+
+// The PQ codebook is retrained once the index holds this many times the vectors it was trained on
+const PQ_RETRAIN_GROWTH = 2;
+// After the first measurement, recall loss is only re-measured on saves encoding this many new vectors
+const MIN_RECALL_VECTORS = 100;
+
+const ALL_REPRESENTATIONS: EmbeddingRepresentation[] = ['body', ...EXTRA_REPRESENTATIONS];
+
 interface IndexDelta {
   added: CodeChunk[];
   updated: CodeChunk[];
@@ -44,8 +81,29 @@ export class PersistentVectorStore extends VectorStore {
   private globalMetadataPath: string;
   private deltaPath: string;
   private globalDeltaPath: string;
+  private annIndexPath: string;
+  private globalAnnIndexPath: string;
+  private lexicalIndexPath: string;
+  private globalLexicalIndexPath: string;
   private fileHashes: Map<string, string> = new Map(); // file path -> content hash
 
+  // ANN index over chunk embeddings; built on first search once the index is large enough
+  private annIndex: HnswIndex | null = null;
+  private readonly annConfig: HnswConfig = {
+    m: cortexConfig.annM,
+    efConstruction: cortexConfig.annEfConstruction,
+    efSearch: cortexConfig.annEfSearch
+  };
+
+  // Embedding compression. Vectors loaded from a compressed index stay packed (their chunks
+  // keep an empty `embedding`) and are scored on the codes; encodings of full-precision
+  // vectors are memoised per embedding array so saves only encode new vectors
+  private quantizer: EmbeddingQuantizer | null = null;
+  private quantizerTrainedOn = 0;
+  private packedVectors: Map<string, PackedVector> = new Map(); // representation key -> codes
+  private encodedEmbeddings: WeakMap<number[], QuantizedVector> = new WeakMap();
+  private compressionStats: CompressionStats | null = null;
+
   // Git utility functions for commit tracking
   private getCurrentCommitHash(): string | null {
     try {
@@ -95,11 +153,15 @@ export class PersistentVectorStore extends VectorStore {
     this.localIndexPath = paths.local.indexPath;
     this.metadataPath = paths.local.metadataPath;
     this.deltaPath = paths.local.deltaPath;
+    this.annIndexPath = paths.local.annIndexPath;
+    this.lexicalIndexPath = paths.local.lexicalIndexPath;
     
     // Global storage paths
     this.globalIndexPath = paths.global.indexPath;
     this.globalMetadataPath = paths.global.metadataPath;
     this.globalDeltaPath = paths.global.deltaPath;
+    this.globalAnnIndexPath = paths.global.annIndexPath;
+    this.globalLexicalIndexPath = paths.global.lexicalIndexPath;
   }
 
 
@@ -284,11 +346,21 @@ export class PersistentVectorStore extends VectorStore {
       const indexData = await CompressionUtils.readFileWithDecompression(indexPath);
       const persistedIndex: PersistedIndex = JSON.parse(indexData);
       
+      if (persistedIndex.embeddingCompression) {
+        this.loadCompressedEmbeddings(persistedIndex.embeddingCompression);
+      } else {
+        this.packedVectors.clear();
+        this.compressionStats = null;
+      }
+      
       // Load chunks
       this.chunks.clear();
       for (const chunk of persistedIndex.chunks) {
         this.chunks.set(chunk.chunk_id, chunk);
       }
+      // Every store loaded from the same save reports the same index version
+      this.indexVersionBase = persistedIndex.timestamp.toString(36);
+      this.indexMutations = 0;
       
       // Load file hashes for fast file-level comparison
       this.fileHashes.clear();
@@ -298,6 +370,9 @@ export class PersistentVectorStore extends VectorStore {
         }
       }
       
+      await this.loadAnnIndex(useGlobal);
+      await this.loadLexicalIndex(useGlobal);
+      
       const loadTime = Date.now() - startTime;
       log(`[StorageLoad] Loaded chunks=${persistedIndex.chunks.length} source=${source} path=${fullPath} duration=${loadTime}ms`);
       log(`[StorageLoad] Index metadata totalChunks=${persistedIndex.metadata.totalChunks} embeddingModel=${persistedIndex.metadata.embeddingModel} lastIndexed=${persistedIndex.metadata.lastIndexed}`);
@@ -314,12 +389,15 @@ export class PersistentVectorStore extends VectorStore {
       log('[StorageSave] Saving embeddings to both local and global storage');
       const startTime = Date.now();
       
+      const compression = this.compressEmbeddings();
       const persistedIndex: PersistedIndex = {
         version: '1.0.0', // Legacy version field
         schemaVersion: CORTEX_SCHEMA_VERSION,
         timestamp: Date.now(),
         repositoryPath: this.repositoryPath,
-        chunks: Array.from(this.chunks.values()),
+        chunks: compression
+          ? Array.from(this.chunks.values(), chunk => ({ ...chunk, embedding: [], representation_embeddings: undefined }))
+          : Array.from(this.chunks.values(), chunk => this.materialize(chunk)),
         fileHashes: Object.fromEntries(this.fileHashes.entries()),
         metadata: {
           totalChunks: this.chunks.size,
@@ -328,7 +406,8 @@ export class PersistentVectorStore extends VectorStore {
           modelInfo,
           gitCommitHash: this.getCurrentCommitHash() || undefined,
           gitBranchName: this.getCurrentBranchName() || undefined
-        }
+        },
+        embeddingCompression: compression || undefined
       };
       
       // Optimize JSON serialization for large datasets
@@ -350,7 +429,7 @@ export class PersistentVectorStore extends VectorStore {
       };
       
       // Execute storage operations in parallel
-      await Promise.all([saveLocal(), saveGlobal()]);
+      await Promise.all([saveLocal(), saveGlobal(), this.saveAnnIndex(), this.saveLexicalIndex()]);
       
       const saveTime = Date.now() - startTime;
       log(`[StorageSave] Saved chunks=${persistedIndex.chunks.length} duration=${saveTime}ms`);
@@ -492,6 +571,8 @@ export class PersistentVectorStore extends VectorStore {
     // Remove deleted chunks
     for (const chunkId of delta.removed) {
       this.chunks.delete(chunkId);
+      this.removeFromAnnIndex(chunkId);
+      this.lexicalIndex?.remove(chunkId);
     }
 
     // Add new chunks
@@ -503,6 +584,11 @@ export class PersistentVectorStore extends VectorStore {
     for (const chunk of delta.updated) {
       this.chunks.set(chunk.chunk_id, chunk);
     }
+    this.addToAnnIndex([...delta.added, ...delta.updated]);
+    for (const chunk of [...delta.added, ...delta.updated]) {
+      this.lexicalIndex?.add(chunk);
+    }
+    this.indexMutations++;
 
     log(`[StorageDelta] Applied delta added=${delta.added.length} updated=${delta.updated.length} removed=${delta.removed.length}`);
   }
@@ -633,7 +719,10 @@ export class PersistentVectorStore extends VectorStore {
     const chunksToRemove = this.getChunksByFile(filePath);
     for (const chunk of chunksToRemove) {
       this.chunks.delete(chunk.chunk_id);
+      this.removeFromAnnIndex(chunk.chunk_id);
+      this.lexicalIndex?.remove(chunk.chunk_id);
     }
+    this.indexMutations++;
     log(`[VectorStore] Removed ${chunksToRemove.length} chunks for file: ${filePath}`);
   }
 
@@ -652,8 +741,10 @@ export class PersistentVectorStore extends VectorStore {
     for (const [hash, chunk] of newChunkMap.entries()) {
       if (oldChunkMap.has(hash)) {
         const oldChunk = oldChunkMap.get(hash)!;
-        // Preserve existing embedding
+        // Preserve existing embeddings, or the codes of a chunk loaded compressed
         chunk.embedding = oldChunk.embedding;
+        chunk.representation_embeddings = oldChunk.representation_embeddings;
+        this.carryPackedVectors(oldChunk.chunk_id, chunk.chunk_id);
         toKeep.push(chunk);
         oldChunkMap.delete(hash); // Remove from map to track remaining (deleted) chunks
       } else {
@@ -670,10 +761,372 @@ export class PersistentVectorStore extends VectorStore {
   // Override upsertChunks to ensure persistence and populate file hashes
   async upsertChunks(chunks: CodeChunk[]): Promise<void> {
     await super.upsertChunks(chunks);
+    this.addToAnnIndex(chunks);
     
     // Note: File hashes are updated separately via setFileHash() method during indexing
   }
 
+  async deleteChunk(chunkId: string): Promise<void> {
+    await super.deleteChunk(chunkId);
+    this.removeFromAnnIndex(chunkId);
+  }
+
+  /**
+   * Uses the HNSW index once the store holds `annMinChunks` embedded chunks;
+   * smaller stores are searched exhaustively. Filters are applied inside the graph
+   * search, except for selective ones where scanning the matching chunks is cheaper.
+   */
+  async similaritySearch(
+    queryEmbedding: number[],
+    limit: number = 20,
+    options: SimilaritySearchOptions = {}
+  ): Promise<CodeChunk[]> {
+    const annIndex = this.getAnnIndex();
+    if (!annIndex) {
+      return super.similaritySearch(queryEmbedding, limit, options);
+    }
+
+    const accept = compileSearchFilter(options.filter);
+    if (accept) {
+      let matching = 0;
+      for (const chunk of this.chunks.values()) {
+        if (accept(chunk)) matching++;
+      }
+      if (matching < this.chunks.size * SELECTIVE_FILTER_RATIO) {
+        return super.similaritySearch(queryEmbedding, limit, options);
+      }
+    }
+
+    // Recency re-orders the neighbourhood, so fetch extra candidates to re-rank; each
+    // chunk can also match through up to three representation vectors
+    const fetchLimit = (options.recencyWeight ? limit * RECENCY_OVERSAMPLE : limit) * (1 + EXTRA_REPRESENTATIONS.length);
+    const acceptId = accept ? (key: string) => accept(this.chunks.get(parseRepresentationKey(key).chunkId)!) : undefined;
+
+    const results: CodeChunk[] = [];
+    const seen = new Set<string>();
+    // Matches come best first, so the first hit per chunk is its best representation
+    for (const match of annIndex.search(queryEmbedding, fetchLimit, undefined, acceptId)) {
+      const { chunkId, representation } = parseRepresentationKey(match.id);
+      const chunk = this.chunks.get(chunkId);
+      if (chunk && !seen.has(chunkId)) {
+        seen.add(chunkId);
+        results.push({
+          ...this.materialize(chunk),
+          relevance_score: blendRecency(match.similarity, chunk, options.recencyWeight),
+          matched_representation: representation
+        });
+      }
+    }
+    return results
+      .sort((a, b) => (b.relevance_score || 0) - (a.relevance_score || 0))
+      .slice(0, limit);
+  }
+
+  private getAnnIndex(): HnswIndex | null {
+    if (!cortexConfig.annEnabled || this.chunks.size < cortexConfig.annMinChunks) {
+      return null;
+    }
+    // PQ codes have no vector to put in the graph; they are scanned with lookup tables instead
+    if (this.quantizer instanceof ProductQuantizer && this.packedVectors.size > 0) {
+      return null;
+    }
+
+    if (!this.annIndex) {
+      const startTime = Date.now();
+      this.annIndex = new HnswIndex(this.annConfig);
+      this.addToAnnIndex(Array.from(this.chunks.values()));
+      log(`[VectorStore] Built ANN index vectors=${this.annIndex?.size ?? 0} m=${this.annConfig.m} efConstruction=${this.annConfig.efConstruction} duration=${Date.now() - startTime}ms`);
+    }
+    return this.annIndex;
+  }
+
+  private addToAnnIndex(chunks: CodeChunk[]): void {
+    if (!this.annIndex) return;
+
+    try {
+      for (const chunk of chunks) {
+        this.removeFromAnnIndex(chunk.chunk_id);
+        for (const { representation, vector } of this.annVectors(chunk)) {
+          this.annIndex.add(representationKey(chunk.chunk_id, representation), vector);
+        }
+      }
+    } catch (error) {
+      // Mixed embedding dimensions (model change mid-index) - search exhaustively until rebuilt
+      log(`[VectorStore] Dropping ANN index error=${error instanceof Error ? error.message : error}`);
+      this.annIndex = null;
+    }
+  }
+
+  private removeFromAnnIndex(chunkId: string): void {
+    if (!this.annIndex) return;
+    this.annIndex.remove(chunkId);
+    for (const representation of EXTRA_REPRESENTATIONS) {
+      this.annIndex.remove(representationKey(chunkId, representation));
+    }
+  }
+
+  private async loadAnnIndex(useGlobal: boolean): Promise<void> {
+    this.annIndex = null;
+    const annIndexPath = useGlobal ? this.globalAnnIndexPath : this.annIndexPath;
+    if (!cortexConfig.annEnabled || !await CompressionUtils.fileExists(annIndexPath)) {
+      return;
+    }
+
+    try {
+      const persisted: PersistedHnswIndex = JSON.parse(await CompressionUtils.readFileWithDecompression(annIndexPath));
+      const vectors = new Map<string, ArrayLike<number>>();
+      for (const chunk of this.chunks.values()) {
+        for (const { representation, vector } of this.annVectors(chunk)) {
+          vectors.set(representationKey(chunk.chunk_id, representation), vector);
+        }
+      }
+
+      this.annIndex = HnswIndex.fromJSON(persisted, vectors, this.annConfig);
+      if (this.annIndex) {
+        log(`[StorageLoad] Loaded ANN index vectors=${this.annIndex.size} path=${annIndexPath}`);
+      } else {
+        log(`[StorageLoad] ANN index out of date with chunks, will rebuild on first search path=${annIndexPath}`);
+      }
+    } catch (error) {
+      log(`[StorageLoad] Failed to load ANN index error=${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async saveAnnIndex(): Promise<void> {
+    if (!this.annIndex) return;
+
+    const annData = JSON.stringify(this.annIndex.toJSON(), null, 0);
+    await Promise.all([
+      CompressionUtils.writeFileWithCompression(this.annIndexPath, annData),
+      CompressionUtils.writeFileWithCompression(this.globalAnnIndexPath, annData)
+    ]);
+  }
+
+  /** Loads the persisted BM25 index, re-tokenising only chunks whose content changed */
+  private async loadLexicalIndex(useGlobal: boolean): Promise<void> {
+    const lexicalIndexPath = useGlobal ? this.globalLexicalIndexPath : this.lexicalIndexPath;
+    let persisted: PersistedLexicalIndex = { version: 0, documents: {} };
+
+    try {
+      if (await CompressionUtils.fileExists(lexicalIndexPath)) {
+        persisted = JSON.parse(await CompressionUtils.readFileWithDecompression(lexicalIndexPath));
+      }
+    } catch (error) {
+      log(`[StorageLoad] Failed to load lexical index, rebuilding error=${error instanceof Error ? error.message : error}`);
+    }
+
+    const startTime = Date.now();
+    this.lexicalIndex = LexicalIndex.fromJSON(persisted, this.chunks.values());
+    log(`[StorageLoad] Loaded lexical index documents=${this.lexicalIndex.size} duration=${Date.now() - startTime}ms`);
+  }
+
+  private async saveLexicalIndex(): Promise<void> {
+    const lexicalData = JSON.stringify(this.getLexicalIndex().toJSON(), null, 0);
+    await Promise.all([
+      CompressionUtils.writeFileWithCompression(this.lexicalIndexPath, lexicalData),
+      CompressionUtils.writeFileWithCompression(this.globalLexicalIndexPath, lexicalData)
+    ]);
+  }
+
+  /** Graph vectors of a chunk; int8 codes go in as they are, since cosine ignores the scale */
+  private annVectors(chunk: CodeChunk): Array<{ representation: EmbeddingRepresentation; vector: ArrayLike<number> }> {
+    if (chunk.embedding.length > 0 || !(this.quantizer instanceof ScalarQuantizer)) {
+      return representationVectors(chunk);
+    }
+    return this.packedRepresentations(chunk.chunk_id).map(({ representation, packed }) => ({ representation, vector: packed.codes }));
+  }
+
+  embeddingOf(chunk: CodeChunk): number[] {
+    const packed = chunk.embedding.length === 0 ? this.packedVectors.get(chunk.chunk_id) : undefined;
+    return packed && this.quantizer ? this.quantizer.decode(packed) : chunk.embedding;
+  }
+
+  protected hasEmbedding(chunk: CodeChunk): boolean {
+    return chunk.embedding.length > 0 || this.packedVectors.has(chunk.chunk_id);
+  }
+
+  protected materialize(chunk: CodeChunk): CodeChunk {
+    if (chunk.embedding.length > 0 || !this.quantizer) return chunk;
+
+    const packed = this.packedRepresentations(chunk.chunk_id);
+    if (packed.length === 0) return chunk;
+
+    const decoded: CodeChunk = { ...chunk, representation_embeddings: undefined };
+    for (const { representation, packed: vector } of packed) {
+      if (representation === 'body') {
+        decoded.embedding = this.quantizer.decode(vector);
+      } else {
+        decoded.representation_embeddings = { ...decoded.representation_embeddings, [representation]: this.quantizer.decode(vector) };
+      }
+    }
+    return decoded;
+  }
+
+  /** Chunks held as codes are scored on them: int8 directly, PQ through per-query lookup tables */
+  protected representationScorer(queryEmbedding: number[]): (chunk: CodeChunk) => { similarity: number; representation: EmbeddingRepresentation } {
+    const fullPrecision = super.representationScorer(queryEmbedding);
+    if (this.packedVectors.size === 0 || !this.quantizer) return fullPrecision;
+
+    const score = this.quantizer.scorer(queryEmbedding);
+    return chunk => {
+      if (chunk.embedding.length > 0) return fullPrecision(chunk);
+
+      let best: { similarity: number; representation: EmbeddingRepresentation } = { similarity: -Infinity, representation: 'body' };
+      for (const { representation, packed } of this.packedRepresentations(chunk.chunk_id)) {
+        const similarity = score(packed);
+        if (similarity > best.similarity) best = { similarity, representation };
+      }
+      return best;
+    };
+  }
+
+  private packedRepresentations(chunkId: string): Array<{ representation: EmbeddingRepresentation; packed: PackedVector }> {
+    const vectors: Array<{ representation: EmbeddingRepresentation; packed: PackedVector }> = [];
+    for (const representation of ALL_REPRESENTATIONS) {
+      const packed = this.packedVectors.get(representationKey(chunkId, representation));
+      if (packed) vectors.push({ representation, packed });
+    }
+    return vectors;
+  }
+
+  private carryPackedVectors(fromChunkId: string, toChunkId: string): void {
+    if (fromChunkId === toChunkId) return;
+    for (const { representation, packed } of this.packedRepresentations(fromChunkId)) {
+      this.packedVectors.set(representationKey(toChunkId, representation), packed);
+    }
+  }
+
+  /** Drops codes of chunks that were removed or re-embedded since the index was loaded */
+  private prunePackedVectors(): void {
+    for (const key of this.packedVectors.keys()) {
+      const chunk = this.chunks.get(parseRepresentationKey(key).chunkId);
+      if (!chunk || chunk.embedding.length > 0) this.packedVectors.delete(key);
+    }
+  }
+
+  /**
+   * Encode every embedding with the configured format. Vectors still packed from the
+   * last load are written back as they are; only full-precision vectors are encoded.
+   */
+  private compressEmbeddings(): PersistedCompression | null {
+    const format = cortexConfig.embeddingCompression;
+    this.prunePackedVectors();
+
+    // Representation keys with the full-precision vector, or none when only the codes are held
+    const entries: Array<{ key: string; vector?: number[] }> = [];
+    for (const chunk of this.chunks.values()) {
+      if (chunk.embedding.length > 0) {
+        for (const { representation, vector } of representationVectors(chunk)) {
+          entries.push({ key: representationKey(chunk.chunk_id, representation), vector });
+        }
+      } else {
+        for (const { representation } of this.packedRepresentations(chunk.chunk_id)) {
+          entries.push({ key: representationKey(chunk.chunk_id, representation) });
+        }
+      }
+    }
+    if (format === 'none' || entries.length === 0) {
+      this.compressionStats = null;
+      return null;
+    }
+
+    const quantizer = this.quantizerFor(format, entries);
+    const vectors: Record<string, QuantizedVector> = {};
+    const originals: number[][] = [];
+    const encoded: QuantizedVector[] = [];
+    for (const { key, vector } of entries) {
+      if (!vector) {
+        vectors[key] = unpackVector(this.packedVectors.get(key)!);
+        continue;
+      }
+      let quantized = this.encodedEmbeddings.get(vector);
+      if (!quantized) {
+        quantized = quantizer.encode(vector);
+        this.encodedEmbeddings.set(vector, quantized);
+        originals.push(vector);
+        encoded.push(quantized);
+      }
+      vectors[key] = quantized;
+    }
+
+    // Recall loss needs the originals, so it is measured over the vectors this save encoded
+    const stats = this.compressionStats;
+    if (originals.length > 0 && (!stats || stats.format !== format || originals.length >= MIN_RECALL_VECTORS)) {
+      const codebookBytes = quantizer instanceof ProductQuantizer
+        ? JSON.stringify(quantizer.codebook).length * originals.length / entries.length
+        : 0;
+      this.compressionStats = measureCompression(quantizer, originals, encoded, codebookBytes);
+      log(`[StorageSave] Compressed embeddings format=${format} vectors=${originals.length} ratio=${this.compressionStats.compressionRatio.toFixed(1)}x recallLoss=${(this.compressionStats.recallLoss * 100).toFixed(1)}%`);
+    }
+
+    return {
+      format,
+      codebook: quantizer instanceof ProductQuantizer ? quantizer.codebook : undefined,
+      trainedOn: quantizer instanceof ProductQuantizer ? this.quantizerTrainedOn : undefined,
+      vectors,
+      stats: this.compressionStats || undefined
+    };
+  }
+
+  /**
+   * The quantizer for this save. The PQ codebook is reused so codes stay stable across
+   * saves, and retrained when the dimension changes or the index has grown well past
+   * the vectors it was trained on. Packed codes are re-encoded when the quantizer changes.
+   */
+  private quantizerFor(format: 'int8' | 'pq', entries: Array<{ key: string; vector?: number[] }>): EmbeddingQuantizer {
+    const current = this.quantizer;
+    let quantizer: EmbeddingQuantizer;
+
+    if (format === 'int8') {
+      quantizer = current instanceof ScalarQuantizer ? current : new ScalarQuantizer();
+    } else {
+      const fullPrecision = entries.filter(entry => entry.vector).map(entry => entry.vector!);
+      const retrain = !(current instanceof ProductQuantizer) ||
+        (fullPrecision.length > 0 && fullPrecision[0].length !== current.codebook.dimension) ||
+        entries.length > this.quantizerTrainedOn * PQ_RETRAIN_GROWTH;
+
+      if (retrain) {
+        // Packed vectors train through their decoded form, so a switch to PQ after a
+        // compressed load sees the whole index rather than only the vectors added since
+        const dimension = fullPrecision.length > 0 ? fullPrecision[0].length : undefined;
+        const decoded = entries
+          .filter(entry => !entry.vector)
+          .map(entry => current!.decode(this.packedVectors.get(entry.key)!))
+          .filter(vector => dimension === undefined || vector.length === dimension);
+        const training = [...fullPrecision, ...decoded];
+        const startTime = Date.now();
+        quantizer = ProductQuantizer.train(training, cortexConfig.pqSubvectors);
+        this.quantizerTrainedOn = entries.length;
+        log(`[StorageSave] Trained PQ codebook subvectors=${(quantizer as ProductQuantizer).codebook.subvectors} vectors=${training.length} indexVectors=${entries.length} duration=${Date.now() - startTime}ms`);
+      } else {
+        quantizer = current;
+      }
+    }
+
+    if (quantizer !== current) {
+      // The originals of packed vectors are gone, so their decoded form is re-encoded
+      for (const [key, packed] of this.packedVectors) {
+        this.packedVectors.set(key, quantizer.pack(quantizer.encode(current!.decode(packed))));
+      }
+      this.encodedEmbeddings = new WeakMap();
+      this.quantizer = quantizer;
+    }
+    return quantizer;
+  }
+
+  /** Keeps the loaded codes packed; the chunks were stored with empty embeddings */
+  private loadCompressedEmbeddings(compression: PersistedCompression): void {
+    const quantizer: EmbeddingQuantizer = compression.format === 'pq'
+      ? new ProductQuantizer(compression.codebook!)
+      : new ScalarQuantizer();
+
+    this.quantizer = quantizer;
+    this.quantizerTrainedOn = compression.trainedOn ?? Object.keys(compression.vectors).length;
+    this.packedVectors = new Map(Object.entries(compression.vectors).map(([key, vector]) => [key, quantizer.pack(vector)]));
+    this.encodedEmbeddings = new WeakMap();
+    this.compressionStats = compression.stats || null;
+  }
+
   // Set file content hash for delta detection
   setFileHash(filePath: string, contentHash: string): void {
     this.fileHashes.set(filePath, contentHash);
@@ -685,6 +1138,7 @@ export class PersistentVectorStore extends VectorStore {
     totalFiles: number;
     indexSize: string;
     lastUpdated: Date;
+    compression: CompressionStats | null;
   }> {
     const stats = await this.getFileStats(this.metadataPath);
     const indexSize = stats ? `${(stats.size / 1024 / 1024).toFixed(2)} MB` : 'Unknown';
@@ -696,13 +1150,16 @@ export class PersistentVectorStore extends VectorStore {
       total_chunks: this.chunks.size,
       totalFiles: uniqueFiles.size,
       indexSize,
-      lastUpdated: stats?.mtime || new Date()
+      lastUpdated: stats?.mtime || new Date(),
+      compression: this.compressionStats
     };
   }
 
   // Override clear to also clear persistence
   async clear(): Promise<void> {
     await super.clear();
+    this.annIndex = null;
+    this.packedVectors.clear();
     
     try {
       await fs.rm(this.localIndexPath, { recursive: true, force: true });
@@ -777,7 +1234,7 @@ export class PersistentVectorStore extends VectorStore {
     const chunks = this.getAllChunks();
     return chunks.map(chunk => ({
       id: chunk.chunk_id,
-      vector: chunk.embedding || [],
+      vector: this.embeddingOf(chunk),
       metadata: {
         file_path: chunk.file_path,
         content: chunk.content
@@ -787,6 +1244,9 @@ export class PersistentVectorStore extends VectorStore {
 
   async deleteVector(id: string): Promise<void> {
     this.chunks.delete(id);
+    this.removeFromAnnIndex(id);
+    this.lexicalIndex?.remove(id);
+    this.indexMutations++;
     // Persist the change
     await this.savePersistedIndex();
   }
@@ -0,0 +1,302 @@
+import { ContextMode, QueryAnalysis, QueryIntent, StackFrame } from './types';
+
+/**
+ * Reads a free-text query the way a developer wrote it: identifiers, file paths,
+ * error messages and pasted stack traces, plus what they want done with them.
+ *
+ * The query is rewritten into three sub-queries - prose for the embedding, code
+ * terms for BM25 and exact names for symbol lookup - whose results are fused by
+ * the searcher. The intent picks the context mode and MMR preset when the caller
+ * did not choose one.
+ */
+
+const INTENT_DEFAULTS: Record<QueryIntent, { contextMode: ContextMode; mmrPreset?: string }> = {
+  find_definition: { contextMode: 'structured', mmrPreset: 'high-relevance' },
+  find_usages: { contextMode: 'structured', mmrPreset: 'high-diversity' },
+  explain: { contextMode: 'adaptive', mmrPreset: 'high-diversity' },
+  debug: { contextMode: 'structured', mmrPreset: 'high-relevance' },
+  general: { contextMode: 'structured' }
+};
+
+const SOURCE_EXTENSIONS = 'ts|tsx|mts|cts|js|jsx|mjs|cjs|py|java|kt|scala|go|rs|rb|php|c|h|cc|cpp|hpp|cs|swift|vue|svelte|json|ya?ml|md|sh';
+
+const FILE_PATH_PATTERN = new RegExp(
+  `(?:file:\\/\\/)?((?:[A-Za-z]:)?(?:[\\w@.-]*[\\/\\\\])*[\\w@-][\\w@.-]*\\.(?:${SOURCE_EXTENSIONS}))(?::(\\d+)(?::(\\d+))?|\\((\\d+),(\\d+)\\))?(?![\\w/])`,
+  'g'
+);
+
+// Framework names that look like file names
+const NOT_FILE_PATHS = new Set(['node.js', 'vue.js', 'next.js', 'nuxt.js', 'express.js', 'react.js', 'three.js', 'd3.js', 'chart.js']);
+
+// V8: "at Foo.bar (/src/foo.ts:12:5)" or "at /src/foo.ts:12:5"
+const V8_FRAME = /^\s*at\s+(?:async\s+)?(?:(.+?)\s+\()?(?:file:\/\/)?([^\s()]+?):(\d+):(\d+)\)?\s*$/;
+// Python: 'File "app/views.py", line 42, in handle'
+const PYTHON_FRAME = /^\s*File\s+"(.+?)",\s+line\s+(\d+)(?:,\s+in\s+(\S+))?/;
+// JVM: "at com.acme.Foo.bar(Foo.java:42)"
+const JVM_FRAME = /^\s*at\s+(?:[\w.$@]+\/)?([\w$.]+)\.([\w$<>]+)\(([\w$]+\.(?:java|kt|scala|groovy)):(\d+)\)/;
+// Go: "\t/src/server.go:42 +0x1d", with the function on the line before
+const GO_FRAME = /^\s*(\S+\.go):(\d+)(?:\s+\+0x[0-9a-f]+)?\s*$/;
+
+const ERROR_LINE = /\b((?:[\w$]+\.)*(?:[A-Z][\w$]*)?(?:Error|Exception)):\s+(.+)/;
+const DIAGNOSTIC_LINE = /\b(?:error\s+TS\d+|panic|fatal error|error(?:\[E\d+\])?):\s+(.+)/i;
+
+const DECLARATION_KEYWORD = /\b(?:function|method|class|interface|type|enum|struct|trait|component|service|module|hook|const|constant|variable|field|property|fn|def)\s+`?([A-Za-z_$][\w$]*)/g;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'code', 'do', 'does', 'for', 'from', 'get', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'show', 'so', 'that', 'the',
+  'their', 'then', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+// "type string", "const number" name a type, not a symbol in the project
+const BUILTIN_TYPES = new Set(['string', 'number', 'boolean', 'object', 'any', 'unknown', 'void', 'never', 'null', 'undefined', 'int', 'float', 'str', 'bool']);
+
+const INTERNAL_FRAME = /^(?:node:|internal\/|<anonymous>|native)|[\\/](?:node_modules|site-packages|dist-packages)[\\/]|^\/usr\/(?:lib|local\/lib)\//;
+const JVM_LIBRARY = /^(?:java|javax|jdk|sun|kotlin|scala)\./;
+
+export class QueryAnalyzer {
+  analyze(query: string): QueryAnalysis {
+    const lines = query.split(/\r?\n/);
+    const { frames, frameLines } = this.extractStackFrames(lines);
+    const { messages, errorNames, messageLines } = this.extractErrorMessages(lines, query);
+
+    // Prose is what remains once trace and error lines are removed
+    const prose = lines
+      .filter((_, index) => !frameLines.has(index) && !messageLines.has(index))
+      .join('\n');
+
+    const filePaths = this.extractFilePaths(query, frames);
+    const phrases = this.extractQuotedPhrases(prose);
+    const identifiers = this.extractIdentifiers(prose.replace(FILE_PATH_PATTERN, ' ').replace(/https?:\/\/\S+/g, ' '))
+      .filter(identifier => !errorNames.has(identifier));
+
+    const intent = this.detectIntent(prose, identifiers, frames, messages);
+    const errorContext = intent === 'debug' || /\b(?:errors?|throws?|thrown|message|exception|warn(?:ing)?|logs?|logged)\b/i.test(prose);
+    const errorMessages = [...messages, ...(errorContext ? phrases : [])];
+
+    const frameSymbols = frames.map(frame => frame.symbol).filter((symbol): symbol is string => !!symbol);
+    const symbols = unique([...frameSymbols, ...identifiers]);
+
+    return {
+      intent,
+      identifiers,
+      file_paths: filePaths,
+      error_messages: unique(errorMessages),
+      stack_frames: frames,
+      sub_queries: {
+        semantic: this.buildSemanticQuery(prose, messages, frameSymbols) || query.trim(),
+        lexical: this.buildLexicalQuery(prose, symbols, errorMessages, phrases, filePaths) || query.trim(),
+        symbols
+      },
+      context_mode: INTENT_DEFAULTS[intent].contextMode,
+      mmr_preset: INTENT_DEFAULTS[intent].mmrPreset
+    };
+  }
+
+  private extractStackFrames(lines: string[]): { frames: StackFrame[]; frameLines: Set<number> } {
+    const frames: StackFrame[] = [];
+    const frameLines = new Set<number>();
+    const keep = (index: number, frame: StackFrame | null) => {
+      frameLines.add(index);
+      if (frame && !INTERNAL_FRAME.test(frame.file_path)) frames.push(frame);
+    };
+
+    lines.forEach((line, index) => {
+      let match: RegExpMatchArray | null;
+      if ((match = line.match(JVM_FRAME))) {
+        const [, qualifiedClass, method, fileName, lineNumber] = match;
+        const packagePath = qualifiedClass.split('.').slice(0, -1).join('/');
+        const className = qualifiedClass.split('.').pop()!.split('$')[0];
+        keep(index, JVM_LIBRARY.test(qualifiedClass) ? null : {
+          file_path: packagePath ? `${packagePath}/${fileName}` : fileName,
+          line: Number(lineNumber),
+          symbol: method === '<init>' ? className : `${className}.${method}`
+        });
+      } else if ((match = line.match(V8_FRAME))) {
+        const [, symbol, filePath, lineNumber, column] = match;
+        keep(index, {
+          file_path: filePath,
+          line: Number(lineNumber),
+          column: Number(column),
+          symbol: this.cleanFrameSymbol(symbol)
+        });
+      } else if ((match = line.match(PYTHON_FRAME))) {
+        const [, filePath, lineNumber, symbol] = match;
+        keep(index, {
+          file_path: filePath,
+          line: Number(lineNumber),
+          symbol: symbol && !symbol.startsWith('<') ? symbol : undefined
+        });
+      } else if ((match = line.match(GO_FRAME))) {
+        const [, filePath, lineNumber] = match;
+        const caller = index > 0 ? this.goFunctionName(lines[index - 1]) : undefined;
+        if (caller) frameLines.add(index - 1);
+        keep(index, { file_path: filePath, line: Number(lineNumber), symbol: caller });
+      } else if (/^\s*Traceback \(most recent call last\):\s*$/.test(line) || /^goroutine \d+ \[/.test(line)) {
+        frameLines.add(index);
+      }
+    });
+
+    // Python prints the innermost frame last; everything else prints it first
+    const pythonTrace = lines.some(line => PYTHON_FRAME.test(line));
+    return { frames: pythonTrace ? frames.reverse() : frames, frameLines };
+  }
+
+  /** "new Foo" -> Foo, "Foo.bar [as baz]" -> Foo.bar, "Object.<anonymous>" -> undefined */
+  private cleanFrameSymbol(symbol: string | undefined): string | undefined {
+    if (!symbol) return undefined;
+    const cleaned = symbol
+      .replace(/^new\s+/, '')
+      .replace(/\s*\[as [^\]]+\]$/, '')
+      .replace(/^(?:Object|Module|process|Function)\./, '');
+    return /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/.test(cleaned) ? cleaned : undefined;
+  }
+
+  /** "github.com/acme/api/server.(*Server).handle(0xc0000)" -> Server.handle */
+  private goFunctionName(line: string): string | undefined {
+    const match = line.trim().match(/^([\w./*()-]+)\([^()]*\)$/);
+    if (!match) return undefined;
+    const parts = match[1].split('/').pop()!.split('.').slice(1).map(part => part.replace(/[(*)]/g, ''));
+    return parts.length > 0 && parts.every(part => /^[A-Za-z_]\w*$/.test(part)) ? parts.join('.') : undefined;
+  }
+
+  private extractErrorMessages(
+    lines: string[],
+    query: string
+  ): { messages: string[]; errorNames: Set<string>; messageLines: Set<number> } {
+    const messages: string[] = [];
+    const errorNames = new Set<string>();
+    const messageLines = new Set<number>();
+    // A one-line query keeps its error text in the prose, which is all the prose it has
+    const multiLine = query.trim().includes('\n');
+
+    lines.forEach((line, index) => {
+      const error = line.match(ERROR_LINE);
+      const diagnostic = error ? null : line.match(DIAGNOSTIC_LINE);
+      if (error) {
+        messages.push(`${error[1]}: ${error[2].trim()}`);
+        errorNames.add(error[1]);
+        errorNames.add(error[1].split('.').pop()!);
+      } else if (diagnostic) {
+        messages.push(diagnostic[1].trim());
+      } else {
+        return;
+      }
+      if (multiLine) messageLines.add(index);
+    });
+
+    return { messages: unique(messages), errorNames, messageLines };
+  }
+
+  private extractFilePaths(query: string, frames: StackFrame[]): string[] {
+    const paths: string[] = [];
+    for (const match of query.matchAll(FILE_PATH_PATTERN)) {
+      const filePath = match[1].replace(/^\.[\\/]/, '');
+      if (NOT_FILE_PATHS.has(filePath.toLowerCase())) continue;
+      if (!/[\\/]/.test(filePath) && /^[A-Z][a-z]+\.js$/.test(filePath)) continue;
+      if (INTERNAL_FRAME.test(filePath)) continue;
+      paths.push(filePath);
+    }
+    return unique([...frames.map(frame => frame.file_path), ...paths]);
+  }
+
+  /** Quoted multi-word strings: usually a message or literal to find verbatim */
+  private extractQuotedPhrases(text: string): string[] {
+    const phrases: string[] = [];
+    const pattern = /"([^"\n]{3,200})"|`([^`\n]{3,200})`|(?:^|[\s(:])'([^'\n]{3,200})'(?=$|[\s).,:;!?])/g;
+    for (const match of text.matchAll(pattern)) {
+      const phrase = (match[1] ?? match[2] ?? match[3]).trim();
+      if (/\s/.test(phrase)) phrases.push(phrase);
+    }
+    return unique(phrases);
+  }
+
+  /**
+   * Most specific first: backticked names, names after a declaration keyword,
+   * calls like `foo()`, then anything shaped like code (camelCase, snake_case,
+   * Pascal.member, or a capitalised word mid-sentence).
+   */
+  private extractIdentifiers(text: string): string[] {
+    const explicit: string[] = [];
+    for (const match of text.matchAll(/`([^`\n]+)`/g)) {
+      const name = match[1].trim().replace(/\(\)$/, '').replace(/::|#/g, '.');
+      if (/^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*$/.test(name)) explicit.push(name);
+    }
+    for (const match of text.matchAll(DECLARATION_KEYWORD)) {
+      const name = match[1].toLowerCase();
+      if (!STOPWORDS.has(name) && !BUILTIN_TYPES.has(name)) explicit.push(match[1]);
+    }
+    for (const match of text.matchAll(/\b([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\(/g)) {
+      if (!STOPWORDS.has(match[1].toLowerCase())) explicit.push(match[1]);
+    }
+
+    const shaped: string[] = [];
+    for (const match of text.matchAll(/[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g)) {
+      const token = match[0];
+      const parts = token.split('.');
+      const sentenceStart = /(?:^|[.!?:\n]\s*|^\s*)$/.test(text.slice(0, match.index));
+
+      if (parts.length > 1) {
+        // Member access: keep it when either side looks like code (excludes "e.g")
+        if (parts.some(part => this.looksLikeCode(part, false))) shaped.push(token.replace(/^this\./, ''));
+      } else if (this.looksLikeCode(token, sentenceStart)) {
+        shaped.push(token);
+      }
+    }
+
+    return unique([...explicit, ...shaped]).filter(name => name.length > 1);
+  }
+
+  private looksLikeCode(token: string, sentenceStart: boolean): boolean {
+    if (STOPWORDS.has(token.toLowerCase())) return false;
+    if (/[a-z0-9][A-Z]/.test(token) || /^[A-Z]{2,}[a-z]/.test(token)) return true; // camelCase, PascalCase, HTTPServer
+    if (/^_*[A-Za-z0-9]+(?:_[A-Za-z0-9]+)+_*$/.test(token)) return true;        // snake_case, SCREAMING_CASE
+    if (token.includes('$')) return true;
+    // A lone capitalised word mid-sentence is usually a class name
+    return !sentenceStart && /^[A-Z][a-z0-9]{3,}$/.test(token);
+  }
+
+  private detectIntent(prose: string, identifiers: string[], frames: StackFrame[], messages: string[]): QueryIntent {
+    if (frames.length > 0 || messages.length > 0) return 'debug';
+
+    const text = prose.toLowerCase();
+    if (/\b(?:usages?|callers?|call sites?|references?|who (?:calls|uses)|(?:called|used|referenced|invoked) (?:from|by|in)|where (?:is|are|do|does)\b.*\b(?:called|used|referenced|invoked))\b/.test(text)) {
+      return 'find_usages';
+    }
+    if (/\b(?:definition|defined|declared|declaration|implemented|implementation of|where (?:is|are) (?:the )?(?:class|function|method|interface|type)|go to|jump to)\b/.test(text)) {
+      return 'find_definition';
+    }
+    if (/\b(?:debug|bug|broken|crash(?:es|ed|ing)?|fix|fails?|failing|failed|throws?|thrown|exception|stack ?trace|regression|not working|doesn'?t work)\b/.test(text)) {
+      return 'debug';
+    }
+    if (/\b(?:explain|how (?:does|do|is|are)|what (?:does|do|is|are)|why (?:does|do|is)|understand|overview|walk (?:me )?through|architecture)\b/.test(text)) {
+      return 'explain';
+    }
+    // A bare name ("calculateFileDelta", "find SemanticSearcher") is a definition lookup
+    const words = text.split(/\s+/).filter(Boolean);
+    if (identifiers.length > 0 && words.length <= 3) return 'find_definition';
+
+    return 'general';
+  }
+
+  private buildSemanticQuery(prose: string, messages: string[], frameSymbols: string[]): string {
+    const text = prose.replace(/\s+/g, ' ').trim();
+    if (text.length > 0) return text.slice(0, 1000);
+    // Nothing but a trace: describe it by its error and innermost frames
+    return [...messages, ...frameSymbols.slice(0, 3)].join(' ').slice(0, 1000);
+  }
+
+  private buildLexicalQuery(prose: string, symbols: string[], errorMessages: string[], phrases: string[], filePaths: string[]): string {
+    const words = prose
+      .replace(FILE_PATH_PATTERN, ' ')
+      .split(/[^\w$]+/)
+      .filter(word => word.length > 1 && !STOPWORDS.has(word.toLowerCase()));
+    const fileNames = filePaths.map(filePath => filePath.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, ''));
+
+    return unique([...symbols, ...errorMessages, ...phrases, ...fileNames, ...words]).join(' ');
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,37 @@
+import { CodeChunk } from './types';
+
+export interface WeightedRanking {
+  chunks: CodeChunk[]; // Best first
+  weight: number;
+}
+
+/**
+ * Reciprocal-rank fusion: each ranking contributes weight / (k + rank) per chunk.
+ * Ranks rather than raw scores are fused because BM25 and cosine scores live on
+ * unrelated scales. `relevance_score` is the fused score divided by the best
+ * achievable one, so a chunk ranked first in every non-empty ranking scores 1.
+ */
+export function reciprocalRankFusion(rankings: WeightedRanking[], k: number): CodeChunk[] {
+  const fused = new Map<string, { chunk: CodeChunk; score: number }>();
+
+  for (const { chunks, weight } of rankings) {
+    if (weight <= 0) continue;
+    chunks.forEach((chunk, index) => {
+      const entry = fused.get(chunk.chunk_id);
+      const contribution = weight / (k + index + 1);
+      if (entry) {
+        entry.score += contribution;
+      } else {
+        fused.set(chunk.chunk_id, { chunk, score: contribution });
+      }
+    });
+  }
+
+  // A ranking that returned nothing (no symbol in the query, no lexical hit) cannot be topped
+  const maxScore = rankings
+    .filter(ranking => ranking.chunks.length > 0)
+    .reduce((total, ranking) => total + Math.max(ranking.weight, 0), 0) / (k + 1);
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ chunk, score }) => ({ ...chunk, relevance_score: maxScore > 0 ? score / maxScore : 0 }));
+}
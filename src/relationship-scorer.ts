@@ -249,12 +249,15 @@ export class AdvancedRelationshipScorer implements RelationshipScorer {
       catches: 0.9,         // Error handling is important
       extends: 0.7,         // Inheritance relationships
       implements: 0.7,      // Interface implementations
+      decorated_by: 0.7,    // Decorators change behaviour of what they wrap
       exports: 0.6,         // Export relationships
       instantiates: 0.8,    // Object creation
       accesses: 0.6,        // Property access
       assigns: 0.7,         // Variable assignments
       configures: 0.5,      // Configuration relationships
-      depends_on: 0.6       // Generic dependencies
+      depends_on: 0.6,      // Generic dependencies
+      tests: 0.5,           // Test case to the code it exercises
+      tested_by: 0.5
     };
 
     return weights[type] || 0.5;
@@ -16,7 +16,11 @@ import { log, warn } from './logging-utils';
 import { CallGraphAnalyzer } from './call-graph-analyzer';
 import { DependencyMapper } from './dependency-mapper';
 import { DataFlowAnalyzer } from './data-flow-analyzer';
+import { TestMapper } from './test-mapper';
 import { PersistentRelationshipStore } from './persistent-relationship-store';
+import { languageRegistry } from './languages';
+import { TypeCheckedCallResolver } from './type-checked-call-resolver';
+import { cortexConfig } from './env-config';
 import Parser from 'tree-sitter';
 import JavaScript from 'tree-sitter-javascript';
 import TypeScript from 'tree-sitter-typescript';
@@ -99,12 +103,19 @@ export class RelationshipTraversalEngine {
       const allSymbols: CodeSymbol[] = [];
       const allRelationships: CodeRelationship[] = [];
 
+      // Precise mode: the type checker replaces name-based call targets where it can
+      const callResolver = cortexConfig.preciseCalls
+        ? TypeCheckedCallResolver.create(this.repositoryPath, cortexConfig.preciseCallsTsconfig)
+        : undefined;
+
       for (const [filePath, content] of files) {
         try {
           // Call graph analysis
           const callAnalysis = await this.callGraphAnalyzer.analyzeFile(filePath, content);
           allSymbols.push(...callAnalysis.symbols);
-          allRelationships.push(...callAnalysis.relationships);
+          allRelationships.push(...(callResolver
+            ? callResolver.refineCallRelationships(filePath, content, callAnalysis.relationships)
+            : callAnalysis.relationships));
 
           // Data flow analysis
           const tree = this.parseFile(content, filePath);
@@ -121,6 +132,13 @@ export class RelationshipTraversalEngine {
       // Phase 3: Add dependency relationships
       const dependencyRelationships = this.dependencyMapper.generateDependencyRelationships();
       allRelationships.push(...dependencyRelationships);
+      allRelationships.push(...this.linkConfigurationReaders(allRelationships));
+
+      // Phase 3b: Link test cases to the production code they call
+      const testLinks = new TestMapper((content, filePath) => this.parseFile(content, filePath))
+        .mapTests(files, allSymbols, allRelationships);
+      allSymbols.push(...testLinks.symbols);
+      allRelationships.push(...testLinks.relationships);
 
       // Phase 4: Build graph structure
       this.populateGraph(allSymbols, allRelationships);
@@ -137,17 +155,35 @@ export class RelationshipTraversalEngine {
     log(`[RelationshipEngine] Relationship graph ${action} duration=${timeMs}ms symbols=${this.graph.symbols.size} relationships=${this.graph.relationships.size}`);
   }
 
+  /**
+   * Load the persisted graph (global, else local) without building one, for
+   * readers that have no file contents. Returns false when nothing is persisted.
+   */
+  async loadPersistedGraph(): Promise<boolean> {
+    await this.persistentStore.initialize();
+    const useGlobal = await this.persistentStore.globalRelationshipGraphExists();
+    if (!useGlobal && !await this.persistentStore.relationshipGraphExists()) return false;
+
+    const graph = await this.persistentStore.loadPersistedRelationshipGraph(useGlobal);
+    if (graph) this.graph = graph;
+    return !!graph;
+  }
+
   private parseFile(content: string, filePath: string): Parser.Tree | null {
     try {
       const ext = path.extname(filePath).toLowerCase();
       
       // Select appropriate parser based on file extension
       let parser: Parser;
-      if (ext === '.ts' || ext === '.tsx') {
+      if (ext === '.ts' || ext === '.tsx' || ext === '.mts' || ext === '.cts') {
         parser = this.tsParser;
-      } else if (ext === '.js' || ext === '.jsx' || ext === '.mjs') {
+      } else if (ext === '.js' || ext === '.jsx' || ext === '.mjs' || ext === '.cjs') {
         parser = this.jsParser;
       } else {
+        const languageModule = languageRegistry.getForFile(filePath);
+        if (languageModule?.supportsDataFlow) {
+          return languageRegistry.parse(languageModule, content);
+        }
         // Unsupported file type
         return null;
       }
@@ -167,6 +203,51 @@ export class RelationshipTraversalEngine {
     }
   }
 
+  /**
+   * Config keys point at `env:NAME:unknown` and env reads start from it; join the
+   * two so a config key `configures` the code that reads its variable directly.
+   */
+  private linkConfigurationReaders(relationships: CodeRelationship[]): CodeRelationship[] {
+    const definitions = new Map<string, CodeRelationship[]>();
+    const reads: CodeRelationship[] = [];
+
+    for (const relationship of relationships) {
+      if (relationship.type !== 'configures') continue;
+      if (relationship.toSymbol.startsWith('env:')) {
+        const name = relationship.toSymbol.slice('env:'.length, -':unknown'.length);
+        if (!definitions.has(name)) definitions.set(name, []);
+        definitions.get(name)!.push(relationship);
+      } else if (relationship.fromSymbol.startsWith('env:')) {
+        reads.push(relationship);
+      }
+    }
+
+    const linked: CodeRelationship[] = [];
+    for (const read of reads) {
+      const name = read.fromSymbol.slice('env:'.length, -':unknown'.length);
+      for (const definition of definitions.get(name) || []) {
+        linked.push({
+          id: `${definition.fromSymbol}:configures:${read.toSymbol}:${name}`,
+          fromSymbol: definition.fromSymbol,
+          toSymbol: read.toSymbol,
+          type: 'configures',
+          strength: Math.min(definition.strength, read.strength),
+          confidence: Math.min(definition.confidence, read.confidence),
+          metadata: {
+            configType: 'environment',
+            configPath: definition.metadata?.configPath,
+            sourceLocation: read.metadata?.sourceLocation
+          }
+        });
+      }
+    }
+
+    if (linked.length > 0) {
+      log(`[RelationshipEngine] Linked config keys to environment readers count=${linked.length}`);
+    }
+    return linked;
+  }
+
   private populateGraph(symbols: CodeSymbol[], relationships: CodeRelationship[]): void {
     // Add symbols
     symbols.forEach(symbol => {
@@ -475,6 +556,7 @@ export class RelationshipTraversalEngine {
       exports: 'exports',
       extends: 'extends',
       implements: 'implements',
+      decorated_by: 'is decorated by',
       instantiates: 'creates',
       accesses: 'accesses',
       assigns: 'assigns to',
@@ -482,7 +564,9 @@ export class RelationshipTraversalEngine {
       catches: 'catches',
       configures: 'configures',
       depends_on: 'depends on',
-      data_flow: 'flows to'
+      data_flow: 'flows to',
+      tests: 'tests',
+      tested_by: 'is tested by'
     };
 
     return verbMap[type] || 'relates to';
@@ -912,6 +996,22 @@ export class RelationshipTraversalEngine {
     return callers;
   }
 
+  /**
+   * Files importing `filePath`: from the dependency map when it was built this run,
+   * else from the graph's `depends_on` edges (a graph loaded from cache has no map)
+   */
+  getModuleDependents(filePath: string): string[] {
+    const fromMap = this.dependencyMapper.getModuleDependents(filePath);
+    if (fromMap.length > 0 || this.dependencyMapper.getModuleMap().size > 0) return fromMap;
+
+    const dependents: string[] = [];
+    for (const relationshipId of this.graph.incomingRelationships.get(`${filePath}:module:1`) || []) {
+      const relationship = this.graph.relationships.get(relationshipId);
+      if (relationship?.type === 'depends_on') dependents.push(relationship.fromSymbol.replace(/:module:1$/, ''));
+    }
+    return dependents;
+  }
+
   /**
    * Find direct relationship between two symbols
    */
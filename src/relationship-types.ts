@@ -28,6 +28,7 @@ export type RelationshipType =
   | 'exports'                   // Module A exports Symbol B
   | 'extends'                   // Class A extends Class B
   | 'implements'                // Class A implements Interface B
+  | 'decorated_by'              // Function/Class A is wrapped by Decorator B
   | 'instantiates'              // Function A creates instance of Class B
   | 'accesses'                  // Function A accesses Property B
   | 'assigns'                   // Function A assigns to Variable B
@@ -35,13 +36,19 @@ export type RelationshipType =
   | 'catches'                   // Function A catches Exception B
   | 'configures'                // Function A configures Module B
   | 'depends_on'                // Generic dependency relationship
-  | 'data_flow';                // Variable flows from A to B
+  | 'data_flow'                 // Variable flows from A to B
+  | 'tests'                     // Test case A exercises Symbol B
+  | 'tested_by';                // Symbol A is exercised by Test case B
+
+export type TestFramework = 'jest' | 'mocha' | 'vitest' | 'pytest';
 
 export interface RelationshipMetadata {
   // Call relationships
   callType?: 'direct' | 'indirect' | 'async' | 'callback';
   parameters?: string[];        // Parameter types passed
   returnType?: string;          // Return type received
+  resolvedBy?: 'type_checker';  // Target resolved by the TypeScript compiler (precise mode)
+  viaInterface?: string;        // Interface or abstract class the call dispatched through
   
   // Import relationships  
   importType?: 'default' | 'named' | 'namespace' | 'dynamic';
@@ -58,6 +65,10 @@ export interface RelationshipMetadata {
   // Configuration relationships
   configType?: 'environment' | 'runtime' | 'build_time';
   configPath?: string[];        // Configuration key path
+
+  // Test relationships
+  testFramework?: TestFramework;
+  viaHook?: boolean;            // Called from a beforeEach/setUp hook, not the test body
   
   // General metadata
   frequency?: number;           // How often this relationship occurs
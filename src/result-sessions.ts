@@ -0,0 +1,155 @@
+import { randomUUID } from 'crypto';
+import { ChunkProvenance, CodeChunk } from './types';
+import { cortexConfig } from './env-config';
+
+/** Ranked results past the first page, produced when a cursor first asks for them */
+export type RankDeeper = () => Promise<{ chunks: CodeChunk[]; provenance?: ChunkProvenance[] }>;
+
+interface ResultSession {
+  query: string;
+  chunks: CodeChunk[];
+  provenance?: ChunkProvenance[];
+  indexVersion: string;
+  pageSize: number;
+  createdAt: number;
+  rankDeeper?: RankDeeper;   // Unset once the deeper ranking is merged in
+  deepening?: Promise<void>;
+}
+
+export interface ResultPage {
+  query: string;
+  chunks: CodeChunk[];
+  provenance?: ChunkProvenance[];
+  page: number;             // 1-based
+  total_results: number;    // Ranked results held by the session; grows when a cursor ranks deeper
+  next_cursor?: string;     // Unset on the last page
+  index_version: string;    // Index the ranking was computed against
+}
+
+/**
+ * Ranked result lists kept between `semantic_search` calls so follow-up pages
+ * continue the ranking rather than re-running the search. A session snapshots its
+ * chunks, so pages stay consistent with the index version they were ranked
+ * against even when the live indexer changes the index in between.
+ *
+ * The first page is the plain search. A full first page keeps the session with a
+ * `rankDeeper` callback, run once when a cursor first asks for more; its results
+ * are appended after the first page, skipping chunks already shown.
+ *
+ * Cursors are opaque: `<session id>:<offset>`, base64url-encoded.
+ */
+export class ResultSessionStore {
+  private sessions: Map<string, ResultSession> = new Map();
+
+  constructor(
+    private ttlMs: number = cortexConfig.resultSessionTtlMs,
+    private maxSessions: number = cortexConfig.resultSessionMaxEntries
+  ) {}
+
+  /** First page of a new session; no session is kept when everything fits on it */
+  create(
+    query: string,
+    chunks: CodeChunk[],
+    provenance: ChunkProvenance[] | undefined,
+    indexVersion: string,
+    pageSize: number,
+    rankDeeper?: RankDeeper
+  ): ResultPage {
+    const session: ResultSession = {
+      query,
+      chunks: chunks.map(withoutEmbeddings),
+      provenance,
+      indexVersion,
+      pageSize: Math.max(1, pageSize),
+      createdAt: Date.now(),
+      // Fewer results than a page means the search found everything there is
+      rankDeeper: chunks.length >= pageSize ? rankDeeper : undefined
+    };
+
+    let id: string | undefined;
+    if (session.chunks.length > session.pageSize || session.rankDeeper) {
+      this.evictExpired();
+      id = randomUUID();
+      this.sessions.set(id, session);
+    }
+    return this.page(id, session, 0);
+  }
+
+  /** The page a cursor points at; `pageSize` defaults to the first page's size */
+  async next(cursor: string, pageSize?: number): Promise<ResultPage> {
+    const { id, offset } = decodeCursor(cursor);
+    const session = this.sessions.get(id);
+    if (!session || Date.now() - session.createdAt > this.ttlMs) {
+      this.sessions.delete(id);
+      throw new Error('Cursor has expired or is unknown; run the search again without a cursor');
+    }
+    await this.deepen(session);
+    if (pageSize && pageSize > 0) session.pageSize = pageSize;
+    return this.page(id, session, offset);
+  }
+
+  /** Merges the deeper ranking in once; concurrent cursors share the run, a failed run is retried */
+  private async deepen(session: ResultSession): Promise<void> {
+    const rankDeeper = session.rankDeeper;
+    if (!rankDeeper) return;
+
+    session.deepening ??= rankDeeper()
+      .then(deeper => {
+        const shown = new Set(session.chunks.map(chunk => chunk.chunk_id));
+        deeper.chunks.forEach((chunk, index) => {
+          if (shown.has(chunk.chunk_id)) return;
+          session.chunks.push(withoutEmbeddings(chunk));
+          if (session.provenance && deeper.provenance?.[index]) session.provenance.push(deeper.provenance[index]);
+        });
+        session.rankDeeper = undefined;
+      })
+      .finally(() => {
+        session.deepening = undefined;
+      });
+    await session.deepening;
+  }
+
+  private page(id: string | undefined, session: ResultSession, offset: number): ResultPage {
+    const end = Math.min(offset + session.pageSize, session.chunks.length);
+    const more = end < session.chunks.length || !!session.rankDeeper;
+    return {
+      query: session.query,
+      chunks: session.chunks.slice(offset, end),
+      provenance: session.provenance?.slice(offset, end),
+      page: Math.floor(offset / session.pageSize) + 1,
+      total_results: session.chunks.length,
+      next_cursor: id && more ? encodeCursor(id, end) : undefined,
+      index_version: session.indexVersion
+    };
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (now - session.createdAt > this.ttlMs) this.sessions.delete(id);
+    }
+    // Map iteration is insertion order, so the first entries are the oldest
+    while (this.sessions.size >= this.maxSessions) {
+      const oldest = this.sessions.keys().next().value as string;
+      this.sessions.delete(oldest);
+    }
+  }
+}
+
+// Embeddings are not returned to clients and would dominate the snapshot's size
+function withoutEmbeddings(chunk: CodeChunk): CodeChunk {
+  return { ...chunk, embedding: [], representation_embeddings: undefined };
+}
+
+function encodeCursor(id: string, offset: number): string {
+  return Buffer.from(`${id}:${offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { id: string; offset: number } {
+  const [id, offset] = Buffer.from(cursor, 'base64url').toString().split(':');
+  const parsed = Number(offset);
+  if (!id || !Number.isInteger(parsed) || parsed < 0) {
+    throw new Error('Malformed cursor');
+  }
+  return { id, offset: parsed };
+}
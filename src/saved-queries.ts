@@ -0,0 +1,173 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { CodeChunk, SavedQuery, SavedQueryDiff, SavedQueryResult } from './types';
+import { log, warn } from './logging-utils';
+
+const SAVED_QUERIES_FILE = 'saved-queries.json';
+const DEFAULT_MAX_CHUNKS = 10;
+
+interface SavedQueriesFile {
+  version: 1;
+  queries: SavedQuery[];
+}
+
+export type SavedQueryRunner = (query: string, maxChunks: number) => Promise<CodeChunk[]>;
+
+/**
+ * Queries a team asks repeatedly ("where is auth enforced"), stored per project in
+ * `.cortex/saved-queries.json` with the chunks each last returned. Re-running them
+ * after the index changes yields the chunks that entered, left or changed in each
+ * result set.
+ *
+ * The file is shared by the live indexer and the MCP server, so every operation
+ * re-reads it and writes it back atomically.
+ */
+export class SavedQueryStore {
+  private filePath: string;
+
+  constructor(repositoryPath: string, indexDir: string = '.cortex') {
+    this.filePath = path.join(repositoryPath, indexDir, SAVED_QUERIES_FILE);
+  }
+
+  async list(): Promise<SavedQuery[]> {
+    return (await this.read()).queries;
+  }
+
+  /** Saving an existing query text or name replaces it; the first run records its baseline */
+  async save(query: string, options: { name?: string; maxChunks?: number } = {}): Promise<SavedQuery> {
+    const file = await this.read();
+    const saved: SavedQuery = {
+      id: randomUUID().slice(0, 8),
+      name: options.name,
+      query,
+      max_chunks: options.maxChunks || DEFAULT_MAX_CHUNKS,
+      created_at: new Date().toISOString()
+    };
+    file.queries = file.queries.filter(existing => existing.query !== query && (!options.name || existing.name !== options.name));
+    file.queries.push(saved);
+    await this.write(file);
+    log(`[SavedQueries] Saved query id=${saved.id} query="${query}"`);
+    return saved;
+  }
+
+  /** Remove by id or name; returns whether anything was removed */
+  async remove(idOrName: string): Promise<boolean> {
+    const file = await this.read();
+    const remaining = file.queries.filter(saved => saved.id !== idOrName && saved.name !== idOrName);
+    if (remaining.length === file.queries.length) return false;
+    file.queries = remaining;
+    await this.write(file);
+    return true;
+  }
+
+  /**
+   * Re-run every saved query (or those in `ids`) and diff against its previous
+   * results. Returns the diffs that changed something; a query's first run only
+   * records the baseline.
+   */
+  async runAll(runner: SavedQueryRunner, trigger: string, ids?: string[]): Promise<SavedQueryDiff[]> {
+    const queries = (await this.read()).queries.filter(saved => !ids || ids.includes(saved.id));
+    if (queries.length === 0) return [];
+
+    const runs = new Map<string, { results: SavedQueryResult[]; diff?: SavedQueryDiff }>();
+    for (const saved of queries) {
+      try {
+        const results = toResults(await runner(saved.query, saved.max_chunks));
+        const diff = saved.last_results ? diffResults(saved, saved.last_results, results, trigger) : undefined;
+        runs.set(saved.id, { results, diff: diff && hasChanges(diff) ? diff : undefined });
+      } catch (err) {
+        warn(`[SavedQueries] Failed to run query id=${saved.id} error=${err instanceof Error ? err.message : err}`);
+      }
+    }
+
+    // Re-read so queries saved or removed while the searches ran are kept
+    const file = await this.read();
+    const ranAt = new Date().toISOString();
+    const diffs: SavedQueryDiff[] = [];
+    for (const saved of file.queries) {
+      const run = runs.get(saved.id);
+      if (!run) continue;
+      saved.last_run_at = ranAt;
+      saved.last_results = run.results;
+      if (run.diff) {
+        saved.last_diff = run.diff;
+        diffs.push(run.diff);
+      }
+    }
+    await this.write(file);
+
+    for (const diff of diffs) {
+      log(`[SavedQueries] Results changed query="${diff.query}" added=${diff.added.length} removed=${diff.removed.length} modified=${diff.modified.length} trigger=${diff.trigger}`);
+    }
+    return diffs;
+  }
+
+  /** Latest diff of each saved query, newest first; `since` is an ISO time */
+  async changes(since?: string): Promise<SavedQueryDiff[]> {
+    const after = since ? Date.parse(since) : NaN;
+    return (await this.list())
+      .map(saved => saved.last_diff)
+      .filter((diff): diff is SavedQueryDiff => !!diff && (Number.isNaN(after) || Date.parse(diff.compared_at) > after))
+      .sort((a, b) => b.compared_at.localeCompare(a.compared_at));
+  }
+
+  private async read(): Promise<SavedQueriesFile> {
+    try {
+      const file = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as SavedQueriesFile;
+      return { version: 1, queries: Array.isArray(file.queries) ? file.queries : [] };
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        warn(`[SavedQueries] Could not read ${this.filePath} error=${error instanceof Error ? error.message : error}`);
+      }
+      return { version: 1, queries: [] };
+    }
+  }
+
+  private async write(file: SavedQueriesFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+function toResults(chunks: CodeChunk[]): SavedQueryResult[] {
+  const results = new Map<string, SavedQueryResult>();
+  for (const chunk of chunks) {
+    const key = chunk.symbol_name ? `${chunk.file_path}#${chunk.symbol_name}` : chunk.chunk_id;
+    if (results.has(key)) continue;
+    results.set(key, {
+      key,
+      chunk_id: chunk.chunk_id,
+      file_path: chunk.file_path,
+      symbol_name: chunk.symbol_name,
+      start_line: chunk.start_line,
+      end_line: chunk.end_line,
+      content_hash: chunk.content_hash
+    });
+  }
+  return Array.from(results.values());
+}
+
+function diffResults(saved: SavedQuery, before: SavedQueryResult[], after: SavedQueryResult[], trigger: string): SavedQueryDiff {
+  const previous = new Map(before.map(result => [result.key, result]));
+  const current = new Map(after.map(result => [result.key, result]));
+
+  return {
+    query_id: saved.id,
+    query: saved.query,
+    trigger,
+    compared_at: new Date().toISOString(),
+    added: after.filter(result => !previous.has(result.key)),
+    removed: before.filter(result => !current.has(result.key)),
+    modified: after.filter(result => {
+      const old = previous.get(result.key);
+      return !!old && old.content_hash !== result.content_hash;
+    })
+  };
+}
+
+function hasChanges(diff: SavedQueryDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.modified.length > 0;
+}
@@ -0,0 +1,199 @@
+import * as path from 'path';
+import { CodeChunk, QueryRequest, RetrievalWeights, SearchFilter, SymbolKind } from './types';
+
+export type ChunkPredicate = (chunk: CodeChunk) => boolean;
+
+const TEST_DIRECTORIES = new Set(['test', 'tests', '__tests__', 'spec', 'specs']);
+
+/**
+ * Merge the legacy `file_filters` / `include_tests` fields with `query.filter`.
+ * Returns undefined when nothing constrains the search.
+ */
+export function buildSearchFilter(query: QueryRequest): SearchFilter | undefined {
+  const filter: SearchFilter = { ...query.filter };
+
+  if (query.file_filters?.length) {
+    filter.path_globs = [...(filter.path_globs || []), ...query.file_filters];
+  }
+  if (filter.include_tests === undefined && query.include_tests !== undefined) {
+    filter.include_tests = query.include_tests;
+  }
+
+  return Object.values(filter).some(value => value !== undefined) ? filter : undefined;
+}
+
+/**
+ * Filter fields of the `semantic_search` tool. `file_filters` and `include_tests`
+ * travel as their own QueryRequest fields.
+ */
+export function searchFilterFromToolParams(params: any): SearchFilter | undefined {
+  const filter: SearchFilter = {
+    exclude_path_globs: params.exclude_paths,
+    languages: params.languages,
+    chunk_types: params.chunk_types,
+    symbol_kinds: params.symbol_kinds,
+    authors: params.authors,
+    modified_after: params.modified_after,
+    modified_before: params.modified_before
+  };
+  return Object.values(filter).some(value => value !== undefined) ? filter : undefined;
+}
+
+/** `lexical_weight` / `vector_weight` / `symbol_weight` tool parameters; unset weights use the configured defaults */
+export function retrievalWeightsFromToolParams(params: any): RetrievalWeights | undefined {
+  if (params.lexical_weight === undefined && params.vector_weight === undefined && params.symbol_weight === undefined) {
+    return undefined;
+  }
+  return { lexical: params.lexical_weight, vector: params.vector_weight, symbol: params.symbol_weight };
+}
+
+/**
+ * Compile a filter into a single predicate so globs and dates are parsed once per
+ * search rather than once per chunk. Returns null for an empty filter.
+ */
+export function compileSearchFilter(filter?: SearchFilter): ChunkPredicate | null {
+  if (!filter) return null;
+
+  const checks: ChunkPredicate[] = [];
+
+  if (filter.path_globs?.length) {
+    const matchers = filter.path_globs.map(globToMatcher);
+    checks.push(chunk => matchers.some(matches => matches(chunk.file_path)));
+  }
+
+  if (filter.exclude_path_globs?.length) {
+    const matchers = filter.exclude_path_globs.map(globToMatcher);
+    checks.push(chunk => !matchers.some(matches => matches(chunk.file_path)));
+  }
+
+  if (filter.languages?.length) {
+    const languages = new Set(filter.languages.map(language => language.toLowerCase()));
+    checks.push(chunk => languages.has((chunk.language_metadata?.language || '').toLowerCase()));
+  }
+
+  if (filter.chunk_types?.length) {
+    const chunkTypes = new Set<string>(filter.chunk_types);
+    checks.push(chunk => chunkTypes.has(chunk.chunk_type));
+  }
+
+  if (filter.symbol_kinds?.length) {
+    const kinds = new Set<string>(filter.symbol_kinds);
+    checks.push(chunk => {
+      const kind = getSymbolKind(chunk);
+      return !!kind && kinds.has(kind);
+    });
+  }
+
+  if (filter.authors?.length) {
+    const authors = filter.authors.map(author => author.toLowerCase());
+    checks.push(chunk => {
+      const author = (chunk.git_metadata?.commit_author || '').toLowerCase();
+      return !!author && authors.some(candidate => author.includes(candidate));
+    });
+  }
+
+  const after = parseDate(filter.modified_after);
+  const before = parseDate(filter.modified_before, true);
+  if (after !== null || before !== null) {
+    checks.push(chunk => {
+      const committed = parseDate(chunk.git_metadata?.commit_date);
+      if (committed === null) return false;
+      return (after === null || committed >= after) && (before === null || committed <= before);
+    });
+  }
+
+  if (filter.include_tests === false) {
+    checks.push(chunk => !isTestFile(chunk.file_path));
+  }
+
+  if (checks.length === 0) return null;
+  return chunk => checks.every(check => check(chunk));
+}
+
+/** Kind of the symbol a chunk defines; methods are told apart from functions by their parent */
+export function getSymbolKind(chunk: CodeChunk): SymbolKind | null {
+  switch (chunk.chunk_type) {
+    case 'function':
+      return chunk.parent_symbol ? 'method' : 'function';
+    case 'method':
+      return 'method';
+    case 'class':
+      return 'class';
+    case 'interface':
+      return 'interface';
+    case 'type_alias':
+      return 'type';
+    case 'enum':
+      return 'enum';
+    case 'config':
+      return 'variable';
+    default:
+      return null;
+  }
+}
+
+export function isTestFile(filePath: string): boolean {
+  const fileName = path.basename(filePath).toLowerCase();
+  if (/\.(test|spec)\.[^.]+$/.test(fileName) || /_test\.[^.]+$/.test(fileName) || /^test_.*\.py$/.test(fileName)) {
+    return true;
+  }
+  return filePath.split(/[\\/]/).slice(0, -1).some(segment => TEST_DIRECTORIES.has(segment.toLowerCase()));
+}
+
+/**
+ * `**` spans directories, `*` and `?` stay within one segment, `{a,b}` alternates.
+ * Patterns without a `/` match any single path segment, like .gitignore: `*.ts`
+ * matches file names and `*auth*` also matches an `auth/` directory.
+ */
+function globToMatcher(glob: string): (filePath: string) => boolean {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  const matchSegment = !glob.includes('/');
+  return filePath => {
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    return matchSegment ? normalized.split('/').some(segment => regex.test(segment)) : regex.test(normalized);
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+// `2024-01-31`: Date.parse reads it as UTC midnight
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Epoch millis of an ISO date; with `endOfDay`, a date without a time covers the whole day */
+function parseDate(value?: string, endOfDay: boolean = false): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  return endOfDay && DATE_ONLY.test(value) ? time + 86_400_000 - 1 : time;
+}
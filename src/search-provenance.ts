@@ -0,0 +1,162 @@
+import { ChunkProvenance, CodeChunk, ProvenanceHop, ProvenanceSource } from './types';
+import { MMRSelectionStep } from './guarded-mmr-selector';
+
+/**
+ * Collects, per chunk, what each search stage contributed - retriever ranks, hops,
+ * score boosts, reranking and the MMR decision - so a response can say why each
+ * chunk was returned. One tracker per search; stages record by chunk_id because
+ * chunks are copied between stages.
+ */
+export class ProvenanceTracker {
+  private records: Map<string, ChunkProvenance> = new Map();
+
+  constructor(private readonly queryEmbedding: number[], private readonly recencyWeight: number = 0) {}
+
+  addSource(chunkId: string, source: ProvenanceSource): void {
+    const record = this.record(chunkId);
+    if (!record.sources.includes(source)) record.sources.push(source);
+  }
+
+  /** Ranked retriever output; with a recency weight, the gap between vector score and raw similarity is the recency boost */
+  recordRanking(source: 'vector' | 'lexical' | 'symbol', chunks: CodeChunk[]): void {
+    chunks.forEach((chunk, index) => {
+      this.addSource(chunk.chunk_id, source);
+      const record = this.record(chunk.chunk_id);
+      if (source === 'lexical') {
+        record.lexical_rank = index + 1;
+        record.lexical_score = chunk.relevance_score;
+        return;
+      }
+      if (source === 'symbol') {
+        record.symbol_rank = index + 1;
+        return;
+      }
+
+      record.vector_rank = index + 1;
+      if (chunk.matched_representation) record.representation = chunk.matched_representation;
+      record.vector_similarity = this.similarity(chunk);
+      const recency = (chunk.relevance_score ?? record.vector_similarity) - record.vector_similarity;
+      if (this.recencyWeight > 0 && Math.abs(recency) > 1e-6) this.recordBoost(chunk.chunk_id, 'recency', recency);
+    });
+  }
+
+  recordFusion(chunks: CodeChunk[]): void {
+    for (const chunk of chunks) {
+      this.record(chunk.chunk_id).fused_score = chunk.relevance_score;
+    }
+  }
+
+  recordRerank(chunks: CodeChunk[], applied: boolean, scored: number): void {
+    if (!applied) return;
+    for (const chunk of chunks.slice(0, scored)) {
+      this.record(chunk.chunk_id).rerank_score = chunk.relevance_score;
+    }
+  }
+
+  /** Keeps the first (shortest) path found to a chunk */
+  recordHop(chunkId: string, source: ProvenanceSource, path: ProvenanceHop[]): void {
+    this.addSource(chunkId, source);
+    const record = this.record(chunkId);
+    if (!record.hop_path || path.length < record.hop_path.length) {
+      record.hop_path = path;
+    }
+  }
+
+  recordBoost(chunkId: string, reason: string, value: number): void {
+    if (value !== 0) this.record(chunkId).boosts.push({ reason, value });
+  }
+
+  recordMmrSteps(steps: MMRSelectionStep[]): void {
+    steps.forEach((step, index) => {
+      this.record(step.chunkId).mmr_step = {
+        order: index + 1,
+        selected_by: step.selectedBy,
+        relevance: step.relevanceScore,
+        diversity: step.diversityScore,
+        mmr_score: step.mmrScore
+      };
+    });
+  }
+
+  /** Provenance for the returned chunks, in the same order */
+  build(chunks: CodeChunk[]): ChunkProvenance[] {
+    return chunks.map(chunk => {
+      const record = { ...this.record(chunk.chunk_id) };
+      if (record.sources.length === 0) record.sources = ['context'];
+      if (record.vector_similarity === undefined && chunk.embedding?.length) {
+        record.vector_similarity = this.similarity(chunk);
+      }
+      record.final_score = chunk.relevance_score ?? record.mmr_step?.relevance ?? record.vector_similarity ?? 0;
+      return record;
+    });
+  }
+
+  private record(chunkId: string): ChunkProvenance {
+    let record = this.records.get(chunkId);
+    if (!record) {
+      record = { chunk_id: chunkId, sources: [], boosts: [], final_score: 0 };
+      this.records.set(chunkId, record);
+    }
+    return record;
+  }
+
+  /** Against the representation vector the chunk matched through, else the body */
+  private similarity(chunk: CodeChunk): number {
+    const a = this.queryEmbedding;
+    const representation = chunk.matched_representation;
+    const b = (representation && representation !== 'body' && chunk.representation_embeddings?.[representation]) || chunk.embedding || [];
+    if (a.length === 0 || a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
+
+/**
+ * One-line rendering for `explain: true`, e.g.
+ * `vector #2 via signature (0.812) + lexical #1 (7.31) -> fused 0.99 | rerank 0.91 | mmr #3 critical_set | final 0.91`
+ */
+export function formatProvenance(provenance: ChunkProvenance): string {
+  const retrieval: string[] = [];
+  if (provenance.vector_rank) {
+    const via = provenance.representation && provenance.representation !== 'body' ? ` via ${provenance.representation}` : '';
+    retrieval.push(`vector #${provenance.vector_rank}${via} (${fixed(provenance.vector_similarity)})`);
+  }
+  if (provenance.lexical_rank) retrieval.push(`lexical #${provenance.lexical_rank} (${fixed(provenance.lexical_score, 2)})`);
+  if (provenance.symbol_rank) retrieval.push(`symbol #${provenance.symbol_rank}`);
+
+  const parts: string[] = [];
+  const nonRetrieval = provenance.sources.filter(source => !['vector', 'lexical', 'symbol'].includes(source));
+  if (retrieval.length > 0) {
+    parts.push(retrieval.join(' + ') + (provenance.fused_score !== undefined ? ` -> fused ${fixed(provenance.fused_score, 2)}` : ''));
+  }
+  if (nonRetrieval.length > 0 && !provenance.hop_path) {
+    parts.push(nonRetrieval.join(', '));
+  }
+  if (provenance.hop_path) {
+    const hops = provenance.hop_path.map(hop => `${hop.relationship} from ${hop.from}`).join(' <- ');
+    parts.push(`${nonRetrieval.join(', ') || 'hop'}: ${hops}`);
+  }
+  if (provenance.vector_similarity !== undefined && !provenance.vector_rank) {
+    parts.push(`similarity ${fixed(provenance.vector_similarity)}`);
+  }
+  if (provenance.rerank_score !== undefined) parts.push(`rerank ${fixed(provenance.rerank_score, 2)}`);
+  for (const boost of provenance.boosts) {
+    parts.push(`${boost.reason} ${boost.value >= 0 ? '+' : ''}${fixed(boost.value)}`);
+  }
+  if (provenance.mmr_step) parts.push(`mmr #${provenance.mmr_step.order} ${provenance.mmr_step.selected_by}`);
+  parts.push(`final ${fixed(provenance.final_score)}`);
+
+  return parts.join(' | ');
+}
+
+function fixed(value: number | undefined, digits: number = 3): string {
+  return value === undefined ? '?' : value.toFixed(digits);
+}
@@ -1,25 +1,45 @@
-import { QueryRequest, QueryResponse, SearchResponse, CodeChunk, ContextPackage, ContextGroup, MultiHopConfig } from './types';
-import { VectorStore } from './vector-store';
+import * as crypto from 'crypto';
+import { QueryRequest, QueryResponse, SearchResponse, CodeChunk, ContextPackage, ContextGroup, MultiHopConfig, StackTraceSearchRequest, StackTraceSearchResponse, SymbolNavigationRequest, FindDefinitionResponse, FindReferencesResponse, ImpactAnalysisRequest, ImpactAnalysisResponse, FindTestsRequest, FindTestsResponse } from './types';
+import { VectorStore, SimilaritySearchOptions } from './vector-store';
+import { buildSearchFilter, compileSearchFilter } from './search-filter';
+import { reciprocalRankFusion } from './rank-fusion';
+import { CrossEncoderReranker } from './cross-encoder-reranker';
+import { ProvenanceTracker } from './search-provenance';
+import { QueryAnalyzer } from './query-analyzer';
+import { StackTraceSearch } from './stack-trace-search';
+import { SymbolNavigator } from './symbol-navigator';
+import { ImpactAnalyzer } from './impact-analyzer';
+import { TestFinder } from './test-finder';
+import { summarizedChunk } from './chunk-summarizer';
+import { MMRConfigManager } from './mmr-config-manager';
+import { cortexConfig } from './env-config';
+import { getTokenCounter } from './token-counter';
 import { EmbeddingGenerator } from './embedder';
 import { RelationshipTraversalEngine } from './relationship-traversal-engine';
-import { RelationshipQuery, TraversalOptions, RelationshipType } from './relationship-types';
+import { RelationshipQuery, TraversalOptions, RelationshipType, RelationshipPath } from './relationship-types';
 import { log, warn, error } from './logging-utils';
 import { GuardedMMRSelector, MMRConfig, MMRResult } from './guarded-mmr-selector';
 import { SmartDependencyTraverser, DependencyChain, DependencyOptions } from './smart-dependency-chain';
 import { TelemetryCollector } from './telemetry-collector';
 
+// Candidates fetched from each retriever per requested chunk before fusion
+const HYBRID_POOL_MULTIPLIER = 3;
+
 export class SemanticSearcher {
   private relationshipEngine?: RelationshipTraversalEngine;
   private smartDependencyTraverser?: SmartDependencyTraverser;
   private mmrSelector: GuardedMMRSelector;
+  private presetSelectors: Map<string, GuardedMMRSelector> = new Map();
   private mmrEnabled: boolean;
+  private queryAnalyzer: QueryAnalyzer = new QueryAnalyzer();
   private telemetryCollector?: TelemetryCollector;
+  private reranker: CrossEncoderReranker;
 
   constructor(
     private vectorStore: VectorStore,
     private embedder: EmbeddingGenerator,
     private repositoryPath?: string,
-    mmrConfig?: Partial<MMRConfig>
+    private mmrConfig?: Partial<MMRConfig>
   ) {
     if (repositoryPath) {
       this.relationshipEngine = new RelationshipTraversalEngine(repositoryPath);
@@ -29,6 +49,10 @@ export class SemanticSearcher {
       this.telemetryCollector = new TelemetryCollector(repositoryPath);
     }
     
+    // Optional cross-encoder pass between ranking and MMR; no-op unless CORTEX_RERANK_ENABLED
+    this.reranker = new CrossEncoderReranker();
+    this.reranker.warmUp();
+
     // Initialize MMR selector with optional config
     this.mmrSelector = new GuardedMMRSelector(mmrConfig);
     this.mmrEnabled = process.env.CORTEX_MMR_ENABLED !== 'false'; // Enable by default
@@ -54,25 +78,73 @@ export class SemanticSearcher {
     }
   }
 
+  async getChunk(chunkId: string): Promise<CodeChunk | undefined> {
+    return this.vectorStore.getChunk(chunkId);
+  }
+
+  getIndexVersion(): string {
+    return this.vectorStore.getIndexVersion();
+  }
+
+  /** Frames of a pasted stack trace mapped to chunks, with call-graph callers and error handling */
+  async searchStackTrace(request: StackTraceSearchRequest): Promise<StackTraceSearchResponse> {
+    return new StackTraceSearch(this.vectorStore, this.relationshipEngine).search(request);
+  }
+
+  async findDefinition(request: SymbolNavigationRequest): Promise<FindDefinitionResponse> {
+    return new SymbolNavigator(this.vectorStore, this.relationshipEngine).findDefinition(request);
+  }
+
+  async findReferences(request: SymbolNavigationRequest): Promise<FindReferencesResponse> {
+    return new SymbolNavigator(this.vectorStore, this.relationshipEngine).findReferences(request);
+  }
+
+  /** Symbols downstream of a diff, commit range or symbol list, ranked by distance and strength */
+  async analyzeImpact(request: ImpactAnalysisRequest): Promise<ImpactAnalysisResponse> {
+    if (!this.relationshipEngine) {
+      throw new Error('Impact analysis needs the relationship graph');
+    }
+    return new ImpactAnalyzer(this.vectorStore, this.relationshipEngine, this.repositoryPath!).analyze(request);
+  }
+
+  /** Test cases exercising a symbol or the symbols of a file */
+  async findTests(request: FindTestsRequest): Promise<FindTestsResponse> {
+    if (!this.relationshipEngine) {
+      throw new Error('Finding tests needs the relationship graph');
+    }
+    return new TestFinder(this.vectorStore, this.relationshipEngine).findTests(request);
+  }
+
   async search(query: QueryRequest): Promise<SearchResponse> {
     const startTime = Date.now();
     const queryId = this.generateQueryId();
     
     try {
       log(`[Searcher] Searching for: ${query.task} queryId=${queryId.substring(0, 8)}`);
+
+      // Explicit context_mode / mmr_preset win over what the intent suggests
+      const analysis = this.queryAnalyzer.analyze(query.task);
+      query = {
+        ...query,
+        analysis,
+        context_mode: query.context_mode ?? analysis.context_mode,
+        mmr_preset: query.mmr_preset ?? analysis.mmr_preset
+      };
+      log(`[Searcher] Query analysis intent=${analysis.intent} symbols=${analysis.sub_queries.symbols.length} files=${analysis.file_paths.length} frames=${analysis.stack_frames.length} errors=${analysis.error_messages.length} context_mode=${query.context_mode} mmr_preset=${query.mmr_preset || 'configured'}`);
       
-      // Check if we should use smart dependency chain optimization
+      let response: SearchResponse;
       if (this.smartDependencyTraverser && query.multi_hop?.enabled) {
-        return await this.smartDependencyChainSearch(query, startTime, queryId);
-      }
-      
-      // Check if we should use relationship-aware search
-      if (this.relationshipEngine && query.multi_hop?.enabled) {
-        return await this.relationshipAwareSearch(query, startTime, queryId);
+        // Smart dependency chain optimization
+        response = await this.smartDependencyChainSearch(query, startTime, queryId);
+      } else if (this.relationshipEngine && query.multi_hop?.enabled) {
+        // Relationship-aware search
+        response = await this.relationshipAwareSearch(query, startTime, queryId);
+      } else {
+        // Fallback to traditional semantic search
+        response = await this.traditionalSemanticSearch(query, startTime, queryId);
       }
-      
-      // Fallback to traditional semantic search
-      return await this.traditionalSemanticSearch(query, startTime, queryId);
+
+      return query.context_mode === 'minimal' ? this.summarizeBodies(response) : response;
       
     } catch (err) {
       error(`[Searcher] Search failed error=${err instanceof Error ? err.message : err}`);
@@ -104,12 +176,15 @@ export class SemanticSearcher {
     log('[Searcher] Using smart dependency chain optimization for maximum context efficiency');
     
     // Generate query embedding for initial search
-    const queryEmbedding = await this.embedder.embed(query.task);
+    const queryEmbedding = await this.embedder.embed(query.analysis!.sub_queries.semantic);
+    const provenance = new ProvenanceTracker(queryEmbedding, query.recency_weight);
     
     // Perform initial semantic search to find seed chunks
-    const initialCandidates = await this.vectorStore.similaritySearch(
+    const initialCandidates = await this.retrieveCandidates(
+      query,
       queryEmbedding,
-      Math.min(query.max_chunks || 20, 8) // Limit seeds for dependency expansion
+      Math.min(query.max_chunks || 20, 8), // Limit seeds for dependency expansion
+      provenance
     );
     
     log(`[Searcher] Found seed chunks=${initialCandidates.length} for dependency chain analysis`);
@@ -137,32 +212,37 @@ export class SemanticSearcher {
     );
 
     log(`[Searcher] Dependency chain analysis complete: seeds=${dependencyChain.seedChunks.length} critical=${dependencyChain.criticalDependencies.length} forward=${dependencyChain.forwardDependencies.length} backward=${dependencyChain.backwardDependencies.length} contextual=${dependencyChain.contextualDependencies.length} completeness=${(dependencyChain.completenessScore * 100).toFixed(1)}%`);
+    this.recordDependencyProvenance(dependencyChain, provenance);
 
     // Combine all chunks with priority ordering
-    const allChunks = this.prioritizeDependencyChunks(dependencyChain, query);
+    const allChunks = this.applySearchFilter(this.prioritizeDependencyChunks(dependencyChain, query), query);
+    const pool = await this.withParentOutlines(allChunks);
 
     // Apply MMR optimization if enabled and we have more chunks than requested
-    let finalChunks = allChunks;
+    let finalChunks = pool;
     let mmrResult: MMRResult | undefined;
     
-    if (this.mmrEnabled && allChunks.length > (query.max_chunks || 20)) {
+    if (this.mmrEnabled && pool.length > (query.max_chunks || 20)) {
       try {
-        mmrResult = await this.mmrSelector.selectOptimalChunks(
-          allChunks,
+        mmrResult = await this.getMMRSelector(query).selectOptimalChunks(
+          pool,
           query,
           query.max_chunks || 20
         );
         finalChunks = mmrResult.selectedChunks;
+        provenance.recordMmrSteps(mmrResult.selectionSteps);
         
-        log(`[Searcher] MMR optimization applied to dependency chain original=${allChunks.length} selected=${finalChunks.length} tokens=${mmrResult.totalTokens} critical_coverage=${(mmrResult.criticalSetCoverage * 100).toFixed(1)}%`);
+        log(`[Searcher] MMR optimization applied to dependency chain original=${pool.length} selected=${finalChunks.length} tokens=${mmrResult.totalTokens} critical_coverage=${(mmrResult.criticalSetCoverage * 100).toFixed(1)}%`);
       } catch (mmrError) {
         warn(`[Searcher] MMR optimization failed on dependency chain, using priority ordering error=${mmrError instanceof Error ? mmrError.message : mmrError}`);
-        finalChunks = allChunks.slice(0, query.max_chunks || 20);
+        finalChunks = this.selectWithOutlines(pool, query.max_chunks || 20);
       }
     } else {
-      finalChunks = allChunks.slice(0, query.max_chunks || 20);
+      finalChunks = this.selectWithOutlines(pool, query.max_chunks || 20);
     }
 
+    finalChunks = await this.stitchSubChunks(finalChunks, this.contextTokenBudget(query));
+
     // Create enhanced context package with dependency chain insights
     const contextPackage = this.synthesizeDependencyChainContext(
       finalChunks,
@@ -197,12 +277,13 @@ export class SemanticSearcher {
                            dependencyChain.contextualDependencies.length,
         relationship_paths: dependencyChain.relationshipPaths.slice(0, 5)
       },
+      provenance: provenance.build(finalChunks),
       efficiency_score: mmrResult?.diversityScore || dependencyChain.completenessScore,
       metadata: {
         total_chunks_found: allChunks.length,
         query_time_ms: queryTime,
         chunks_returned: finalChunks.length,
-        token_estimate: mmrResult?.totalTokens || dependencyChain.totalTokens,
+        token_estimate: contextPackage.total_tokens || 0,
         efficiency_score: mmrResult?.diversityScore || dependencyChain.completenessScore,
         dependency_metrics: {
           completeness_score: dependencyChain.completenessScore,
@@ -212,6 +293,7 @@ export class SemanticSearcher {
           contextual_dependencies: dependencyChain.contextualDependencies.length,
           relationship_paths: dependencyChain.relationshipPaths.length
         },
+        query_analysis: query.analysis,
         mmr_metrics: mmrResult ? {
           critical_set_coverage: mmrResult.criticalSetCoverage,
           diversity_score: mmrResult.diversityScore,
@@ -226,12 +308,15 @@ export class SemanticSearcher {
     log('[Searcher] Using relationship-aware search');
     
     // Generate query embedding for initial search
-    const queryEmbedding = await this.embedder.embed(query.task);
+    const queryEmbedding = await this.embedder.embed(query.analysis!.sub_queries.semantic);
+    const provenance = new ProvenanceTracker(queryEmbedding, query.recency_weight);
     
     // Perform initial semantic search to find starting points
-    const initialCandidates = await this.vectorStore.similaritySearch(
+    const initialCandidates = await this.retrieveCandidates(
+      query,
       queryEmbedding,
-      Math.min(query.max_chunks || 20, 10) // Limit initial candidates for traversal
+      Math.min(query.max_chunks || 20, 10), // Limit initial candidates for traversal
+      provenance
     );
     
     log(`[Searcher] Found initial candidates=${initialCandidates.length}`);
@@ -243,7 +328,7 @@ export class SemanticSearcher {
     // Build relationship query
     const relationshipQuery: RelationshipQuery = {
       baseQuery: query.task,
-      focusSymbols: this.extractFocusSymbols(query.task),
+      focusSymbols: query.analysis!.sub_queries.symbols,
       relationshipTypes: this.mapMultiHopToRelationshipTypes(query.multi_hop!),
       traversalOptions: this.buildTraversalOptions(query.multi_hop!),
       includeContext: true,
@@ -264,38 +349,48 @@ export class SemanticSearcher {
     ]);
 
     // Retrieve all chunks
-    const allChunks = await this.retrieveChunksByIds(Array.from(allChunkIds));
-    
-    // Enhanced ranking with relationship information
-    const rankedResults = this.rankWithRelationships(
+    const allChunks = this.applySearchFilter(await this.retrieveChunksByIds(Array.from(allChunkIds)), query);
+    this.recordRelationshipHops(allChunks, relationshipResult.relationshipPaths, provenance);
+    
+    // Enhanced ranking with relationship information, refined by the cross-encoder over the
+    // whole pool; MMR or the fallback selection picks max_chunks from it
+    const maxChunks = query.max_chunks || 20;
+    const poolSize = Math.max(maxChunks * HYBRID_POOL_MULTIPLIER, cortexConfig.rerankEnabled ? cortexConfig.rerankTopN : 0);
+    const rerankResult = await this.reranker.rerank(query.analysis!.sub_queries.semantic, this.rankWithRelationships(
       allChunks,
       relationshipResult,
-      query,
-      queryEmbedding
-    );
+      queryEmbedding,
+      provenance
+    ).slice(0, poolSize));
+    const rankedResults = rerankResult.chunks;
+    provenance.recordRerank(rankedResults, rerankResult.metrics.applied, rerankResult.metrics.candidates);
+    const pool = await this.withParentOutlines(rankedResults);
 
     // Apply MMR optimization if enabled
-    let finalChunks = rankedResults;
+    let finalChunks = pool;
     let mmrResult: MMRResult | undefined;
     
-    if (this.mmrEnabled && rankedResults.length > (query.max_chunks || 20)) {
+    if (this.mmrEnabled && pool.length > (maxChunks)) {
       try {
-        mmrResult = await this.mmrSelector.selectOptimalChunks(
-          rankedResults,
+        mmrResult = await this.getMMRSelector(query).selectOptimalChunks(
+          pool,
           query,
-          query.max_chunks || 20
+          maxChunks
         );
         finalChunks = mmrResult.selectedChunks;
+        provenance.recordMmrSteps(mmrResult.selectionSteps);
         
-        log(`[Searcher] MMR optimization applied original=${rankedResults.length} selected=${finalChunks.length} tokens=${mmrResult.totalTokens} critical_coverage=${(mmrResult.criticalSetCoverage * 100).toFixed(1)}%`);
+        log(`[Searcher] MMR optimization applied original=${pool.length} selected=${finalChunks.length} tokens=${mmrResult.totalTokens} critical_coverage=${(mmrResult.criticalSetCoverage * 100).toFixed(1)}%`);
       } catch (mmrError) {
         warn(`[Searcher] MMR optimization failed, using fallback ranking error=${mmrError instanceof Error ? mmrError.message : mmrError}`);
-        finalChunks = rankedResults.slice(0, query.max_chunks || 20);
+        finalChunks = this.selectWithOutlines(pool, maxChunks);
       }
     } else {
-      finalChunks = rankedResults.slice(0, query.max_chunks || 20);
+      finalChunks = this.selectWithOutlines(pool, maxChunks);
     }
 
+    finalChunks = await this.stitchSubChunks(finalChunks, this.contextTokenBudget(query));
+
     // Synthesize enhanced context package
     const contextPackage = this.synthesizeRelationshipContext(
       finalChunks,
@@ -313,19 +408,22 @@ export class SemanticSearcher {
       query_time_ms: queryTime,
       total_chunks_considered: allChunks.length,
       relationship_paths: relationshipResult.relationshipPaths.slice(0, 5), // Include top paths
+      provenance: provenance.build(finalChunks),
       efficiency_score: mmrResult?.diversityScore || relationshipResult.efficiencyScore,
       metadata: {
         total_chunks_found: allChunks.length,
         query_time_ms: queryTime,
         chunks_returned: finalChunks.length,
-        token_estimate: mmrResult?.totalTokens || contextPackage.total_tokens || 0,
+        token_estimate: contextPackage.total_tokens || 0,
         efficiency_score: mmrResult?.diversityScore || relationshipResult.efficiencyScore,
         mmr_metrics: mmrResult ? {
           critical_set_coverage: mmrResult.criticalSetCoverage,
           diversity_score: mmrResult.diversityScore,
           budget_utilization: mmrResult.budgetUtilization,
           selection_time_ms: mmrResult.selectionTime
-        } : undefined
+        } : undefined,
+        rerank_metrics: rerankResult.metrics,
+        query_analysis: query.analysis
       }
     };
   }
@@ -334,12 +432,17 @@ export class SemanticSearcher {
     log('[Searcher] Using traditional semantic search');
     
     // Generate query embedding
-    const queryEmbedding = await this.embedder.embed(query.task);
+    const queryEmbedding = await this.embedder.embed(query.analysis!.sub_queries.semantic);
+    const provenance = new ProvenanceTracker(queryEmbedding, query.recency_weight);
     
-    // Perform initial semantic search
-    const candidates = await this.vectorStore.similaritySearch(
+    // Retrieve more than max_chunks so the reranker and MMR have a pool to choose from
+    const maxChunks = query.max_chunks || 20;
+    const poolSize = Math.max(maxChunks * HYBRID_POOL_MULTIPLIER, cortexConfig.rerankEnabled ? cortexConfig.rerankTopN : 0);
+    const candidates = await this.retrieveCandidates(
+      query,
       queryEmbedding,
-      query.max_chunks || 20
+      poolSize,
+      provenance
     );
     
     log(`[Searcher] Found candidate chunks=${candidates.length}`);
@@ -347,38 +450,48 @@ export class SemanticSearcher {
     // Apply legacy multi-hop expansion if needed
     let expandedCandidates = candidates;
     if (query.multi_hop?.enabled) {
-      expandedCandidates = await this.expandWithRelationships(
-        candidates,
-        query.multi_hop
+      // Expansion follows the top max_chunks seeds; the rest of the pool is kept as is
+      const expanded = await this.expandWithRelationships(candidates.slice(0, maxChunks), query.multi_hop, provenance);
+      const expandedIds = new Set(expanded.map(chunk => chunk.chunk_id));
+      expandedCandidates = this.applySearchFilter(
+        [...expanded, ...candidates.slice(maxChunks).filter(chunk => !expandedIds.has(chunk.chunk_id))],
+        query
       );
       log(`[Searcher] Expanded to chunks=${expandedCandidates.length} via relationships`);
     }
     
-    // Rank and filter results
-    const rankedResults = this.rankResults(
-      expandedCandidates,
-      query
-    );
+    const rerankResult = await this.reranker.rerank(query.analysis!.sub_queries.semantic, expandedCandidates);
+    provenance.recordRerank(rerankResult.chunks, rerankResult.metrics.applied, rerankResult.metrics.candidates);
+
+    // Order the whole pool; MMR or the fallback selection picks max_chunks from it
+    const rankedResults = this.rankResults(rerankResult.chunks);
+    const pool = await this.withParentOutlines(rankedResults);
     
     // Apply MMR optimization if enabled for traditional search too
-    let finalChunks = rankedResults;
+    let finalChunks = pool;
     let mmrResult: MMRResult | undefined;
     
-    if (this.mmrEnabled && rankedResults.length > (query.max_chunks || 20)) {
+    if (this.mmrEnabled && pool.length > maxChunks) {
       try {
-        mmrResult = await this.mmrSelector.selectOptimalChunks(
-          rankedResults,
+        mmrResult = await this.getMMRSelector(query).selectOptimalChunks(
+          pool,
           query,
-          query.max_chunks || 20
+          maxChunks
         );
         finalChunks = mmrResult.selectedChunks;
+        provenance.recordMmrSteps(mmrResult.selectionSteps);
         
-        log(`[Searcher] MMR optimization applied (traditional) original=${rankedResults.length} selected=${finalChunks.length} tokens=${mmrResult.totalTokens} critical_coverage=${(mmrResult.criticalSetCoverage * 100).toFixed(1)}%`);
+        log(`[Searcher] MMR optimization applied (traditional) original=${pool.length} selected=${finalChunks.length} tokens=${mmrResult.totalTokens} critical_coverage=${(mmrResult.criticalSetCoverage * 100).toFixed(1)}%`);
       } catch (mmrError) {
         warn(`[Searcher] MMR optimization failed (traditional), using fallback ranking error=${mmrError instanceof Error ? mmrError.message : mmrError}`);
+        finalChunks = this.selectWithOutlines(pool, maxChunks);
       }
+    } else {
+      finalChunks = this.selectWithOutlines(pool, maxChunks);
     }
     
+    finalChunks = await this.stitchSubChunks(finalChunks, this.contextTokenBudget(query));
+
     // Synthesize context package
     const contextPackage = this.synthesizeContext(
       finalChunks,
@@ -394,32 +507,46 @@ export class SemanticSearcher {
       context_package: contextPackage,
       query_time_ms: queryTime,
       total_chunks_considered: expandedCandidates.length,
+      provenance: provenance.build(finalChunks),
       metadata: {
         total_chunks_found: expandedCandidates.length,
         query_time_ms: queryTime,
         chunks_returned: finalChunks.length,
-        token_estimate: mmrResult?.totalTokens || contextPackage.total_tokens || 0,
+        token_estimate: contextPackage.total_tokens || 0,
         efficiency_score: mmrResult?.diversityScore || contextPackage.token_efficiency || 0.7,
         mmr_metrics: mmrResult ? {
           critical_set_coverage: mmrResult.criticalSetCoverage,
           diversity_score: mmrResult.diversityScore,
           budget_utilization: mmrResult.budgetUtilization,
           selection_time_ms: mmrResult.selectionTime
-        } : undefined
+        } : undefined,
+        rerank_metrics: rerankResult.metrics,
+        query_analysis: query.analysis
       }
     };
   }
 
   private async expandWithRelationships(
     candidates: CodeChunk[],
-    multiHopConfig: MultiHopConfig
+    multiHopConfig: MultiHopConfig,
+    provenance: ProvenanceTracker
   ): Promise<CodeChunk[]> {
     const expanded = new Set(candidates);
     const processedFiles = new Set<string>();
+    const seedIds = new Set(candidates.map(c => c.chunk_id));
     
     for (const chunk of candidates) {
       if (processedFiles.has(chunk.file_path)) continue;
       processedFiles.add(chunk.file_path);
+
+      const hop = (related: CodeChunk, relationship: string) => {
+        if (seedIds.has(related.chunk_id)) return;
+        provenance.recordHop(
+          related.chunk_id,
+          relationship === 'co_change' ? 'co_change' : 'relationship',
+          [{ from: chunk.chunk_id, to: related.chunk_id, relationship }]
+        );
+      };
       
       // Follow relationships based on configured types
       for (const relType of multiHopConfig.relationship_types) {
@@ -427,28 +554,33 @@ export class SemanticSearcher {
           case 'imports':
             if (chunk.relationships.imports.length > 0) {
               const importedChunks = await this.findRelatedChunks(chunk.relationships.imports, 'exports');
-              importedChunks.forEach(c => expanded.add(c));
+              importedChunks.forEach(c => { expanded.add(c); hop(c, 'imports'); });
             }
             break;
             
           case 'calls':
             if (chunk.relationships.calls.length > 0) {
               const calledChunks = await this.findRelatedChunks(chunk.relationships.calls, 'symbol_name');
-              calledChunks.forEach(c => expanded.add(c));
+              calledChunks.forEach(c => { expanded.add(c); hop(c, 'calls'); });
+            }
+            // Doc sections point at the code their examples use
+            if (chunk.relationships.mentions?.length) {
+              const mentionedChunks = await this.findRelatedChunks(chunk.relationships.mentions, 'symbol_name');
+              mentionedChunks.forEach(c => { expanded.add(c); hop(c, 'mentions'); });
             }
             break;
             
           case 'co_change':
             if (chunk.git_metadata?.co_change_files.length > 0) {
               const coChangeChunks = await this.findChunksByFiles(chunk.git_metadata.co_change_files);
-              coChangeChunks.forEach(c => expanded.add(c));
+              coChangeChunks.forEach(c => { expanded.add(c); hop(c, 'co_change'); });
             }
             break;
             
           case 'data_flow':
             if (chunk.relationships.data_flow.length > 0) {
               const dataFlowChunks = await this.findRelatedChunks(chunk.relationships.data_flow, 'symbol_name');
-              dataFlowChunks.forEach(c => expanded.add(c));
+              dataFlowChunks.forEach(c => { expanded.add(c); hop(c, 'data_flow'); });
             }
             break;
         }
@@ -458,6 +590,175 @@ export class SemanticSearcher {
     return Array.from(expanded);
   }
 
+  /**
+   * Add the class outline of every candidate method to the pool, so selection counts
+   * outlines against max_chunks and the token budget like any other chunk. MMR takes
+   * an outline right after its method; selectWithOutlines does the same without MMR.
+   */
+  private async withParentOutlines(chunks: CodeChunk[]): Promise<CodeChunk[]> {
+    const included = new Set(chunks.map(c => c.chunk_id));
+    const outlines: CodeChunk[] = [];
+
+    for (const chunk of chunks) {
+      if (!chunk.parent_symbol) continue;
+      const outline = await this.vectorStore.getParentChunk(chunk);
+      if (outline && !included.has(outline.chunk_id)) {
+        outlines.push(outline);
+        included.add(outline.chunk_id);
+      }
+    }
+
+    if (outlines.length > 0) {
+      log(`[Searcher] Added class outlines=${outlines.length} for candidate methods`);
+    }
+
+    return outlines.length > 0 ? [...chunks, ...outlines] : chunks;
+  }
+
+  /** First `limit` chunks in pool order, each method followed by its class outline while room remains */
+  private selectWithOutlines(pool: CodeChunk[], limit: number): CodeChunk[] {
+    const outlines = new Map<string, CodeChunk>();
+    for (const chunk of pool) {
+      if (chunk.chunk_type === 'class' && chunk.symbol_name) {
+        outlines.set(`${chunk.file_path}:${chunk.symbol_name}`, chunk);
+      }
+    }
+
+    const selected: CodeChunk[] = [];
+    const included = new Set<string>();
+    for (const chunk of pool) {
+      if (selected.length >= limit) break;
+      if (included.has(chunk.chunk_id)) continue;
+      selected.push(chunk);
+      included.add(chunk.chunk_id);
+
+      const outline = chunk.parent_symbol ? outlines.get(`${chunk.file_path}:${chunk.parent_symbol}`) : undefined;
+      if (outline && !included.has(outline.chunk_id) && selected.length < limit) {
+        selected.push(outline);
+        included.add(outline.chunk_id);
+      }
+    }
+    return selected;
+  }
+
+  /**
+   * Pieces of a split chunk are indexed separately; when any are selected, return one
+   * chunk per contiguous run of them, with the overlap removed. Pieces between and
+   * next to the selected ones are added only while `tokenBudget` has room for them.
+   */
+  private async stitchSubChunks(chunks: CodeChunk[], tokenBudget: number): Promise<CodeChunk[]> {
+    const groups = new Map<string, CodeChunk[]>();
+    for (const chunk of chunks) {
+      if (chunk.sub_chunk) {
+        const key = `${chunk.file_path}:${chunk.sub_chunk.parent_chunk_id}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(chunk);
+      }
+    }
+    if (groups.size === 0) {
+      return chunks;
+    }
+
+    const counter = getTokenCounter();
+    let usedTokens = chunks.reduce((sum, chunk) => sum + counter.countChunk(chunk), 0);
+
+    // Each selected piece maps to the stitched chunk that replaces it, or to itself
+    const replacements = new Map<string, CodeChunk>();
+    for (const selected of groups.values()) {
+      const siblings = await this.vectorStore.getSubChunkSiblings(selected[0]);
+      const selectedIndices = new Set(selected.map(chunk => chunk.sub_chunk!.index));
+      const low = Math.min(...selectedIndices);
+      const high = Math.max(...selectedIndices);
+
+      // Gaps between selected pieces first, then one neighbour either side
+      const extras = siblings
+        .filter(sibling => !selectedIndices.has(sibling.sub_chunk!.index))
+        .filter(sibling => sibling.sub_chunk!.index >= low - 1 && sibling.sub_chunk!.index <= high + 1)
+        .sort((a, b) => Number(this.isOutside(a, low, high)) - Number(this.isOutside(b, low, high)));
+      const covered = new Set(selectedIndices);
+      for (const extra of extras) {
+        const tokens = counter.countChunk(extra);
+        if (usedTokens + tokens > tokenBudget) break;
+        usedTokens += tokens;
+        covered.add(extra.sub_chunk!.index);
+      }
+
+      for (const run of this.contiguousRuns(siblings.filter(sibling => covered.has(sibling.sub_chunk!.index)))) {
+        const runSelected = selected.filter(chunk => run.some(piece => piece.chunk_id === chunk.chunk_id));
+        const stitched = run.length === 1 ? runSelected[0] || run[0] : this.stitchRun(run, runSelected);
+        runSelected.forEach(chunk => replacements.set(chunk.chunk_id, stitched));
+      }
+    }
+
+    // A stitched chunk takes the place of the first selected piece it covers
+    const result: CodeChunk[] = [];
+    const emitted = new Set<string>();
+    for (const chunk of chunks) {
+      const replacement = replacements.get(chunk.chunk_id) || chunk;
+      if (emitted.has(replacement.chunk_id)) continue;
+      result.push(replacement);
+      emitted.add(replacement.chunk_id);
+    }
+
+    log(`[Searcher] Stitched split chunks groups=${groups.size} chunks=${chunks.length}->${result.length}`);
+    return result;
+  }
+
+  private isOutside(piece: CodeChunk, low: number, high: number): boolean {
+    return piece.sub_chunk!.index < low || piece.sub_chunk!.index > high;
+  }
+
+  /** Pieces sorted by index, split wherever an index is missing */
+  private contiguousRuns(pieces: CodeChunk[]): CodeChunk[][] {
+    const runs: CodeChunk[][] = [];
+    for (const piece of pieces) {
+      const run = runs[runs.length - 1];
+      if (run && run[run.length - 1].sub_chunk!.index === piece.sub_chunk!.index - 1) {
+        run.push(piece);
+      } else {
+        runs.push([piece]);
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * One chunk over a run of adjacent pieces; pieces keep their original lines, so overlap
+   * collapses by line number. The id names the run (the parent's id when it covers every
+   * piece) and the hash is of the stitched content, so neither passes for a single piece.
+   */
+  private stitchRun(run: CodeChunk[], selected: CodeChunk[]): CodeChunk {
+    const linesByNumber = new Map<number, string>();
+    for (const piece of run) {
+      piece.content.split('\n').forEach((line, offset) => linesByNumber.set(piece.start_line + offset, line));
+    }
+    const first = run[0];
+    const last = run[run.length - 1];
+    const content = Array.from(linesByNumber.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([, line]) => line)
+      .join('\n');
+
+    const { parent_chunk_id: parentId, total } = first.sub_chunk!;
+    const wholeChunk = first.sub_chunk!.index === 1 && last.sub_chunk!.index === total;
+
+    return {
+      ...first,
+      chunk_id: wholeChunk ? parentId : `${parentId}#${first.sub_chunk!.index}-${last.sub_chunk!.index}`,
+      end_line: last.end_line,
+      content,
+      content_hash: crypto.createHash('sha256').update(content).digest('hex'),
+      relevance_score: Math.max(...selected.map(chunk => chunk.relevance_score || 0)),
+      similarity_score: Math.max(...selected.map(chunk => chunk.similarity_score || 0)),
+      sub_chunk: { ...first.sub_chunk!, next_chunk_id: last.sub_chunk!.next_chunk_id }
+    };
+  }
+
+  /** Tokens the returned context may use: the caller's token_budget, else the MMR selector's budget */
+  private contextTokenBudget(query: QueryRequest): number {
+    return query.token_budget ?? this.getMMRSelector(query).getTokenBudget();
+  }
+
   private async findRelatedChunks(symbols: string[], relationshipType: 'exports' | 'symbol_name'): Promise<CodeChunk[]> {
     const related: CodeChunk[] = [];
     
@@ -480,11 +781,86 @@ export class SemanticSearcher {
     return chunks;
   }
 
-  private rankResults(chunks: CodeChunk[], query: QueryRequest): CodeChunk[] {
-    // Sort by similarity score (assuming chunks have similarity scores from vector search)
-    return chunks
-      .sort((a, b) => (b as any).similarity_score - (a as any).similarity_score)
-      .slice(0, query.max_chunks || 20);
+  /**
+   * Vector, BM25 and exact symbol candidates merged with reciprocal-rank fusion, each
+   * retriever running the sub-query the analyser wrote for it. Each fetches a deeper
+   * pool than `limit` so chunks ranked moderately by several can overtake chunks
+   * ranked well by only one.
+   */
+  private async retrieveCandidates(
+    query: QueryRequest,
+    queryEmbedding: number[],
+    limit: number,
+    provenance: ProvenanceTracker
+  ): Promise<CodeChunk[]> {
+    const options = this.buildSimilarityOptions(query);
+    const { sub_queries: subQueries, stack_frames: stackFrames } = query.analysis!;
+    const vectorWeight = query.retrieval_weights?.vector ?? cortexConfig.hybridVectorWeight;
+    const lexicalWeight = query.retrieval_weights?.lexical ?? cortexConfig.hybridLexicalWeight;
+    const hasSymbols = subQueries.symbols.length > 0 || stackFrames.length > 0;
+    const symbolWeight = hasSymbols ? query.retrieval_weights?.symbol ?? cortexConfig.hybridSymbolWeight : 0;
+
+    if (!cortexConfig.hybridSearchEnabled || (lexicalWeight <= 0 && symbolWeight <= 0)) {
+      const results = await this.vectorStore.similaritySearch(queryEmbedding, limit, options);
+      provenance.recordRanking('vector', results);
+      return results;
+    }
+
+    const poolSize = limit * HYBRID_POOL_MULTIPLIER;
+    const [vectorResults, lexicalResults, symbolResults] = await Promise.all([
+      vectorWeight > 0 ? this.vectorStore.similaritySearch(queryEmbedding, poolSize, options) : Promise.resolve([]),
+      lexicalWeight > 0 ? this.vectorStore.lexicalSearch(subQueries.lexical, poolSize, options) : Promise.resolve([]),
+      symbolWeight > 0 ? this.vectorStore.symbolSearch(subQueries.symbols, stackFrames, poolSize, options) : Promise.resolve([])
+    ]);
+
+    const fused = reciprocalRankFusion([
+      { chunks: vectorResults, weight: vectorWeight },
+      { chunks: lexicalResults, weight: lexicalWeight },
+      { chunks: symbolResults, weight: symbolWeight }
+    ], cortexConfig.rrfK);
+
+    provenance.recordRanking('vector', vectorResults);
+    provenance.recordRanking('lexical', lexicalResults);
+    provenance.recordRanking('symbol', symbolResults);
+    provenance.recordFusion(fused);
+
+    log(`[Searcher] Hybrid retrieval vector=${vectorResults.length} lexical=${lexicalResults.length} symbol=${symbolResults.length} fused=${fused.length} weights=${vectorWeight}/${lexicalWeight}/${symbolWeight}`);
+    return fused.slice(0, limit);
+  }
+
+  /** Selector for the query's MMR preset; explicit MMR configuration still overrides the preset */
+  private getMMRSelector(query: QueryRequest): GuardedMMRSelector {
+    if (!query.mmr_preset) return this.mmrSelector;
+
+    let selector = this.presetSelectors.get(query.mmr_preset);
+    if (!selector) {
+      const presetConfig = MMRConfigManager.getPresetConfig(query.mmr_preset);
+      if (!presetConfig) {
+        warn(`[Searcher] Unknown MMR preset, using configured selection preset=${query.mmr_preset}`);
+        return this.mmrSelector;
+      }
+      selector = new GuardedMMRSelector({ ...presetConfig, ...this.mmrConfig });
+      this.presetSelectors.set(query.mmr_preset, selector);
+    }
+    return selector;
+  }
+
+  private buildSimilarityOptions(query: QueryRequest): SimilaritySearchOptions {
+    return {
+      filter: buildSearchFilter(query),
+      recencyWeight: query.recency_weight
+    };
+  }
+
+  /** Chunks pulled in by relationship expansion must honour the same filter as the seeds */
+  private applySearchFilter(chunks: CodeChunk[], query: QueryRequest): CodeChunk[] {
+    const accept = compileSearchFilter(buildSearchFilter(query));
+    return accept ? chunks.filter(accept) : chunks;
+  }
+
+  private rankResults(chunks: CodeChunk[]): CodeChunk[] {
+    // Reranked, fused or cosine relevance; chunks added by expansion without one go last
+    return [...chunks].sort((a, b) => (b.relevance_score ?? 0) - (a.relevance_score ?? 0));
   }
 
   private synthesizeContext(chunks: CodeChunk[], mode: string, mmrResult?: MMRResult): ContextPackage {
@@ -532,7 +908,7 @@ export class SemanticSearcher {
         summary,
       groups: groups.sort((a, b) => b.importance_score - a.importance_score),
       related_files: Array.from(fileGroups.keys()),
-      total_tokens: mmrResult?.totalTokens || this.estimateTokens({ summary, groups, related_files: Array.from(fileGroups.keys()) }),
+      total_tokens: this.estimateTokens({ summary, groups, related_files: Array.from(fileGroups.keys()) }),
       token_efficiency: tokenEfficiency
     };
   }
@@ -571,18 +947,38 @@ export class SemanticSearcher {
     return parts.join('. ') + '.';
   }
 
+  /** `minimal` context_mode: chunks with an AST summary return it instead of their body */
+  private summarizeBodies(response: SearchResponse): SearchResponse {
+    if (!response.chunks?.some(chunk => chunk.summary)) return response;
+
+    const summarized = new Map(response.chunks.map(chunk => [chunk.chunk_id, summarizedChunk(chunk)]));
+    const swap = (chunk: CodeChunk) => summarized.get(chunk.chunk_id) || chunk;
+    const contextPackage: ContextPackage = {
+      ...response.context_package,
+      groups: response.context_package.groups.map(group => ({ ...group, chunks: group.chunks.map(swap) }))
+    };
+    contextPackage.total_tokens = this.estimateTokens(contextPackage);
+
+    return {
+      ...response,
+      chunks: response.chunks.map(swap),
+      context_package: contextPackage,
+      metadata: { ...response.metadata, token_estimate: contextPackage.total_tokens }
+    };
+  }
+
   private estimateTokens(contextPackage: ContextPackage): number {
-    // Rough token estimation: ~4 characters per token
-    let totalChars = contextPackage.summary.length;
+    const counter = getTokenCounter();
+    let tokens = counter.count(contextPackage.summary);
     
     for (const group of contextPackage.groups) {
-      totalChars += group.title.length + group.description.length;
+      tokens += counter.count(group.title) + counter.count(group.description);
       for (const chunk of group.chunks) {
-        totalChars += chunk.content.length;
+        tokens += counter.countChunk(chunk);
       }
     }
     
-    return Math.ceil(totalChars / 4);
+    return tokens;
   }
 
   private calculateEfficiency(contextPackage: ContextPackage): number {
@@ -618,26 +1014,6 @@ export class SemanticSearcher {
     };
   }
 
-  private extractFocusSymbols(query: string): string[] {
-    // Extract potential function/class names from query
-    const words = query.toLowerCase().split(/\s+/);
-    const focusSymbols: string[] = [];
-
-    // Look for patterns like "function X", "class Y", "method Z"
-    for (let i = 0; i < words.length - 1; i++) {
-      if (['function', 'class', 'method', 'component', 'service'].includes(words[i])) {
-        focusSymbols.push(words[i + 1]);
-      }
-    }
-
-    // Look for camelCase or PascalCase identifiers
-    const identifierPattern = /\b[a-z][a-zA-Z0-9]*|[A-Z][a-zA-Z0-9]*/g;
-    const identifiers = query.match(identifierPattern) || [];
-    focusSymbols.push(...identifiers.filter(id => id.length > 2));
-
-    return [...new Set(focusSymbols)]; // Remove duplicates
-  }
-
   private mapMultiHopToRelationshipTypes(multiHop: MultiHopConfig): RelationshipType[] {
     const typeMap: Record<string, RelationshipType> = {
       'calls': 'calls',
@@ -682,8 +1058,8 @@ export class SemanticSearcher {
   private rankWithRelationships(
     chunks: CodeChunk[],
     relationshipResult: any,
-    query: QueryRequest,
-    queryEmbedding: number[]
+    queryEmbedding: number[],
+    provenance: ProvenanceTracker
   ): CodeChunk[] {
     // Enhanced ranking that combines semantic similarity with relationship strength
     return chunks
@@ -699,6 +1075,7 @@ export class SemanticSearcher {
           const avgPathStrength = chunkInPaths.reduce((sum: number, path: any) => 
             sum + path.totalStrength, 0) / chunkInPaths.length;
           score += avgPathStrength * 0.3; // 30% boost from relationship strength
+          provenance.recordBoost(chunk.chunk_id, 'relationship_path_strength', avgPathStrength * 0.3);
         }
         
         // Boost score if chunk is in high-importance context group
@@ -710,12 +1087,36 @@ export class SemanticSearcher {
           const avgGroupImportance = chunkInGroups.reduce((sum: number, group: any) => 
             sum + group.importance, 0) / chunkInGroups.length;
           score += avgGroupImportance * 0.2; // 20% boost from group importance
+          provenance.recordBoost(chunk.chunk_id, 'context_group_importance', avgGroupImportance * 0.2);
         }
         
         return { ...chunk, enhanced_score: score };
       })
-      .sort((a, b) => (b as any).enhanced_score - (a as any).enhanced_score)
-      .slice(0, query.max_chunks || 20);
+      .sort((a, b) => (b as any).enhanced_score - (a as any).enhanced_score);
+  }
+
+  /**
+   * Hop path to each chunk along the traversal paths: symbols[i] -> symbols[i + 1]
+   * via relationships[i], truncated at the chunk's position in the path.
+   */
+  private recordRelationshipHops(
+    chunks: CodeChunk[],
+    paths: RelationshipPath[],
+    provenance: ProvenanceTracker
+  ): void {
+    for (const chunk of chunks) {
+      for (const path of paths) {
+        const position = path.symbols.findIndex(symbolId => symbolId.includes(chunk.chunk_id));
+        if (position <= 0) continue;
+
+        provenance.recordHop(chunk.chunk_id, 'relationship', path.symbols.slice(0, position).map((symbolId, i) => ({
+          from: symbolId,
+          to: path.symbols[i + 1],
+          relationship: path.relationships[i] || path.pathType,
+          strength: path.totalStrength
+        })));
+      }
+    }
   }
 
   private synthesizeRelationshipContext(
@@ -768,7 +1169,7 @@ export class SemanticSearcher {
       groups: groups.sort((a, b) => b.importance_score - a.importance_score),
       related_files: [...new Set(chunks.map(c => c.file_path))],
       relationship_insights: this.generateRelationshipInsights(relationshipResult),
-      total_tokens: mmrResult?.totalTokens || relationshipResult.totalTokens || this.estimateTokens({ summary, groups } as ContextPackage),
+      total_tokens: this.estimateTokens({ summary, groups } as ContextPackage),
       token_efficiency: mmrResult ? 
         mmrResult.diversityScore * mmrResult.budgetUtilization :
         relationshipResult.efficiencyScore || 0.7
@@ -860,6 +1261,26 @@ export class SemanticSearcher {
     return query.token_budget || 4000; // Default 4K tokens for dependency analysis
   }
 
+  private recordDependencyProvenance(dependencyChain: DependencyChain, provenance: ProvenanceTracker): void {
+    for (const chunk of [
+      ...dependencyChain.criticalDependencies,
+      ...dependencyChain.forwardDependencies,
+      ...dependencyChain.backwardDependencies,
+      ...dependencyChain.contextualDependencies
+    ]) {
+      provenance.addSource(chunk.chunk_id, 'dependency');
+    }
+
+    for (const path of dependencyChain.relationshipPaths) {
+      provenance.recordHop(path.toChunk, 'dependency', [{
+        from: path.fromChunk,
+        to: path.toChunk,
+        relationship: path.relationshipType,
+        strength: path.importance
+      }]);
+    }
+  }
+
   private prioritizeDependencyChunks(dependencyChain: DependencyChain, query: QueryRequest): CodeChunk[] {
     // Priority order: seeds -> critical -> forward -> backward -> contextual
     const prioritizedChunks: CodeChunk[] = [];
@@ -982,7 +1403,7 @@ export class SemanticSearcher {
       groups: groups.sort((a, b) => b.importance_score - a.importance_score),
       related_files: [...new Set(chunks.map(c => c.file_path))],
       dependency_insights: this.generateDependencyInsights(dependencyChain),
-      total_tokens: mmrResult?.totalTokens || dependencyChain.totalTokens,
+      total_tokens: this.estimateTokens({ summary, groups } as ContextPackage),
       token_efficiency: mmrResult ? 
         mmrResult.diversityScore * mmrResult.budgetUtilization :
         dependencyChain.completenessScore,
@@ -172,7 +172,7 @@ export class SemanticWatcher {
   private isCodeFile(filePath: string): boolean {
     // Expanded to match staging manager's text file detection
     const codeExtensions = [
-      '.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.cpp', '.c', '.h',
+      '.ts', '.js', '.tsx', '.jsx', '.mts', '.cts', '.mjs', '.cjs', '.py', '.java', '.cpp', '.c', '.h',
       '.cs', '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala',
       '.html', '.css', '.scss', '.less', '.vue', '.svelte',
       '.json', '.xml', '.yaml', '.yml', '.toml', '.ini',
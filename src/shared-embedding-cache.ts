@@ -1,6 +1,8 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { log, warn, error } from './logging-utils';
+import { EmbeddingCompression, QuantizedVector, ScalarQuantizer } from './embedding-quantizer';
+import { cortexConfig } from './env-config';
 
 interface CachedEmbedding {
   embedding: number[];
@@ -10,11 +12,18 @@ interface CachedEmbedding {
   lastAccessed: number;
 }
 
+// On disk the embedding may be replaced by its int8 encoding
+type PersistedCachedEmbedding = Omit<CachedEmbedding, 'embedding'> & {
+  embedding?: number[];
+  quantized?: QuantizedVector;
+};
+
 interface CacheMetadata {
   version: string;
   totalEntries: number;
   lastUpdated: number;
   maxSize: number;
+  compression?: EmbeddingCompression;
 }
 
 /**
@@ -31,6 +40,7 @@ export class SharedEmbeddingCache {
   private readonly maxSize: number;
   private readonly evictionThreshold: number;
   private readonly evictionPercentage: number;
+  private readonly quantizer: ScalarQuantizer | null;
   
   // Auto-save configuration
   private saveInterval?: NodeJS.Timeout;
@@ -42,11 +52,14 @@ export class SharedEmbeddingCache {
     cacheDir: string, 
     maxSize: number = 10000,
     evictionThreshold: number = 0.8,
-    evictionPercentage: number = 0.2
+    evictionPercentage: number = 0.2,
+    compression: EmbeddingCompression = cortexConfig.embeddingCompression
   ) {
     this.maxSize = maxSize;
     this.evictionThreshold = evictionThreshold;
     this.evictionPercentage = evictionPercentage;
+    // PQ needs a trained codebook, so the cache stores int8 for any compressed format
+    this.quantizer = compression === 'none' ? null : new ScalarQuantizer();
     
     // Create cache file paths
     this.cacheFilePath = path.join(cacheDir, 'shared-embedding-cache.json');
@@ -231,11 +244,17 @@ export class SharedEmbeddingCache {
         const cacheContent = await fs.readFile(this.cacheFilePath, 'utf-8');
         const cacheData = JSON.parse(cacheContent);
 
-        // Reconstruct Map from serialized data
+        // Reconstruct Map from serialized data; int8 entries are readable whatever the current setting
+        const scalarQuantizer = this.quantizer || new ScalarQuantizer();
         this.cache.clear();
-        for (const [key, value] of Object.entries(cacheData)) {
-          if (this.validateCacheEntry(value as CachedEmbedding)) {
-            this.cache.set(key, value as CachedEmbedding);
+        for (const [key, value] of Object.entries(cacheData as Record<string, PersistedCachedEmbedding>)) {
+          const { quantized, ...entry } = value;
+          const cached = {
+            ...entry,
+            embedding: quantized ? scalarQuantizer.decode(quantized) : entry.embedding
+          } as CachedEmbedding;
+          if (this.validateCacheEntry(cached)) {
+            this.cache.set(key, cached);
           }
         }
 
@@ -261,15 +280,24 @@ export class SharedEmbeddingCache {
       await fs.mkdir(path.dirname(this.cacheFilePath), { recursive: true });
 
       // Save cache data
-      const cacheData = Object.fromEntries(this.cache.entries());
+      const cacheData: Record<string, PersistedCachedEmbedding> = {};
+      for (const [key, cached] of this.cache.entries()) {
+        if (this.quantizer) {
+          const { embedding, ...entry } = cached;
+          cacheData[key] = { ...entry, quantized: this.quantizer.encode(embedding) };
+        } else {
+          cacheData[key] = cached;
+        }
+      }
       await fs.writeFile(this.cacheFilePath, JSON.stringify(cacheData, null, 2));
 
       // Save metadata
       const metadata: CacheMetadata = {
-        version: '1.0',
+        version: '1.1',
         totalEntries: this.cache.size,
         lastUpdated: Date.now(),
-        maxSize: this.maxSize
+        maxSize: this.maxSize,
+        compression: this.quantizer ? 'int8' : 'none'
       };
       await fs.writeFile(this.metadataFilePath, JSON.stringify(metadata, null, 2));
 
@@ -27,6 +27,12 @@ import {
   LightweightCodeIntelligenceHandler,
   LightweightRelationshipAnalysisHandler,
   LightweightTraceExecutionPathHandler,
+  LightweightSearchStackTraceHandler,
+  LightweightFindDefinitionHandler,
+  LightweightFindReferencesHandler,
+  LightweightImpactAnalysisHandler,
+  LightweightFindTestsHandler,
+  LightweightSavedQueriesHandler,
   LightweightFindCodePatternsHandler,
   LightweightRealTimeStatusHandler
 } from './lightweight-handlers';
@@ -115,14 +121,26 @@ class SimpleCortexMCPServer {
             return await new LightweightRelationshipAnalysisHandler(this.embeddingClient, this.projectManager, this).handle(args);
           case 'trace_execution_path':
             return await new LightweightTraceExecutionPathHandler(this.embeddingClient, this.projectManager, this).handle(args);
+          case 'search_stack_trace':
+            return await new LightweightSearchStackTraceHandler(this.embeddingClient, this.projectManager, this).handle(args);
+          case 'find_definition':
+            return await new LightweightFindDefinitionHandler(this.embeddingClient, this.projectManager, this).handle(args);
+          case 'find_references':
+            return await new LightweightFindReferencesHandler(this.embeddingClient, this.projectManager, this).handle(args);
+          case 'impact_analysis':
+            return await new LightweightImpactAnalysisHandler(this.embeddingClient, this.projectManager, this).handle(args);
+          case 'find_tests':
+            return await new LightweightFindTestsHandler(this.embeddingClient, this.projectManager, this).handle(args);
+          case 'saved_queries':
+            return await new LightweightSavedQueriesHandler(this.embeddingClient, this.projectManager, this).handle(args);
           case 'find_code_patterns':
             return await new LightweightFindCodePatternsHandler(this.embeddingClient, this.projectManager, this).handle(args);
           case 'real_time_status':
             return await new LightweightRealTimeStatusHandler(this.embeddingClient, this).handle(args);
           case 'fetch_chunk':
-            return await new FetchChunkHandler().handle(args);
+            return await new FetchChunkHandler(this.embeddingClient).handle(args);
           case 'next_chunk':
-            return await new NextChunkHandler().handle(args);
+            return await new NextChunkHandler(this.embeddingClient).handle(args);
           case 'get_current_project':
             return await new GetCurrentProjectHandler(this.projectManager).handle(args);
           case 'list_available_projects':
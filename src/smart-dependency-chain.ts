@@ -2,6 +2,7 @@ import { CodeChunk, QueryRequest } from './types';
 import { RelationshipTraversalEngine } from './relationship-traversal-engine';
 import { VectorStore } from './vector-store';
 import { log, warn } from './logging-utils';
+import { getTokenCounter } from './token-counter';
 
 export interface DependencyChain {
   seedChunks: CodeChunk[];           // Original search results
@@ -367,13 +368,11 @@ export class SmartDependencyTraverser {
   }
 
   /**
-   * Estimate token count for chunks (rough approximation)
+   * Token count for chunks, using the shared tokenizer
    */
   private estimateTokens(chunks: CodeChunk[]): number {
-    return chunks.reduce((total, chunk) => {
-      // Rough estimate: 1 token per 4 characters
-      return total + Math.ceil(chunk.content.length / 4);
-    }, 0);
+    const counter = getTokenCounter();
+    return chunks.reduce((total, chunk) => total + counter.countChunk(chunk), 0);
   }
 
   /**
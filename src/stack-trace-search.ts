@@ -0,0 +1,305 @@
+import * as path from 'path';
+import {
+  CodeChunk,
+  ContextGroup,
+  ContextPackage,
+  ErrorRelationship,
+  ResolvedStackFrame,
+  StackTraceRole,
+  StackTraceSearchRequest,
+  StackTraceSearchResponse
+} from './types';
+import { VectorStore } from './vector-store';
+import { QueryAnalyzer } from './query-analyzer';
+import { RelationshipTraversalEngine } from './relationship-traversal-engine';
+import { CodeRelationship, CodeSymbol } from './relationship-types';
+import { log } from './logging-utils';
+import { getTokenCounter } from './token-counter';
+
+const DEFAULT_MAX_CALLERS = 5;
+
+const ERROR_TYPE = /^(?:[\w$]+\.)*([\w$]*(?:Error|Exception))\b/;
+
+// Content scan used when the relationship graph has nothing for a chunk (e.g. Python)
+const THROW_PATTERN = /\b(?:throw\s+(?:new\s+)?|raise\b\s*)([A-Za-z_$][\w$.]*)?/;
+const CATCH_PATTERN = /(?:\bcatch\s*(?:\(\s*([A-Za-z_$][\w$]*)|\{)|\bexcept\b\s*([A-Za-z_][\w.]*)?|\.catch\s*\()/;
+
+const ROLE_GROUPS: Array<{ role: StackTraceRole; title: string; description: string; importance: number }> = [
+  { role: 'throw_site', title: 'Throw site', description: 'Function on the innermost project frame', importance: 1.0 },
+  { role: 'stack_frame', title: 'Stack frames', description: 'Outer frames, innermost first', importance: 0.8 },
+  { role: 'caller', title: 'Callers', description: 'Other callers of the throwing function from the call graph', importance: 0.6 },
+  { role: 'error_handler', title: 'Error handling', description: 'Functions that throw or catch the same error type', importance: 0.5 }
+];
+
+/**
+ * Turns a pasted stack trace into one ordered context package: the chunk enclosing
+ * each project frame (the innermost is the throw site), other callers of the
+ * throwing function, and where the error is thrown and caught.
+ *
+ * Frames are mapped by file and line against chunk `start_line`/`end_line`; a frame
+ * whose line is not indexed (e.g. compiled output) falls back to its function name.
+ */
+export class StackTraceSearch {
+  private queryAnalyzer: QueryAnalyzer = new QueryAnalyzer();
+
+  constructor(
+    private vectorStore: VectorStore,
+    private relationshipEngine?: RelationshipTraversalEngine
+  ) {}
+
+  async search(request: StackTraceSearchRequest): Promise<StackTraceSearchResponse> {
+    const startTime = Date.now();
+    const maxCallers = request.max_callers ?? DEFAULT_MAX_CALLERS;
+    const includeErrorHandling = request.include_error_handling !== false;
+
+    const analysis = this.queryAnalyzer.analyze(request.stack_trace);
+    const errorType = analysis.error_messages
+      .map(message => message.match(ERROR_TYPE)?.[1])
+      .find((type): type is string => !!type);
+
+    const chunks: CodeChunk[] = [];
+    const roles: StackTraceRole[] = [];
+    const add = (chunk: CodeChunk, role: StackTraceRole): boolean => {
+      if (chunks.some(existing => existing.chunk_id === chunk.chunk_id)) return false;
+      chunks.push(chunk);
+      roles.push(role);
+      return true;
+    };
+
+    const frames: ResolvedStackFrame[] = [];
+    for (const frame of analysis.stack_frames) {
+      const chunk = await this.resolveFrame(frame.file_path, frame.line, frame.symbol);
+      frames.push({ ...frame, chunk_id: chunk?.chunk_id, symbol_name: chunk?.symbol_name });
+      if (chunk) add(chunk, chunks.length === 0 ? 'throw_site' : 'stack_frame');
+    }
+
+    const throwSite = chunks[0];
+    if (throwSite && maxCallers > 0) {
+      let added = 0;
+      for (const caller of await this.findCallers(throwSite)) {
+        if (added >= maxCallers) break;
+        if (add(caller, 'caller')) added++;
+      }
+    }
+
+    const errorRelationships: ErrorRelationship[] = [];
+    if (includeErrorHandling) {
+      for (const chunk of [...chunks]) {
+        errorRelationships.push(...this.findErrorRelationships(chunk));
+      }
+
+      if (errorType) {
+        let added = 0;
+        for (const handler of await this.findErrorTypeSites(errorType)) {
+          if (added >= maxCallers) break;
+          if (add(handler.chunk, 'error_handler')) {
+            errorRelationships.push(handler.relationship);
+            added++;
+          }
+        }
+      }
+    }
+
+    const resolved = frames.filter(frame => frame.chunk_id).length;
+    log(`[StackTraceSearch] frames=${frames.length} resolved=${resolved} chunks=${chunks.length} error_relationships=${errorRelationships.length} error_type=${errorType || 'unknown'}`);
+
+    // Embeddings are not returned to clients
+    const returned = chunks.map(chunk => ({ ...chunk, embedding: [], representation_embeddings: undefined }));
+    return {
+      error_messages: analysis.error_messages,
+      error_type: errorType,
+      frames,
+      chunks: returned,
+      roles,
+      error_relationships: errorRelationships,
+      context_package: this.buildContextPackage(returned, roles, frames, analysis.error_messages, errorRelationships),
+      query_time_ms: Date.now() - startTime
+    };
+  }
+
+  private async resolveFrame(filePath: string, line?: number, symbol?: string): Promise<CodeChunk | undefined> {
+    if (line !== undefined) {
+      const enclosing = await this.vectorStore.findByLocation(filePath, line);
+      if (enclosing.length > 0) return enclosing[0];
+    }
+    if (!symbol) return undefined;
+
+    // Prefer a definition in a file with the same base name, e.g. dist/foo.js -> src/foo.ts
+    const name = symbol.split('.').pop()!;
+    const candidates = await this.vectorStore.findByRelationship('symbol_name', name);
+    const stem = fileStem(filePath);
+    return candidates.find(chunk => fileStem(chunk.file_path) === stem) || (candidates.length === 1 ? candidates[0] : undefined);
+  }
+
+  /**
+   * Call-graph callers of the chunk's function, falling back to chunk-level call lists.
+   * A call matched only by name counts from the chunk's own file or a file importing it.
+   */
+  private async findCallers(chunk: CodeChunk): Promise<CodeChunk[]> {
+    const callers: CodeChunk[] = [];
+    const symbol = this.findGraphSymbol(chunk);
+
+    if (symbol && this.relationshipEngine) {
+      const graph = this.relationshipEngine.getGraph();
+      const importers = new Set(this.relationshipEngine.getModuleDependents(symbol.filePath));
+      for (const relationship of this.relationshipEngine.getRelationshipsByType('calls')) {
+        const resolved = relationship.toSymbol === symbol.id;
+        if (!resolved && calledName(relationship) !== symbol.name) continue;
+        const caller = graph.symbols.get(relationship.fromSymbol);
+        if (!caller) continue;
+        if (!resolved && caller.filePath !== symbol.filePath && !importers.has(caller.filePath)) continue;
+        const [callerChunk] = await this.vectorStore.findByLocation(caller.filePath, caller.startLine);
+        if (callerChunk && callerChunk.chunk_id !== chunk.chunk_id) callers.push(callerChunk);
+      }
+    }
+
+    if (callers.length === 0 && chunk.symbol_name) {
+      const candidates = this.vectorStore.getAllChunks();
+      const importers = new Set(candidates
+        .filter(candidate => candidate.relationships.imports.some(specifier => importsModule(specifier, candidate.file_path, chunk.file_path)))
+        .map(candidate => candidate.file_path));
+      for (const candidate of candidates) {
+        if (candidate.chunk_id === chunk.chunk_id || !candidate.relationships.calls.includes(chunk.symbol_name)) continue;
+        if (candidate.file_path === chunk.file_path || importers.has(candidate.file_path)) {
+          callers.push(candidate);
+        }
+      }
+    }
+
+    return callers;
+  }
+
+  /** throws/catches from the relationship graph, or from the chunk content when the graph has none */
+  private findErrorRelationships(chunk: CodeChunk): ErrorRelationship[] {
+    const symbol = this.findGraphSymbol(chunk);
+    if (symbol && this.relationshipEngine) {
+      const graph = this.relationshipEngine.getGraph();
+      const outgoing = graph.outgoingRelationships.get(symbol.id) || new Set<string>();
+      const fromGraph: ErrorRelationship[] = [];
+      for (const relationshipId of outgoing) {
+        const relationship = graph.relationships.get(relationshipId);
+        if (relationship && (relationship.type === 'throws' || relationship.type === 'catches')) {
+          fromGraph.push(toErrorRelationship(relationship, symbol, chunk));
+        }
+      }
+      if (fromGraph.length > 0) return fromGraph;
+    }
+
+    const fromContent: ErrorRelationship[] = [];
+    chunk.content.split('\n').forEach((text, offset) => {
+      const thrown = text.match(THROW_PATTERN);
+      const caught = thrown ? null : text.match(CATCH_PATTERN);
+      if (!thrown && !caught) return;
+      fromContent.push({
+        type: thrown ? 'throws' : 'catches',
+        function: chunk.symbol_name || path.basename(chunk.file_path),
+        file_path: chunk.file_path,
+        line: chunk.start_line + offset,
+        error_type: (thrown ? thrown[1] : caught![1] || caught![2]) || 'Error',
+        chunk_id: chunk.chunk_id,
+        source: 'content'
+      });
+    });
+    return fromContent;
+  }
+
+  /** Graph throws/catches naming the error type, mapped to their chunks */
+  private async findErrorTypeSites(errorType: string): Promise<Array<{ chunk: CodeChunk; relationship: ErrorRelationship }>> {
+    if (!this.relationshipEngine) return [];
+
+    const graph = this.relationshipEngine.getGraph();
+    const sites: Array<{ chunk: CodeChunk; relationship: ErrorRelationship }> = [];
+    for (const type of ['catches', 'throws'] as const) {
+      for (const relationship of this.relationshipEngine.getRelationshipsByType(type)) {
+        if (relationship.metadata?.errorType?.split('.').pop() !== errorType) continue;
+        const symbol = graph.symbols.get(relationship.fromSymbol);
+        if (!symbol) continue;
+        const [chunk] = await this.vectorStore.findByLocation(symbol.filePath, symbol.startLine);
+        if (chunk) sites.push({ chunk, relationship: toErrorRelationship(relationship, symbol, chunk) });
+      }
+    }
+    return sites;
+  }
+
+  private findGraphSymbol(chunk: CodeChunk): CodeSymbol | undefined {
+    if (!this.relationshipEngine) return undefined;
+
+    const inChunk = this.relationshipEngine.getSymbolsByFile(chunk.file_path)
+      .filter(symbol => symbol.startLine >= chunk.start_line && symbol.startLine <= chunk.end_line);
+    return inChunk.find(symbol => symbol.name === chunk.symbol_name) ||
+      inChunk.sort((a, b) => a.startLine - b.startLine)[0];
+  }
+
+  private buildContextPackage(
+    chunks: CodeChunk[],
+    roles: StackTraceRole[],
+    frames: ResolvedStackFrame[],
+    errorMessages: string[],
+    errorRelationships: ErrorRelationship[]
+  ): ContextPackage {
+    const groups: ContextGroup[] = ROLE_GROUPS
+      .map(({ role, title, description, importance }) => ({
+        title,
+        description,
+        chunks: chunks.filter((_, index) => roles[index] === role),
+        importance_score: importance
+      }))
+      .filter(group => group.chunks.length > 0);
+
+    const throwSite = chunks[0];
+    const parts: string[] = [];
+    if (errorMessages.length > 0) parts.push(errorMessages[0]);
+    parts.push(throwSite
+      ? `Thrown in ${throwSite.symbol_name || 'anonymous code'} (${throwSite.file_path}:${frames.find(frame => frame.chunk_id)?.line ?? throwSite.start_line})`
+      : 'No frame maps to indexed code');
+    parts.push(`${frames.filter(frame => frame.chunk_id).length} of ${frames.length} frames resolved`);
+    const callerCount = roles.filter(role => role === 'caller').length;
+    if (callerCount > 0) parts.push(`${callerCount} other callers`);
+    const catchCount = errorRelationships.filter(relationship => relationship.type === 'catches').length;
+    if (catchCount > 0) parts.push(`${catchCount} catch sites`);
+
+    const counter = getTokenCounter();
+    const summary = parts.join('. ') + '.';
+    return {
+      summary,
+      groups,
+      related_files: Array.from(new Set(chunks.map(chunk => chunk.file_path))),
+      total_tokens: counter.count(summary) + chunks.reduce((sum, chunk) => sum + counter.countChunk(chunk), 0)
+    };
+  }
+}
+
+function fileStem(filePath: string): string {
+  return path.basename(filePath).replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Whether an import written in `fromFile` names the module at `toFile`: relative specifiers
+ * resolve against the importing file, bare or dotted module names (Python) match the stem
+ */
+function importsModule(specifier: string, fromFile: string, toFile: string): boolean {
+  const target = path.normalize(toFile).replace(/\.[^./]+$/, '');
+  if (specifier.startsWith('.')) {
+    const resolved = path.normalize(path.join(path.dirname(fromFile), specifier)).replace(/\.[^./]+$/, '');
+    return resolved === target || path.join(resolved, 'index') === target;
+  }
+  return specifier.split(/[./]/).pop() === fileStem(toFile);
+}
+
+// Unresolved call targets are recorded as `file:name:unknown`
+function calledName(relationship: CodeRelationship): string | undefined {
+  const parts = relationship.toSymbol.split(':');
+  return parts[parts.length - 1] === 'unknown' ? parts[parts.length - 2] : undefined;
+}
+
+function toErrorRelationship(relationship: CodeRelationship, symbol: CodeSymbol, chunk: CodeChunk): ErrorRelationship {
+  return {
+    type: relationship.type as 'throws' | 'catches',
+    function: symbol.name,
+    file_path: symbol.filePath,
+    line: relationship.metadata?.sourceLocation?.line ?? symbol.startLine,
+    error_type: relationship.metadata?.errorType || 'Error',
+    chunk_id: chunk.chunk_id,
+    source: 'graph'
+  };
+}
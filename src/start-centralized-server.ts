@@ -266,6 +266,12 @@ Only ONE centralized server should run per system for resource consolidation.
    • Code Intelligence:   POST http://localhost:${port}/code-intelligence
    • Relationship Anal:   POST http://localhost:${port}/relationship-analysis
    • Execution Trace:     POST http://localhost:${port}/trace-execution-path
+   • Stack Trace Search:  POST http://localhost:${port}/search-stack-trace
+   • Find Definition:     POST http://localhost:${port}/find-definition
+   • Find References:     POST http://localhost:${port}/find-references
+   • Impact Analysis:     POST http://localhost:${port}/impact-analysis
+   • Find Tests:          POST http://localhost:${port}/find-tests
+   • Saved Queries:       POST http://localhost:${port}/saved-queries
    • Code Patterns:       POST http://localhost:${port}/find-code-patterns
 
 💡 Usage Examples:
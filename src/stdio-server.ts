@@ -24,6 +24,12 @@ import {
   LightweightCodeIntelligenceHandler,
   LightweightRelationshipAnalysisHandler,
   LightweightTraceExecutionPathHandler,
+  LightweightSearchStackTraceHandler,
+  LightweightFindDefinitionHandler,
+  LightweightFindReferencesHandler,
+  LightweightImpactAnalysisHandler,
+  LightweightFindTestsHandler,
+  LightweightSavedQueriesHandler,
   LightweightFindCodePatternsHandler,
   LightweightRealTimeStatusHandler
 } from './lightweight-handlers';
@@ -182,12 +188,18 @@ class LightweightStdioCortexMCPServer {
     this.handlers.set('code_intelligence', new LightweightCodeIntelligenceHandler(this.embeddingClient, this.projectManager, this));
     this.handlers.set('relationship_analysis', new LightweightRelationshipAnalysisHandler(this.embeddingClient, this.projectManager, this));
     this.handlers.set('trace_execution_path', new LightweightTraceExecutionPathHandler(this.embeddingClient, this.projectManager, this));
+    this.handlers.set('search_stack_trace', new LightweightSearchStackTraceHandler(this.embeddingClient, this.projectManager, this));
+    this.handlers.set('find_definition', new LightweightFindDefinitionHandler(this.embeddingClient, this.projectManager, this));
+    this.handlers.set('find_references', new LightweightFindReferencesHandler(this.embeddingClient, this.projectManager, this));
+    this.handlers.set('impact_analysis', new LightweightImpactAnalysisHandler(this.embeddingClient, this.projectManager, this));
+    this.handlers.set('find_tests', new LightweightFindTestsHandler(this.embeddingClient, this.projectManager, this));
+    this.handlers.set('saved_queries', new LightweightSavedQueriesHandler(this.embeddingClient, this.projectManager, this));
     this.handlers.set('find_code_patterns', new LightweightFindCodePatternsHandler(this.embeddingClient, this.projectManager, this));
     this.handlers.set('real_time_status', new LightweightRealTimeStatusHandler(this.embeddingClient, this));
     
     // Chunking handlers (unchanged)
-    this.handlers.set('fetch_chunk', new FetchChunkHandler());
-    this.handlers.set('next_chunk', new NextChunkHandler());
+    this.handlers.set('fetch_chunk', new FetchChunkHandler(this.embeddingClient));
+    this.handlers.set('next_chunk', new NextChunkHandler(this.embeddingClient));
     
     // Project management handlers (unchanged)
     this.handlers.set('get_current_project', new GetCurrentProjectHandler(this.projectManager));
@@ -14,7 +14,9 @@ export const STORAGE_FILENAMES = {
   INDEX: 'index.json',
   RELATIONSHIPS: 'relationships.json',
   DELTAS: 'deltas',
-  EMBEDDING_CACHE: 'embedding-cache.json'
+  EMBEDDING_CACHE: 'embedding-cache.json',
+  ANN_INDEX: 'ann-index.json',
+  LEXICAL_INDEX: 'lexical-index.json'
 } as const;
 
 // Compression configuration
@@ -63,7 +65,9 @@ export class StoragePaths {
       metadataPath: path.join(localBasePath, STORAGE_FILENAMES.INDEX),
       relationshipsPath: path.join(localBasePath, STORAGE_FILENAMES.RELATIONSHIPS),
       deltaPath: path.join(localBasePath, STORAGE_FILENAMES.DELTAS),
-      embeddingCachePath: path.join(localBasePath, STORAGE_FILENAMES.EMBEDDING_CACHE)
+      embeddingCachePath: path.join(localBasePath, STORAGE_FILENAMES.EMBEDDING_CACHE),
+      annIndexPath: path.join(localBasePath, STORAGE_FILENAMES.ANN_INDEX),
+      lexicalIndexPath: path.join(localBasePath, STORAGE_FILENAMES.LEXICAL_INDEX)
     };
   }
 
@@ -80,7 +84,9 @@ export class StoragePaths {
       metadataPath: path.join(globalBasePath, STORAGE_FILENAMES.INDEX),
       relationshipsPath: path.join(globalBasePath, STORAGE_FILENAMES.RELATIONSHIPS),
       deltaPath: path.join(globalBasePath, STORAGE_FILENAMES.DELTAS),
-      embeddingCachePath: path.join(globalBasePath, STORAGE_FILENAMES.EMBEDDING_CACHE)
+      embeddingCachePath: path.join(globalBasePath, STORAGE_FILENAMES.EMBEDDING_CACHE),
+      annIndexPath: path.join(globalBasePath, STORAGE_FILENAMES.ANN_INDEX),
+      lexicalIndexPath: path.join(globalBasePath, STORAGE_FILENAMES.LEXICAL_INDEX)
     };
   }
 
@@ -0,0 +1,510 @@
+import {
+  CodeChunk,
+  FindDefinitionResponse,
+  FindReferencesResponse,
+  SymbolLocation,
+  SymbolNavigationRequest,
+  SymbolReferenceKind
+} from './types';
+import { VectorStore } from './vector-store';
+import { RelationshipTraversalEngine } from './relationship-traversal-engine';
+import { CodeRelationship, CodeSymbol, RelationshipGraph } from './relationship-types';
+import { log } from './logging-utils';
+
+const DEFAULT_MAX_REFERENCES = 50;
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+
+const REFERENCE_KINDS: Partial<Record<CodeRelationship['type'], SymbolReferenceKind>> = {
+  calls: 'call',
+  imports: 'import',
+  extends: 'extends',
+  implements: 'implements',
+  instantiates: 'instantiates',
+  accesses: 'reference'
+};
+
+// Definitions beat variables that merely share the name
+const KIND_RANK: Record<CodeSymbol['type'], number> = {
+  class: 1, function: 1, method: 1, property: 0.5, variable: 0.25, module: 0
+};
+
+interface RankedDefinition {
+  symbol: CodeSymbol;
+  score: number;
+  confidence: number;
+}
+
+export interface SymbolReference {
+  relationship: CodeRelationship;
+  filePath: string;      // File the reference sits in
+  confidence: number;
+}
+
+// Name-only edges and definition counts per name, built once per graph
+interface NameIndex {
+  graph: RelationshipGraph;
+  unresolved: Map<string, CodeRelationship[]>;
+  definitions: Map<string, number>;
+}
+
+interface Position {
+  filePath: string;
+  line: number;
+  identifier: string;
+  qualifier?: string;    // `Foo` in `Foo.bar`; `this` and typed fields resolved to their class
+}
+
+/**
+ * Editor-style navigation over the relationship graph. A symbol name, or a
+ * file and line/column, resolves to its definition. The references are the
+ * graph's resolved edges into it, plus name-only edges that can only mean this
+ * definition. Same-named symbols are told apart by file, enclosing class and
+ * module dependencies. Without a graph, chunk symbol names and call lists are used.
+ */
+export class SymbolNavigator {
+  constructor(
+    private vectorStore: VectorStore,
+    private relationshipEngine?: RelationshipTraversalEngine
+  ) {}
+
+  private nameIndex?: NameIndex;
+
+  async findDefinition(request: SymbolNavigationRequest): Promise<FindDefinitionResponse> {
+    const startTime = Date.now();
+    const graph = this.getGraph();
+
+    if (!graph) {
+      const name = await this.chunkLookupName(request);
+      const definitions = await this.findChunkDefinitions(name, request);
+      const ambiguous = definitions.length > 1;
+      return { symbol: name, definitions, ambiguous, source: 'chunks', summary: definitionSummary(name, definitions, ambiguous), query_time_ms: Date.now() - startTime };
+    }
+
+    const { name, ranked, ambiguous } = await this.resolveDefinitions(graph, request);
+    const definitions = await Promise.all(ranked.map(definition => this.definitionLocation(graph, definition)));
+    log(`[SymbolNavigator] Definition of "${name}" definitions=${definitions.length} ambiguous=${ambiguous}`);
+    return { symbol: name, definitions, ambiguous, source: 'graph', summary: definitionSummary(name, definitions, ambiguous), query_time_ms: Date.now() - startTime };
+  }
+
+  async findReferences(request: SymbolNavigationRequest): Promise<FindReferencesResponse> {
+    const startTime = Date.now();
+    const maxResults = request.max_results ?? DEFAULT_MAX_REFERENCES;
+    const graph = this.getGraph();
+
+    if (!graph) {
+      const name = await this.chunkLookupName(request);
+      const definitions = await this.findChunkDefinitions(name, request);
+      const references = this.findChunkReferences(name);
+      return {
+        symbol: name,
+        definitions,
+        references: references.slice(0, maxResults),
+        total_references: references.length,
+        truncated: references.length > maxResults,
+        ambiguous: definitions.length > 1,
+        source: 'chunks',
+        summary: referenceSummary(name, references.length, definitions, definitions.length > 1),
+        query_time_ms: Date.now() - startTime
+      };
+    }
+
+    const { name, ranked, ambiguous } = await this.resolveDefinitions(graph, request);
+    // An ambiguous lookup collects references for every equally good definition
+    const targets = ambiguous ? ranked.filter(definition => definition.score === ranked[0].score) : ranked.slice(0, 1);
+
+    const seen = new Set<string>();
+    const found: SymbolReference[] = [];
+    for (const target of targets) {
+      for (const reference of this.collectReferences(graph, target.symbol)) {
+        const key = `${reference.filePath}:${reference.relationship.metadata?.sourceLocation?.line}:${reference.relationship.type}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        found.push(reference);
+      }
+    }
+
+    const line = (relationship: CodeRelationship) =>
+      relationship.metadata?.sourceLocation?.line ?? graph.symbols.get(relationship.fromSymbol)?.startLine ?? 1;
+    found.sort((a, b) => a.filePath.localeCompare(b.filePath) || line(a.relationship) - line(b.relationship));
+
+    const references = await Promise.all(found.slice(0, maxResults).map(async ({ relationship, filePath, confidence }) => {
+      const from = graph.symbols.get(relationship.fromSymbol);
+      const location = await this.locate(filePath, line(relationship));
+      const column = relationship.metadata?.sourceLocation?.column;
+      return {
+        name,
+        kind: REFERENCE_KINDS[relationship.type] || 'reference',
+        container: from && from.type !== 'module' ? from.name : undefined,
+        file_path: filePath,
+        line: line(relationship),
+        column: column !== undefined ? column + 1 : undefined,
+        ...location,
+        confidence
+      } as SymbolLocation;
+    }));
+
+    log(`[SymbolNavigator] References of "${name}" definitions=${targets.length} references=${found.length} ambiguous=${ambiguous}`);
+    const definitions = await Promise.all(targets.map(definition => this.definitionLocation(graph, definition)));
+    return {
+      symbol: name,
+      definitions,
+      references,
+      total_references: found.length,
+      truncated: found.length > maxResults,
+      ambiguous,
+      source: 'graph',
+      summary: referenceSummary(name, found.length, definitions, ambiguous),
+      query_time_ms: Date.now() - startTime
+    };
+  }
+
+  /** References into a graph symbol; empty without a graph */
+  referencesTo(symbol: CodeSymbol): SymbolReference[] {
+    const graph = this.getGraph();
+    return graph ? this.collectReferences(graph, symbol) : [];
+  }
+
+  /** Graph symbols for a graph id, name or `Class.method`; every equally good definition when ambiguous */
+  async resolveSymbols(symbol: string): Promise<CodeSymbol[]> {
+    const graph = this.getGraph();
+    if (!graph) return [];
+    const direct = graph.symbols.get(symbol);
+    if (direct) return [direct];
+
+    const { ranked, ambiguous } = await this.resolveDefinitions(graph, { symbol });
+    const best = ambiguous ? ranked.filter(definition => definition.score === ranked[0].score) : ranked.slice(0, 1);
+    return best.map(definition => definition.symbol);
+  }
+
+  /** Graph symbols declared in a file, matched like chunk paths */
+  symbolsOfFile(filePath: string): CodeSymbol[] {
+    const graph = this.getGraph();
+    return graph ? this.symbolsInFile(graph, filePath) : [];
+  }
+
+  private getGraph(): RelationshipGraph | undefined {
+    const graph = this.relationshipEngine?.getGraph();
+    return graph && graph.symbols.size > 0 ? graph : undefined;
+  }
+
+  /** Definitions of the symbol or position, best first */
+  private async resolveDefinitions(
+    graph: RelationshipGraph,
+    request: SymbolNavigationRequest
+  ): Promise<{ name: string; ranked: RankedDefinition[]; ambiguous: boolean }> {
+    const position = request.file_path && request.line !== undefined
+      ? await this.readPosition(graph, request.file_path, request.line, request.column, request.symbol)
+      : undefined;
+
+    if (position) {
+      // The position is the declaration itself
+      const declared = this.symbolsInFile(graph, position.filePath)
+        .find(symbol => symbol.startLine === position.line && symbol.name === position.identifier);
+      if (declared) return { name: declared.name, ranked: [{ symbol: declared, score: Infinity, confidence: 1.0 }], ambiguous: false };
+
+      // A resolved edge leaving this line names the target exactly
+      const resolved = this.resolvedTargetsAt(graph, position);
+      if (resolved.length > 0) return { name: position.identifier, ranked: resolved, ambiguous: false };
+    }
+
+    const qualified = splitQualifiedName(request.symbol || '');
+    const name = position?.identifier || qualified.name;
+    if (!name) throw new Error('symbol, or file_path and line, is required');
+
+    const qualifier = position?.qualifier || qualified.container;
+    const fileFilter = !position ? request.file_path : undefined;
+
+    let candidates = Array.from(graph.symbols.values()).filter(symbol =>
+      symbol.name === name && symbol.type !== 'module' && (!fileFilter || samePath(symbol.filePath, fileFilter)));
+    if (qualifier) {
+      const inContainer = candidates.filter(symbol => this.containerOf(graph, symbol)?.name === qualifier);
+      if (inContainer.length > 0) candidates = inContainer;
+    }
+
+    const ranked = candidates
+      .map(symbol => ({ symbol, score: this.scoreCandidate(graph, symbol, position, qualifier), confidence: 0 }))
+      .sort((a, b) => b.score - a.score || a.symbol.filePath.localeCompare(b.symbol.filePath) || a.symbol.startLine - b.symbol.startLine);
+
+    const ambiguous = ranked.length > 1 && ranked[0].score === ranked[1].score;
+    const confidence = ranked.length === 1 ? 0.9 : ambiguous ? 0.5 : 0.7;
+    ranked.forEach((definition, index) => definition.confidence = index === 0 ? confidence : Math.min(confidence, 0.5));
+    return { name, ranked, ambiguous };
+  }
+
+  /** Same file, then a file the position's module depends on, then the qualifying class */
+  private scoreCandidate(graph: RelationshipGraph, symbol: CodeSymbol, position: Position | undefined, qualifier?: string): number {
+    let score = KIND_RANK[symbol.type];
+    if (position) {
+      if (samePath(symbol.filePath, position.filePath)) score += 3;
+      else if (this.dependsOn(graph, position.filePath, symbol.filePath)) score += 2;
+    }
+    if (qualifier && this.containerOf(graph, symbol)?.name === qualifier) score += 2;
+    return score;
+  }
+
+  /** Targets of graph-resolved edges leaving `position.line` for the identifier */
+  private resolvedTargetsAt(graph: RelationshipGraph, position: Position): RankedDefinition[] {
+    const sources = [
+      ...this.symbolsInFile(graph, position.filePath).map(symbol => symbol.id),
+      `${position.filePath}:module:1`
+    ];
+    const targets: RankedDefinition[] = [];
+    for (const sourceId of sources) {
+      for (const relationshipId of graph.outgoingRelationships.get(sourceId) || []) {
+        const relationship = graph.relationships.get(relationshipId);
+        if (!relationship || relationship.metadata?.sourceLocation?.line !== position.line) continue;
+        const target = graph.symbols.get(relationship.toSymbol);
+        if (target && target.name === position.identifier && !targets.some(existing => existing.symbol.id === target.id)) {
+          targets.push({ symbol: target, score: Infinity, confidence: relationship.confidence });
+        }
+      }
+    }
+    return targets;
+  }
+
+  /** Edges into the definition, plus name-only edges whose scope can only mean it */
+  private collectReferences(graph: RelationshipGraph, definition: CodeSymbol): SymbolReference[] {
+    const references: SymbolReference[] = [];
+
+    for (const relationshipId of graph.incomingRelationships.get(definition.id) || []) {
+      const relationship = graph.relationships.get(relationshipId);
+      if (!relationship || !REFERENCE_KINDS[relationship.type]) continue;
+      const filePath = fileOfSymbol(graph, relationship.fromSymbol);
+      if (filePath) references.push({ relationship, filePath, confidence: relationship.confidence });
+    }
+
+    const index = this.getNameIndex(graph);
+    const unique = (index.definitions.get(definition.name) || 0) <= 1;
+
+    for (const relationship of index.unresolved.get(definition.name) || []) {
+      const filePath = fileOfSymbol(graph, relationship.fromSymbol);
+      if (!filePath) continue;
+
+      // Imports name their module; a name-only call counts from the defining file or a dependent
+      const sameFile = samePath(filePath, definition.filePath);
+      const dependent = this.dependsOn(graph, filePath, definition.filePath);
+      if (relationship.type === 'imports' ? !dependent : !(sameFile || dependent || unique)) continue;
+      references.push({ relationship, filePath, confidence: sameFile || dependent ? 0.8 : 0.6 });
+    }
+
+    return references;
+  }
+
+  private getNameIndex(graph: RelationshipGraph): NameIndex {
+    if (this.nameIndex?.graph === graph) return this.nameIndex;
+
+    const unresolved = new Map<string, CodeRelationship[]>();
+    for (const relationship of graph.relationships.values()) {
+      const name = REFERENCE_KINDS[relationship.type] ? unresolvedName(relationship) : undefined;
+      if (!name) continue;
+      if (!unresolved.has(name)) unresolved.set(name, []);
+      unresolved.get(name)!.push(relationship);
+    }
+
+    const definitions = new Map<string, number>();
+    for (const symbol of graph.symbols.values()) {
+      if (symbol.type === 'module' || symbol.type === 'variable') continue;
+      definitions.set(symbol.name, (definitions.get(symbol.name) || 0) + 1);
+    }
+
+    this.nameIndex = { graph, unresolved, definitions };
+    return this.nameIndex;
+  }
+
+  /** Identifier at a file position: under `column`, the one named `symbol`, or the first declared or called there */
+  private async readPosition(graph: RelationshipGraph, filePath: string, line: number, column?: number, symbol?: string): Promise<Position | undefined> {
+    const [chunk] = await this.vectorStore.findByLocation(filePath, line);
+    const indexedPath = chunk?.file_path || this.symbolsInFile(graph, filePath)[0]?.filePath || filePath;
+    const text = chunk ? chunk.content.split('\n')[line - chunk.start_line] || '' : '';
+
+    const identifiers = Array.from(text.matchAll(IDENTIFIER)).map(match => ({ name: match[0], start: match.index! }));
+    const wanted = splitQualifiedName(symbol || '').name;
+    let identifier = column !== undefined
+      ? identifiers.find(candidate => column - 1 >= candidate.start && column - 1 <= candidate.start + candidate.name.length)
+      : wanted ? identifiers.find(candidate => candidate.name === wanted) : undefined;
+
+    if (!identifier && !wanted) {
+      const declared = this.symbolsInFile(graph, indexedPath).find(candidate => candidate.startLine === line);
+      const named = declared?.name || this.firstReferenceAt(graph, indexedPath, line);
+      identifier = identifiers.find(candidate => candidate.name === named);
+      if (!identifier && named) return { filePath: indexedPath, line, identifier: named };
+    }
+    const name = identifier?.name || wanted;
+    if (!name) return undefined;
+
+    const before = identifier ? text.slice(0, identifier.start) : '';
+    let qualifier = before.match(/([A-Za-z_$][\w$]*)\s*\??\.\s*$/)?.[1];
+    if (qualifier === 'this' || qualifier === 'self') {
+      const enclosingClass = this.symbolsInFile(graph, indexedPath)
+        .filter(candidate => candidate.type === 'class' && candidate.startLine <= line && candidate.endLine >= line)
+        .sort((a, b) => b.startLine - a.startLine)[0];
+      qualifier = enclosingClass?.name;
+    } else if (qualifier && !/^[A-Z]/.test(qualifier)) {
+      qualifier = this.declaredType(indexedPath, qualifier) || qualifier;
+    }
+    return { filePath: indexedPath, line, identifier: name, qualifier };
+  }
+
+  /** Class of `name` from `name: Type` or `name = new Type(` in the same file */
+  private declaredType(filePath: string, name: string): string | undefined {
+    const escaped = name.replace(/[$]/g, '\\$&');
+    const declaration = new RegExp(`\\b${escaped}\\s*[?!]?\\s*:\\s*([A-Z][\\w$]*)|\\b${escaped}\\s*=\\s*new\\s+([A-Z][\\w$]*)`);
+    for (const chunk of this.vectorStore.getAllChunks()) {
+      if (chunk.file_path !== filePath) continue;
+      const match = chunk.content.match(declaration);
+      if (match) return match[1] || match[2];
+    }
+    return undefined;
+  }
+
+  private firstReferenceAt(graph: RelationshipGraph, filePath: string, line: number): string | undefined {
+    for (const symbol of this.symbolsInFile(graph, filePath)) {
+      for (const relationshipId of graph.outgoingRelationships.get(symbol.id) || []) {
+        const relationship = graph.relationships.get(relationshipId);
+        if (relationship?.type !== 'calls' || relationship.metadata?.sourceLocation?.line !== line) continue;
+        return graph.symbols.get(relationship.toSymbol)?.name || unresolvedName(relationship);
+      }
+    }
+    return undefined;
+  }
+
+  private async definitionLocation(graph: RelationshipGraph, definition: RankedDefinition): Promise<SymbolLocation> {
+    const { symbol } = definition;
+    const container = this.containerOf(graph, symbol);
+    return {
+      symbol_id: symbol.id,
+      name: symbol.name,
+      kind: symbol.type,
+      container: container?.name,
+      file_path: symbol.filePath,
+      line: symbol.startLine,
+      ...await this.locate(symbol.filePath, symbol.startLine),
+      confidence: definition.confidence
+    };
+  }
+
+  /** Smallest chunk enclosing the line, and the line itself as the snippet */
+  private async locate(filePath: string, line: number): Promise<{ chunk_id?: string; snippet?: string }> {
+    const [chunk] = await this.vectorStore.findByLocation(filePath, line);
+    if (!chunk) return {};
+    return { chunk_id: chunk.chunk_id, snippet: chunk.content.split('\n')[line - chunk.start_line]?.trim() };
+  }
+
+  /** Innermost class whose lines enclose the symbol */
+  private containerOf(graph: RelationshipGraph, symbol: CodeSymbol): CodeSymbol | undefined {
+    if (symbol.type === 'class') return undefined;
+    return this.symbolsInFile(graph, symbol.filePath)
+      .filter(candidate => candidate.type === 'class' && candidate.startLine <= symbol.startLine && candidate.endLine >= symbol.endLine)
+      .sort((a, b) => b.startLine - a.startLine)[0];
+  }
+
+  private symbolsInFile(graph: RelationshipGraph, filePath: string): CodeSymbol[] {
+    const ids = graph.symbolsByFile.get(filePath);
+    if (ids) return Array.from(ids).map(id => graph.symbols.get(id)!).filter(Boolean);
+    return Array.from(graph.symbols.values()).filter(symbol => samePath(symbol.filePath, filePath));
+  }
+
+  /** Whether `fromFile` imports `toFile`, per the dependency map's `depends_on` edges */
+  private dependsOn(graph: RelationshipGraph, fromFile: string, toFile: string): boolean {
+    for (const relationshipId of graph.outgoingRelationships.get(`${fromFile}:module:1`) || []) {
+      const relationship = graph.relationships.get(relationshipId);
+      if (relationship?.type === 'depends_on' && relationship.toSymbol === `${toFile}:module:1`) return true;
+    }
+    return false;
+  }
+
+  private async chunkLookupName(request: SymbolNavigationRequest): Promise<string> {
+    if (request.symbol) return splitQualifiedName(request.symbol).name;
+    if (request.file_path && request.line !== undefined) {
+      const [chunk] = await this.vectorStore.findByLocation(request.file_path, request.line);
+      const text = chunk?.content.split('\n')[request.line - chunk.start_line] || '';
+      const column = request.column;
+      const identifier = column !== undefined
+        ? Array.from(text.matchAll(IDENTIFIER)).find(match => column - 1 >= match.index! && column - 1 <= match.index! + match[0].length)?.[0]
+        : chunk?.symbol_name;
+      if (identifier) return identifier.split('.').pop()!;
+    }
+    throw new Error('symbol, or file_path and line, is required');
+  }
+
+  private async findChunkDefinitions(name: string, request: SymbolNavigationRequest): Promise<SymbolLocation[]> {
+    const chunks = (await this.vectorStore.findByRelationship('symbol_name', name))
+      .filter(chunk => !request.file_path || request.line !== undefined || samePath(chunk.file_path, request.file_path));
+    return chunks.map(chunk => ({
+      name,
+      kind: chunk.chunk_type,
+      file_path: chunk.file_path,
+      line: chunk.start_line,
+      chunk_id: chunk.chunk_id,
+      snippet: firstCodeLine(chunk),
+      confidence: chunks.length === 1 ? 0.8 : 0.5
+    }));
+  }
+
+  /** Lines of chunks whose call list names the symbol */
+  private findChunkReferences(name: string): SymbolLocation[] {
+    const call = new RegExp(`\\b${name.replace(/[$]/g, '\\$&')}\\s*\\(`);
+    const references: SymbolLocation[] = [];
+    for (const chunk of this.vectorStore.getAllChunks()) {
+      if (!chunk.relationships.calls.includes(name)) continue;
+      chunk.content.split('\n').forEach((text, offset) => {
+        if (!call.test(text) || (offset === 0 && chunk.symbol_name === name)) return;
+        references.push({
+          name,
+          kind: 'call',
+          container: chunk.symbol_name,
+          file_path: chunk.file_path,
+          line: chunk.start_line + offset,
+          chunk_id: chunk.chunk_id,
+          snippet: text.trim(),
+          confidence: 0.5
+        });
+      });
+    }
+    return references.sort((a, b) => a.file_path.localeCompare(b.file_path) || a.line - b.line);
+  }
+}
+
+function definitionSummary(name: string, definitions: SymbolLocation[], ambiguous: boolean): string {
+  if (definitions.length === 0) return `No definition of ${name} found`;
+  const [first] = definitions;
+  const where = `${first.container ? `${first.container}.` : ''}${first.name} (${first.file_path}:${first.line})`;
+  return ambiguous
+    ? `${definitions.length} definitions of ${name}; pass file_path or Class.method to pick one. First: ${where}`
+    : `Defined at ${where}`;
+}
+
+function referenceSummary(name: string, count: number, definitions: SymbolLocation[], ambiguous: boolean): string {
+  const target = definitions.length === 1
+    ? `${definitions[0].container ? `${definitions[0].container}.` : ''}${name} (${definitions[0].file_path}:${definitions[0].line})`
+    : `${name}${ambiguous ? ` across ${definitions.length} same-named definitions` : ''}`;
+  return `${count} references to ${target}`;
+}
+
+/** `Class.method` -> container Class, name method; `name` alone has no container */
+function splitQualifiedName(symbol: string): { name: string; container?: string } {
+  const parts = symbol.trim().split(/\.|::|#/).filter(Boolean);
+  return { name: parts[parts.length - 1] || '', container: parts.length > 1 ? parts[parts.length - 2] : undefined };
+}
+
+// Unresolved targets are recorded as `file:name:unknown` (imports: `source:name:unknown`)
+function unresolvedName(relationship: CodeRelationship): string | undefined {
+  const parts = relationship.toSymbol.split(':');
+  return parts[parts.length - 1] === 'unknown' ? parts[parts.length - 2] : undefined;
+}
+
+function fileOfSymbol(graph: RelationshipGraph, symbolId: string): string | undefined {
+  return graph.symbols.get(symbolId)?.filePath || symbolId.match(/^(.*):module:1$/)?.[1];
+}
+
+export function samePath(a: string, b: string): boolean {
+  const normalize = (filePath: string) => filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  const left = normalize(a);
+  const right = normalize(b);
+  return left === right || left.endsWith(`/${right}`) || right.endsWith(`/${left}`);
+}
+
+function firstCodeLine(chunk: CodeChunk): string | undefined {
+  return chunk.content.split('\n').map(line => line.trim()).find(line => line && !/^(\/\/|\/?\*|#)/.test(line));
+}
@@ -0,0 +1,190 @@
+import { FindTestsRequest, FindTestsResponse, TestLocation } from './types';
+import { VectorStore } from './vector-store';
+import { RelationshipTraversalEngine } from './relationship-traversal-engine';
+import { CodeRelationship, CodeSymbol } from './relationship-types';
+import { SymbolNavigator } from './symbol-navigator';
+import { log } from './logging-utils';
+
+const DEFAULT_MAX_DEPTH = 1;
+const DEFAULT_MAX_RESULTS = 50;
+
+const CALLABLE_TYPES = new Set<CodeSymbol['type']>(['function', 'method', 'class']);
+
+const CALLER_RELATIONSHIPS = new Set<CodeRelationship['type']>(['calls', 'instantiates']);
+
+export interface TestCoverage {
+  test: CodeSymbol;
+  relationship: CodeRelationship;   // The `tested_by` edge
+}
+
+/**
+ * Test cases for production code, read from the `tested_by` edges TestMapper adds
+ * to the relationship graph. Beyond direct tests it follows callers, so a helper
+ * with no test of its own still lists the tests that reach it.
+ */
+export class TestFinder {
+  private navigator: SymbolNavigator;
+
+  constructor(
+    vectorStore: VectorStore,
+    private relationshipEngine: RelationshipTraversalEngine
+  ) {
+    this.navigator = new SymbolNavigator(vectorStore, relationshipEngine);
+  }
+
+  async findTests(request: FindTestsRequest): Promise<FindTestsResponse> {
+    const startTime = Date.now();
+    const maxDepth = request.max_depth ?? DEFAULT_MAX_DEPTH;
+    const maxResults = request.max_results ?? DEFAULT_MAX_RESULTS;
+
+    if (!request.symbol && !request.file_path) {
+      throw new Error('symbol or file_path is required');
+    }
+    if (this.relationshipEngine.getGraph().symbols.size === 0) {
+      throw new Error('No relationship graph available; index the repository first');
+    }
+
+    const target = request.symbol || request.file_path!;
+    const symbols = request.symbol
+      ? await this.navigator.resolveSymbols(request.symbol)
+      : this.navigator.symbolsOfFile(request.file_path!).filter(symbol => CALLABLE_TYPES.has(symbol.type) && symbol.scope !== 'local');
+
+    const found = new Map<string, TestLocation>();
+    const untested: string[] = [];
+    for (const symbol of symbols) {
+      let reached = false;
+      for (const { coverage, distance } of this.reachingTests(symbol, maxDepth)) {
+        reached = true;
+        const location = found.get(coverage.test.id);
+        if (!location) {
+          found.set(coverage.test.id, toTestLocation(coverage, symbol, distance));
+          continue;
+        }
+        if (!location.covers.includes(symbol.name)) location.covers.push(symbol.name);
+        location.distance = Math.min(location.distance, distance);
+        location.confidence = Math.max(location.confidence, coverage.relationship.confidence);
+      }
+      if (!reached) untested.push(symbol.name);
+    }
+
+    const tests = Array.from(found.values())
+      .sort((a, b) => a.distance - b.distance || b.confidence - a.confidence || a.file_path.localeCompare(b.file_path) || a.line - b.line);
+
+    log(`[TestFinder] Tests for "${target}" symbols=${symbols.length} tests=${tests.length} untested=${untested.length}`);
+    return {
+      target,
+      symbols: symbols.map(symbol => symbol.name),
+      tests: tests.slice(0, maxResults),
+      total_tests: tests.length,
+      truncated: tests.length > maxResults,
+      untested,
+      summary: testsSummary(target, symbols.length, tests, untested),
+      query_time_ms: Date.now() - startTime
+    };
+  }
+
+  /** Test cases calling the symbol directly */
+  testsOf(symbolId: string): TestCoverage[] {
+    const graph = this.relationshipEngine.getGraph();
+    const coverage: TestCoverage[] = [];
+    for (const relationshipId of graph.outgoingRelationships.get(symbolId) || []) {
+      const relationship = graph.relationships.get(relationshipId);
+      const test = relationship?.type === 'tested_by' ? graph.symbols.get(relationship.toSymbol) : undefined;
+      if (relationship && test) coverage.push({ test, relationship });
+    }
+    return coverage;
+  }
+
+  /**
+   * Fewest test cases that together exercise every symbol with a test: greedy set
+   * cover, taking the test that covers the most uncovered symbols first.
+   */
+  minimalTestSet(symbolIds: string[]): TestLocation[] {
+    const graph = this.relationshipEngine.getGraph();
+    const candidates = new Map<string, { coverage: TestCoverage; covers: Set<string> }>();
+    for (const symbolId of new Set(symbolIds)) {
+      for (const coverage of this.testsOf(symbolId)) {
+        const candidate = candidates.get(coverage.test.id) || { coverage, covers: new Set<string>() };
+        candidate.covers.add(symbolId);
+        if (coverage.relationship.confidence > candidate.coverage.relationship.confidence) candidate.coverage = coverage;
+        candidates.set(coverage.test.id, candidate);
+      }
+    }
+
+    const uncovered = new Set(Array.from(candidates.values()).flatMap(candidate => Array.from(candidate.covers)));
+    const selected: TestLocation[] = [];
+    while (uncovered.size > 0) {
+      let best: { coverage: TestCoverage; covers: Set<string> } | undefined;
+      let bestCount = 0;
+      for (const candidate of candidates.values()) {
+        const count = Array.from(candidate.covers).filter(symbolId => uncovered.has(symbolId)).length;
+        if (count > bestCount || (count === bestCount && best && candidate.coverage.relationship.confidence > best.coverage.relationship.confidence)) {
+          best = candidate;
+          bestCount = count;
+        }
+      }
+      if (!best) break;
+
+      const covered = Array.from(best.covers).filter(symbolId => uncovered.has(symbolId));
+      covered.forEach(symbolId => uncovered.delete(symbolId));
+      candidates.delete(best.coverage.test.id);
+      selected.push({
+        ...toTestLocation(best.coverage, undefined, 1),
+        covers: covered.map(symbolId => graph.symbols.get(symbolId)?.name || symbolId)
+      });
+    }
+    return selected;
+  }
+
+  /** Direct tests, then tests of callers up to `maxDepth` call hops away */
+  private reachingTests(symbol: CodeSymbol, maxDepth: number): Array<{ coverage: TestCoverage; distance: number }> {
+    const reached: Array<{ coverage: TestCoverage; distance: number }> = [];
+    const visited = new Set<string>([symbol.id]);
+    let frontier = [symbol];
+
+    for (let distance = 1; distance <= maxDepth && frontier.length > 0; distance++) {
+      const next: CodeSymbol[] = [];
+      for (const current of frontier) {
+        reached.push(...this.testsOf(current.id).map(coverage => ({ coverage, distance })));
+        if (distance === maxDepth) continue;
+        for (const caller of this.callersOf(current)) {
+          if (visited.has(caller.id)) continue;
+          visited.add(caller.id);
+          next.push(caller);
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+
+  /** Functions calling or constructing the symbol, including name-only calls find_references accepts */
+  private callersOf(symbol: CodeSymbol): CodeSymbol[] {
+    const graph = this.relationshipEngine.getGraph();
+    return this.navigator.referencesTo(symbol)
+      .filter(({ relationship }) => CALLER_RELATIONSHIPS.has(relationship.type))
+      .map(({ relationship }) => graph.symbols.get(relationship.fromSymbol))
+      .filter((caller): caller is CodeSymbol => !!caller);
+  }
+}
+
+function toTestLocation(coverage: TestCoverage, covers: CodeSymbol | undefined, distance: number): TestLocation {
+  const { test, relationship } = coverage;
+  return {
+    test_id: test.id,
+    name: test.name,
+    file_path: test.filePath,
+    line: test.startLine,
+    framework: relationship.metadata?.testFramework,
+    covers: covers ? [covers.name] : [],
+    distance,
+    confidence: relationship.confidence
+  };
+}
+
+function testsSummary(target: string, symbolCount: number, tests: TestLocation[], untested: string[]): string {
+  if (symbolCount === 0) return `No symbol found for ${target}`;
+  const files = new Set(tests.map(test => test.file_path)).size;
+  const gaps = untested.length > 0 ? `; untested: ${untested.slice(0, 5).join(', ')}${untested.length > 5 ? ', ...' : ''}` : '';
+  return `${tests.length} test${tests.length === 1 ? '' : 's'} in ${files} file${files === 1 ? '' : 's'} for ${target}${gaps}`;
+}
@@ -0,0 +1,370 @@
+import Parser from 'tree-sitter';
+import * as path from 'path';
+import { CodeRelationship, CodeSymbol, TestFramework } from './relationship-types';
+import { isTestFile } from './search-filter';
+import { log } from './logging-utils';
+
+type ParseFile = (content: string, filePath: string) => Parser.Tree | null;
+
+// `describe`/`it` globals shared by jest, vitest and mocha; `x`/`f` prefixes skip or focus
+const SUITE_FUNCTIONS = new Set(['describe', 'context', 'suite', 'xdescribe', 'fdescribe']);
+const TEST_FUNCTIONS = new Set(['it', 'test', 'specify', 'xit', 'fit', 'xtest']);
+const SETUP_HOOKS = new Set(['beforeEach', 'beforeAll', 'before', 'setup', 'suiteSetup']);
+const PYTHON_SETUP_HOOKS = new Set(['setUp', 'setUpClass', 'setup_method', 'setup_class', 'setup']);
+
+// Call roots that belong to the test framework, assertion or mocking libraries
+const FRAMEWORK_ROOTS = new Set([
+  'expect', 'assert', 'jest', 'vi', 'sinon', 'chai', 'should', 'td', 'nock',
+  'pytest', 'mock', 'mocker', 'patch', 'unittest', 'monkeypatch'
+]);
+
+const CALLABLE_SYMBOL_TYPES = new Set<CodeSymbol['type']>(['function', 'method', 'class']);
+
+const JS_FUNCTION_TYPES = new Set(['arrow_function', 'function_expression', 'function']);
+
+interface TestCall {
+  name: string;
+  qualifier?: string;   // Object of a member call: `service` in `service.save()`
+  line: number;
+  column: number;
+  viaHook: boolean;
+}
+
+interface TestCase {
+  symbol: CodeSymbol;
+  calls: TestCall[];
+}
+
+/**
+ * Finds test cases in jest, vitest, mocha and pytest files and links each one to
+ * the production symbols it calls: `tests` from the test case, `tested_by` back.
+ *
+ * Test cases are `it`/`test` blocks (named by their enclosing `describe` titles) and
+ * pytest `test_*` functions and `Test*` class methods. Calls in setup hooks count for
+ * every test they run before. A call resolves to a symbol of that name in a file the
+ * test imports, then in files those import (barrels), then to the only production
+ * symbol with that name. `x = new Service()` in the test picks among same-named methods.
+ */
+export class TestMapper {
+  constructor(private parseFile: ParseFile) {}
+
+  mapTests(
+    files: Map<string, string>,
+    symbols: CodeSymbol[],
+    relationships: CodeRelationship[]
+  ): { symbols: CodeSymbol[]; relationships: CodeRelationship[] } {
+    const production = symbols.filter(symbol =>
+      CALLABLE_SYMBOL_TYPES.has(symbol.type) && symbol.scope !== 'local' && !isTestFile(symbol.filePath));
+    const symbolsByName = new Map<string, CodeSymbol[]>();
+    const classesByFile = new Map<string, CodeSymbol[]>();
+    for (const symbol of production) {
+      if (!symbolsByName.has(symbol.name)) symbolsByName.set(symbol.name, []);
+      symbolsByName.get(symbol.name)!.push(symbol);
+      if (symbol.type !== 'class') continue;
+      if (!classesByFile.has(symbol.filePath)) classesByFile.set(symbol.filePath, []);
+      classesByFile.get(symbol.filePath)!.push(symbol);
+    }
+    const ownerOf = (method: CodeSymbol) => (classesByFile.get(method.filePath) || [])
+      .find(owner => owner.startLine <= method.startLine && owner.endLine >= method.endLine)?.name;
+    const imports = new Map<string, string[]>();
+    for (const relationship of relationships) {
+      if (relationship.type !== 'depends_on') continue;
+      const from = relationship.fromSymbol.replace(/:module:1$/, '');
+      if (!imports.has(from)) imports.set(from, []);
+      imports.get(from)!.push(relationship.toSymbol.replace(/:module:1$/, ''));
+    }
+
+    const testSymbols: CodeSymbol[] = [];
+    const testRelationships = new Map<string, CodeRelationship>();
+    const existing = new Map(symbols.map(symbol => [symbol.id, symbol]));
+
+    for (const [filePath, content] of files) {
+      const framework = detectTestFramework(filePath, content);
+      if (!framework) continue;
+
+      const tree = this.parseFile(content, filePath);
+      if (!tree) continue;
+
+      const testCases = framework === 'pytest'
+        ? collectPythonTests(tree, filePath)
+        : collectJavaScriptTests(tree, filePath);
+
+      const directImports = (imports.get(filePath) || []).filter(file => !isTestFile(file));
+      const transitiveImports = directImports.flatMap(file => imports.get(file) || []).filter(file => !isTestFile(file));
+      const constructed = constructedTypes(content);
+
+      for (const testCase of testCases) {
+        const symbol = existing.get(testCase.symbol.id) || testCase.symbol;
+        if (!existing.has(symbol.id)) {
+          existing.set(symbol.id, symbol);
+          testSymbols.push(symbol);
+        }
+
+        for (const call of testCase.calls) {
+          const { targets, confidence } = resolveCall(call, symbolsByName, ownerOf, directImports, transitiveImports, constructed);
+          for (const target of targets) {
+            this.link(testRelationships, symbol, target, call, framework, confidence);
+          }
+        }
+      }
+    }
+
+    const linked = Array.from(testRelationships.values());
+    if (linked.length > 0) {
+      log(`[TestMapper] Linked tests to production code testCases=${testSymbols.length} relationships=${linked.length}`);
+    }
+    return { symbols: testSymbols, relationships: linked };
+  }
+
+  /** One `tests` and one `tested_by` edge per test case and target, keeping the most confident call */
+  private link(
+    linked: Map<string, CodeRelationship>,
+    testCase: CodeSymbol,
+    target: CodeSymbol,
+    call: TestCall,
+    framework: TestFramework,
+    confidence: number
+  ): void {
+    const strength = call.viaHook ? 0.7 : 0.9;
+    const metadata = {
+      testFramework: framework,
+      viaHook: call.viaHook || undefined,
+      sourceLocation: { line: call.line, column: call.column }
+    };
+
+    const testsId = `${testCase.id}:tests:${target.id}`;
+    const previous = linked.get(testsId);
+    if (previous && previous.confidence * previous.strength >= confidence * strength) return;
+
+    linked.set(testsId, { id: testsId, fromSymbol: testCase.id, toSymbol: target.id, type: 'tests', strength, confidence, metadata });
+    const testedById = `${target.id}:tested_by:${testCase.id}`;
+    linked.set(testedById, { id: testedById, fromSymbol: target.id, toSymbol: testCase.id, type: 'tested_by', strength, confidence, metadata });
+  }
+}
+
+/**
+ * The framework a file's tests run under, or undefined for non-test files. Needs a
+ * test file name or directory (see isTestFile) and test blocks in the content.
+ */
+export function detectTestFramework(filePath: string, content: string): TestFramework | undefined {
+  if (!isTestFile(filePath)) return undefined;
+
+  if (path.extname(filePath).toLowerCase() === '.py') {
+    return /^\s*(?:async\s+)?def\s+test_|^\s*class\s+Test\w*/m.test(content) ? 'pytest' : undefined;
+  }
+
+  if (!/\b(?:it|test|specify)\s*(?:\.\w+\s*)?\(/.test(content)) return undefined;
+  if (/from\s+['"]vitest['"]|require\(\s*['"]vitest['"]\s*\)/.test(content)) return 'vitest';
+  if (/from\s+['"]@jest\/globals['"]|\bjest\.(?:fn|mock|spyOn)\b/.test(content)) return 'jest';
+  if (/from\s+['"](?:mocha|chai)['"]|require\(\s*['"](?:mocha|chai)['"]\s*\)|\bcontext\s*\(/.test(content)) return 'mocha';
+  // Bare describe/it globals: jest is the common default
+  return 'jest';
+}
+
+function collectJavaScriptTests(tree: Parser.Tree, filePath: string): TestCase[] {
+  const testCases: TestCase[] = [];
+
+  const visitBlock = (body: Parser.SyntaxNode, suites: string[], hooks: TestCall[]): void => {
+    // Hooks apply to every test in the block, wherever they are written
+    const blockHooks = [...hooks];
+    for (const call of blockCalls(body)) {
+      if (SETUP_HOOKS.has(rootName(call) || '')) {
+        const callback = lastFunctionArgument(call);
+        if (callback) blockHooks.push(...collectJavaScriptCalls(callback, true));
+      }
+    }
+
+    for (const call of blockCalls(body)) {
+      const root = rootName(call);
+      const title = firstStringArgument(call);
+      const callback = lastFunctionArgument(call);
+      if (!root || title === undefined || !callback) continue;
+
+      if (SUITE_FUNCTIONS.has(root)) {
+        const suiteBody = callback.childForFieldName('body');
+        if (suiteBody) visitBlock(suiteBody, [...suites, title], blockHooks);
+      } else if (TEST_FUNCTIONS.has(root)) {
+        const name = [...suites, title].join(' > ');
+        testCases.push({
+          symbol: testSymbol(filePath, name, call),
+          calls: [...collectJavaScriptCalls(callback, false), ...blockHooks]
+        });
+      }
+    }
+  };
+
+  visitBlock(tree.rootNode, [], []);
+  return testCases;
+}
+
+/** Calls made by statements directly in a file or callback body */
+function blockCalls(body: Parser.SyntaxNode): Parser.SyntaxNode[] {
+  return body.namedChildren
+    .filter(statement => statement.type === 'expression_statement')
+    .map(statement => {
+      let expression = statement.namedChildren[0];
+      if (expression?.type === 'await_expression') expression = expression.namedChildren[0];
+      return expression;
+    })
+    .filter((expression): expression is Parser.SyntaxNode => expression?.type === 'call_expression');
+}
+
+/** `it` for `it(...)`, `it.only(...)` and `it.each(table)(...)` */
+function rootName(call: Parser.SyntaxNode): string | undefined {
+  let callee = call.childForFieldName('function');
+  while (callee && (callee.type === 'member_expression' || callee.type === 'call_expression')) {
+    callee = callee.type === 'member_expression' ? callee.childForFieldName('object') : callee.childForFieldName('function');
+  }
+  return callee?.type === 'identifier' ? callee.text : undefined;
+}
+
+function firstStringArgument(call: Parser.SyntaxNode): string | undefined {
+  const first = call.childForFieldName('arguments')?.namedChildren[0];
+  if (!first || (first.type !== 'string' && first.type !== 'template_string')) return undefined;
+  return first.text.slice(1, -1);
+}
+
+function lastFunctionArgument(call: Parser.SyntaxNode): Parser.SyntaxNode | undefined {
+  const args = call.childForFieldName('arguments')?.namedChildren || [];
+  return args.slice().reverse().find(arg => JS_FUNCTION_TYPES.has(arg.type));
+}
+
+function collectJavaScriptCalls(callback: Parser.SyntaxNode, viaHook: boolean): TestCall[] {
+  const calls: TestCall[] = [];
+  for (const node of callback.descendantsOfType(['call_expression', 'new_expression'])) {
+    const callee = node.childForFieldName(node.type === 'new_expression' ? 'constructor' : 'function');
+    const call = calleeCall(callee, 'member_expression', 'property', viaHook);
+    if (call) calls.push(call);
+  }
+  return calls;
+}
+
+function collectPythonTests(tree: Parser.Tree, filePath: string): TestCase[] {
+  const testCases: TestCase[] = [];
+
+  for (const node of tree.rootNode.namedChildren) {
+    const definition = unwrapDecorated(node);
+    const name = definition.childForFieldName('name')?.text;
+    if (!name) continue;
+
+    if (definition.type === 'function_definition' && name.startsWith('test_')) {
+      testCases.push({ symbol: testSymbol(filePath, name, definition), calls: collectPythonCalls(definition, false) });
+    } else if (definition.type === 'class_definition' && isPythonTestClass(definition, name)) {
+      const methods = (definition.childForFieldName('body')?.namedChildren || []).map(unwrapDecorated)
+        .filter(member => member.type === 'function_definition');
+      const hooks = methods
+        .filter(method => PYTHON_SETUP_HOOKS.has(method.childForFieldName('name')?.text || ''))
+        .flatMap(method => collectPythonCalls(method, true));
+
+      for (const method of methods) {
+        const methodName = method.childForFieldName('name')?.text || '';
+        if (!methodName.startsWith('test')) continue;
+        testCases.push({
+          symbol: testSymbol(filePath, methodName, method),
+          calls: [...collectPythonCalls(method, false), ...hooks]
+        });
+      }
+    }
+  }
+
+  return testCases;
+}
+
+// pytest collects `Test*` classes; unittest needs a TestCase base
+function isPythonTestClass(definition: Parser.SyntaxNode, name: string): boolean {
+  if (name.startsWith('Test')) return true;
+  return (definition.childForFieldName('superclasses')?.namedChildren || []).some(base => /TestCase$/.test(base.text));
+}
+
+function unwrapDecorated(node: Parser.SyntaxNode): Parser.SyntaxNode {
+  return node.type === 'decorated_definition' ? node.childForFieldName('definition') || node : node;
+}
+
+function collectPythonCalls(definition: Parser.SyntaxNode, viaHook: boolean): TestCall[] {
+  const calls: TestCall[] = [];
+  for (const node of definition.descendantsOfType('call')) {
+    const call = calleeCall(node.childForFieldName('function'), 'attribute', 'attribute', viaHook);
+    // `self.assertEqual(...)` and friends come from unittest.TestCase
+    if (call && !(call.qualifier === 'self' && /^assert/.test(call.name))) calls.push(call);
+  }
+  return calls;
+}
+
+/** Name and qualifier of a callee, or undefined when it is a framework or assertion call */
+function calleeCall(callee: Parser.SyntaxNode | null, memberType: string, propertyField: string, viaHook: boolean): TestCall | undefined {
+  if (!callee) return undefined;
+
+  let name: string | undefined;
+  let qualifier: string | undefined;
+  if (callee.type === 'identifier') {
+    name = callee.text;
+  } else if (callee.type === memberType) {
+    name = callee.childForFieldName(propertyField)?.text;
+    const object = callee.childForFieldName('object');
+    qualifier = object?.text.split(/[.(]/).filter(Boolean).pop();
+  }
+  if (!name) return undefined;
+
+  let root: Parser.SyntaxNode | null = callee;
+  while (root && (root.type === memberType || root.type === 'call_expression' || root.type === 'call')) {
+    root = root.type === memberType ? root.childForFieldName('object') : root.childForFieldName('function');
+  }
+  if (root && FRAMEWORK_ROOTS.has(root.text)) return undefined;
+
+  return { name, qualifier, line: callee.startPosition.row + 1, column: callee.startPosition.column, viaHook };
+}
+
+function testSymbol(filePath: string, name: string, node: Parser.SyntaxNode): CodeSymbol {
+  const line = node.startPosition.row + 1;
+  return {
+    // Titles can hold anything; ids keep the `file:name:line` shape
+    id: `${filePath}:${name.replace(/:/g, ' ')}:${line}`,
+    name,
+    type: 'function',
+    filePath,
+    startLine: line,
+    endLine: node.endPosition.row + 1,
+    scope: 'module'
+  };
+}
+
+/** `service = new UserService(...)` / `service = UserService(...)`: variable to class */
+function constructedTypes(content: string): Map<string, string> {
+  const types = new Map<string, string>();
+  for (const match of content.matchAll(/([A-Za-z_$][\w$]*)\s*=\s*(?:new\s+)?([A-Z][\w$]*)\s*\(/g)) {
+    types.set(match[1], match[2]);
+  }
+  return types;
+}
+
+/** Production symbols a test call can mean, nearest imports first */
+function resolveCall(
+  call: TestCall,
+  symbolsByName: Map<string, CodeSymbol[]>,
+  ownerOf: (method: CodeSymbol) => string | undefined,
+  directImports: string[],
+  transitiveImports: string[],
+  constructed: Map<string, string>
+): { targets: CodeSymbol[]; confidence: number } {
+  const named = symbolsByName.get(call.name) || [];
+  if (named.length === 0) return { targets: [], confidence: 0 };
+
+  const tiers: Array<{ candidates: CodeSymbol[]; confidence: number; imported: boolean }> = [
+    { candidates: named.filter(symbol => directImports.includes(symbol.filePath)), confidence: 0.9, imported: true },
+    { candidates: named.filter(symbol => transitiveImports.includes(symbol.filePath)), confidence: 0.7, imported: true },
+    { candidates: named, confidence: 0.5, imported: false }
+  ];
+
+  // Same-named methods: the class the qualifier was constructed from
+  const className = call.qualifier && (constructed.get(call.qualifier) || call.qualifier);
+
+  for (const { candidates, confidence, imported } of tiers) {
+    if (candidates.length === 0) continue;
+    const owned = className ? candidates.filter(symbol => symbol.type === 'method' && ownerOf(symbol) === className) : [];
+    if (owned.length > 0) return { targets: owned, confidence };
+    if (candidates.length === 1) return { targets: candidates, confidence };
+    // Several imported candidates are all plausible; several unrelated ones are noise
+    if (imported) return { targets: candidates, confidence: Math.min(confidence, 0.6) };
+  }
+  return { targets: [], confidence: 0 };
+}
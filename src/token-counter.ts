@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeChunk } from './types';
+import { cortexConfig } from './env-config';
+import { log, warn } from './logging-utils';
+
+/**
+ * Pre-split pattern of the bundled vocabulary (cl100k-style, without possessive
+ * quantifiers). scripts/build-tokenizer-vocab.js trains with the same pattern.
+ */
+const CODE_SPLIT_PATTERN = /'(?:[sdmtSDMT]|ll|ve|re|LL|VE|RE)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+const CONTRACTION = `(?:'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD])?`;
+const O200K_SPLIT_PATTERN = new RegExp([
+  `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+${CONTRACTION}`,
+  `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*${CONTRACTION}`,
+  `\\p{N}{1,3}`,
+  ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+  `\\s*[\\r\\n]+`,
+  `\\s+(?!\\S)`,
+  `\\s+`
+].join('|'), 'gu');
+
+const BUNDLED_VOCABULARY = 'cortex-code-bpe.tiktoken';
+
+// Pieces longer than this are counted in slices; merging is quadratic in piece length
+const MAX_PIECE_BYTES = 256;
+const PIECE_CACHE_SIZE = 50000;
+
+export interface TokenizerProfile {
+  name: string;
+  vocabulary: string;   // tiktoken-format file (`<base64 bytes> <rank>` per line)
+  pattern: RegExp;
+  description: string;
+}
+
+/**
+ * Tokenizers by model. Only the bundled vocabulary ships with Cortex; the OpenAI
+ * vocabularies are loaded from CORTEX_TOKENIZER_DIR when present and otherwise
+ * fall back to the bundled one.
+ */
+export const TOKENIZER_PROFILES: Record<string, TokenizerProfile> = {
+  'claude': {
+    name: 'claude',
+    vocabulary: BUNDLED_VOCABULARY,
+    pattern: CODE_SPLIT_PATTERN,
+    description: 'Bundled code BPE; Claude\'s own vocabulary is not published'
+  },
+  'cortex-code': {
+    name: 'cortex-code',
+    vocabulary: BUNDLED_VOCABULARY,
+    pattern: CODE_SPLIT_PATTERN,
+    description: 'Byte-level BPE trained on source code by scripts/build-tokenizer-vocab.js'
+  },
+  'gpt-4': {
+    name: 'gpt-4',
+    vocabulary: 'cl100k_base.tiktoken',
+    pattern: CODE_SPLIT_PATTERN,
+    description: 'cl100k_base (GPT-4, GPT-3.5)'
+  },
+  'gpt-4o': {
+    name: 'gpt-4o',
+    vocabulary: 'o200k_base.tiktoken',
+    pattern: O200K_SPLIT_PATTERN,
+    description: 'o200k_base (GPT-4o, o-series)'
+  }
+};
+
+/** Byte-level BPE over a tiktoken rank table; only counts, ids are never needed */
+class BytePairEncoder {
+  private pieceCache: Map<string, number> = new Map();
+
+  // Token bytes as latin1 strings -> rank
+  constructor(private ranks: Map<string, number>, private pattern: RegExp) {}
+
+  count(text: string): number {
+    let tokens = 0;
+    for (const match of text.matchAll(this.pattern)) {
+      tokens += this.countPiece(match[0]);
+    }
+    return tokens;
+  }
+
+  private countPiece(piece: string): number {
+    const cached = this.pieceCache.get(piece);
+    if (cached !== undefined) return cached;
+
+    const bytes = Buffer.from(piece, 'utf-8').toString('latin1');
+    let tokens = 0;
+    for (let offset = 0; offset < bytes.length; offset += MAX_PIECE_BYTES) {
+      tokens += this.mergeCount(bytes.slice(offset, offset + MAX_PIECE_BYTES));
+    }
+
+    if (this.pieceCache.size >= PIECE_CACHE_SIZE) this.pieceCache.clear();
+    this.pieceCache.set(piece, tokens);
+    return tokens;
+  }
+
+  /** Repeatedly merges the adjacent pair with the lowest rank, as tiktoken does */
+  private mergeCount(bytes: string): number {
+    if (bytes.length <= 1 || this.ranks.has(bytes)) return 1;
+
+    const parts: string[] = Array.from(bytes);
+    for (;;) {
+      let bestRank = Infinity;
+      let bestIndex = -1;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+      if (bestIndex < 0) break;
+      parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+    }
+    return parts.length;
+  }
+}
+
+/**
+ * Counts tokens the way the model will, for token budgets and `token_estimate`.
+ * Falls back to ~4 characters per token when no vocabulary can be loaded.
+ */
+export class TokenCounter {
+  constructor(readonly profile: TokenizerProfile, private encoder?: BytePairEncoder) {}
+
+  count(text: string): number {
+    if (!text) return 0;
+    return this.encoder ? this.encoder.count(text) : Math.ceil(text.length / 4);
+  }
+
+  /** Content plus the location line a chunk is returned with */
+  countChunk(chunk: CodeChunk): number {
+    const location = `${chunk.file_path}:${chunk.start_line}-${chunk.end_line} ${chunk.chunk_type}${chunk.symbol_name ? ` ${chunk.symbol_name}` : ''}`;
+    return this.count(chunk.content) + this.count(location);
+  }
+}
+
+const counters: Map<string, TokenCounter> = new Map();
+
+/** Shared counter for a profile (default CORTEX_TOKENIZER_PROFILE); vocabularies load once */
+export function getTokenCounter(profileName: string = cortexConfig.tokenizerProfile): TokenCounter {
+  let counter = counters.get(profileName);
+  if (!counter) {
+    counter = createTokenCounter(profileName);
+    counters.set(profileName, counter);
+  }
+  return counter;
+}
+
+export function countTokens(text: string): number {
+  return getTokenCounter().count(text);
+}
+
+function createTokenCounter(profileName: string): TokenCounter {
+  let profile = TOKENIZER_PROFILES[profileName];
+  if (!profile) {
+    warn(`[TokenCounter] Unknown tokenizer profile "${profileName}", using claude. Profiles: ${Object.keys(TOKENIZER_PROFILES).join(', ')}`);
+    profile = TOKENIZER_PROFILES['claude'];
+  }
+
+  let vocabularyPath = resolveVocabulary(profile.vocabulary);
+  if (!vocabularyPath && profile.vocabulary !== BUNDLED_VOCABULARY) {
+    warn(`[TokenCounter] ${profile.vocabulary} not found for profile ${profile.name}; set CORTEX_TOKENIZER_DIR to its directory. Using the bundled vocabulary`);
+    profile = { ...profile, vocabulary: BUNDLED_VOCABULARY, pattern: CODE_SPLIT_PATTERN };
+    vocabularyPath = resolveVocabulary(BUNDLED_VOCABULARY);
+  }
+  if (!vocabularyPath) {
+    warn(`[TokenCounter] No tokenizer vocabulary found, estimating ~4 characters per token`);
+    return new TokenCounter(profile);
+  }
+
+  try {
+    const ranks = loadRanks(vocabularyPath);
+    log(`[TokenCounter] Loaded ${profile.vocabulary} profile=${profile.name} tokens=${ranks.size}`);
+    return new TokenCounter(profile, new BytePairEncoder(ranks, profile.pattern));
+  } catch (err) {
+    warn(`[TokenCounter] Failed to load ${vocabularyPath}, estimating ~4 characters per token error=${err instanceof Error ? err.message : err}`);
+    return new TokenCounter(profile);
+  }
+}
+
+function resolveVocabulary(file: string): string | undefined {
+  const candidates = [
+    ...(cortexConfig.tokenizerDir ? [path.join(cortexConfig.tokenizerDir, file)] : []),
+    path.join(__dirname, 'tokenizers', file)
+  ];
+  return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+function loadRanks(vocabularyPath: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of fs.readFileSync(vocabularyPath, 'utf-8').split('\n')) {
+    const [token, rank] = line.trim().split(' ');
+    if (!token || rank === undefined) continue;
+    ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+  }
+  return ranks;
+}
@@ -0,0 +1,326 @@
+import * as path from 'path';
+import type * as ts from 'typescript';
+import { CodeRelationship } from './relationship-types';
+import { log, warn } from './logging-utils';
+
+// Strength of precise calls the syntactic pass missed (element access, `super(...)`)
+const DEFAULT_CALL_STRENGTH = 0.8;
+
+export interface PreciseCall {
+  heuristicId: string;          // Id CallGraphAnalyzer gives the same call site
+  callerId: string;
+  line: number;
+  column: number;
+  targets: Array<{ symbolId: string; viaInterface?: string }>;
+}
+
+type FunctionLike =
+  | ts.FunctionDeclaration
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration
+  | ts.ArrowFunction
+  | ts.FunctionExpression;
+
+/**
+ * Precise call resolution: loads the project's tsconfig.json into the TypeScript
+ * compiler and resolves each call's target with the type checker, so
+ * `this.vectorStore.upsertChunks()` lands on the class the property is typed as,
+ * overloads land on their implementation, and calls through an interface or
+ * abstract method land on every implementing class. Symbol ids follow
+ * CallGraphAnalyzer (`file:name:line`), so refined edges replace its heuristic ones.
+ *
+ * `typescript` is loaded lazily; without it (or a tsconfig.json) precise mode is off.
+ */
+export class TypeCheckedCallResolver {
+  private checker: ts.TypeChecker;
+  private subtypes?: Map<ts.Symbol, ts.ClassLikeDeclaration[]>;
+
+  private constructor(
+    private ts: typeof import('typescript'),
+    private program: ts.Program,
+    private repositoryPath: string
+  ) {
+    this.checker = program.getTypeChecker();
+  }
+
+  static create(repositoryPath: string, tsconfigPath?: string): TypeCheckedCallResolver | undefined {
+    let typescript: typeof import('typescript');
+    try {
+      typescript = require('typescript');
+    } catch {
+      warn('[TypeCheckedCallResolver] typescript is not installed, precise call resolution disabled');
+      return undefined;
+    }
+
+    const root = path.resolve(repositoryPath);
+    const configPath = tsconfigPath
+      ? path.resolve(root, tsconfigPath)
+      : typescript.findConfigFile(root, typescript.sys.fileExists, 'tsconfig.json');
+    if (!configPath || !typescript.sys.fileExists(configPath)) {
+      warn(`[TypeCheckedCallResolver] No tsconfig.json found in ${root}, precise call resolution disabled`);
+      return undefined;
+    }
+
+    const startTime = Date.now();
+    const parsed = parseConfig(typescript, configPath);
+    if (!parsed) return undefined;
+
+    // Solution-style configs list their projects as references; check them as one program
+    const rootNames = new Set(parsed.fileNames);
+    for (const reference of parsed.projectReferences || []) {
+      const referenced = parseConfig(typescript, typescript.resolveProjectReferencePath(reference));
+      referenced?.fileNames.forEach(fileName => rootNames.add(fileName));
+    }
+
+    const program = typescript.createProgram({
+      rootNames: [...rootNames],
+      options: { ...parsed.options, noEmit: true }
+    });
+    log(`[TypeCheckedCallResolver] Loaded ${path.relative(root, configPath)} files=${rootNames.size} duration=${Date.now() - startTime}ms`);
+    return new TypeCheckedCallResolver(typescript, program, root);
+  }
+
+  /**
+   * Swaps a file's heuristic `calls` edges for checker-resolved ones (confidence 1.0)
+   * and adds resolved calls the syntactic pass could not name. Calls into
+   * node_modules or lib declarations keep their heuristic edge.
+   */
+  refineCallRelationships(filePath: string, content: string, relationships: CodeRelationship[]): CodeRelationship[] {
+    const calls = this.resolveCalls(filePath, content);
+    if (calls.length === 0) return relationships;
+
+    const byHeuristicId = new Map(calls.map(call => [call.heuristicId, call]));
+    const refined: CodeRelationship[] = [];
+
+    for (const relationship of relationships) {
+      const call = relationship.type === 'calls' ? byHeuristicId.get(relationship.id) : undefined;
+      if (!call) {
+        refined.push(relationship);
+        continue;
+      }
+      byHeuristicId.delete(relationship.id);
+      refined.push(...this.toRelationships(call, relationship));
+    }
+
+    for (const call of byHeuristicId.values()) {
+      refined.push(...this.toRelationships(call));
+    }
+    return refined;
+  }
+
+  /** Checker-resolved call sites of a file; empty when the program's copy differs from `content` */
+  resolveCalls(filePath: string, content: string): PreciseCall[] {
+    const sourceFile = this.program.getSourceFile(path.resolve(this.repositoryPath, filePath));
+    if (!sourceFile || sourceFile.text !== content) return [];
+
+    const calls: PreciseCall[] = [];
+    const visit = (node: ts.Node): void => {
+      if (this.ts.isCallExpression(node)) {
+        const call = this.resolveCall(node, filePath, sourceFile);
+        if (call) calls.push(call);
+      }
+      this.ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return calls;
+  }
+
+  private resolveCall(node: ts.CallExpression, filePath: string, sourceFile: ts.SourceFile): PreciseCall | undefined {
+    const caller = this.findContainingFunction(node, sourceFile);
+    if (!caller) return undefined;
+
+    const declaration = this.checker.getResolvedSignature(node)?.declaration;
+    if (!declaration || this.ts.isJSDocSignature(declaration)) return undefined;
+
+    const targets = this.resolveTargets(declaration);
+    if (targets.length === 0) return undefined;
+
+    const callerId = `${filePath}:${caller.name}:${caller.line}`;
+    const calleeName = this.calleeName(node.expression) || this.symbolName(targets[0].declaration, targets[0].sourceFile);
+    const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+
+    return {
+      heuristicId: `${callerId}:calls:${calleeName}:${position.line + 1}`,
+      callerId,
+      line: position.line + 1,
+      column: position.character,
+      targets: targets.map(target => ({
+        symbolId: `${this.relativePath(target.sourceFile)}:${this.symbolName(target.declaration, target.sourceFile)}:${this.startLine(target.declaration, target.sourceFile)}`,
+        viaInterface: target.viaInterface
+      }))
+    };
+  }
+
+  /** Declarations with a body the call can run, inside the repository */
+  private resolveTargets(declaration: ts.Declaration): Array<{ declaration: FunctionLike; sourceFile: ts.SourceFile; viaInterface?: string }> {
+    const ts = this.ts;
+    const inRepository = (node: ts.Node) => {
+      const sourceFile = node.getSourceFile();
+      return !sourceFile.isDeclarationFile && !this.program.isSourceFileFromExternalLibrary(sourceFile)
+        && !this.relativePath(sourceFile).startsWith('..');
+    };
+
+    // Interface members and abstract methods dispatch to every implementation
+    const owner = declaration.parent;
+    const isAbstract = ts.isMethodDeclaration(declaration) && !declaration.body
+      && (ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Abstract) !== 0;
+    if ((ts.isMethodSignature(declaration) || ts.isPropertySignature(declaration) || isAbstract)
+      && (ts.isInterfaceDeclaration(owner) || ts.isClassLike(owner)) && owner.name) {
+      const memberName = declaration.name && ts.isIdentifier(declaration.name) ? declaration.name.text : undefined;
+      if (!memberName) return [];
+      return this.findImplementations(owner, memberName)
+        .filter(inRepository)
+        .map(implementation => ({ declaration: implementation, sourceFile: implementation.getSourceFile(), viaInterface: owner.name!.text }));
+    }
+
+    const implementation = this.findImplementation(declaration);
+    if (!implementation || !inRepository(implementation)) return [];
+    return [{ declaration: implementation, sourceFile: implementation.getSourceFile() }];
+  }
+
+  /** The declaration itself, or for an overload signature the overload with a body */
+  private findImplementation(declaration: ts.Declaration): FunctionLike | undefined {
+    const ts = this.ts;
+    if (ts.isVariableDeclaration(declaration) && declaration.initializer
+      && (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer))) {
+      return declaration.initializer;
+    }
+    if (!isFunctionLike(ts, declaration)) return undefined;
+    if (declaration.body) return declaration;
+
+    const name = (declaration as ts.FunctionDeclaration | ts.MethodDeclaration).name;
+    const symbol = name ? this.checker.getSymbolAtLocation(name) : undefined;
+    return symbol?.declarations?.find((candidate): candidate is FunctionLike => isFunctionLike(ts, candidate) && !!candidate.body);
+  }
+
+  /** Members named `memberName` of every class implementing or extending `owner`, transitively */
+  private findImplementations(owner: ts.InterfaceDeclaration | ts.ClassLikeDeclaration, memberName: string): FunctionLike[] {
+    const ownerSymbol = owner.name ? this.checker.getSymbolAtLocation(owner.name) : undefined;
+    if (!ownerSymbol) return [];
+
+    const subtypes = this.getSubtypes();
+    const implementations: FunctionLike[] = [];
+    const seen = new Set<ts.Symbol>([ownerSymbol]);
+    const queue = [ownerSymbol];
+
+    while (queue.length > 0) {
+      for (const subclass of subtypes.get(queue.shift()!) || []) {
+        const member = subclass.members.find(candidate =>
+          candidate.name && this.ts.isIdentifier(candidate.name) && candidate.name.text === memberName);
+        const implementation = member && this.findImplementation(member);
+        if (implementation) implementations.push(implementation);
+
+        const subclassSymbol = subclass.name ? this.checker.getSymbolAtLocation(subclass.name) : undefined;
+        if (subclassSymbol && !seen.has(subclassSymbol)) {
+          seen.add(subclassSymbol);
+          queue.push(subclassSymbol);
+        }
+      }
+    }
+    return implementations;
+  }
+
+  /** Interface or base class symbol -> classes naming it in `extends`/`implements`, built once */
+  private getSubtypes(): Map<ts.Symbol, ts.ClassLikeDeclaration[]> {
+    if (this.subtypes) return this.subtypes;
+    const ts = this.ts;
+    const subtypes = new Map<ts.Symbol, ts.ClassLikeDeclaration[]>();
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isClassLike(node)) {
+        for (const clause of node.heritageClauses || []) {
+          for (const type of clause.types) {
+            let symbol = this.checker.getSymbolAtLocation(type.expression);
+            if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = this.checker.getAliasedSymbol(symbol);
+            if (!symbol) continue;
+            if (!subtypes.has(symbol)) subtypes.set(symbol, []);
+            subtypes.get(symbol)!.push(node);
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    for (const sourceFile of this.program.getSourceFiles()) {
+      if (!sourceFile.isDeclarationFile && !this.program.isSourceFileFromExternalLibrary(sourceFile)) visit(sourceFile);
+    }
+    this.subtypes = subtypes;
+    return subtypes;
+  }
+
+  /** Nearest named function, skipping anonymous callbacks like CallGraphAnalyzer does */
+  private findContainingFunction(node: ts.Node, sourceFile: ts.SourceFile): { name: string; line: number } | undefined {
+    for (let current = node.parent; current; current = current.parent) {
+      if (!isFunctionLike(this.ts, current)) continue;
+      const name = this.symbolName(current, sourceFile);
+      if (name) return { name, line: this.startLine(current, sourceFile) };
+    }
+    return undefined;
+  }
+
+  /** Declared name, `constructor`, or the variable a function expression is assigned to */
+  private symbolName(node: FunctionLike, sourceFile: ts.SourceFile): string {
+    const ts = this.ts;
+    if (ts.isConstructorDeclaration(node)) return 'constructor';
+    if (!ts.isArrowFunction(node) && node.name) return node.name.getText(sourceFile);
+    if (ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)) return node.parent.name.text;
+    return '';
+  }
+
+  /** Name CallGraphAnalyzer records for the callee: `f` in `f()` and `a.b.f()` */
+  private calleeName(expression: ts.Expression): string | undefined {
+    if (this.ts.isIdentifier(expression)) return expression.text;
+    if (this.ts.isPropertyAccessExpression(expression) && this.ts.isIdentifier(expression.name)) return expression.name.text;
+    return undefined;
+  }
+
+  /** Line tree-sitter starts the function on: after decorators, which it parses as siblings */
+  private startLine(node: FunctionLike, sourceFile: ts.SourceFile): number {
+    const ts = this.ts;
+    let first: ts.Node | undefined = node;
+    if (ts.canHaveDecorators(node) && ts.getDecorators(node)?.length) {
+      first = ts.getModifiers(node)?.[0] || ('asteriskToken' in node ? node.asteriskToken : undefined) || node.name;
+    }
+    return sourceFile.getLineAndCharacterOfPosition((first || node).getStart(sourceFile)).line + 1;
+  }
+
+  private relativePath(sourceFile: ts.SourceFile): string {
+    return path.relative(this.repositoryPath, sourceFile.fileName);
+  }
+
+  private toRelationships(call: PreciseCall, heuristic?: CodeRelationship): CodeRelationship[] {
+    return call.targets.map(target => ({
+      id: call.targets.length === 1 ? call.heuristicId : `${call.heuristicId}->${target.symbolId}`,
+      fromSymbol: call.callerId,
+      toSymbol: target.symbolId,
+      type: 'calls' as const,
+      strength: heuristic?.strength ?? DEFAULT_CALL_STRENGTH,
+      confidence: 1.0,
+      metadata: {
+        ...heuristic?.metadata,
+        callType: target.viaInterface ? 'indirect' : heuristic?.metadata?.callType || 'direct',
+        resolvedBy: 'type_checker' as const,
+        viaInterface: target.viaInterface,
+        sourceLocation: { line: call.line, column: call.column }
+      }
+    }));
+  }
+}
+
+function isFunctionLike(typescript: typeof import('typescript'), node: ts.Node): node is FunctionLike {
+  return typescript.isFunctionDeclaration(node) || typescript.isMethodDeclaration(node)
+    || typescript.isConstructorDeclaration(node) || typescript.isGetAccessorDeclaration(node)
+    || typescript.isSetAccessorDeclaration(node) || typescript.isArrowFunction(node)
+    || typescript.isFunctionExpression(node);
+}
+
+function parseConfig(typescript: typeof import('typescript'), configPath: string): ts.ParsedCommandLine | undefined {
+  const { config, error } = typescript.readConfigFile(configPath, typescript.sys.readFile);
+  if (error) {
+    warn(`[TypeCheckedCallResolver] Failed to read ${configPath} error=${typescript.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    return undefined;
+  }
+  return typescript.parseJsonConfigFileContent(config, typescript.sys, path.dirname(configPath), undefined, configPath);
+}
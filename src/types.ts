@@ -9,7 +9,11 @@ export interface CodeChunk {
   end_line: number;
   content: string;
   content_hash: string;
-  embedding: number[];
+  embedding: number[];              // Body vector
+  representation_embeddings?: Partial<Record<ExtraRepresentation, number[]>>; // Signature, docstring and summary vectors
+  summary?: string;                 // One-paragraph description built from the AST (chunk-summarizer.ts)
+  content_summarized?: boolean;     // `minimal` context_mode results: content holds the summary, not the body
+  matched_representation?: EmbeddingRepresentation; // Search results: the vector that matched the query
   relationships: CodeRelationships;
   git_metadata: GitMetadata;
   language_metadata: LanguageMetadata;
@@ -18,9 +22,23 @@ export interface CodeChunk {
   relevance_score?: number;
   similarity_score?: number;
   function_name?: string;
+  parent_symbol?: string; // Enclosing class symbol_name for method chunks
+  sub_chunk?: SubChunkInfo; // Set when an oversized chunk was split into pieces
+}
+
+// Vectors stored per chunk: the whole body, the declaration with its name, the leading comment, the AST summary
+export type EmbeddingRepresentation = 'body' | 'signature' | 'docstring' | 'summary';
+export type ExtraRepresentation = Exclude<EmbeddingRepresentation, 'body'>;
+
+export interface SubChunkInfo {
+  parent_chunk_id: string;      // Id the unsplit chunk would have had
+  index: number;                // 1-based position among siblings
+  total: number;
+  previous_chunk_id?: string;
+  next_chunk_id?: string;
 }
 
-export type ChunkType = 'function' | 'class' | 'method' | 'documentation' | 'config';
+export type ChunkType = 'function' | 'class' | 'method' | 'interface' | 'type_alias' | 'enum' | 'documentation' | 'config';
 
 // Simple version compatibility
 export const CORTEX_PROGRAM_VERSION = '2.1.0';
@@ -50,6 +68,7 @@ export interface CodeRelationships {
   imports: string[];
   exports: string[];
   data_flow: string[];
+  mentions?: string[]; // Symbols referenced by documentation (fenced code, inline code)
 }
 
 export interface GitMetadata {
@@ -82,8 +101,257 @@ export interface QueryRequest {
   multi_hop?: MultiHopConfig;
   context_mode?: ContextMode;
   token_budget?: number; // Maximum tokens for dependency analysis
+  filter?: SearchFilter; // Applied while scoring candidates, together with file_filters/include_tests
+  retrieval_weights?: RetrievalWeights; // Defaults to CORTEX_HYBRID_*_WEIGHT
+  mmr_preset?: string; // MMRConfigManager preset; picked from the query intent when unset
+  analysis?: QueryAnalysis; // Filled in by the searcher before retrieval
+}
+
+/** Reciprocal-rank fusion weights; 0 turns a retriever off */
+export interface RetrievalWeights {
+  vector?: number;
+  lexical?: number;
+  symbol?: number; // Exact symbol-name and stack-frame lookup
+}
+
+export type QueryIntent = 'find_definition' | 'find_usages' | 'explain' | 'debug' | 'general';
+
+export interface StackFrame {
+  file_path: string;
+  line?: number;
+  column?: number;
+  symbol?: string; // Function or method named by the frame, if any
+}
+
+export interface QueryAnalysis {
+  intent: QueryIntent;
+  identifiers: string[];
+  file_paths: string[];
+  error_messages: string[];
+  stack_frames: StackFrame[]; // Innermost first; frames outside the project are dropped
+  sub_queries: {
+    semantic: string;  // Natural-language part, embedded for vector search
+    lexical: string;   // Identifiers, error text and file names for BM25
+    symbols: string[]; // Exact symbol names to look up, most specific first
+  };
+  context_mode: ContextMode;
+  mmr_preset?: string; // Unset for general queries, which keep the configured MMR settings
+}
+
+// Chunk identity kept between runs of a saved query
+export interface SavedQueryResult {
+  key: string;           // file_path#symbol_name, or the chunk_id for unnamed chunks; survives line shifts
+  chunk_id: string;
+  file_path: string;
+  symbol_name?: string;
+  start_line: number;
+  end_line: number;
+  content_hash: string;
+}
+
+export interface SavedQueryDiff {
+  query_id: string;
+  query: string;
+  trigger: string;       // What re-ran the query, e.g. `live-indexer: 3 files`
+  compared_at: string;   // ISO time
+  added: SavedQueryResult[];
+  removed: SavedQueryResult[];
+  modified: SavedQueryResult[]; // Still returned, but the chunk content changed
 }
 
+export interface SavedQuery {
+  id: string;
+  name?: string;
+  query: string;
+  max_chunks: number;
+  created_at: string;
+  last_run_at?: string;
+  last_results?: SavedQueryResult[];
+  last_diff?: SavedQueryDiff; // Most recent run that changed the results
+}
+
+// Per-project saved-query summary on the server's /status endpoint
+export interface SavedQueryStatus {
+  project: string;
+  savedQueries: number;
+  changes: SavedQueryDiff[]; // Latest diff of each query whose results have changed
+}
+
+export interface StackTraceSearchRequest {
+  stack_trace: string;              // Pasted trace, optionally with the error message and prose
+  max_callers?: number;             // Call-graph callers of the throw site to add (default 5)
+  include_error_handling?: boolean; // Add throws/catches relationships and handler chunks (default true)
+}
+
+// Why a chunk is in a stack trace package, in package order
+export type StackTraceRole = 'throw_site' | 'stack_frame' | 'caller' | 'error_handler';
+
+export interface ResolvedStackFrame extends StackFrame {
+  chunk_id?: string;    // Unset when the frame's file or line is not indexed
+  symbol_name?: string; // Symbol of the enclosing chunk
+}
+
+export interface ErrorRelationship {
+  type: 'throws' | 'catches';
+  function: string;
+  file_path: string;
+  line: number;
+  error_type: string;
+  chunk_id?: string;
+  source: 'graph' | 'content'; // Relationship graph, or a scan of the chunk when the graph has nothing
+}
+
+export interface StackTraceSearchResponse {
+  error_messages: string[];
+  error_type?: string;           // Error class named by the message, e.g. `TypeError`
+  frames: ResolvedStackFrame[];  // Innermost first
+  chunks: CodeChunk[];           // Throw site, outer stack frames, callers, error handlers
+  roles: StackTraceRole[];       // Parallel to `chunks`
+  error_relationships: ErrorRelationship[];
+  context_package: ContextPackage;
+  query_time_ms: number;
+}
+
+export interface SymbolNavigationRequest {
+  symbol?: string;        // `name` or `Class.method`; at a position, names the identifier to resolve
+  file_path?: string;     // With `line`: the position to resolve; alone: only definitions in this file
+  line?: number;          // 1-based
+  column?: number;        // 1-based; picks the identifier under the cursor
+  max_results?: number;   // find_references page size (default 50)
+}
+
+export type SymbolReferenceKind = 'call' | 'import' | 'extends' | 'implements' | 'instantiates' | 'reference';
+
+export interface SymbolLocation {
+  symbol_id?: string;     // Relationship graph id (`file:name:line`) of a definition
+  name: string;
+  kind: string;           // Definitions: function, method, class, ...; references: SymbolReferenceKind
+  container?: string;     // Class of a method definition, or the function a reference sits in
+  file_path: string;
+  line: number;
+  column?: number;        // 1-based, when known
+  chunk_id?: string;      // Smallest indexed chunk enclosing the line
+  snippet?: string;       // The source line, trimmed
+  confidence: number;     // 1.0 for resolved edges, lower for name matches
+}
+
+export interface FindDefinitionResponse {
+  symbol: string;                 // Identifier that was resolved
+  definitions: SymbolLocation[];  // Best match first
+  ambiguous: boolean;             // Several definitions fit equally well
+  source: 'graph' | 'chunks';     // Relationship graph, or chunk symbol names when there is none
+  summary: string;
+  query_time_ms: number;
+}
+
+export interface FindReferencesResponse {
+  symbol: string;
+  definitions: SymbolLocation[];  // What the references were collected for
+  references: SymbolLocation[];   // By file, then line
+  total_references: number;
+  truncated: boolean;
+  ambiguous: boolean;
+  source: 'graph' | 'chunks';
+  summary: string;
+  query_time_ms: number;
+}
+
+export interface FindTestsRequest {
+  symbol?: string;        // `name`, `Class.method` or graph id
+  file_path?: string;     // Without `symbol`: every function, method and class in the file
+  max_depth?: number;     // 1: tests calling the symbol; more: also tests of its callers (default 1)
+  max_results?: number;   // Default 50
+}
+
+export interface TestLocation {
+  test_id: string;        // Graph id of the test case
+  name: string;           // `describe > it` title, or the test function
+  file_path: string;
+  line: number;
+  framework?: 'jest' | 'mocha' | 'vitest' | 'pytest';
+  covers: string[];       // Looked-up symbols it exercises
+  distance: number;       // 1: calls the symbol; more: calls a caller
+  confidence: number;
+}
+
+export interface FindTestsResponse {
+  target: string;         // Symbol or file asked about
+  symbols: string[];      // Symbols the tests were collected for
+  tests: TestLocation[];  // Nearest first, then most confident
+  total_tests: number;
+  truncated: boolean;
+  untested: string[];     // Symbols no test reaches within max_depth
+  summary: string;
+  query_time_ms: number;
+}
+
+export interface ImpactAnalysisRequest {
+  diff?: string;          // Unified diff (`git diff` output)
+  commit_range?: string;  // `a..b`, `a...b`, or one commit
+  symbols?: string[];     // `name`, `Class.method` or graph ids (`file:name:line`)
+  max_depth?: number;     // Dependency hops to follow (default 3)
+  max_results?: number;   // Affected symbols returned (default 50)
+}
+
+// How an affected symbol depends on the one before it on its path
+export type ImpactEdgeKind = 'calls' | 'imports' | 'extends' | 'implements' | 'instantiates' | 'accesses' | 'data_flow' | 'depends_on';
+
+export interface ChangedSymbol {
+  symbol_id: string;        // Graph id; `file:module:1` for top-level code
+  name: string;
+  kind: string;             // function, method, class, ..., or module
+  file_path: string;
+  line: number;
+  changed_lines?: number;   // Diff lines inside the symbol
+  covered_by_tests: boolean;
+  tests?: string[];         // Test files referencing it directly
+}
+
+export interface AffectedSymbol {
+  symbol_id: string;
+  name: string;
+  kind: string;
+  file_path: string;
+  line: number;
+  chunk_id?: string;
+  distance: number;         // Hops from the nearest changed symbol
+  strength: number;         // Product of edge strength x confidence along the path (0-1)
+  via: ImpactEdgeKind;      // Edge into this symbol on its path
+  path: string[];           // Names from the changed symbol to this one
+  covered_by_tests: boolean;
+  tests?: string[];         // Test files referencing it directly
+}
+
+export interface ImpactAnalysisResponse {
+  changed: ChangedSymbol[];
+  affected: AffectedSymbol[];   // Nearest first, then strongest; test code is listed in affected_tests
+  affected_tests: string[];     // Test files reaching a changed symbol, nearest first
+  minimal_test_set: TestLocation[]; // Fewest test cases covering every tested changed or affected symbol
+  total_affected: number;
+  truncated: boolean;
+  unmapped: string[];           // Diff files and symbols the relationship graph does not know
+  summary: string;
+  query_time_ms: number;
+}
+
+/**
+ * Metadata constraints checked before a chunk is scored. Every set field must match;
+ * list fields match when any entry does.
+ */
+export interface SearchFilter {
+  path_globs?: string[];          // `src/**`, `*.ts` (patterns without `/` match any path segment)
+  exclude_path_globs?: string[];
+  languages?: string[];           // language_metadata.language
+  chunk_types?: ChunkType[];
+  symbol_kinds?: SymbolKind[];
+  authors?: string[];             // Case-insensitive substring of git_metadata.commit_author
+  modified_after?: string;        // ISO date, compared with git_metadata.commit_date
+  modified_before?: string;
+  include_tests?: boolean;        // false drops test files
+}
+
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
 export interface MultiHopConfig {
   enabled: boolean;
   max_hops: number;
@@ -102,7 +370,8 @@ export type RelationshipType =
   | 'co_change'
   | 'throws'
   | 'extends'
-  | 'implements';
+  | 'implements'
+  | 'decorated_by';
 export type ContextMode = 'minimal' | 'structured' | 'adaptive';
 
 export interface QueryResponse {
@@ -121,6 +390,46 @@ export interface SearchResponse {
   metadata: QueryMetadata;
   context_chunks?: CodeChunk[];
   dependency_chain?: DependencyChainMetadata; // Smart dependency chain info
+  provenance?: ChunkProvenance[]; // Parallel to `chunks`: why each chunk was returned
+}
+
+export type ProvenanceSource =
+  | 'vector'        // Embedding similarity
+  | 'lexical'       // BM25 keyword match
+  | 'symbol'        // Exact symbol name or stack frame location
+  | 'relationship'  // Reached through a relationship hop
+  | 'dependency'    // Added by dependency chain traversal
+  | 'co_change'     // File often changes together with a match
+  | 'context';      // Parent outline or neighbouring piece of a selected chunk
+
+export interface ProvenanceHop {
+  from: string;
+  to: string;
+  relationship: string;
+  strength?: number;
+}
+
+export interface ChunkProvenance {
+  chunk_id: string;
+  sources: ProvenanceSource[];
+  vector_similarity?: number; // Raw cosine similarity to the query, before any boost
+  representation?: EmbeddingRepresentation; // Vector the similarity was measured on
+  vector_rank?: number;       // 1-based
+  lexical_score?: number;
+  lexical_rank?: number;
+  symbol_rank?: number;
+  fused_score?: number;
+  rerank_score?: number;
+  hop_path?: ProvenanceHop[];
+  boosts: Array<{ reason: string; value: number }>;
+  mmr_step?: {
+    order: number;            // 1-based selection order
+    selected_by: 'critical_set' | 'mmr' | 'parent_outline';
+    relevance: number;
+    diversity: number;
+    mmr_score: number;
+  };
+  final_score: number;
 }
 
 export interface DependencyChainMetadata {
@@ -163,6 +472,14 @@ export interface QueryMetadata {
     budget_utilization: number;
     selection_time_ms: number;
   };
+  query_analysis?: QueryAnalysis;
+  rerank_metrics?: {
+    applied: boolean;
+    reason?: string; // Why the original order was kept
+    candidates: number;
+    cache_hits: number;
+    duration_ms: number;
+  };
   dependency_metrics?: {
     completeness_score: number;
     critical_dependencies: number;
@@ -3,6 +3,7 @@ import { PersistentRelationshipStore } from './persistent-relationship-store';
 import { RelationshipGraph } from './relationship-types';
 import { CodeChunk, ModelInfo } from './types';
 import { log } from './logging-utils';
+import { CompressionStats } from './embedding-quantizer';
 import { StoragePaths, CompressionUtils } from './storage-constants';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -26,6 +27,7 @@ interface StorageStats {
     chunks: number;
     files: number;
     size: string;
+    compression: CompressionStats | null;
   };
   relationships: {
     symbols: number;
@@ -360,7 +362,8 @@ export class UnifiedStorageCoordinator {
       embeddings: {
         chunks: embeddingStats.total_chunks,
         files: embeddingStats.totalFiles,
-        size: embeddingStats.indexSize
+        size: embeddingStats.indexSize,
+        compression: embeddingStats.compression
       },
       relationships: {
         symbols: symbolCount,
@@ -520,6 +523,10 @@ export class UnifiedStorageCoordinator {
     // Storage statistics
     log('[StorageCoord] Storage Statistics:');
     log(`[StorageCoord] Embeddings chunks=${stats.embeddings.chunks} files=${stats.embeddings.files} size=${stats.embeddings.size}`);
+    if (stats.embeddings.compression) {
+      const { format, compressionRatio, recallLoss } = stats.embeddings.compression;
+      log(`[StorageCoord] Embedding compression format=${format} ratio=${compressionRatio.toFixed(1)}x recallLoss=${(recallLoss * 100).toFixed(1)}%`);
+    }
     log(`[StorageCoord] Relationships symbols=${stats.relationships.symbols} relationships=${stats.relationships.relationships} size=${stats.relationships.size}`);
     log(`[StorageCoord] Total size=${stats.totalSize}`);
     
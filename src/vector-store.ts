@@ -1,25 +1,72 @@
-import { CodeChunk } from './types';
+import { CodeChunk, EmbeddingRepresentation, SearchFilter, StackFrame } from './types';
+import { compileSearchFilter } from './search-filter';
+import { LexicalIndex } from './lexical-index';
+import { representationVectors } from './chunk-representations';
+
+export interface SimilaritySearchOptions {
+  filter?: SearchFilter;   // Applied while scoring, so `limit` counts matching chunks only
+  recencyWeight?: number;  // 0-1 share of the score given to commit recency
+}
+
+// Recency score halves every RECENCY_HALF_LIFE_DAYS since the chunk's last commit
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+export function blendRecency(similarity: number, chunk: CodeChunk, recencyWeight?: number): number {
+  if (!recencyWeight || recencyWeight <= 0) return similarity;
+
+  const committed = Date.parse(chunk.git_metadata?.commit_date || '');
+  const days = Number.isNaN(committed) ? Infinity : Math.max(0, (Date.now() - committed) / 86_400_000);
+  const recency = Math.pow(0.5, days / RECENCY_HALF_LIFE_DAYS);
+  const weight = Math.min(recencyWeight, 1);
+  return (1 - weight) * similarity + weight * recency;
+}
+
+function normalizeFramePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function samePath(framePath: string, chunkPath: string): boolean {
+  return framePath === chunkPath || framePath.endsWith(`/${chunkPath}`) || chunkPath.endsWith(`/${framePath}`);
+}
 
 export class VectorStore {
   protected chunks: Map<string, CodeChunk> = new Map();
+  // BM25 index over chunk content; built on the first lexical search
+  protected lexicalIndex: LexicalIndex | null = null;
+  // `base.mutations`: base identifies the loaded index, mutations count changes since
+  protected indexVersionBase: string = Date.now().toString(36);
+  protected indexMutations = 0;
+  // Chunks grouped by file, rebuilt lazily whenever the index version moves on
+  private fileIndex: { version: string; byFile: Map<string, CodeChunk[]> } | null = null;
 
   async upsertChunks(chunks: CodeChunk[]): Promise<void> {
     for (const chunk of chunks) {
       this.chunks.set(chunk.chunk_id, chunk);
+      this.lexicalIndex?.add(chunk);
     }
+    if (chunks.length > 0) this.indexMutations++;
+  }
+
+  /** Changes whenever chunks are added, replaced or removed */
+  getIndexVersion(): string {
+    return `${this.indexVersionBase}.${this.indexMutations}`;
   }
 
   async similaritySearch(
     queryEmbedding: number[],
-    limit: number = 20
+    limit: number = 20,
+    options: SimilaritySearchOptions = {}
   ): Promise<CodeChunk[]> {
-    const results: Array<{ chunk: CodeChunk; similarity: number }> = [];
+    const accept = compileSearchFilter(options.filter);
+    const score = this.representationScorer(queryEmbedding);
+    const results: Array<{ chunk: CodeChunk; similarity: number; representation: EmbeddingRepresentation }> = [];
 
     for (const chunk of this.chunks.values()) {
-      if (chunk.embedding.length === 0) continue;
+      if (!this.hasEmbedding(chunk)) continue;
+      if (accept && !accept(chunk)) continue;
       
-      const similarity = this.cosineSimilarity(queryEmbedding, chunk.embedding);
-      results.push({ chunk, similarity });
+      const { similarity, representation } = score(chunk);
+      results.push({ chunk, similarity: blendRecency(similarity, chunk, options.recencyWeight), representation });
     }
 
     // Sort by similarity descending and take top results
@@ -28,21 +75,157 @@ export class VectorStore {
     return results
       .slice(0, limit)
       .map(result => ({
-        ...result.chunk,
-        relevance_score: result.similarity
+        ...this.materialize(result.chunk),
+        relevance_score: result.similarity,
+        matched_representation: result.representation
       }));
   }
 
+  /** Scores chunks against one query; stores holding quantised codes prepare their lookup tables here */
+  protected representationScorer(queryEmbedding: number[]): (chunk: CodeChunk) => { similarity: number; representation: EmbeddingRepresentation } {
+    return chunk => this.bestRepresentation(queryEmbedding, chunk);
+  }
+
+  /** The chunk's vector (body, signature or docstring) closest to the query */
+  protected bestRepresentation(queryEmbedding: number[], chunk: CodeChunk): { similarity: number; representation: EmbeddingRepresentation } {
+    let best: { similarity: number; representation: EmbeddingRepresentation } = { similarity: -Infinity, representation: 'body' };
+    for (const { representation, vector } of representationVectors(chunk)) {
+      const similarity = this.cosineSimilarity(queryEmbedding, vector);
+      if (similarity > best.similarity) best = { similarity, representation };
+    }
+    return best;
+  }
+
+  /** Chunks ranked by BM25 over code-aware tokens; `relevance_score` is the BM25 score */
+  async lexicalSearch(
+    query: string,
+    limit: number = 20,
+    options: SimilaritySearchOptions = {}
+  ): Promise<CodeChunk[]> {
+    const accept = compileSearchFilter(options.filter);
+    const acceptId = accept ? (id: string) => accept(this.chunks.get(id)!) : undefined;
+
+    const results: CodeChunk[] = [];
+    for (const match of this.getLexicalIndex().search(query, limit, acceptId)) {
+      const chunk = this.chunks.get(match.id);
+      if (chunk) {
+        results.push({ ...this.materialize(chunk), relevance_score: match.score });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Exact lookups from query analysis, best first: the chunk enclosing each stack
+   * frame's line (innermost frame first, smallest chunk first), then chunks whose
+   * symbol is named in the query. `Class.method` also matches a bare `method`,
+   * ranked below the qualified match. `relevance_score` is 1 / (1 + tier).
+   */
+  async symbolSearch(
+    symbols: string[],
+    frames: StackFrame[],
+    limit: number = 20,
+    options: SimilaritySearchOptions = {}
+  ): Promise<CodeChunk[]> {
+    if (symbols.length === 0 && frames.length === 0) return [];
+
+    const accept = compileSearchFilter(options.filter);
+    const framePaths = frames.map(frame => normalizeFramePath(frame.file_path));
+    const matches: Array<{ chunk: CodeChunk; tier: number; span: number }> = [];
+
+    for (const chunk of this.chunks.values()) {
+      if (accept && !accept(chunk)) continue;
+      let tier = Infinity;
+
+      frames.forEach((frame, index) => {
+        if (frame.line !== undefined && samePath(framePaths[index], chunk.file_path) &&
+            frame.line >= chunk.start_line && frame.line <= chunk.end_line) {
+          tier = Math.min(tier, index);
+        }
+      });
+
+      if (chunk.symbol_name) {
+        // Methods are already named `Class.method`
+        const bareName = chunk.symbol_name.slice(chunk.symbol_name.lastIndexOf('.') + 1);
+        symbols.forEach((symbol, index) => {
+          if (symbol === chunk.symbol_name) {
+            tier = Math.min(tier, frames.length + index);
+          } else if (symbol === bareName) {
+            tier = Math.min(tier, frames.length + index + 0.5);
+          }
+        });
+      }
+
+      if (tier !== Infinity) {
+        matches.push({ chunk, tier, span: chunk.end_line - chunk.start_line });
+      }
+    }
+
+    return matches
+      .sort((a, b) => a.tier - b.tier || a.span - b.span)
+      .slice(0, limit)
+      .map(({ chunk, tier }) => ({ ...this.materialize(chunk), relevance_score: 1 / (1 + tier) }));
+  }
+
+  /** The chunk's body vector at full precision, decoded if the store only holds its codes */
+  embeddingOf(chunk: CodeChunk): number[] {
+    return chunk.embedding;
+  }
+
+  protected hasEmbedding(chunk: CodeChunk): boolean {
+    return chunk.embedding.length > 0;
+  }
+
+  /**
+   * The chunk as returned from a search. Stores that keep only quantised codes decode
+   * them here, so ranking and diversity see vectors for the results alone.
+   */
+  protected materialize(chunk: CodeChunk): CodeChunk {
+    return chunk;
+  }
+
+  /**
+   * Chunks enclosing `line` of a file, innermost (smallest span) first. The path may
+   * be absolute or relative to another root, as in stack traces; it matches when
+   * either path ends with the other.
+   */
+  async findByLocation(filePath: string, line: number): Promise<CodeChunk[]> {
+    const framePath = normalizeFramePath(filePath);
+    const results: CodeChunk[] = [];
+
+    for (const chunk of this.chunks.values()) {
+      if (line >= chunk.start_line && line <= chunk.end_line && samePath(framePath, chunk.file_path)) {
+        results.push(chunk);
+      }
+    }
+
+    return results.sort((a, b) => (a.end_line - a.start_line) - (b.end_line - b.start_line));
+  }
+
+  protected getLexicalIndex(): LexicalIndex {
+    if (!this.lexicalIndex) {
+      this.lexicalIndex = new LexicalIndex();
+      for (const chunk of this.chunks.values()) {
+        this.lexicalIndex.add(chunk);
+      }
+    }
+    return this.lexicalIndex;
+  }
+
   async getChunk(chunkId: string): Promise<CodeChunk | undefined> {
     return this.chunks.get(chunkId);
   }
 
   async deleteChunk(chunkId: string): Promise<void> {
     this.chunks.delete(chunkId);
+    this.lexicalIndex?.remove(chunkId);
+    this.indexMutations++;
   }
 
   async clear(): Promise<void> {
     this.chunks.clear();
+    this.lexicalIndex = null;
+    this.indexMutations++;
   }
 
   async getStats(): Promise<{ total_chunks: number; [key: string]: any }> {
@@ -99,6 +282,46 @@ export class VectorStore {
     return null;
   }
 
+  /**
+   * Get the class outline chunk a method chunk belongs to
+   */
+  async getParentChunk(chunk: CodeChunk): Promise<CodeChunk | null> {
+    if (!chunk.parent_symbol) {
+      return null;
+    }
+
+    return this.chunksOfFile(chunk.file_path).find(candidate =>
+      candidate.chunk_type === 'class' && candidate.symbol_name === chunk.parent_symbol
+    ) || null;
+  }
+
+  /**
+   * Get every piece of a split chunk, in order
+   */
+  async getSubChunkSiblings(chunk: CodeChunk): Promise<CodeChunk[]> {
+    if (!chunk.sub_chunk) {
+      return [chunk];
+    }
+
+    const parentId = chunk.sub_chunk.parent_chunk_id;
+    return this.chunksOfFile(chunk.file_path)
+      .filter(candidate => candidate.sub_chunk?.parent_chunk_id === parentId)
+      .sort((a, b) => a.sub_chunk!.index - b.sub_chunk!.index);
+  }
+
+  private chunksOfFile(filePath: string): CodeChunk[] {
+    const version = this.getIndexVersion();
+    if (!this.fileIndex || this.fileIndex.version !== version) {
+      const byFile = new Map<string, CodeChunk[]>();
+      for (const chunk of this.chunks.values()) {
+        if (!byFile.has(chunk.file_path)) byFile.set(chunk.file_path, []);
+        byFile.get(chunk.file_path)!.push(chunk);
+      }
+      this.fileIndex = { version, byFile };
+    }
+    return this.fileIndex.byFile.get(filePath) || [];
+  }
+
   /**
    * Get all chunks
    */